@@ -0,0 +1,177 @@
+import { createItemType, itemTypeToJson, type ItemMetadata } from '../game/item-type';
+import type { MarketParameters } from '../game/market-engine';
+import type { CircuitBreakerConfig, MarketHalt } from '../game/market-halts';
+import { getModelParameters } from '../game/price-models';
+import { marketRegistry } from './markets';
+import type { NewsService } from './news';
+import { marketStream } from './stream';
+import type { MarketState } from './types';
+
+/**
+ * A market as shown to admins, with everything they can change on it
+ */
+export interface MarketOverview {
+  itemId: string;
+  metadata: ItemMetadata;
+  market: MarketState | null;
+  parameters: MarketParameters | null; // null if the worker did not answer
+  halt: MarketHalt | null;
+  circuitBreaker: CircuitBreakerConfig | null;
+}
+
+/**
+ * Lets admins run the markets while the game is live
+ *
+ * Admins can open new markets, halt and resume trading, retune a market's
+ * price model, move its price at once and set circuit breakers that halt it
+ * on large moves. Every change reaches players over the market stream. None
+ * of it is saved: markets opened here, halts, breakers and retuned
+ * parameters are gone after a restart, and orders left on a market that no
+ * longer exists are cancelled then.
+ */
+export class MarketAdminService {
+  /**
+   * @param news - Market news, which layers its shifts on retuned parameters
+   */
+  constructor(private readonly news: NewsService) {}
+
+  /**
+   * Every market with its price model parameters, halt and breaker
+   */
+  async listMarkets(): Promise<MarketOverview[]> {
+    const halts = marketRegistry.getHalts();
+
+    return Promise.all(
+      marketRegistry.listItems().map(async (item) => {
+        const response = await marketRegistry.getPool().getParameters(item.itemId);
+        return {
+          ...itemTypeToJson(item),
+          market: marketRegistry.getSnapshot(item.itemId) ?? null,
+          parameters: response.type === 'parameters' ? response.parameters : null,
+          halt: halts.getHalt(item.itemId) ?? null,
+          circuitBreaker: halts.getCircuitBreaker(item.itemId) ?? null,
+        };
+      })
+    );
+  }
+
+  /**
+   * Open a new market (GBM prices) and announce it to players
+   * @param itemId - ID of the new item
+   * @param metadata - Name, description, starting price and volatility
+   * @returns The market
+   * @throws Error if the item is already traded
+   */
+  async createMarket(itemId: string, metadata: ItemMetadata): Promise<MarketState> {
+    if (marketRegistry.hasItem(itemId)) throw new Error(`Market ${itemId} already exists`);
+
+    await marketRegistry.register(createItemType(itemId, metadata));
+    const market = this.getMarket(itemId);
+    marketStream.publishMarket('init', market);
+    return market;
+  }
+
+  /**
+   * Halt a market: it takes no new orders and stops matching and moving
+   * @param itemId - Market to halt
+   * @param options - Message shown to players, and how long the halt lasts
+   *   (until resumed if omitted)
+   * @returns The halt
+   * @throws Error if the market does not exist
+   */
+  halt(itemId: string, options: { message?: string; durationMs?: number } = {}): MarketHalt {
+    this.getMarket(itemId);
+
+    const halt = marketRegistry.getHalts().halt(itemId, options);
+    marketStream.publishHalt(halt, true);
+    return halt;
+  }
+
+  /**
+   * Resume trading on a halted market
+   * @returns The halt lifted
+   * @throws Error if the market is not halted
+   */
+  resume(itemId: string): MarketHalt {
+    const halt = marketRegistry.getHalts().resume(itemId);
+    if (!halt) throw new Error('Market is not halted');
+
+    marketStream.publishHalt(halt, false);
+    return halt;
+  }
+
+  /**
+   * Announce markets whose timed halt ran out; call on every tick
+   */
+  resumeExpired(): void {
+    for (const halt of marketRegistry.getHalts().resumeExpired()) {
+      marketStream.publishHalt(halt, false);
+    }
+  }
+
+  /**
+   * Retune a market's price model from the next tick on; news still shifts
+   * it while events fade
+   * @returns The parameters after the change, without any news shift
+   * @throws Error if the market does not exist or its price model does not
+   *   use a parameter given
+   */
+  async setParameters(
+    itemId: string,
+    parameters: Partial<MarketParameters>
+  ): Promise<MarketParameters> {
+    this.getMarket(itemId);
+
+    const priceModel = marketRegistry.getItem(itemId)?.metadata.priceModel;
+    const used = getModelParameters(priceModel);
+    const unused = (['drift', 'volatility'] as const).filter(
+      (name) => parameters[name] !== undefined && !used.includes(name)
+    );
+    if (unused.length > 0) {
+      const type = priceModel?.type ?? 'gbm';
+      throw new Error(`The ${type} price model of ${itemId} does not use ${unused.join(' or ')}`);
+    }
+
+    const updated = await this.news.retune(itemId, parameters);
+    marketStream.publishMarket('price', this.getMarket(itemId));
+    return updated;
+  }
+
+  /**
+   * Move a market's price at once; resting stops it crosses fire on the next tick
+   * @param change - Relative move (e.g. -0.1 for a 10% drop)
+   * @returns The market after the move
+   * @throws Error if the market does not exist or the move would wipe out the price
+   */
+  async shock(itemId: string, change: number): Promise<MarketState> {
+    this.getMarket(itemId);
+
+    const market = await marketRegistry.shock(itemId, change);
+    marketStream.publishMarket('price', market);
+    return market;
+  }
+
+  /**
+   * Set or remove a market's circuit breaker
+   * @param config - Breaker settings, or null to remove it
+   * @throws Error if the market does not exist or the settings are invalid
+   */
+  setCircuitBreaker(itemId: string, config: CircuitBreakerConfig | null): void {
+    this.getMarket(itemId);
+    marketRegistry.getHalts().setCircuitBreaker(itemId, config);
+  }
+
+  private getMarket(itemId: string): MarketState {
+    const market = marketRegistry.getSnapshot(itemId);
+    if (!market) throw new Error('Market not found');
+    return market;
+  }
+}
+
+/**
+ * Factory function to create the market admin service
+ * @param news - Market news service
+ */
+export function createMarketAdminService(news: NewsService): MarketAdminService {
+  return new MarketAdminService(news);
+}
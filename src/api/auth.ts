@@ -0,0 +1,206 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+import { Elysia } from 'elysia';
+import type { AccountRecord } from '../game/repository';
+
+export const SESSION_COOKIE = 'session';
+
+export type Account = AccountRecord;
+
+export interface AuthConfig {
+  secret: string; // HMAC key for session tokens
+  tokenTtl: number; // Token lifetime in ms
+  admins: string[]; // Player IDs whose accounts may run admin actions
+}
+
+interface TokenPayload {
+  sub: string; // Player ID
+  exp: number; // Expiry, ms since epoch
+}
+
+/**
+ * Accounts with hashed passwords and signed, expiring session tokens
+ *
+ * Tokens are `<payload>.<signature>`: base64url JSON with the player ID and
+ * expiry, signed with HMAC-SHA256. They are stateless, so any token signed
+ * with the current secret stays valid until it expires.
+ */
+export class AuthService {
+  private accounts = new Map<string, Account>(); // username -> account
+  private byPlayer = new Map<string, Account>(); // playerId -> account
+  private config: AuthConfig;
+
+  /**
+   * @param config - Signing secret (random per process if omitted), token lifetime (default: 24 hours) and admin player IDs (default: none)
+   */
+  constructor(config?: Partial<AuthConfig>) {
+    this.config = {
+      secret: config?.secret || randomBytes(32).toString('hex'),
+      tokenTtl: config?.tokenTtl ?? 24 * 60 * 60 * 1000,
+      admins: config?.admins ?? [],
+    };
+  }
+
+  /**
+   * Create an account for a player
+   * @param username - Unique login name (case-insensitive)
+   * @param password - Plain-text password, stored only as an argon2 hash
+   * @param playerId - Player the account logs in as
+   * @throws Error if the username is taken or the player already has an account
+   */
+  async register(username: string, password: string, playerId: string): Promise<Account> {
+    const key = normalizeUsername(username);
+    if (this.accounts.has(key)) {
+      throw new Error('Username already taken');
+    }
+    if (this.byPlayer.has(playerId)) {
+      throw new Error('Player already has an account');
+    }
+
+    const account: Account = {
+      playerId,
+      username: username.trim(),
+      passwordHash: await Bun.password.hash(password),
+      createdAt: Date.now(),
+    };
+
+    // Check again: another registration may have finished while hashing
+    if (this.accounts.has(key)) {
+      throw new Error('Username already taken');
+    }
+
+    this.accounts.set(key, account);
+    this.byPlayer.set(playerId, account);
+    return account;
+  }
+
+  /**
+   * Check a username and password
+   * @returns The account
+   * @throws Error if either is wrong (without saying which)
+   */
+  async login(username: string, password: string): Promise<Account> {
+    const account = this.accounts.get(normalizeUsername(username));
+    if (!account || !(await Bun.password.verify(password, account.passwordHash))) {
+      throw new Error('Invalid username or password');
+    }
+    return account;
+  }
+
+  /**
+   * Load accounts kept from an earlier run
+   */
+  restore(accounts: Account[]): void {
+    for (const account of accounts) {
+      this.accounts.set(normalizeUsername(account.username), account);
+      this.byPlayer.set(account.playerId, account);
+    }
+  }
+
+  /**
+   * Get the account of a player
+   * @returns Account or undefined for guests and unknown players
+   */
+  getAccount(playerId: string): Account | undefined {
+    return this.byPlayer.get(playerId);
+  }
+
+  /**
+   * Check whether a player's account is an admin (guests never are)
+   *
+   * Goes by player ID rather than username, so nobody can gain admin rights
+   * by registering a listed name before its owner does.
+   */
+  isAdmin(playerId: string): boolean {
+    return this.byPlayer.has(playerId) && this.config.admins.includes(playerId);
+  }
+
+  /**
+   * Issue a session token for a player
+   * @param playerId - Player the token identifies
+   * @param now - Issue time in ms (default: now)
+   */
+  issueToken(playerId: string, now = Date.now()): string {
+    const payload: TokenPayload = { sub: playerId, exp: now + this.config.tokenTtl };
+    const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${encoded}.${this.sign(encoded)}`;
+  }
+
+  /**
+   * Verify a session token
+   * @param token - Token from issueToken
+   * @param now - Current time in ms (default: now)
+   * @returns Player ID, or null if the token is malformed, forged or expired
+   */
+  verifyToken(token: string, now = Date.now()): string | null {
+    const [encoded, signature, ...rest] = token.split('.');
+    if (!encoded || !signature || rest.length > 0) {
+      return null;
+    }
+
+    const expected = Buffer.from(this.sign(encoded));
+    const actual = Buffer.from(signature);
+    if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+      return null;
+    }
+
+    try {
+      const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString()) as TokenPayload;
+      if (typeof payload.sub !== 'string' || !(payload.exp > now)) {
+        return null;
+      }
+      return payload.sub;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Resolve the player behind a request
+   * @param authorization - Authorization header ("Bearer <token>")
+   * @param cookie - Session cookie value
+   * @returns Player ID, or null if the request carries no valid token
+   */
+  resolve(authorization?: string, cookie?: unknown): string | null {
+    const bearer = authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+    const token = bearer ?? (typeof cookie === 'string' ? cookie : undefined);
+    return token ? this.verifyToken(token) : null;
+  }
+
+  getTokenTtl(): number {
+    return this.config.tokenTtl;
+  }
+
+  private sign(data: string): string {
+    return createHmac('sha256', this.config.secret).update(data).digest('base64url');
+  }
+}
+
+function normalizeUsername(username: string): string {
+  return username.trim().toLowerCase();
+}
+
+/**
+ * Factory function to create an auth service
+ */
+export function createAuthService(config?: Partial<AuthConfig>): AuthService {
+  return new AuthService(config);
+}
+
+// Set AUTH_SECRET to keep tokens valid across restarts, and ADMIN_PLAYERS to a
+// comma-separated list of player IDs whose accounts may run admin actions
+export const authService = createAuthService({
+  secret: process.env.AUTH_SECRET,
+  admins: process.env.ADMIN_PLAYERS?.split(',').filter(Boolean),
+});
+
+/**
+ * Resolves the calling player from a bearer token or session cookie
+ *
+ * Routes read `playerId` from the context; it is null for anonymous requests.
+ */
+export const authentication = new Elysia({ name: 'authentication' }).derive(
+  { as: 'scoped' },
+  ({ headers, cookie }) => ({
+    playerId: authService.resolve(headers.authorization, cookie[SESSION_COOKIE]?.value),
+  })
+);
@@ -0,0 +1,142 @@
+import {
+  buildPricePath,
+  runBacktest,
+  type BacktestRecord,
+  type BacktestSpec,
+  type CandleLoader,
+} from '../game/backtest';
+import { compileStrategy, type StrategyLimits } from '../game/strategy-worker';
+import type { Persistence } from './persistence';
+
+const MAX_RUNNING_PER_PLAYER = 1;
+
+/**
+ * A backtest without its script and results, for listings
+ */
+export interface BacktestSummary extends Omit<BacktestRecord, 'source' | 'report'> {
+  finalEquity: number | null;
+  returnPct: number | null;
+}
+
+/**
+ * Runs players' strategies against past or generated prices
+ *
+ * Backtests run in the background in a sandboxed strategy worker of their
+ * own, in a market of their own, so they never touch a player's game
+ * balance. Each is stored when it starts and again with its results when it
+ * ends, to be fetched later. A backtest that was running when the server
+ * stopped is reported as failed.
+ */
+export class BacktestService {
+  private running = new Map<string, string>(); // backtestId -> player, running in this process
+  private nextBacktestId = 1;
+
+  constructor(
+    private readonly persistence: Persistence,
+    private readonly loadCandles: CandleLoader,
+    private readonly limits: Partial<StrategyLimits> = {}
+  ) {}
+
+  /**
+   * Start a backtest for a player
+   * @param playerId - Player running it
+   * @param name - Label shown to the player
+   * @param source - TypeScript or JavaScript strategy source
+   * @param spec - Item, prices and fill settings
+   * @returns The stored backtest, still running
+   * @throws Error if the player already runs a backtest, the script does not
+   *   compile or the prices cannot be built
+   */
+  start(playerId: string, name: string, source: string, spec: BacktestSpec): BacktestRecord {
+    const active = Array.from(this.running.values()).filter((owner) => owner === playerId);
+    if (active.length >= MAX_RUNNING_PER_PLAYER) {
+      throw new Error(`At most ${MAX_RUNNING_PER_PLAYER} backtest can run at once`);
+    }
+
+    // Fail here rather than in the background
+    compileStrategy(source);
+    const path = buildPricePath(spec, this.loadCandles);
+
+    const backtest: BacktestRecord = {
+      backtestId: `backtest-${Date.now()}-${this.nextBacktestId++}`,
+      playerId,
+      name,
+      source,
+      spec,
+      status: 'running',
+      createdAt: Date.now(),
+      completedAt: null,
+      report: null,
+      error: null,
+    };
+    this.persistence.saveBacktest(backtest);
+    this.running.set(backtest.backtestId, playerId);
+
+    runBacktest(source, path, { ...spec.config, itemId: spec.itemId }, this.limits)
+      .then(
+        (report) => this.finish({ ...backtest, status: 'completed', report }),
+        (error) =>
+          this.finish({
+            ...backtest,
+            status: 'failed',
+            error: error instanceof Error ? error.message : String(error),
+          })
+      )
+      .catch((error) => {
+        console.error(`Failed to store backtest ${backtest.backtestId}:`, error);
+      });
+
+    return backtest;
+  }
+
+  /**
+   * A player's backtest with its results
+   */
+  getBacktest(playerId: string, backtestId: string): BacktestRecord | undefined {
+    const backtest = this.persistence.getBacktest(backtestId);
+    if (!backtest || backtest.playerId !== playerId) return undefined;
+    return this.withInterruption(backtest);
+  }
+
+  /**
+   * A player's backtests, newest first
+   */
+  listBacktests(playerId: string): BacktestSummary[] {
+    return this.persistence
+      .loadBacktests(playerId)
+      .map((backtest) => toSummary(this.withInterruption(backtest)));
+  }
+
+  private finish(backtest: BacktestRecord): void {
+    this.running.delete(backtest.backtestId);
+    this.persistence.saveBacktest({ ...backtest, completedAt: Date.now() });
+  }
+
+  /**
+   * Report a backtest left running by an earlier process as failed
+   */
+  private withInterruption(backtest: BacktestRecord): BacktestRecord {
+    if (backtest.status !== 'running' || this.running.has(backtest.backtestId)) return backtest;
+    return { ...backtest, status: 'failed', error: 'Interrupted by a server restart' };
+  }
+}
+
+function toSummary(backtest: BacktestRecord): BacktestSummary {
+  const { source: _source, report, ...summary } = backtest;
+  return {
+    ...summary,
+    finalEquity: report?.finalEquity ?? null,
+    returnPct: report?.returnPct ?? null,
+  };
+}
+
+/**
+ * Factory function to create a backtest service
+ */
+export function createBacktestService(
+  persistence: Persistence,
+  loadCandles: CandleLoader,
+  limits?: Partial<StrategyLimits>
+): BacktestService {
+  return new BacktestService(persistence, loadCandles, limits);
+}
@@ -0,0 +1,134 @@
+import type { ItemType } from '../game/item-type';
+import type { OrderStore } from '../game/order-store';
+import type { PortfolioTracker } from '../game/portfolio-tracker';
+import { DEFAULT_BOTS, createTraderBots, type TraderBot } from '../game/trader-bots';
+import { marketRegistry } from './markets';
+import type { Persistence } from './persistence';
+import { sessionManager } from './sessions';
+import type { OrderInput } from './types';
+
+// Bots keep a few quotes at most; this only bounds the lookup
+const MAX_OPEN_ORDERS = 50;
+
+/**
+ * The order entry points players use
+ */
+export interface OrderRouter {
+  placeOrder(_playerId: string, _itemId: string, _body: OrderInput): Promise<unknown>;
+  cancelOrder(_orderId: string): Promise<boolean>;
+}
+
+/**
+ * Runs trader bots on the main markets
+ *
+ * Each bot is a player of its own with a session funded half in cash and half
+ * in its item, and places and cancels orders through the same router as the
+ * REST API, so its fills settle, stream and persist like a player's. Bots
+ * kept from an earlier run carry on with what they hold. Call run() about
+ * once a second to give every bot a turn.
+ */
+export class BotService {
+  private bots: TraderBot[] = [];
+  private running = false;
+
+  constructor(
+    private readonly orderStore: OrderStore,
+    private readonly portfolios: PortfolioTracker,
+    private readonly persistence: Persistence,
+    private readonly router: OrderRouter
+  ) {}
+
+  /**
+   * Create the bots of each item and fund the new ones
+   * @param items - Items to trade; their metadata picks the bots (DEFAULT_BOTS if unset)
+   * @param seed - Base seed for the bots' decisions (random if omitted)
+   * @throws Error if an item's bot config is invalid
+   */
+  start(items: ItemType[], seed?: number): void {
+    for (const item of items) {
+      const price =
+        marketRegistry.getSnapshot(item.itemId)?.currentPrice ?? item.metadata.initialPrice;
+
+      for (const bot of createTraderBots(item.itemId, item.metadata.bots ?? DEFAULT_BOTS, seed)) {
+        if (!sessionManager.getSession(bot.botId)) this.fund(bot, price);
+        this.bots.push(bot);
+      }
+    }
+  }
+
+  /**
+   * Give every bot a turn
+   */
+  async run(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      for (const bot of this.bots) {
+        try {
+          await this.turn(bot);
+        } catch (error) {
+          console.error(`Bot ${bot.botId} failed:`, error);
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private fund(bot: TraderBot, price: number): void {
+    const cash = bot.config.capital / 2;
+    const quantity = Math.floor(cash / price);
+
+    sessionManager.createSession(bot.botId, {
+      balance: cash,
+      inventory: new Map([[bot.itemId, quantity]]),
+    });
+    this.portfolios.open(bot.botId, cash + quantity * price, {
+      [bot.itemId]: { quantity, cost: quantity * price },
+    });
+    this.persistence.markPlayer(bot.botId);
+  }
+
+  private async turn(bot: TraderBot): Promise<void> {
+    const market = marketRegistry.getSnapshot(bot.itemId);
+    const session = sessionManager.getSession(bot.botId);
+    if (!market || !session) return;
+
+    const { orders } = this.orderStore.getPlayerOrders(bot.botId, {
+      status: 'open',
+      limit: MAX_OPEN_ORDERS,
+    });
+    const decision = bot.decide({
+      price: market.currentPrice,
+      cash: session.getAvailableBalance(),
+      inventory: session.getAvailableInventory(bot.itemId),
+      openOrders: orders.reverse().map((record) => ({
+        orderId: record.id,
+        side: record.side,
+        price: record.price ?? market.currentPrice,
+        quantity: record.remainingQuantity,
+      })),
+    });
+
+    // Rejections (say, a quote the bot can no longer cover) just skip the order
+    for (const orderId of decision.cancel) {
+      await this.router.cancelOrder(orderId);
+    }
+    for (const order of decision.place) {
+      await this.router.placeOrder(bot.botId, bot.itemId, order);
+    }
+  }
+}
+
+/**
+ * Factory function to create a bot service
+ */
+export function createBotService(
+  orderStore: OrderStore,
+  portfolios: PortfolioTracker,
+  persistence: Persistence,
+  router: OrderRouter
+): BotService {
+  return new BotService(orderStore, portfolios, persistence, router);
+}
@@ -0,0 +1,234 @@
+import {
+  CompetitionSchedule,
+  accountPlayerId,
+  parseRoundItemId,
+  roundItemId,
+  roundPlayerId,
+  type CompetitionRound,
+  type RoundConfig,
+} from '../game/competition';
+import { createItemType } from '../game/item-type';
+import type { OrderStore } from '../game/order-store';
+import type { LeaderboardEntry, PortfolioTracker, PositionCost } from '../game/portfolio-tracker';
+import { deriveSeed } from '../game/random';
+import type { SettlementEngine } from '../game/settlement';
+import { marketRegistry } from './markets';
+import type { Persistence } from './persistence';
+import { sessionManager } from './sessions';
+import { marketStream } from './stream';
+
+/**
+ * Runs competition rounds next to the main game
+ *
+ * Starting a round spawns one market per allowed item, seeded from the
+ * round's seed. Ending it cancels the orders left in those markets, freezes
+ * the ranking at their last prices and forgets the markets before stopping
+ * their workers, so no tick reaches a market whose worker is gone. Call update() about once a second to start and end rounds on
+ * time.
+ */
+export class CompetitionService {
+  private updating = false;
+
+  constructor(
+    private readonly schedule: CompetitionSchedule,
+    private readonly settlement: SettlementEngine,
+    private readonly orderStore: OrderStore,
+    private readonly portfolios: PortfolioTracker,
+    private readonly persistence: Persistence
+  ) {}
+
+  /**
+   * Load rounds kept from an earlier run
+   */
+  restore(rounds: CompetitionRound[]): void {
+    for (const round of rounds) {
+      this.schedule.restore(round);
+    }
+  }
+
+  /**
+   * Reopen the markets of running rounds (after restore, before open orders
+   * are put back in their books)
+   */
+  async resume(): Promise<void> {
+    for (const round of this.schedule.list()) {
+      if (round.status === 'running') await this.openMarkets(round);
+    }
+  }
+
+  /**
+   * Define a round
+   * @throws Error if an item is unknown or the settings are inconsistent
+   */
+  create(config: RoundConfig, now = Date.now()): CompetitionRound {
+    for (const itemId of config.items) {
+      if (!marketRegistry.hasItem(itemId) || parseRoundItemId(itemId)) {
+        throw new Error(`Unknown item ${itemId}`);
+      }
+    }
+
+    const round = this.schedule.create(config, now);
+    this.persistence.saveRound(round);
+    return round;
+  }
+
+  /**
+   * Add a player to a round with the round's starting cash and inventory
+   * @returns The player ID the player trades the round as
+   * @throws Error if the round is unknown, over, or already joined
+   */
+  join(roundId: string, playerId: string): string {
+    const round = this.schedule.join(roundId, playerId);
+    const traderId = roundPlayerId(roundId, playerId);
+
+    // Round inventory is held in the round's markets, which open at the
+    // items' initial prices
+    const inventory = new Map<string, number>();
+    const positions: Record<string, PositionCost> = {};
+    let startingValue = round.startingCash;
+    for (const [itemId, quantity] of Object.entries(round.startingInventory)) {
+      const marketId = roundItemId(roundId, itemId);
+      const cost = quantity * (marketRegistry.getItem(itemId)?.metadata.initialPrice ?? 0);
+      inventory.set(marketId, quantity);
+      positions[marketId] = { quantity, cost };
+      startingValue += cost;
+    }
+
+    sessionManager.createSession(traderId, { balance: round.startingCash, inventory });
+    this.portfolios.open(traderId, startingValue, positions);
+
+    this.persistence.markPlayer(traderId);
+    this.persistence.saveRound(round);
+    return traderId;
+  }
+
+  /**
+   * Get the player ID an order on a market is placed as
+   * @param playerId - Calling player
+   * @param marketId - Market the order is for
+   * @returns The round player ID for round markets, the player ID otherwise
+   * @throws Error if the player is not in the round or it is not trading
+   */
+  resolveTrader(playerId: string, marketId: string, now = Date.now()): string {
+    const market = parseRoundItemId(marketId);
+    if (!market) return playerId;
+
+    if (!this.schedule.isParticipant(market.roundId, playerId)) {
+      throw new Error('Not a participant in this round');
+    }
+    if (!this.schedule.isTrading(market.roundId, now)) {
+      throw new Error('Round is not trading');
+    }
+    return roundPlayerId(market.roundId, playerId);
+  }
+
+  /**
+   * Start and end rounds whose time has come
+   */
+  async update(now = Date.now()): Promise<void> {
+    if (this.updating) return;
+    this.updating = true;
+
+    try {
+      for (const round of this.schedule.getStarting(now)) {
+        await this.start(round);
+      }
+      for (const round of this.schedule.getEnding(now)) {
+        await this.end(round);
+      }
+    } finally {
+      this.updating = false;
+    }
+  }
+
+  getRound(roundId: string): CompetitionRound | undefined {
+    return this.schedule.get(roundId);
+  }
+
+  /**
+   * All rounds, newest first
+   */
+  listRounds(): CompetitionRound[] {
+    return this.schedule.list();
+  }
+
+  /**
+   * Ranking of a round: frozen once it ended, live before
+   */
+  getStandings(roundId: string): LeaderboardEntry[] {
+    const round = this.schedule.get(roundId);
+    if (!round) return [];
+    return round.standings ?? this.rank(round);
+  }
+
+  private async start(round: CompetitionRound): Promise<void> {
+    await this.openMarkets(round);
+    this.schedule.markStarted(round.roundId);
+    this.persistence.saveRound(round);
+    console.log(`Competition ${round.roundId} started`);
+  }
+
+  private async end(round: CompetitionRound): Promise<void> {
+    const marketIds = round.items.map((itemId) => roundItemId(round.roundId, itemId));
+
+    // Nothing below awaits until the markets are forgotten, so no tick trades
+    // between cancelling their orders and taking the standings
+    for (const record of this.orderStore.getOpenOrders()) {
+      if (!marketIds.includes(record.itemId)) continue;
+
+      this.settlement.release(record.id);
+      this.orderStore.cancel(record.id);
+      const cancelled = this.orderStore.get(record.id);
+      if (cancelled) {
+        marketStream.publishOrderEvent('cancelled', cancelled, { reason: 'round-ended' });
+      }
+    }
+
+    // Rank at the last prices, before the markets and their snapshots go
+    this.schedule.finish(round.roundId, this.rank(round));
+    for (const marketId of marketIds) {
+      marketRegistry.unregister(marketId);
+    }
+    for (const marketId of marketIds) {
+      await marketRegistry.getPool().removeWorker(marketId);
+    }
+
+    this.persistence.saveRound(round);
+    console.log(`Competition ${round.roundId} ended`);
+  }
+
+  private async openMarkets(round: CompetitionRound): Promise<void> {
+    for (const itemId of round.items) {
+      const item = marketRegistry.getItem(itemId);
+      if (!item) {
+        console.error(`Competition ${round.roundId} item ${itemId} is not traded`);
+        continue;
+      }
+
+      await marketRegistry.register(
+        createItemType(roundItemId(round.roundId, itemId), item.metadata),
+        round.seed !== undefined ? deriveSeed(round.seed, itemId) : undefined
+      );
+    }
+  }
+
+  private rank(round: CompetitionRound): LeaderboardEntry[] {
+    const traderIds = round.participants.map((playerId) => roundPlayerId(round.roundId, playerId));
+    return this.portfolios
+      .getLeaderboard(traderIds)
+      .map((entry) => ({ ...entry, playerId: accountPlayerId(entry.playerId) }));
+  }
+}
+
+/**
+ * Factory function to create a competition service
+ */
+export function createCompetitionService(
+  schedule: CompetitionSchedule,
+  settlement: SettlementEngine,
+  orderStore: OrderStore,
+  portfolios: PortfolioTracker,
+  persistence: Persistence
+): CompetitionService {
+  return new CompetitionService(schedule, settlement, orderStore, portfolios, persistence);
+}
@@ -1,86 +1,1255 @@
-import { Elysia, t } from 'elysia';
-import { MarketEngine } from '../game/market-engine';
-import { OrderBook } from '../game/order-book';
-import { sessionManager } from './sessions';
-import { OrderSide, OrderType } from '../game/types';
+import { Elysia, getSchemaValidator, t, type Cookie } from 'elysia';
+import type { BacktestSpec } from '../game/backtest';
+import {
+  accountPlayerId,
+  createCompetitionSchedule,
+  isRoundPlayerId,
+  parseRoundItemId,
+  roundItemId,
+  type CompetitionRound,
+} from '../game/competition';
+import { itemTypeToJson } from '../game/item-type';
+import type { OrderExpiry, SelfTradeReduction } from '../game/order-book';
+import type { PlayerSession } from '../game/player-session';
+import { OrderStore } from '../game/order-store';
+import {
+  createPortfolioTracker,
+  type LeaderboardEntry,
+  type LeaderboardSort,
+} from '../game/portfolio-tracker';
+import { randomSeed } from '../game/random';
+import { SettlementEngine } from '../game/settlement';
+import { createSqliteRepository } from '../game/sqlite-repository';
+import { isBotPlayerId } from '../game/trader-bots';
+import { createTradingSession } from '../game/trading-session';
+import type { TriggerEvent } from '../game/trigger-book';
+import { createMarketAdminService } from './admin';
+import { SESSION_COOKIE, authService, authentication } from './auth';
+import { createBacktestService } from './backtests';
+import { createBotService } from './bots';
+import { createCompetitionService } from './competitions';
+import { marketRegistry } from './markets';
+import { createNewsService } from './news';
+import { createPersistence } from './persistence';
+import { STARTING_BALANCE, sessionManager } from './sessions';
+import { createStrategyService } from './strategies';
+import { marketStream } from './stream';
+import type { BacktestInput, LeaderboardRow, MarketState, OrderInput } from './types';
+import { Order, OrderSide, OrderType, Trade } from '../game/types';
 
-const marketEngine = new MarketEngine('BTC', 50000);
-const orderBook = new OrderBook();
+const settlement = new SettlementEngine((playerId) => sessionManager.getSession(playerId));
+const orderStore = new OrderStore();
+let nextOrderId = 1;
+
+// Players are valued at the latest tick price of each market
+const portfolios = createPortfolioTracker(
+  (playerId) => sessionManager.getSession(playerId),
+  (itemId) => marketRegistry.getSnapshot(itemId)?.currentPrice,
+  { startingValue: STARTING_BALANCE }
+);
+
+// Set DATABASE_PATH to choose the file game state is kept in between restarts,
+// and ORDER_RETENTION_DAYS how long finished orders stay in it
+const persistence = createPersistence(
+  createSqliteRepository(process.env.DATABASE_PATH ?? 'game.sqlite'),
+  orderStore,
+  settlement,
+  portfolios,
+  process.env.ORDER_RETENTION_DAYS
+    ? Number(process.env.ORDER_RETENTION_DAYS) * 24 * 60 * 60 * 1000
+    : undefined
+);
+
+const competitions = createCompetitionService(
+  createCompetitionSchedule(),
+  settlement,
+  orderStore,
+  portfolios,
+  persistence
+);
+
+// Bots trade through the same entry points as the REST API
+const bots = createBotService(orderStore, portfolios, persistence, { placeOrder, cancelOrder });
+
+// Strategies trade as their owner, like the player's own requests
+const strategies = createStrategyService({
+  placeOrder: placeStrategyOrder,
+  cancelOrder: async (playerId, orderId) =>
+    isOwnOrder(orderId, playerId) && (await cancelOrder(orderId)),
+});
+
+// Backtests replay candles kept by the markets, or generate their own prices
+const backtests = createBacktestService(persistence, (itemId, interval) =>
+  marketRegistry.getCandles().getCandles(itemId, interval)
+);
+
+// Market news moves prices through the same worker messages as admins
+const news = createNewsService();
+
+// Admins run the live markets; see MarketAdminService for what is not saved
+const marketAdmin = createMarketAdminService(news);
+
+// Day orders expire when the current game session ends
+const tradingSession = createTradingSession(
+  process.env.TRADING_SESSION_MINUTES
+    ? { length: Number(process.env.TRADING_SESSION_MINUTES) * 60 * 1000 }
+    : undefined
+);
+
+/**
+ * Settle executed trades, record the fills on their orders, portfolios and
+ * candles, and stream them
+ */
+export function handleTrades(trades: Trade[]): void {
+  portfolios.recordFills(trades, settlement.settleAll(trades));
+  persistence.recordTrades(trades);
+
+  strategies.publishTrades(trades);
+
+  for (const trade of trades) {
+    orderStore.applyTrade(trade);
+    marketStream.publishTrade(trade);
+
+    const updates = marketRegistry.getCandles().recordTrade(trade);
+    persistence.recordCandles(updates);
+    for (const update of updates) {
+      marketStream.publishCandle(update);
+    }
+
+    for (const orderId of [trade.buyOrderId, trade.sellOrderId]) {
+      const record = orderStore.get(orderId);
+      if (!record) continue;
+      const event = record.status === 'filled' ? 'filled' : 'partially-filled';
+      marketStream.publishOrderEvent(event, record, { tradeId: trade.id });
+      strategies.publishFill(record);
+    }
+  }
+}
+
+/**
+ * Record stop orders that fired and tell their owners
+ */
+export function handleTriggers(events: TriggerEvent[]): void {
+  for (const event of events) {
+    if (!orderStore.markTriggered(event)) continue;
+
+    const record = orderStore.get(event.orderId);
+    if (record) {
+      marketStream.publishOrderEvent('triggered', record, { triggerPrice: event.triggerPrice });
+    }
+  }
+}
+
+/**
+ * Release what self-trade prevention took off orders and tell their owners
+ */
+export function handleSelfTrades(reductions: SelfTradeReduction[]): void {
+  for (const reduction of reductions) {
+    settlement.reduce(reduction.orderId, reduction.quantity);
+    if (!orderStore.reduce(reduction.orderId, reduction.quantity)) continue;
+
+    const record = orderStore.get(reduction.orderId);
+    if (record) {
+      const event = reduction.remainingQuantity === 0 ? 'cancelled' : 'reduced';
+      marketStream.publishOrderEvent(event, record, { reason: 'self-trade' });
+    }
+  }
+}
+
+/**
+ * Release the reservations of orders that expired and tell their owners
+ */
+export function handleExpired(expiries: OrderExpiry[]): void {
+  for (const expiry of expiries) {
+    settlement.release(expiry.orderId);
+    if (!orderStore.expire(expiry.orderId)) continue;
+
+    const record = orderStore.get(expiry.orderId);
+    if (record) {
+      marketStream.publishOrderEvent('expired', record, { reason: expiry.timeInForce });
+    }
+  }
+}
+
+const LEADERBOARD_SORTS: LeaderboardSort[] = ['net-worth', 'return', 'risk-adjusted', 'trades'];
+const LIVE_LEADERBOARD_SIZE = 10;
+
+/**
+ * Add account names to leaderboard entries for display
+ */
+function withUsernames(entries: LeaderboardEntry[]): LeaderboardRow[] {
+  return entries.map((entry) => ({
+    ...entry,
+    username: authService.getAccount(entry.playerId)?.username ?? null,
+  }));
+}
+
+/**
+ * Rank every main game player (competition rounds rank separately, bots not at all)
+ */
+function getLeaderboard(sort: LeaderboardSort, limit: number): LeaderboardRow[] {
+  const playerIds = sessionManager
+    .listPlayerIds()
+    .filter((id) => !isRoundPlayerId(id) && !isBotPlayerId(id));
+  return withUsernames(portfolios.getLeaderboard(playerIds, sort, limit));
+}
+
+/**
+ * Sample every player's net worth and stream the top of each ranking
+ *
+ * Call once a second: risk-adjusted returns are measured between calls.
+ */
+export function refreshLeaderboard(): void {
+  portfolios.sample(sessionManager.listPlayerIds());
+  for (const sort of LEADERBOARD_SORTS) {
+    marketStream.publishLeaderboard(sort, getLeaderboard(sort, LIVE_LEADERBOARD_SIZE));
+  }
+}
+
+/**
+ * Check that a player ID is the calling player or one of their competition
+ * round player IDs
+ */
+function isOwnPlayer(targetId: string, playerId: string | null): boolean {
+  return playerId !== null && accountPlayerId(targetId) === playerId;
+}
+
+/**
+ * Check that an order belongs to the calling player (in any round)
+ *
+ * Other players' orders are reported exactly like missing ones.
+ */
+function isOwnOrder(orderId: string, playerId: string | null): boolean {
+  const record = orderStore.get(orderId);
+  return record !== undefined && isOwnPlayer(record.playerId, playerId);
+}
+
+/**
+ * Round as listed to players, with its markets
+ */
+function roundToJson(round: CompetitionRound, playerId: string | null) {
+  const { participants, standings: _standings, ...config } = round;
+  return {
+    ...config,
+    participantCount: participants.length,
+    joined: playerId !== null && participants.includes(playerId),
+    markets: round.items.map((itemId) => {
+      const marketId = roundItemId(round.roundId, itemId);
+      return {
+        itemId: marketId,
+        baseItemId: itemId,
+        market: marketRegistry.getSnapshot(marketId) ?? null,
+      };
+    }),
+  };
+}
+
+/**
+ * Issue a session token for a player, as a bearer token and a cookie
+ */
+function startSession(playerId: string, cookie: Record<string, Cookie<unknown>>) {
+  const token = authService.issueToken(playerId);
+  cookie[SESSION_COOKIE].set({
+    value: token,
+    httpOnly: true,
+    sameSite: 'lax',
+    path: '/',
+    maxAge: Math.floor(authService.getTokenTtl() / 1000),
+  });
+  return { playerId, token };
+}
+
+// Market-like buys may fill up to this far above where they are expected to
+const MARKET_BUY_TOLERANCE = 0.05;
+
+/**
+ * Price to reserve funds at for a new order
+ *
+ * Market-like orders have no limit, so buys reserve at the worst price they
+ * may pay: MARKET_BUY_TOLERANCE above the best estimate of where they will
+ * fill (the stop price, the initial trailing stop, or the market price or
+ * best ask, whichever is higher). The book never fills them above that
+ * price, and settlement releases whatever a fill at a better price leaves.
+ */
+function reservationPrice(body: OrderInput, market: MarketState): number {
+  if (body.price) return body.price;
+
+  const { currentPrice } = market;
+  if (body.side === 'sell') {
+    return body.type === 'stop' ? (body.stopPrice ?? currentPrice) : currentPrice;
+  }
+
+  let expected: number;
+  switch (body.type) {
+    case 'stop':
+      // A buy stop fills at or above its stop price, never below the market
+      expected = Math.max(body.stopPrice ?? 0, currentPrice);
+      break;
+    case 'trailing-stop':
+      expected = currentPrice + (body.trailingOffset ?? 0);
+      break;
+    default:
+      expected = Math.max(currentPrice, market.bestAsk ?? currentPrice);
+  }
+  return expected * (1 + MARKET_BUY_TOLERANCE);
+}
+
+/**
+ * Check that an order carries the prices its type needs
+ * @returns Error message, or null if valid
+ */
+function validateOrderInput(body: OrderInput): string | null {
+  switch (body.type) {
+    case 'limit':
+      if (!body.price) return 'Limit orders require a price';
+      break;
+    case 'stop':
+      if (!body.stopPrice) return 'Stop orders require a stop price';
+      break;
+    case 'stop-limit':
+      if (!body.stopPrice || !body.price) {
+        return 'Stop-limit orders require a stop price and a limit price';
+      }
+      break;
+    case 'trailing-stop':
+      if (!body.trailingOffset) return 'Trailing-stop orders require a trailing offset';
+      break;
+  }
+
+  if (body.timeInForce === 'gtd') {
+    if (!body.expiresAt) return 'Good-till-date orders require an expiry time';
+    if (body.expiresAt <= Date.now()) return 'Expiry time must be in the future';
+  } else if (body.expiresAt !== undefined) {
+    return 'Only good-till-date orders take an expiry time';
+  }
+
+  if (body.displayQuantity !== undefined || body.hidden) {
+    if (body.type !== 'limit' && body.type !== 'stop-limit') {
+      return 'Only limit orders can be iceberg or hidden';
+    }
+    if (body.displayQuantity !== undefined && body.hidden) {
+      return 'Orders cannot be both iceberg and hidden';
+    }
+    if (body.displayQuantity !== undefined && body.displayQuantity > body.quantity) {
+      return 'Display quantity cannot exceed the order quantity';
+    }
+  }
+
+  if (body.postOnly) {
+    if (body.type !== 'limit') return 'Only limit orders can be post-only';
+    if (body.timeInForce === 'ioc' || body.timeInForce === 'fok') {
+      return 'Post-only orders cannot be ioc or fok';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check that a reduce-only order cannot grow the player's position
+ *
+ * Positions are the player's inventory of the item. Sells already reserve the
+ * items they sell, so a reduce-only order that fits now keeps fitting while
+ * it rests.
+ * @returns Error message, or null if valid
+ */
+function validateReduceOnly(
+  body: OrderInput,
+  session: PlayerSession,
+  itemId: string
+): string | null {
+  if (!body.reduceOnly) return null;
+
+  const position = session.getInventory(itemId);
+  const reducible = body.side === 'sell' ? position : -position;
+  if (reducible < body.quantity) {
+    return 'Reduce-only order would increase the position';
+  }
+
+  return null;
+}
+
+/**
+ * Check, reserve and submit an order, then settle what it filled on entry
+ *
+ * Players and trader bots both trade through here.
+ * @param playerId - Player the order is placed as
+ * @param itemId - Market the order is for
+ * @param body - Order details
+ * @returns The order with its fills, or an error
+ */
+export async function placeOrder(playerId: string, itemId: string, body: OrderInput) {
+  const session = sessionManager.getSession(playerId);
+  if (!session) return { error: 'Invalid session' };
+
+  const market = marketRegistry.getSnapshot(itemId);
+  if (!market) return { error: 'Market not found' };
+
+  const orderSide: OrderSide = body.side === 'buy' ? 'buy' : 'sell';
+  const orderType: OrderType = body.type;
+  const price = reservationPrice(body, market);
+  const cost = orderSide === 'buy' ? price * body.quantity : 0;
+
+  const order: Order = {
+    id: `order-${Date.now()}-${nextOrderId++}`,
+    itemId,
+    side: orderSide,
+    type: orderType,
+    price,
+    stopPrice: body.stopPrice,
+    trailingOffset: body.trailingOffset,
+    timeInForce: body.timeInForce,
+    expiresAt: body.timeInForce === 'day' ? tradingSession.getSessionEnd() : body.expiresAt,
+    displayQuantity: body.displayQuantity,
+    hidden: body.hidden,
+    selfTradePrevention: body.selfTradePrevention,
+    postOnly: body.postOnly,
+    reduceOnly: body.reduceOnly,
+    quantity: body.quantity,
+    playerId,
+    timestamp: Date.now(),
+    status: 'pending',
+  };
+
+  const reject = (reason: string) => {
+    marketStream.publishOrderEvent('rejected', order, { reason });
+    return { error: reason };
+  };
+
+  // Halted markets neither take nor match orders; cancels still go through
+  if (marketRegistry.getHalts().isHalted(itemId)) {
+    return reject('Market is halted');
+  }
+
+  const invalid = validateOrderInput(body) ?? validateReduceOnly(body, session, itemId);
+  if (invalid) {
+    return reject(invalid);
+  }
+
+  if (!session.hasAvailableBalance(cost)) {
+    return reject('Insufficient balance');
+  }
+
+  if (orderSide === 'sell' && !session.hasAvailableInventory(itemId, body.quantity)) {
+    return reject('Insufficient inventory');
+  }
+
+  settlement.hold(order);
+  orderStore.add(order);
+
+  const response = await marketRegistry.getPool().submitOrder(order);
+  if (response.type !== 'order-submitted') {
+    settlement.release(order.id);
+    orderStore.remove(order.id);
+    return reject(response.type === 'error' ? response.message : 'Order rejected');
+  }
+
+  const accepted = orderStore.get(order.id);
+  if (accepted) marketStream.publishOrderEvent('accepted', accepted);
+
+  // Fills happen on entry, so the response already carries them
+  handleTriggers(response.triggered);
+  handleTrades(response.trades);
+  handleSelfTrades(response.selfTrades);
+  handleExpired(response.expired);
+
+  return orderStore.toResult(order.id, response.trades);
+}
+
+/**
+ * Place an order as a player, on a main market or as their round player ID
+ * on a competition market
+ */
+async function submitOrder(playerId: string, itemId: string, body: OrderInput) {
+  let traderId: string;
+  try {
+    traderId = competitions.resolveTrader(playerId, itemId);
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : String(error) };
+  }
+
+  return placeOrder(traderId, itemId, body);
+}
+
+/**
+ * Cancel a resting order and release what it held
+ * @returns Whether the order was cancelled
+ */
+export async function cancelOrder(orderId: string): Promise<boolean> {
+  const itemId = settlement.getOrderItem(orderId);
+  if (!itemId) return false;
+
+  const response = await marketRegistry.getPool().cancelOrder(itemId, orderId);
+  if (response.type !== 'order-cancelled') return false;
+
+  settlement.release(orderId);
+  orderStore.cancel(orderId);
+
+  const cancelled = orderStore.get(orderId);
+  if (cancelled) marketStream.publishOrderEvent('cancelled', cancelled);
+  return true;
+}
 
 const OrderModel = {
   body: t.Object({
     side: t.Union([t.Literal('buy'), t.Literal('sell')]),
-    type: t.Union([t.Literal('limit'), t.Literal('market')]),
-    price: t.Optional(t.Number()),
+    type: t.Union([
+      t.Literal('limit'),
+      t.Literal('market'),
+      t.Literal('stop'),
+      t.Literal('stop-limit'),
+      t.Literal('trailing-stop'),
+    ]),
+    price: t.Optional(t.Number({ exclusiveMinimum: 0 })),
+    stopPrice: t.Optional(t.Number({ exclusiveMinimum: 0 })),
+    trailingOffset: t.Optional(t.Number({ exclusiveMinimum: 0 })),
+    timeInForce: t.Optional(
+      t.Union([
+        t.Literal('gtc'),
+        t.Literal('ioc'),
+        t.Literal('fok'),
+        t.Literal('gtd'),
+        t.Literal('day'),
+      ])
+    ),
+    expiresAt: t.Optional(t.Number()),
+    displayQuantity: t.Optional(t.Number({ exclusiveMinimum: 0 })),
+    hidden: t.Optional(t.Boolean()),
+    selfTradePrevention: t.Optional(
+      t.Union([
+        t.Literal('cancel-newest'),
+        t.Literal('cancel-oldest'),
+        t.Literal('cancel-both'),
+        t.Literal('decrement'),
+      ])
+    ),
+    postOnly: t.Optional(t.Boolean()),
+    reduceOnly: t.Optional(t.Boolean()),
     quantity: t.Number({ minimum: 1 }),
   }),
 };
 
+const orderValidator = getSchemaValidator(OrderModel.body);
+
+/**
+ * Place an order a strategy sent, checked against the REST API's order schema
+ */
+async function placeStrategyOrder(playerId: string, itemId: string, order: unknown) {
+  if (!orderValidator?.Check(order)) {
+    const [issue] = orderValidator?.Errors(order) ?? [];
+    return { error: issue ? `Invalid order: ${issue.path} ${issue.message}` : 'Invalid order' };
+  }
+  return submitOrder(playerId, itemId, order);
+}
+
+/**
+ * Turn a backtest request into a stored spec; generated paths follow the
+ * item's price model from its current price unless told otherwise, and
+ * always get a seed so the run can be repeated
+ * @returns The spec, or an error message
+ */
+function toBacktestSpec(body: BacktestInput): BacktestSpec | string {
+  const item = marketRegistry.getItem(body.itemId);
+  const market = marketRegistry.getSnapshot(body.itemId);
+  if (!item || !market) return 'Market not found';
+
+  // Fields left out keep the backtest defaults
+  const config = {
+    ...(body.initialCash !== undefined && { initialCash: body.initialCash }),
+    ...(body.initialInventory !== undefined && { initialInventory: body.initialInventory }),
+    ...(body.slippage !== undefined && { slippage: body.slippage }),
+  };
+  if (body.prices.type === 'candles') {
+    return { itemId: body.itemId, prices: body.prices, config };
+  }
+
+  const { steps, seed, initialPrice, volatility } = body.prices;
+  return {
+    itemId: body.itemId,
+    prices: {
+      type: 'generated',
+      steps,
+      seed: seed ?? randomSeed(),
+      initialPrice: initialPrice ?? market.currentPrice,
+      engine: { volatility: volatility ?? market.volatility, priceModel: item.metadata.priceModel },
+    },
+    config: { ...config, volatility: volatility ?? market.volatility },
+  };
+}
+
+const CredentialsModel = {
+  body: t.Object({
+    username: t.String({ minLength: 3, maxLength: 32, pattern: '^[A-Za-z0-9_.-]+$' }),
+    password: t.String({ minLength: 8, maxLength: 256 }),
+  }),
+};
+
+const AmendModel = {
+  body: t.Object({
+    price: t.Optional(t.Number({ exclusiveMinimum: 0 })),
+    quantity: t.Optional(t.Number({ minimum: 1 })), // New open quantity
+  }),
+};
+
+const OrderHistoryModel = {
+  query: t.Object({
+    status: t.Optional(
+      t.Union([
+        t.Literal('open'),
+        t.Literal('pending'),
+        t.Literal('partial'),
+        t.Literal('filled'),
+        t.Literal('cancelled'),
+        t.Literal('expired'),
+      ])
+    ),
+    offset: t.Optional(t.Numeric({ minimum: 0 })),
+    limit: t.Optional(t.Numeric({ minimum: 1 })),
+  }),
+};
+
+const DEFAULT_DEPTH_LEVELS = 20;
+
+const DepthModel = {
+  query: t.Object({
+    levels: t.Optional(t.Numeric({ minimum: 1, maximum: 500 })),
+  }),
+};
+
+const CandleModel = {
+  query: t.Object({
+    interval: t.Optional(
+      t.Union([t.Literal('1s'), t.Literal('1m'), t.Literal('5m'), t.Literal('1h')])
+    ),
+    from: t.Optional(t.Numeric({ minimum: 0 })),
+    to: t.Optional(t.Numeric({ minimum: 0 })),
+    limit: t.Optional(t.Numeric({ minimum: 1, maximum: 1000 })),
+  }),
+};
+
+const DEFAULT_LEADERBOARD_SIZE = 50;
+
+const LeaderboardModel = {
+  query: t.Object({
+    sort: t.Optional(
+      t.Union([
+        t.Literal('net-worth'),
+        t.Literal('return'),
+        t.Literal('risk-adjusted'),
+        t.Literal('trades'),
+      ])
+    ),
+    limit: t.Optional(t.Numeric({ minimum: 1, maximum: 500 })),
+  }),
+};
+
+const RoundModel = {
+  body: t.Object({
+    name: t.String({ minLength: 1, maxLength: 100 }),
+    startTime: t.Number({ minimum: 0 }),
+    endTime: t.Number({ minimum: 0 }),
+    items: t.Array(t.String(), { minItems: 1 }),
+    startingCash: t.Number({ minimum: 0 }),
+    startingInventory: t.Optional(t.Record(t.String(), t.Integer({ minimum: 0 }))),
+    seed: t.Optional(t.Integer()),
+  }),
+};
+
+const StrategyModel = {
+  body: t.Object({
+    name: t.String({ minLength: 1, maxLength: 100 }),
+    source: t.String({ minLength: 1, maxLength: 100_000 }),
+  }),
+};
+
+const BacktestModel = {
+  body: t.Object({
+    name: t.String({ minLength: 1, maxLength: 100 }),
+    source: t.String({ minLength: 1, maxLength: 100_000 }),
+    itemId: t.String(),
+    prices: t.Union([
+      t.Object({
+        type: t.Literal('candles'),
+        interval: t.Union([t.Literal('1s'), t.Literal('1m'), t.Literal('5m'), t.Literal('1h')]),
+        from: t.Optional(t.Number()),
+        to: t.Optional(t.Number()),
+      }),
+      t.Object({
+        type: t.Literal('generated'),
+        steps: t.Integer({ minimum: 2, maximum: 10_000 }),
+        seed: t.Optional(t.Integer()),
+        initialPrice: t.Optional(t.Number({ exclusiveMinimum: 0 })),
+        volatility: t.Optional(t.Number({ exclusiveMinimum: 0 })),
+      }),
+    ]),
+    initialCash: t.Optional(t.Number({ minimum: 0 })),
+    initialInventory: t.Optional(t.Integer({ minimum: 0 })),
+    slippage: t.Optional(t.Number({ exclusiveMinimum: 0, exclusiveMaximum: 1 })),
+  }),
+};
+
+const NewMarketModel = {
+  body: t.Object({
+    itemId: t.String({ pattern: '^[A-Z0-9_-]{1,16}$' }),
+    name: t.String({ minLength: 1, maxLength: 100 }),
+    description: t.Optional(t.String({ maxLength: 500 })),
+    sector: t.Optional(t.String({ minLength: 1, maxLength: 50 })),
+    initialPrice: t.Number({ exclusiveMinimum: 0 }),
+    volatility: t.Number({ exclusiveMinimum: 0 }),
+  }),
+};
+
+const NewsModel = {
+  body: t.Object({
+    kind: t.Union([t.Literal('earnings'), t.Literal('supply-shock'), t.Literal('rumour')]),
+    headline: t.String({ minLength: 1, maxLength: 200 }),
+    // Exactly one of itemId and sector
+    itemId: t.Optional(t.String()),
+    sector: t.Optional(t.String()),
+    jump: t.Optional(t.Number({ exclusiveMinimum: -1 })),
+    drift: t.Optional(t.Number()),
+    volatility: t.Optional(t.Number({ exclusiveMinimum: -1 })),
+    probability: t.Optional(t.Number({ exclusiveMinimum: 0, maximum: 1 })),
+    impactAt: t.Optional(t.Number({ minimum: 0 })), // Now if omitted
+    leadSeconds: t.Optional(t.Number({ minimum: 0 })),
+    decaySeconds: t.Number({ exclusiveMinimum: 0 }),
+  }),
+};
+
+const NewsQueryModel = {
+  query: t.Object({
+    itemId: t.Optional(t.String()),
+    limit: t.Optional(t.Numeric({ minimum: 1, maximum: 100 })),
+  }),
+};
+
+const DEFAULT_NEWS_LIMIT = 20;
+
+const HaltModel = {
+  body: t.Object({
+    message: t.Optional(t.String({ minLength: 1, maxLength: 200 })),
+    durationSeconds: t.Optional(t.Number({ exclusiveMinimum: 0 })), // Until resumed if omitted
+  }),
+};
+
+const ParametersModel = {
+  body: t.Object({
+    drift: t.Optional(t.Number()),
+    volatility: t.Optional(t.Number({ minimum: 0 })),
+    dt: t.Optional(t.Number({ exclusiveMinimum: 0 })),
+    pressureFactor: t.Optional(t.Number({ minimum: 0 })),
+  }),
+};
+
+const ShockModel = {
+  body: t.Object({
+    change: t.Number({ exclusiveMinimum: -1 }), // Relative move, e.g. -0.1 for a 10% drop
+  }),
+};
+
+const CircuitBreakerModel = {
+  body: t.Object({
+    maxMove: t.Number({ exclusiveMinimum: 0 }), // Fraction, e.g. 0.1 for 10%
+    windowSeconds: t.Number({ exclusiveMinimum: 0 }),
+    haltSeconds: t.Number({ exclusiveMinimum: 0 }),
+  }),
+};
+
+const TradeHistoryModel = {
+  query: t.Object({
+    limit: t.Optional(t.Numeric({ minimum: 1, maximum: 500 })),
+  }),
+};
+
 export const apiRoutes = (app: Elysia) =>
   app
+    .use(authentication)
     .get('/api/health', () => ({ status: 'ok', timestamp: Date.now() }))
-    .post('/api/session', () => {
+    // Guest player: a session token without an account
+    .post('/api/session', ({ cookie }) => {
       const playerId = sessionManager.createSession();
-      return { playerId };
+      persistence.markPlayer(playerId);
+      return startSession(playerId, cookie);
+    })
+    .post(
+      '/api/auth/register',
+      async ({ body, cookie }) => {
+        const playerId = sessionManager.createSession();
+        try {
+          persistence.saveAccount(
+            await authService.register(body.username, body.password, playerId)
+          );
+        } catch (error) {
+          sessionManager.removeSession(playerId);
+          return { error: error instanceof Error ? error.message : String(error) };
+        }
+        return startSession(playerId, cookie);
+      },
+      { body: CredentialsModel.body }
+    )
+    .post(
+      '/api/auth/login',
+      async ({ body, cookie }) => {
+        try {
+          const account = await authService.login(body.username, body.password);
+          return startSession(account.playerId, cookie);
+        } catch (error) {
+          return { error: error instanceof Error ? error.message : String(error) };
+        }
+      },
+      { body: CredentialsModel.body }
+    )
+    .post('/api/auth/logout', ({ cookie }) => {
+      cookie[SESSION_COOKIE].remove();
+      return { success: true };
     })
-    .get('/api/player/:playerId', ({ params }) => {
+    .get('/api/auth/me', ({ playerId }) => {
+      if (!playerId) return { error: 'Not authenticated' };
+      return { playerId, username: authService.getAccount(playerId)?.username ?? null };
+    })
+    .get('/api/player/:playerId', ({ params, playerId }) => {
+      if (!isOwnPlayer(params.playerId, playerId)) return { error: 'Not authorized' };
+
       const session = sessionManager.getSession(params.playerId);
       if (!session) return { error: 'Session not found' };
-      return session.getState();
+      // Maps serialize to {}, so inventories go out as plain records
+      const { balance, inventory } = session.getState();
+      return {
+        balance,
+        inventory: Object.fromEntries(inventory),
+        availableBalance: session.getAvailableBalance(),
+        reservedBalance: session.getReservedBalance(),
+        reservedInventory: Object.fromEntries(session.getAllReservedInventory()),
+      };
+    })
+    .get(
+      '/api/leaderboard',
+      ({ query }) => {
+        const sort = query.sort ?? 'net-worth';
+        const entries = getLeaderboard(sort, query.limit ?? DEFAULT_LEADERBOARD_SIZE);
+        return { sort, entries };
+      },
+      { query: LeaderboardModel.query }
+    )
+    .get('/api/competitions', ({ playerId }) =>
+      competitions.listRounds().map((round) => roundToJson(round, playerId))
+    )
+    .post(
+      '/api/competitions',
+      ({ body, playerId }) => {
+        if (!playerId || !authService.isAdmin(playerId)) return { error: 'Not authorized' };
+
+        try {
+          const round = competitions.create({
+            ...body,
+            startingInventory: body.startingInventory ?? {},
+          });
+          return roundToJson(round, playerId);
+        } catch (error) {
+          return { error: error instanceof Error ? error.message : String(error) };
+        }
+      },
+      { body: RoundModel.body }
+    )
+    .get('/api/competitions/:roundId', ({ params, playerId }) => {
+      const round = competitions.getRound(params.roundId);
+      if (!round) return { error: 'Round not found' };
+      return roundToJson(round, playerId);
     })
-    .get('/api/market', () => {
-      const market = marketEngine.getMarketState();
+    .post('/api/competitions/:roundId/join', ({ params, playerId }) => {
+      if (!playerId) return { error: 'Not authenticated' };
+
+      try {
+        // Use the returned ID with /api/player/:playerId for the round portfolio
+        return { roundId: params.roundId, playerId: competitions.join(params.roundId, playerId) };
+      } catch (error) {
+        return { error: error instanceof Error ? error.message : String(error) };
+      }
+    })
+    .get('/api/competitions/:roundId/standings', ({ params }) => {
+      const round = competitions.getRound(params.roundId);
+      if (!round) return { error: 'Round not found' };
+
+      const entries = withUsernames(competitions.getStandings(params.roundId));
       return {
-        ...market,
-        bestBid: orderBook.getBestBid(),
-        bestAsk: orderBook.getBestAsk(),
+        roundId: round.roundId,
+        status: round.status,
+        final: round.standings !== null,
+        entries,
       };
     })
+    .get('/api/strategies', ({ playerId }) => {
+      if (!playerId) return { error: 'Not authenticated' };
+      return strategies.listStrategies(playerId);
+    })
+    .post(
+      '/api/strategies',
+      async ({ body, playerId }) => {
+        if (!playerId) return { error: 'Not authenticated' };
+
+        try {
+          return await strategies.deploy(playerId, body.name, body.source);
+        } catch (error) {
+          return { error: error instanceof Error ? error.message : String(error) };
+        }
+      },
+      { body: StrategyModel.body }
+    )
+    .get('/api/strategies/:strategyId', ({ params, playerId }) => {
+      const strategy = playerId && strategies.getStrategy(playerId, params.strategyId);
+      if (!strategy) return { error: 'Strategy not found' };
+      return strategy;
+    })
+    .delete('/api/strategies/:strategyId', ({ params, playerId }) => ({
+      success: playerId !== null && strategies.remove(playerId, params.strategyId),
+    }))
+    .get('/api/backtests', ({ playerId }) => {
+      if (!playerId) return { error: 'Not authenticated' };
+      return backtests.listBacktests(playerId);
+    })
+    // Runs in the background; poll GET /api/backtests/:backtestId for the results
+    .post(
+      '/api/backtests',
+      ({ body, playerId }) => {
+        if (!playerId) return { error: 'Not authenticated' };
+
+        const spec = toBacktestSpec(body);
+        if (typeof spec === 'string') return { error: spec };
+
+        try {
+          const { source: _source, ...backtest } = backtests.start(
+            playerId,
+            body.name,
+            body.source,
+            spec
+          );
+          return backtest;
+        } catch (error) {
+          return { error: error instanceof Error ? error.message : String(error) };
+        }
+      },
+      { body: BacktestModel.body }
+    )
+    .get('/api/backtests/:backtestId', ({ params, playerId }) => {
+      const backtest = playerId && backtests.getBacktest(playerId, params.backtestId);
+      if (!backtest) return { error: 'Backtest not found' };
+      return backtest;
+    })
+    .get('/api/admin/markets', async ({ playerId }) => {
+      if (!playerId || !authService.isAdmin(playerId)) return { error: 'Not authorized' };
+      return marketAdmin.listMarkets();
+    })
+    .post(
+      '/api/admin/markets',
+      async ({ body, playerId }) => {
+        if (!playerId || !authService.isAdmin(playerId)) return { error: 'Not authorized' };
+
+        const { itemId, description, ...metadata } = body;
+        try {
+          return await marketAdmin.createMarket(itemId, {
+            ...metadata,
+            description: description ?? '',
+          });
+        } catch (error) {
+          return { error: error instanceof Error ? error.message : String(error) };
+        }
+      },
+      { body: NewMarketModel.body }
+    )
+    .post(
+      '/api/admin/markets/:itemId/halt',
+      ({ params, body, playerId }) => {
+        if (!playerId || !authService.isAdmin(playerId)) return { error: 'Not authorized' };
+
+        try {
+          return marketAdmin.halt(params.itemId, {
+            message: body.message,
+            durationMs:
+              body.durationSeconds !== undefined ? body.durationSeconds * 1000 : undefined,
+          });
+        } catch (error) {
+          return { error: error instanceof Error ? error.message : String(error) };
+        }
+      },
+      { body: HaltModel.body }
+    )
+    .post('/api/admin/markets/:itemId/resume', ({ params, playerId }) => {
+      if (!playerId || !authService.isAdmin(playerId)) return { error: 'Not authorized' };
+
+      try {
+        return marketAdmin.resume(params.itemId);
+      } catch (error) {
+        return { error: error instanceof Error ? error.message : String(error) };
+      }
+    })
+    .patch(
+      '/api/admin/markets/:itemId/parameters',
+      async ({ params, body, playerId }) => {
+        if (!playerId || !authService.isAdmin(playerId)) return { error: 'Not authorized' };
+
+        try {
+          return await marketAdmin.setParameters(params.itemId, body);
+        } catch (error) {
+          return { error: error instanceof Error ? error.message : String(error) };
+        }
+      },
+      { body: ParametersModel.body }
+    )
     .post(
-      '/api/orders',
-      (ctx) => {
-        const playerId = ctx.headers.get('x-player-id');
-        if (!playerId) return { error: 'No session' };
-
-        const session = sessionManager.getSession(playerId);
-        if (!session) return { error: 'Invalid session' };
-
-        const { body } = ctx;
-        const orderSide: OrderSide = body.side === 'buy' ? 'buy' : 'sell';
-        const orderType: OrderType = body.type === 'limit' ? 'limit' : 'market';
-        const cost =
-          orderSide === 'buy' ? (body.price || marketEngine.getCurrentPrice()) * body.quantity : 0;
-
-        if (!session.hasSufficientBalance(cost)) {
-          return { error: 'Insufficient balance' };
-        }
-
-        const order = {
-          id: `order-${Date.now()}`,
-          itemId: 'BTC',
-          side: orderSide,
-          type: orderType,
-          price: body.price || marketEngine.getCurrentPrice(),
-          quantity: body.quantity,
-          playerId,
-          timestamp: Date.now(),
-          status: 'pending' as const,
+      '/api/admin/markets/:itemId/shock',
+      async ({ params, body, playerId }) => {
+        if (!playerId || !authService.isAdmin(playerId)) return { error: 'Not authorized' };
+
+        try {
+          return await marketAdmin.shock(params.itemId, body.change);
+        } catch (error) {
+          return { error: error instanceof Error ? error.message : String(error) };
+        }
+      },
+      { body: ShockModel.body }
+    )
+    .put(
+      '/api/admin/markets/:itemId/circuit-breaker',
+      ({ params, body, playerId }) => {
+        if (!playerId || !authService.isAdmin(playerId)) return { error: 'Not authorized' };
+
+        const config = {
+          maxMove: body.maxMove,
+          windowMs: body.windowSeconds * 1000,
+          haltMs: body.haltSeconds * 1000,
         };
+        try {
+          marketAdmin.setCircuitBreaker(params.itemId, config);
+        } catch (error) {
+          return { error: error instanceof Error ? error.message : String(error) };
+        }
+        return { itemId: params.itemId, circuitBreaker: config };
+      },
+      { body: CircuitBreakerModel.body }
+    )
+    .delete('/api/admin/markets/:itemId/circuit-breaker', ({ params, playerId }) => {
+      if (!playerId || !authService.isAdmin(playerId)) return { error: 'Not authorized' };
+
+      try {
+        marketAdmin.setCircuitBreaker(params.itemId, null);
+      } catch (error) {
+        return { error: error instanceof Error ? error.message : String(error) };
+      }
+      return { success: true };
+    })
+    .get('/api/admin/news', ({ playerId }) => {
+      if (!playerId || !authService.isAdmin(playerId)) return { error: 'Not authorized' };
+      return news.listEvents({ unannounced: true });
+    })
+    .post(
+      '/api/admin/news',
+      ({ body, playerId }) => {
+        if (!playerId || !authService.isAdmin(playerId)) return { error: 'Not authorized' };
+
+        const { itemId, sector } = body;
+        const target = itemId !== undefined ? { itemId } : sector !== undefined && { sector };
+        if (!target || (itemId !== undefined && sector !== undefined)) {
+          return { error: 'Give either an itemId or a sector' };
+        }
+
+        try {
+          return news.schedule(target, {
+            kind: body.kind,
+            headline: body.headline,
+            impact: { jump: body.jump, drift: body.drift, volatility: body.volatility },
+            probability: body.probability,
+            impactAt: body.impactAt ?? Date.now(),
+            leadMs: (body.leadSeconds ?? 0) * 1000,
+            decayMs: body.decaySeconds * 1000,
+          });
+        } catch (error) {
+          return { error: error instanceof Error ? error.message : String(error) };
+        }
+      },
+      { body: NewsModel.body }
+    )
+    .delete('/api/admin/news/:eventId', ({ params, playerId }) => {
+      if (!playerId || !authService.isAdmin(playerId)) return { error: 'Not authorized' };
+
+      try {
+        return news.cancel(params.eventId);
+      } catch (error) {
+        return { error: error instanceof Error ? error.message : String(error) };
+      }
+    })
+    // Announced events only; the stream carries new ones as they come
+    .get(
+      '/api/news',
+      ({ query }) =>
+        news.listEvents({ itemId: query.itemId }).slice(0, query.limit ?? DEFAULT_NEWS_LIMIT),
+      { query: NewsQueryModel.query }
+    )
+    .get('/api/news/:eventId', ({ params }) => {
+      const event = news.getEvent(params.eventId);
+      if (!event || event.status === 'scheduled') return { error: 'Event not found' };
+      return event;
+    })
+    // Competition markets are listed with their round
+    .get('/api/markets', () =>
+      marketRegistry
+        .listItems()
+        .filter((item) => !parseRoundItemId(item.itemId))
+        .map((item) => ({
+          ...itemTypeToJson(item),
+          market: marketRegistry.getSnapshot(item.itemId),
+          halt: marketRegistry.getHalts().getHalt(item.itemId) ?? null,
+        }))
+    )
+    .get('/api/markets/:itemId', async ({ params }) => {
+      const item = marketRegistry.getItem(params.itemId);
+      if (!item) return { error: 'Market not found' };
+
+      const response = await marketRegistry.getPool().getMarket(params.itemId);
+      if (response.type !== 'market-state') {
+        return { error: response.type === 'error' ? response.message : 'Market unavailable' };
+      }
+
+      const { type: _type, ...market } = response;
+      return { ...itemTypeToJson(item), market };
+    })
+    .get(
+      '/api/markets/:itemId/depth',
+      async ({ params, query }) => {
+        if (!marketRegistry.hasItem(params.itemId)) return { error: 'Market not found' };
+
+        const response = await marketRegistry
+          .getPool()
+          .getDepth(params.itemId, query.levels ?? DEFAULT_DEPTH_LEVELS);
+        if (response.type !== 'depth') {
+          return { error: response.type === 'error' ? response.message : 'Market unavailable' };
+        }
 
-        orderBook.addOrder(order);
-        marketEngine.recordOrder(order.side, order.quantity);
+        return response.snapshot;
+      },
+      { query: DepthModel.query }
+    )
+    .get(
+      '/api/markets/:itemId/candles',
+      ({ params, query }) => {
+        if (!marketRegistry.hasItem(params.itemId)) return { error: 'Market not found' };
+
+        const interval = query.interval ?? '1m';
+        const candles = marketRegistry.getCandles().getCandles(params.itemId, interval, {
+          from: query.from,
+          to: query.to,
+          limit: query.limit,
+        });
+        return { itemId: params.itemId, interval, candles };
+      },
+      { query: CandleModel.query }
+    )
+    .get(
+      '/api/markets/:itemId/trades',
+      ({ params, query }) => {
+        if (!marketRegistry.hasItem(params.itemId)) return { error: 'Market not found' };
+
+        // Saved once a second, so the newest fills may not be listed yet
+        const trades = persistence.getTrades({ itemId: params.itemId, limit: query.limit });
+        return { itemId: params.itemId, trades };
+      },
+      { query: TradeHistoryModel.query }
+    )
+    .post(
+      '/api/markets/:itemId/orders',
+      async (ctx) => {
+        if (!ctx.playerId) return { error: 'Not authenticated' };
 
-        return { orderId: order.id, status: 'pending' };
+        return submitOrder(ctx.playerId, ctx.params.itemId, ctx.body);
       },
       { body: OrderModel.body }
     )
-    .get('/api/orders/:playerId', ({ params }) => {
-      const orders = orderBook.getBids().concat(orderBook.getAsks());
-      return orders.filter((o) => o.playerId === params.playerId);
+    .get(
+      '/api/player/:playerId/orders',
+      ({ params, query, playerId }) => {
+        if (!isOwnPlayer(params.playerId, playerId)) return { error: 'Not authorized' };
+        return orderStore.getPlayerOrders(params.playerId, query);
+      },
+      { query: OrderHistoryModel.query }
+    )
+    .get('/api/orders/:orderId', ({ params, playerId }) => {
+      if (!isOwnOrder(params.orderId, playerId)) return { error: 'Order not found' };
+      return orderStore.get(params.orderId);
+    })
+    .delete('/api/orders/:orderId', async ({ params, playerId }) => {
+      if (!isOwnOrder(params.orderId, playerId)) return { success: false };
+      return { success: await cancelOrder(params.orderId) };
     })
-    .delete('/api/orders/:orderId', ({ params }) => {
-      const success = orderBook.removeOrder(params.orderId);
-      return { success };
-    });
+    .patch(
+      '/api/orders/:orderId',
+      async ({ params, body, playerId }) => {
+        const { orderId } = params;
+        const itemId = settlement.getOrderItem(orderId);
+        if (!itemId || !isOwnOrder(orderId, playerId)) return { error: 'Order not found' };
+        if (body.price === undefined && body.quantity === undefined) {
+          return { error: 'Nothing to amend' };
+        }
+        if (marketRegistry.getHalts().isHalted(itemId)) return { error: 'Market is halted' };
+
+        // Re-reserve first so the book never holds more than the player can cover.
+        // The worker refuses the amendment if the order has fills not settled
+        // here yet, since the reservation would not account for them.
+        const openQuantity = settlement.getHeldQuantity(orderId);
+        let previous: { price: number; quantity: number };
+        try {
+          previous = settlement.amend(orderId, body);
+        } catch (error) {
+          return { error: error instanceof Error ? error.message : String(error) };
+        }
+        const amendedQuantity = settlement.getHeldQuantity(orderId);
 
-export { marketEngine, orderBook };
+        const response = await marketRegistry
+          .getPool()
+          .amendOrder(itemId, orderId, body, openQuantity);
+        if (response.type !== 'order-amended') {
+          // Fills settled while waiting came out of the amended hold; a hold
+          // released meanwhile leaves nothing to restore
+          const quantity =
+            previous.quantity - (amendedQuantity - settlement.getHeldQuantity(orderId));
+          if (quantity <= 0) {
+            settlement.release(orderId);
+          } else if (settlement.getOrderItem(orderId)) {
+            settlement.amend(orderId, { ...previous, quantity });
+          }
+          return { error: response.type === 'error' ? response.message : 'Amendment rejected' };
+        }
+
+        // Hold exactly what the book now has open before settling its fills
+        if (settlement.getOrderItem(orderId)) {
+          settlement.amend(orderId, {
+            price: response.order.price,
+            quantity: response.order.quantity,
+          });
+        }
+        orderStore.amend(orderId, {
+          price: response.order.price,
+          quantity: response.order.quantity,
+        });
+        const amended = orderStore.get(orderId);
+        if (amended) marketStream.publishOrderEvent('amended', amended);
+
+        handleTriggers(response.triggered);
+        handleTrades(response.trades);
+        handleSelfTrades(response.selfTrades);
+        handleExpired(response.expired);
+
+        return orderStore.get(orderId);
+      },
+      { body: AmendModel.body }
+    );
+
+export {
+  settlement,
+  orderStore,
+  persistence,
+  portfolios,
+  competitions,
+  bots,
+  strategies,
+  marketAdmin,
+  news,
+};
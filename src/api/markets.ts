@@ -0,0 +1,302 @@
+import {
+  CandleAggregator,
+  createCandleAggregator,
+  type CandleUpdate,
+} from '../game/candle-aggregator';
+import type { DepthDiff } from '../game/depth-tracker';
+import { createItemType, type ItemType } from '../game/item-type';
+import type { OrderExpiry, SelfTradeReduction } from '../game/order-book';
+import { createMarketHalts, type MarketHalt, type MarketHalts } from '../game/market-halts';
+import type { MarketParameters } from '../game/market-engine';
+import { WorkerPool, createWorkerPool, type WorkerResponse } from '../game/market-worker';
+import { deriveSeed } from '../game/random';
+import type { TriggerEvent } from '../game/trigger-book';
+import type { Trade } from '../game/types';
+import type { MarketState } from './types';
+
+/**
+ * Latest tick result for one market
+ */
+export interface MarketTick {
+  itemId: string;
+  trades: Trade[];
+  triggered: TriggerEvent[];
+  expired: OrderExpiry[];
+  selfTrades: SelfTradeReduction[];
+  market: MarketState;
+  depthDiff: DepthDiff | null;
+  candles: CandleUpdate[];
+  halt: MarketHalt | null; // Set when this tick tripped the market's circuit breaker
+}
+
+export const DEFAULT_ITEMS: ItemType[] = [
+  createItemType('BTC', {
+    name: 'Bitcoin',
+    description: 'Digital gold',
+    sector: 'Layer 1',
+    initialPrice: 50000,
+    volatility: 0.2,
+  }),
+  createItemType('ETH', {
+    name: 'Ether',
+    description: 'Fuel for smart contracts',
+    sector: 'Layer 1',
+    initialPrice: 3000,
+    volatility: 0.25,
+    priceModel: { type: 'stochastic-volatility', kappa: 3, xi: 0.5, rho: -0.6 },
+  }),
+  createItemType('SOL', {
+    name: 'Solana',
+    description: 'High-throughput chain token',
+    sector: 'Layer 1',
+    initialPrice: 150,
+    volatility: 0.35,
+    priceModel: {
+      type: 'regime-switching',
+      regimes: [
+        { name: 'calm', drift: 0.05, volatility: 0.2, meanDuration: 2 },
+        { name: 'turbulent', drift: -0.1, volatility: 0.8, meanDuration: 0.5 },
+      ],
+    },
+  }),
+  createItemType('DOGE', {
+    name: 'Dogecoin',
+    description: 'Much volatile, very meme',
+    sector: 'Meme coins',
+    initialPrice: 0.15,
+    volatility: 0.6,
+    priceModel: { type: 'jump-diffusion', jumpIntensity: 10, jumpMean: 0, jumpStdDev: 0.08 },
+  }),
+  createItemType('USDC', {
+    name: 'USD Coin',
+    description: 'Pegged to the dollar',
+    sector: 'Stablecoins',
+    initialPrice: 1,
+    volatility: 0.02,
+    priceModel: { type: 'mean-reversion', speed: 5, mean: 1 },
+  }),
+];
+
+/**
+ * Registry of tradeable items, each backed by its own MarketWorker
+ *
+ * Keeps the latest market state per item so reads do not round-trip to the
+ * worker on every request, and feeds each tick's price into the candle
+ * aggregator and the market's circuit breaker. Halted markets do not tick.
+ */
+export class MarketRegistry {
+  private items = new Map<string, ItemType>();
+  private snapshots = new Map<string, MarketState>();
+  private seed: number | undefined;
+  private prices: Record<string, number> = {};
+  private halts = createMarketHalts();
+
+  constructor(
+    private readonly pool: WorkerPool = createWorkerPool(),
+    private readonly candles: CandleAggregator = createCandleAggregator()
+  ) {}
+
+  /**
+   * Start the pool and register the given items
+   * @param items - Items to trade
+   * @param options - Base seed; each item derives its own seed from it so a
+   *   run can be replayed exactly. Unseeded runs pick random seeds. Prices
+   *   restored from an earlier run replace the items' initial prices.
+   */
+  async start(
+    items: ItemType[] = DEFAULT_ITEMS,
+    options: { seed?: number; prices?: Record<string, number> } = {}
+  ): Promise<void> {
+    this.seed = options.seed;
+    this.prices = options.prices ?? {};
+    await this.pool.start();
+    for (const item of items) {
+      await this.register(item);
+    }
+  }
+
+  async stop(): Promise<void> {
+    await this.pool.stop();
+    this.items.clear();
+    this.snapshots.clear();
+  }
+
+  /**
+   * Register an item and spawn its market worker
+   * @param item - Item to trade
+   * @param seed - Seed for this market (default: derived from the base seed)
+   */
+  async register(item: ItemType, seed?: number): Promise<void> {
+    if (this.items.has(item.itemId)) return;
+
+    const price = this.prices[item.itemId] ?? item.metadata.initialPrice;
+    await this.pool.spawnWorker(item.itemId, price, {
+      volatility: item.metadata.volatility,
+      priceModel: item.metadata.priceModel,
+      seed: seed ?? (this.seed !== undefined ? deriveSeed(this.seed, item.itemId) : undefined),
+    });
+    this.items.set(item.itemId, item);
+    this.snapshots.set(item.itemId, {
+      itemId: item.itemId,
+      currentPrice: price,
+      volatility: item.metadata.volatility,
+      bestBid: null,
+      bestAsk: null,
+    });
+  }
+
+  /**
+   * Forget an item so it is no longer ticked; stop its market worker with
+   * the pool's removeWorker() afterwards
+   */
+  unregister(itemId: string): void {
+    this.items.delete(itemId);
+    this.snapshots.delete(itemId);
+    this.halts.resume(itemId);
+    this.halts.setCircuitBreaker(itemId, null);
+  }
+
+  getPool(): WorkerPool {
+    return this.pool;
+  }
+
+  getCandles(): CandleAggregator {
+    return this.candles;
+  }
+
+  getHalts(): MarketHalts {
+    return this.halts;
+  }
+
+  hasItem(itemId: string): boolean {
+    return this.items.has(itemId);
+  }
+
+  getItem(itemId: string): ItemType | undefined {
+    return this.items.get(itemId);
+  }
+
+  listItems(): ItemType[] {
+    return Array.from(this.items.values());
+  }
+
+  getSnapshot(itemId: string): MarketState | undefined {
+    return this.snapshots.get(itemId);
+  }
+
+  /**
+   * Change a market's price model parameters
+   * @param itemId - Item identifier
+   * @param parameters - Parameters to change
+   * @returns The parameters after the change
+   * @throws Error if the market's worker rejects the change
+   */
+  async setParameters(
+    itemId: string,
+    parameters: Partial<MarketParameters>
+  ): Promise<MarketParameters> {
+    const response = await this.pool.setParameters(itemId, parameters);
+    if (response.type !== 'parameters') {
+      throw new Error(response.type === 'error' ? response.message : 'Market unavailable');
+    }
+
+    const snapshot = this.snapshots.get(itemId);
+    if (snapshot) {
+      this.snapshots.set(itemId, { ...snapshot, volatility: response.parameters.volatility });
+    }
+    return response.parameters;
+  }
+
+  /**
+   * Move a market's price at once
+   * @param itemId - Item identifier
+   * @param change - Relative move (e.g. -0.1 for a 10% drop)
+   * @returns The market after the move
+   * @throws Error if the market's worker rejects the move
+   */
+  async shock(itemId: string, change: number): Promise<MarketState> {
+    const response = await this.pool.shock(itemId, change);
+    if (response.type !== 'market-state') {
+      throw new Error(response.type === 'error' ? response.message : 'Market unavailable');
+    }
+
+    const { type: _type, ...market } = response;
+    this.snapshots.set(itemId, market);
+    return market;
+  }
+
+  /**
+   * Tick every market that is not halted and refresh snapshots
+   * @returns Trades, stop triggers, expiries, market state, candle updates
+   *   and any circuit breaker halt per item that ticked successfully
+   */
+  async tickAll(now = Date.now()): Promise<MarketTick[]> {
+    const itemIds = Array.from(this.items.keys()).filter((id) => !this.halts.isHalted(id, now));
+    const results = await Promise.all(
+      itemIds.map(async (itemId) => [itemId, await this.pool.tick(itemId)] as const)
+    );
+    const ticks: MarketTick[] = [];
+
+    for (const [itemId, response] of results) {
+      // Forgotten while ticking: its orders are gone, so drop what it did
+      if (!this.items.has(itemId)) continue;
+
+      if (response.type !== 'tick-completed') {
+        if (response.type === 'error') {
+          console.error(`Tick failed for ${itemId}: ${response.message}`);
+        }
+        continue;
+      }
+
+      const market = this.applyTick(itemId, response);
+      ticks.push({
+        itemId,
+        trades: response.trades,
+        triggered: response.triggered,
+        expired: response.expired,
+        selfTrades: response.selfTrades,
+        market,
+        depthDiff: response.depthDiff,
+        candles: this.recordCandles(itemId, market.currentPrice),
+        halt: this.halts.recordPrice(itemId, market.currentPrice, now),
+      });
+    }
+
+    return ticks;
+  }
+
+  private applyTick(
+    itemId: string,
+    response: Extract<WorkerResponse, { type: 'tick-completed' }>
+  ): MarketState {
+    const market: MarketState = {
+      itemId,
+      currentPrice: response.currentPrice,
+      volatility: this.snapshots.get(itemId)?.volatility ?? 0,
+      bestBid: response.bestBid,
+      bestAsk: response.bestAsk,
+    };
+    this.snapshots.set(itemId, market);
+    return market;
+  }
+
+  /**
+   * Fold a tick price into the candles
+   *
+   * Returns the bars it closed; whenever a bar closes the in-progress bars
+   * for every interval are included too, which throttles live updates to
+   * roughly one per second per item instead of one per tick.
+   */
+  private recordCandles(itemId: string, price: number): CandleUpdate[] {
+    const closed = this.candles.recordPrice(itemId, price);
+    if (closed.length === 0) return closed;
+
+    const live = this.candles.getLiveCandles(itemId).map((candle) => ({ candle, closed: false }));
+    return [...closed, ...live];
+  }
+}
+
+// Set JOURNAL_DIR to choose where crashed market workers recover from
+export const marketRegistry = new MarketRegistry(
+  createWorkerPool({ journalDir: process.env.JOURNAL_DIR ?? 'journal' })
+);
@@ -0,0 +1,262 @@
+import { parseRoundItemId } from '../game/competition';
+import type { MarketParameters } from '../game/market-engine';
+import {
+  canShift,
+  createMarketNews,
+  type MarketNews,
+  type MarketNewsConfig,
+  type NewsEvent,
+  type NewsEventSpec,
+  type NewsMarket,
+} from '../game/market-news';
+import { getModelParameters, type ModelParameter } from '../game/price-models';
+import { deriveSeed } from '../game/random';
+import { marketRegistry } from './markets';
+import { marketStream } from './stream';
+
+/**
+ * Where an event should hit: one item or every main market of a sector
+ */
+export type NewsTarget = { itemId: string } | { sector: string };
+
+/**
+ * Runs market news on the main markets
+ *
+ * Admins schedule events; with random events on, each main market also
+ * draws its own now and then. Call update() about once a second: it tells
+ * players of events as they are announced and land, moves prices by the
+ * jump of events that land, and sets each affected market's drift and
+ * volatility to its own plus the fading shift of its events, as far as its
+ * price model steps with them (regime switching takes neither, mean
+ * reversion no drift), so events never claim a shift no market they hit can
+ * take. Once no event
+ * fades on a market any more, its parameters go back to its own. Admin
+ * retunes go through retune() so they change a market's own parameters
+ * rather than being overwritten by the next shift. Halted markets keep their
+ * price when an event lands. Events live in memory only and are lost on a
+ * restart.
+ */
+export class NewsService {
+  private news: MarketNews;
+  private randomEvents = false;
+  private baseParameters = new Map<string, MarketParameters>(); // Before news shifted them
+  private updating = false;
+
+  constructor(private readonly config: Partial<MarketNewsConfig> = {}) {
+    this.news = createMarketNews(config);
+  }
+
+  /**
+   * Start afresh at server startup, before any event is scheduled
+   * @param options - Base seed for random events and rumours (random if
+   *   omitted), and whether main markets draw random events
+   */
+  start(options: { seed?: number; randomEvents?: boolean } = {}): void {
+    const { seed, randomEvents = true } = options;
+    this.news = createMarketNews(
+      this.config,
+      seed !== undefined ? deriveSeed(seed, 'news') : undefined
+    );
+    this.randomEvents = randomEvents;
+  }
+
+  /**
+   * Schedule an event
+   * @param target - Item or sector it hits
+   * @param spec - What happens and when
+   * @returns The event
+   * @throws Error if the target has no main markets, none of them can take
+   *   a shift the event makes, or the event is invalid
+   */
+  schedule(target: NewsTarget, spec: Omit<NewsEventSpec, 'itemIds' | 'sector'>): NewsEvent {
+    const markets = this.listMarkets();
+    const hit =
+      'itemId' in target
+        ? markets.filter((market) => market.itemId === target.itemId)
+        : markets.filter((market) => market.sector === target.sector);
+    if (hit.length === 0) {
+      throw new Error(
+        'itemId' in target ? 'Market not found' : `No markets in sector ${target.sector}`
+      );
+    }
+
+    const unused = (['drift', 'volatility'] as const).filter(
+      (parameter) => spec.impact[parameter] !== undefined && !canShift(hit, parameter)
+    );
+    if (unused.length > 0) {
+      const name = 'itemId' in target ? target.itemId : `sector ${target.sector}`;
+      throw new Error(`The price models of ${name} do not use ${unused.join(' or ')}`);
+    }
+
+    return this.news.schedule({
+      ...spec,
+      itemIds: hit.map((market) => market.itemId),
+      sector: 'sector' in target ? target.sector : undefined,
+    });
+  }
+
+  /**
+   * Cancel an event that has not landed yet
+   * @throws Error if there is no such event or it already landed
+   */
+  cancel(eventId: string): NewsEvent {
+    const event = this.news.cancel(eventId);
+    if (!event) throw new Error('Event not found or already landed');
+    return event;
+  }
+
+  /**
+   * Events newest first; players only see those announced
+   * @param options - Include events not announced yet, only those hitting an item
+   */
+  listEvents(options: { unannounced?: boolean; itemId?: string } = {}): NewsEvent[] {
+    const events = this.news.listEvents({ unannounced: options.unannounced });
+    const { itemId } = options;
+    return itemId ? events.filter((event) => event.itemIds.includes(itemId)) : events;
+  }
+
+  getEvent(eventId: string): NewsEvent | undefined {
+    return this.news.getEvent(eventId);
+  }
+
+  /**
+   * Draw random events, move events along and apply their impact
+   */
+  async update(now = Date.now()): Promise<void> {
+    if (this.updating) return;
+    this.updating = true;
+
+    try {
+      if (this.randomEvents) this.news.generate(this.listMarkets(), now);
+
+      const { announced, landed } = this.news.update(now);
+      for (const event of announced) {
+        // Events without lead time land in the same update and are told once
+        if (!landed.some((other) => other.eventId === event.eventId)) {
+          marketStream.publishNews(event, 'announced');
+        }
+      }
+      for (const event of landed) {
+        if (event.materialised && event.impact.jump) await this.jump(event, event.impact.jump);
+        marketStream.publishNews(event, 'landed');
+      }
+
+      await this.adjustParameters(now);
+    } finally {
+      this.updating = false;
+    }
+  }
+
+  /**
+   * Change a market's own price model parameters, keeping the shift of any
+   * event fading on it on top
+   * @returns The market's own parameters after the change
+   * @throws Error if the market's worker rejects the change
+   */
+  async retune(itemId: string, parameters: Partial<MarketParameters>): Promise<MarketParameters> {
+    const base = this.baseParameters.get(itemId);
+    if (!base) return marketRegistry.setParameters(itemId, parameters);
+
+    const updated = { ...base, ...parameters };
+    this.baseParameters.set(itemId, updated);
+    await this.applyParameters(itemId, updated, Date.now());
+    return updated;
+  }
+
+  private async jump(event: NewsEvent, change: number): Promise<void> {
+    const halts = marketRegistry.getHalts();
+    for (const itemId of event.itemIds) {
+      if (!marketRegistry.hasItem(itemId) || halts.isHalted(itemId)) continue;
+
+      try {
+        marketStream.publishMarket('price', await marketRegistry.shock(itemId, change));
+      } catch (error) {
+        console.error(`Failed to apply news ${event.eventId} to ${itemId}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Set every market news has shifted to its base parameters plus the
+   * current shift, and hand markets no event fades on back their own
+   */
+  private async adjustParameters(now: number): Promise<void> {
+    const affected = this.news.getAffectedItems();
+    const itemIds = new Set([...affected, ...this.baseParameters.keys()]);
+
+    for (const itemId of itemIds) {
+      if (!marketRegistry.hasItem(itemId)) {
+        this.baseParameters.delete(itemId);
+        continue;
+      }
+
+      try {
+        const base = this.baseParameters.get(itemId) ?? (await this.fetchParameters(itemId));
+        if (!affected.includes(itemId)) {
+          await marketRegistry.setParameters(itemId, base);
+          this.baseParameters.delete(itemId);
+          continue;
+        }
+
+        this.baseParameters.set(itemId, base);
+        await this.applyParameters(itemId, base, now);
+      } catch (error) {
+        console.error(`Failed to apply news to ${itemId}:`, error);
+      }
+    }
+  }
+
+  private async applyParameters(
+    itemId: string,
+    base: MarketParameters,
+    now: number
+  ): Promise<void> {
+    const shifts = this.getShifts(itemId);
+    const adjustment = this.news.getAdjustment(itemId, now);
+    await marketRegistry.setParameters(itemId, {
+      ...base,
+      drift: shifts.includes('drift') ? base.drift + adjustment.drift : base.drift,
+      volatility: shifts.includes('volatility')
+        ? base.volatility * adjustment.volatility
+        : base.volatility,
+    });
+  }
+
+  /**
+   * Parameters the market's price model steps with, which news can shift
+   */
+  private getShifts(itemId: string): ModelParameter[] {
+    return getModelParameters(marketRegistry.getItem(itemId)?.metadata.priceModel);
+  }
+
+  private async fetchParameters(itemId: string): Promise<MarketParameters> {
+    const response = await marketRegistry.getPool().getParameters(itemId);
+    if (response.type !== 'parameters') {
+      throw new Error(response.type === 'error' ? response.message : 'Market unavailable');
+    }
+    return response.parameters;
+  }
+
+  /**
+   * Main markets (competition round markets get no news)
+   */
+  private listMarkets(): NewsMarket[] {
+    return marketRegistry
+      .listItems()
+      .filter((item) => !parseRoundItemId(item.itemId))
+      .map((item) => ({
+        itemId: item.itemId,
+        name: item.metadata.name,
+        sector: item.metadata.sector,
+        shifts: this.getShifts(item.itemId),
+      }));
+  }
+}
+
+/**
+ * Factory function to create the news service
+ * @param config - Random event rate, templates and history length
+ */
+export function createNewsService(config?: Partial<MarketNewsConfig>): NewsService {
+  return new NewsService(config);
+}
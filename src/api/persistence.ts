@@ -0,0 +1,304 @@
+import type { BacktestRecord } from '../game/backtest';
+import type { Candle, CandleUpdate } from '../game/candle-aggregator';
+import type { CompetitionRound } from '../game/competition';
+import type { OrderRecord, OrderStore } from '../game/order-store';
+import type { PortfolioTracker } from '../game/portfolio-tracker';
+import type {
+  AccountRecord,
+  GameRepository,
+  MarketRecord,
+  PlayerRecord,
+  PortfolioRecord,
+  TradeQuery,
+} from '../game/repository';
+import type { SettlementEngine } from '../game/settlement';
+import { isStopOrder } from '../game/trigger-book';
+import type { Order, Trade } from '../game/types';
+import { authService } from './auth';
+import { marketRegistry } from './markets';
+import { sessionManager } from './sessions';
+
+const DEFAULT_ORDER_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+const PRUNE_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Keeps game state in a repository across restarts
+ *
+ * Boot runs in two steps: load() brings back accounts, players, leaderboard
+ * stats, open orders and candles before the markets start, then restoreOpenOrders() re-reserves
+ * open orders and puts them back in their books. While running, flush() saves
+ * whatever changed since the previous flush in one transaction.
+ *
+ * Finished orders are only kept for a while: once a minute, flush() trims
+ * each player's in-memory history and deletes stored orders that finished
+ * longer ago than the retention period. Order history therefore lists open
+ * orders and those finished since the server started.
+ */
+export class Persistence {
+  private players = new Set<string>(); // Players created or touched since the last flush
+  private trades: Trade[] = [];
+  private candles: Candle[] = []; // Bars closed since the last flush
+  private lastPruned = 0;
+
+  /**
+   * @param orderRetentionMs - How long finished orders are kept in the repository
+   */
+  constructor(
+    private readonly repository: GameRepository,
+    private readonly orderStore: OrderStore,
+    private readonly settlement: SettlementEngine,
+    private readonly portfolios: PortfolioTracker,
+    private readonly orderRetentionMs = DEFAULT_ORDER_RETENTION_MS
+  ) {}
+
+  /**
+   * Load accounts, players, leaderboard stats, open orders and candles
+   * @returns Last known price per item, to start the markets from
+   */
+  load(): Record<string, number> {
+    authService.restore(this.repository.loadAccounts());
+
+    for (const player of this.repository.loadPlayers()) {
+      sessionManager.restoreSession(player.playerId, {
+        balance: player.balance,
+        inventory: new Map(Object.entries(player.inventory)),
+      });
+    }
+
+    for (const { playerId, updatedAt: _updatedAt, ...stats } of this.repository.loadPortfolios()) {
+      this.portfolios.restore(playerId, stats);
+    }
+
+    for (const record of this.repository.loadOpenOrders()) {
+      this.orderStore.restore(record);
+    }
+
+    const candles = marketRegistry.getCandles();
+    candles.restore(this.repository.loadCandles(candles.getMaxCandles()));
+
+    return Object.fromEntries(
+      this.repository.loadMarkets().map((market) => [market.itemId, market.price])
+    );
+  }
+
+  /**
+   * Reserve funds for open orders again and put them back in their books
+   *
+   * Run once the markets have started. Orders that can no longer be covered
+   * or placed are cancelled.
+   * @returns Number of orders back in a book
+   */
+  async restoreOpenOrders(): Promise<number> {
+    const byItem = new Map<string, Order[]>();
+
+    for (const record of this.orderStore.getOpenOrders()) {
+      if (!marketRegistry.hasItem(record.itemId)) {
+        this.cancel(record.id, 'Market not found');
+        continue;
+      }
+
+      const order = toRestingOrder(record);
+      try {
+        this.settlement.hold(order);
+      } catch (error) {
+        this.cancel(order.id, error instanceof Error ? error.message : String(error));
+        continue;
+      }
+
+      const orders = byItem.get(order.itemId) ?? [];
+      orders.push(order);
+      byItem.set(order.itemId, orders);
+    }
+
+    let restored = 0;
+    for (const [itemId, orders] of byItem) {
+      const response = await marketRegistry.getPool().restoreOrders(itemId, orders);
+      if (response.type !== 'orders-restored') {
+        const reason = response.type === 'error' ? response.message : 'Market unavailable';
+        for (const order of orders) this.cancel(order.id, reason);
+        continue;
+      }
+
+      for (const rejection of response.rejected) {
+        this.cancel(rejection.orderId, rejection.message);
+      }
+      restored += response.restored.length;
+    }
+
+    return restored;
+  }
+
+  /**
+   * Store a new account right away
+   */
+  saveAccount(account: AccountRecord): void {
+    this.repository.saveAccount(account);
+    this.players.add(account.playerId);
+  }
+
+  /**
+   * Load competition rounds, oldest first
+   */
+  loadRounds(): CompetitionRound[] {
+    return this.repository.loadRounds();
+  }
+
+  /**
+   * Store a round right away (rounds change rarely: create, join, start, end)
+   */
+  saveRound(round: CompetitionRound): void {
+    this.repository.saveRounds([round]);
+  }
+
+  /**
+   * Load a player's backtests, newest first
+   */
+  loadBacktests(playerId: string): BacktestRecord[] {
+    return this.repository.loadBacktests(playerId);
+  }
+
+  getBacktest(backtestId: string): BacktestRecord | undefined {
+    return this.repository.getBacktest(backtestId);
+  }
+
+  /**
+   * Store a backtest right away (when it starts and when it finishes)
+   */
+  saveBacktest(backtest: BacktestRecord): void {
+    this.repository.saveBacktests([backtest]);
+  }
+
+  /**
+   * Save a player on the next flush (e.g. a new guest)
+   */
+  markPlayer(playerId: string): void {
+    this.players.add(playerId);
+  }
+
+  recordTrades(trades: Trade[]): void {
+    this.trades.push(...trades);
+  }
+
+  /**
+   * Keep bars that closed; live bars are saved from the aggregator on flush
+   */
+  recordCandles(updates: CandleUpdate[]): void {
+    for (const update of updates) {
+      if (update.closed) this.candles.push(update.candle);
+    }
+  }
+
+  /**
+   * Get saved trades, newest first
+   */
+  getTrades(query?: TradeQuery): Trade[] {
+    return this.repository.getTrades(query);
+  }
+
+  /**
+   * Save changed orders and their owners (with their leaderboard stats), new
+   * trades, market prices and candles in one transaction, and drop finished
+   * orders past their retention
+   */
+  flush(now = Date.now()): void {
+    const { changed, removed } = this.orderStore.takeChanges();
+    for (const record of changed) {
+      this.players.add(record.playerId);
+    }
+
+    const prune = now - this.lastPruned >= PRUNE_INTERVAL_MS;
+    if (prune) {
+      this.orderStore.prune();
+      this.lastPruned = now;
+    }
+
+    const players: PlayerRecord[] = [];
+    const portfolios: PortfolioRecord[] = [];
+    for (const playerId of this.players) {
+      const session = sessionManager.getSession(playerId);
+      if (!session) continue;
+
+      const { balance, inventory } = session.getState();
+      players.push({ playerId, balance, inventory: Object.fromEntries(inventory), updatedAt: now });
+
+      const stats = this.portfolios.getStats(playerId);
+      if (stats) portfolios.push({ playerId, ...stats, updatedAt: now });
+    }
+
+    const markets: MarketRecord[] = [];
+    const candles = this.candles;
+    for (const item of marketRegistry.listItems()) {
+      const snapshot = marketRegistry.getSnapshot(item.itemId);
+      if (snapshot) {
+        markets.push({ itemId: item.itemId, price: snapshot.currentPrice, updatedAt: now });
+      }
+      candles.push(...marketRegistry.getCandles().getLiveCandles(item.itemId));
+    }
+
+    const trades = this.trades;
+    this.players.clear();
+    this.trades = [];
+    this.candles = [];
+
+    this.repository.transaction(() => {
+      this.repository.saveOrders(changed);
+      this.repository.deleteOrders(removed);
+      this.repository.savePlayers(players);
+      this.repository.savePortfolios(portfolios);
+      this.repository.saveTrades(trades);
+      this.repository.saveMarkets(markets);
+      this.repository.saveCandles(candles);
+      if (prune) this.repository.deleteClosedOrders(now - this.orderRetentionMs);
+    });
+  }
+
+  /**
+   * Flush and close the repository
+   */
+  close(): void {
+    this.flush();
+    this.repository.close();
+  }
+
+  private cancel(orderId: string, reason: string): void {
+    this.settlement.release(orderId);
+    this.orderStore.cancel(orderId);
+    console.error(`Could not restore order ${orderId}: ${reason}`);
+  }
+}
+
+/**
+ * Order to put back in the book for a stored record: its open quantity, and
+ * stops that already fired in the form they fired into
+ */
+function toRestingOrder(record: OrderRecord): Order {
+  const {
+    filledQuantity: _filledQuantity,
+    remainingQuantity,
+    avgFillPrice: _avgFillPrice,
+    tradeIds: _tradeIds,
+    updatedAt: _updatedAt,
+    ...order
+  } = record;
+
+  const fired = order.triggeredAt !== undefined && isStopOrder(order);
+  return {
+    ...order,
+    type: fired ? (order.type === 'stop-limit' ? 'limit' : 'market') : order.type,
+    quantity: remainingQuantity,
+  };
+}
+
+/**
+ * Factory function to create a persistence service
+ * @param orderRetentionMs - How long finished orders are kept (default: 30 days)
+ */
+export function createPersistence(
+  repository: GameRepository,
+  orderStore: OrderStore,
+  settlement: SettlementEngine,
+  portfolios: PortfolioTracker,
+  orderRetentionMs?: number
+): Persistence {
+  return new Persistence(repository, orderStore, settlement, portfolios, orderRetentionMs);
+}
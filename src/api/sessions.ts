@@ -1,4 +1,10 @@
-import { PlayerSession, createPlayerSession } from '../game/player-session';
+import {
+  PlayerSession,
+  createPlayerSession,
+  type PlayerSessionState,
+} from '../game/player-session';
+
+export const STARTING_BALANCE = 100000;
 
 interface PlayerData {
   session: PlayerSession;
@@ -8,11 +14,16 @@ interface PlayerData {
 
 export class SessionManager {
   private sessions = new Map<string, PlayerData>();
-  private nextId = 1;
 
-  createSession(): string {
-    const playerId = `player-${this.nextId++}`;
-    const session = createPlayerSession(playerId, 100000);
+  /**
+   * Create a player with a fresh balance
+   * @param playerId - Player ID (default: random, so it cannot be guessed)
+   * @param state - Starting balance and inventory (default: STARTING_BALANCE and no items)
+   * @returns The new player ID
+   */
+  createSession(playerId = `player-${crypto.randomUUID()}`, state?: PlayerSessionState): string {
+    const session = createPlayerSession(playerId, STARTING_BALANCE);
+    if (state) session.setState(state);
     this.sessions.set(playerId, {
       session,
       connected: true,
@@ -21,20 +32,51 @@ export class SessionManager {
     return playerId;
   }
 
+  /**
+   * Bring back a player kept from an earlier run
+   *
+   * Reservations start cleared; Persistence.restoreOpenOrders() holds them
+   * again for the player's open orders.
+   * @param playerId - Player ID
+   * @param state - Stored balance and inventory
+   */
+  restoreSession(playerId: string, state: PlayerSessionState): void {
+    const session = createPlayerSession(playerId);
+    session.setState(state);
+    this.sessions.set(playerId, {
+      session,
+      connected: false,
+      lastSeen: Date.now(),
+    });
+  }
+
   getSession(playerId: string): PlayerSession | undefined {
     return this.sessions.get(playerId)?.session;
   }
 
+  listPlayerIds(): string[] {
+    return Array.from(this.sessions.keys());
+  }
+
+  removeSession(playerId: string): boolean {
+    return this.sessions.delete(playerId);
+  }
+
   updateLastSeen(playerId: string): void {
     const data = this.sessions.get(playerId);
     if (data) data.lastSeen = Date.now();
   }
 
+  /**
+   * Mark players idle for longer than maxAge as disconnected
+   *
+   * Players are never dropped here: their portfolio outlives the connection.
+   */
   cleanup(maxAge = 3600000): void {
     const now = Date.now();
-    for (const [id, data] of this.sessions.entries()) {
+    for (const data of this.sessions.values()) {
       if (now - data.lastSeen > maxAge) {
-        this.sessions.delete(id);
+        data.connected = false;
       }
     }
   }
@@ -0,0 +1,180 @@
+import { accountPlayerId, parseRoundItemId } from '../game/competition';
+import type { OrderRecord } from '../game/order-store';
+import {
+  compileStrategy,
+  createStrategyWorker,
+  type StrategyInfo,
+  type StrategyLimits,
+  type StrategyWorker,
+} from '../game/strategy-worker';
+import type { Trade } from '../game/types';
+import { marketRegistry } from './markets';
+
+const MAX_STRATEGIES_PER_PLAYER = 3;
+
+/**
+ * The order entry points of the REST API, as the calling player
+ */
+export interface StrategyOrderRouter {
+  placeOrder(_playerId: string, _itemId: string, _order: unknown): Promise<unknown>;
+  cancelOrder(_playerId: string, _orderId: string): Promise<boolean>;
+}
+
+interface DeployedStrategy {
+  strategyId: string;
+  playerId: string;
+  name: string;
+  createdAt: number;
+  worker: StrategyWorker;
+}
+
+export interface StrategySummary extends StrategyInfo {
+  strategyId: string;
+  name: string;
+  createdAt: number;
+}
+
+/**
+ * Runs players' scripted strategies
+ *
+ * Each strategy gets its own sandboxed worker and trades as its owner
+ * through the same router as the REST API, so its orders are checked,
+ * reserved and settled exactly like the ones a player places by hand.
+ * Strategies see the main markets' ticks and trades, and fills of their
+ * owner's orders. They are not kept across restarts.
+ */
+export class StrategyService {
+  private strategies = new Map<string, DeployedStrategy>();
+  private nextStrategyId = 1;
+
+  constructor(
+    private readonly router: StrategyOrderRouter,
+    private readonly limits: Partial<StrategyLimits> = {}
+  ) {}
+
+  /**
+   * Start a strategy for a player
+   * @param playerId - Owner the strategy trades as
+   * @param name - Label shown to the owner
+   * @param source - TypeScript or JavaScript source
+   * @throws Error if the player runs too many strategies or the script fails to load
+   */
+  async deploy(playerId: string, name: string, source: string): Promise<StrategySummary> {
+    const running = this.listStrategies(playerId).filter(
+      (strategy) => strategy.status !== 'stopped'
+    );
+    if (running.length >= MAX_STRATEGIES_PER_PLAYER) {
+      throw new Error(`At most ${MAX_STRATEGIES_PER_PLAYER} strategies can run at once`);
+    }
+
+    const worker = createStrategyWorker(
+      compileStrategy(source),
+      (request) =>
+        request.type === 'place-order'
+          ? this.router.placeOrder(playerId, request.itemId, request.order)
+          : this.router.cancelOrder(playerId, request.orderId),
+      this.limits
+    );
+    await worker.start();
+
+    const strategy: DeployedStrategy = {
+      strategyId: `strategy-${this.nextStrategyId++}`,
+      playerId,
+      name,
+      createdAt: Date.now(),
+      worker,
+    };
+    this.strategies.set(strategy.strategyId, strategy);
+    return toSummary(strategy);
+  }
+
+  /**
+   * Stop and forget a strategy
+   * @returns Whether the player had such a strategy
+   */
+  remove(playerId: string, strategyId: string): boolean {
+    const strategy = this.strategies.get(strategyId);
+    if (!strategy || strategy.playerId !== playerId) return false;
+
+    strategy.worker.stop();
+    this.strategies.delete(strategyId);
+    return true;
+  }
+
+  /**
+   * A player's strategy with its log
+   */
+  getStrategy(
+    playerId: string,
+    strategyId: string
+  ): (StrategySummary & { logs: string[] }) | undefined {
+    const strategy = this.strategies.get(strategyId);
+    if (!strategy || strategy.playerId !== playerId) return undefined;
+    return { ...toSummary(strategy), logs: strategy.worker.getLogs() };
+  }
+
+  listStrategies(playerId: string): StrategySummary[] {
+    return Array.from(this.strategies.values())
+      .filter((strategy) => strategy.playerId === playerId)
+      .map(toSummary);
+  }
+
+  /**
+   * Send every strategy the latest state of each main market
+   */
+  publishTicks(): void {
+    if (this.strategies.size === 0) return;
+
+    const timestamp = Date.now();
+    for (const item of marketRegistry.listItems()) {
+      if (parseRoundItemId(item.itemId)) continue;
+      const market = marketRegistry.getSnapshot(item.itemId);
+      if (!market) continue;
+
+      for (const strategy of this.strategies.values()) {
+        strategy.worker.dispatch({ type: 'tick', market: { ...market, timestamp } });
+      }
+    }
+  }
+
+  /**
+   * Send main market trades to every strategy
+   */
+  publishTrades(trades: Trade[]): void {
+    for (const trade of trades) {
+      if (parseRoundItemId(trade.itemId)) continue;
+      for (const strategy of this.strategies.values()) {
+        strategy.worker.dispatch({ type: 'trade', trade });
+      }
+    }
+  }
+
+  /**
+   * Send a filled order to its owner's strategies
+   */
+  publishFill(order: OrderRecord): void {
+    const owner = accountPlayerId(order.playerId);
+    for (const strategy of this.strategies.values()) {
+      if (strategy.playerId === owner) strategy.worker.dispatch({ type: 'fill', order });
+    }
+  }
+}
+
+function toSummary(strategy: DeployedStrategy): StrategySummary {
+  return {
+    strategyId: strategy.strategyId,
+    name: strategy.name,
+    createdAt: strategy.createdAt,
+    ...strategy.worker.getInfo(),
+  };
+}
+
+/**
+ * Factory function to create a strategy service
+ */
+export function createStrategyService(
+  router: StrategyOrderRouter,
+  limits?: Partial<StrategyLimits>
+): StrategyService {
+  return new StrategyService(router, limits);
+}
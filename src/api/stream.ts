@@ -0,0 +1,134 @@
+import type { CandleUpdate } from '../game/candle-aggregator';
+import { accountPlayerId } from '../game/competition';
+import type { DepthDiff } from '../game/depth-tracker';
+import type { MarketHalt } from '../game/market-halts';
+import type { NewsEvent } from '../game/market-news';
+import type { OrderRecord } from '../game/order-store';
+import type { Order, Trade } from '../game/types';
+import type { LeaderboardSort } from '../game/portfolio-tracker';
+import type {
+  LeaderboardRow,
+  MarketState,
+  OrderEventType,
+  OrderUpdate,
+  StreamMessage,
+  TradeUpdate,
+} from './types';
+
+export const MARKET_TOPIC = '/api/market/stream';
+
+/**
+ * Private topic carrying one player's order events
+ */
+export function playerTopic(playerId: string): string {
+  return `player:${playerId}`;
+}
+
+type Publisher = (_topic: string, _message: string) => void;
+
+/**
+ * Fans market data and order events out to WebSocket topics
+ *
+ * The server wires in its publish function at startup; until then messages
+ * are dropped, which keeps controllers usable without a running server.
+ */
+export class MarketStream {
+  private publisher: Publisher | null = null;
+
+  setPublisher(publisher: Publisher | null): void {
+    this.publisher = publisher;
+  }
+
+  publishMarket(type: 'init' | 'price', market: MarketState): void {
+    this.publish(MARKET_TOPIC, { type, data: { ...market, timestamp: Date.now() } });
+  }
+
+  publishDepth(diff: DepthDiff): void {
+    this.publish(MARKET_TOPIC, { type: 'depth', data: diff });
+  }
+
+  publishCandle(update: CandleUpdate): void {
+    this.publish(MARKET_TOPIC, {
+      type: 'candle',
+      data: { ...update.candle, closed: update.closed },
+    });
+  }
+
+  publishTrade(trade: Trade): void {
+    const message: TradeUpdate = {
+      type: 'trade',
+      data: {
+        id: trade.id,
+        itemId: trade.itemId,
+        price: trade.price,
+        quantity: trade.quantity,
+        aggressorSide: trade.aggressorSide ?? null,
+        timestamp: trade.timestamp,
+      },
+    };
+    this.publish(MARKET_TOPIC, message);
+  }
+
+  publishLeaderboard(sort: LeaderboardSort, entries: LeaderboardRow[]): void {
+    this.publish(MARKET_TOPIC, {
+      type: 'leaderboard',
+      data: { sort, entries, timestamp: Date.now() },
+    });
+  }
+
+  /**
+   * Publish that a market halted or resumed trading
+   * @param halt - The halt placed or lifted
+   * @param halted - Whether the market is halted now
+   */
+  publishHalt(halt: MarketHalt, halted: boolean): void {
+    this.publish(MARKET_TOPIC, { type: 'halt', data: { ...halt, halted, timestamp: Date.now() } });
+  }
+
+  /**
+   * Publish a news event as players hear of it, then again as it lands
+   * @param event - The event
+   * @param phase - Whether it was just announced or just landed
+   */
+  publishNews(event: NewsEvent, phase: 'announced' | 'landed'): void {
+    this.publish(MARKET_TOPIC, { type: 'news', data: { ...event, phase, timestamp: Date.now() } });
+  }
+
+  /**
+   * Publish an order event to the owning player's private topic (competition
+   * round orders go to the player behind the round player ID)
+   * @param event - Lifecycle event
+   * @param order - Order record (or the raw order for rejections)
+   * @param details - Trade that caused a fill, price that tripped a stop, or rejection reason
+   */
+  publishOrderEvent(
+    event: OrderEventType,
+    order: OrderRecord | Order,
+    details: { tradeId?: string; triggerPrice?: number; reason?: string } = {}
+  ): void {
+    const record = 'filledQuantity' in order ? order : undefined;
+    const message: OrderUpdate = {
+      type: 'order',
+      data: {
+        event,
+        orderId: order.id,
+        itemId: order.itemId,
+        side: order.side,
+        quantity: order.quantity,
+        filledQuantity: record?.filledQuantity ?? 0,
+        remainingQuantity: record?.remainingQuantity ?? order.quantity,
+        avgFillPrice: record?.avgFillPrice ?? null,
+        stopPrice: order.stopPrice,
+        ...details,
+        timestamp: Date.now(),
+      },
+    };
+    this.publish(playerTopic(accountPlayerId(order.playerId)), message);
+  }
+
+  private publish(topic: string, message: StreamMessage): void {
+    this.publisher?.(topic, JSON.stringify(message));
+  }
+}
+
+export const marketStream = new MarketStream();
@@ -1,10 +1,43 @@
+import type { Candle, CandleInterval } from '../game/candle-aggregator';
+import type { DepthDiff } from '../game/depth-tracker';
+import type { MarketHalt } from '../game/market-halts';
+import type { NewsEvent } from '../game/market-news';
+import type { LeaderboardEntry, LeaderboardSort } from '../game/portfolio-tracker';
+
 export interface OrderInput {
   side: 'buy' | 'sell';
-  type: 'limit' | 'market';
+  type: 'limit' | 'market' | 'stop' | 'stop-limit' | 'trailing-stop';
   price?: number;
+  stopPrice?: number;
+  trailingOffset?: number;
+  timeInForce?: 'gtc' | 'ioc' | 'fok' | 'gtd' | 'day';
+  expiresAt?: number;
+  displayQuantity?: number;
+  hidden?: boolean;
+  selfTradePrevention?: 'cancel-newest' | 'cancel-oldest' | 'cancel-both' | 'decrement';
+  postOnly?: boolean;
+  reduceOnly?: boolean;
   quantity: number;
 }
 
+export interface BacktestInput {
+  name: string;
+  source: string;
+  itemId: string;
+  prices:
+    | { type: 'candles'; interval: CandleInterval; from?: number; to?: number }
+    | {
+        type: 'generated';
+        steps: number;
+        seed?: number;
+        initialPrice?: number;
+        volatility?: number;
+      };
+  initialCash?: number;
+  initialInventory?: number;
+  slippage?: number;
+}
+
 export interface MarketState {
   itemId: string;
   currentPrice: number;
@@ -14,6 +47,87 @@ export interface MarketState {
 }
 
 export interface MarketUpdate {
-  type: 'init' | 'price' | 'trade';
+  type: 'init' | 'price';
   data: MarketState & { timestamp: number };
 }
+
+export interface TradeUpdate {
+  type: 'trade';
+  data: {
+    id: string;
+    itemId: string;
+    price: number;
+    quantity: number;
+    aggressorSide: 'buy' | 'sell' | null;
+    timestamp: number;
+  };
+}
+
+export type OrderEventType =
+  | 'accepted'
+  | 'triggered'
+  | 'amended'
+  | 'partially-filled'
+  | 'filled'
+  | 'reduced'
+  | 'cancelled'
+  | 'expired'
+  | 'rejected';
+
+export interface OrderUpdate {
+  type: 'order';
+  data: {
+    event: OrderEventType;
+    orderId: string;
+    itemId: string;
+    side: 'buy' | 'sell';
+    quantity: number;
+    filledQuantity: number;
+    remainingQuantity: number;
+    avgFillPrice: number | null;
+    stopPrice?: number;
+    tradeId?: string;
+    triggerPrice?: number;
+    reason?: string;
+    timestamp: number;
+  };
+}
+
+export interface DepthUpdate {
+  type: 'depth';
+  data: DepthDiff;
+}
+
+export interface CandleStreamUpdate {
+  type: 'candle';
+  data: Candle & { closed: boolean };
+}
+
+export interface LeaderboardRow extends LeaderboardEntry {
+  username: string | null; // null for guests
+}
+
+export interface LeaderboardUpdate {
+  type: 'leaderboard';
+  data: { sort: LeaderboardSort; entries: LeaderboardRow[]; timestamp: number };
+}
+
+export interface HaltUpdate {
+  type: 'halt';
+  data: MarketHalt & { halted: boolean; timestamp: number }; // halted is false once trading resumes
+}
+
+export interface NewsUpdate {
+  type: 'news';
+  data: NewsEvent & { phase: 'announced' | 'landed'; timestamp: number };
+}
+
+export type StreamMessage =
+  | MarketUpdate
+  | TradeUpdate
+  | OrderUpdate
+  | DepthUpdate
+  | CandleStreamUpdate
+  | LeaderboardUpdate
+  | HaltUpdate
+  | NewsUpdate;
@@ -0,0 +1,123 @@
+/**
+ * Backtest command line
+ *
+ * Runs a strategy file against a generated price path, or against the
+ * candles stored in a game database, and prints the results:
+ *
+ *   bun run backtest strategy.ts --item BTC --steps 1000 --seed 42 --price 50000
+ *   bun run backtest strategy.ts --item BTC --candles 1m --db game.sqlite --json
+ */
+
+import { parseArgs } from 'node:util';
+import {
+  buildPricePath,
+  runBacktest,
+  type BacktestReport,
+  type BacktestSpec,
+} from './game/backtest';
+import type { CandleInterval } from './game/candle-aggregator';
+import { randomSeed } from './game/random';
+import { createSqliteRepository } from './game/sqlite-repository';
+
+const USAGE = `Usage: bun run backtest <strategy file> --item <itemId> [options]
+
+Prices (generated unless --candles is given):
+  --steps <n>         Prices to generate (default 1000)
+  --seed <n>          Seed of the generated path (random if omitted)
+  --price <n>         Starting price (default 100)
+  --volatility <n>    Annualized volatility (default 0.2)
+  --candles <1s|1m|5m|1h>  Replay stored bars of this interval instead
+  --db <path>         Database the bars are read from (default game.sqlite)
+
+Account:
+  --cash <n>          Starting cash (default 10000)
+  --inventory <n>     Starting items, costed at the first price (default 0)
+  --slippage <n>      Distance of the simulated quotes from the price (default 0.001)
+
+Output:
+  --json              Print the full report as JSON`;
+
+const { values, positionals } = parseArgs({
+  allowPositionals: true,
+  options: {
+    item: { type: 'string' },
+    steps: { type: 'string', default: '1000' },
+    seed: { type: 'string' },
+    price: { type: 'string', default: '100' },
+    volatility: { type: 'string', default: '0.2' },
+    candles: { type: 'string' },
+    db: { type: 'string', default: 'game.sqlite' },
+    cash: { type: 'string', default: '10000' },
+    inventory: { type: 'string', default: '0' },
+    slippage: { type: 'string', default: '0.001' },
+    json: { type: 'boolean', default: false },
+    help: { type: 'boolean', default: false },
+  },
+});
+
+const [strategyFile] = positionals;
+if (values.help || !strategyFile || !values.item) {
+  console.log(USAGE);
+  process.exit(values.help ? 0 : 1);
+}
+
+const itemId = values.item;
+const volatility = Number(values.volatility);
+const spec: BacktestSpec = {
+  itemId,
+  prices: values.candles
+    ? { type: 'candles', interval: values.candles as CandleInterval }
+    : {
+        type: 'generated',
+        steps: Number(values.steps),
+        seed: values.seed !== undefined ? Number(values.seed) : randomSeed(),
+        initialPrice: Number(values.price),
+        engine: { volatility },
+      },
+  config: {
+    initialCash: Number(values.cash),
+    initialInventory: Number(values.inventory),
+    slippage: Number(values.slippage),
+    volatility,
+  },
+};
+
+const path = buildPricePath(spec, (item, interval) => {
+  const repository = createSqliteRepository(values.db);
+  try {
+    return repository
+      .loadCandles(Number.MAX_SAFE_INTEGER)
+      .filter((candle) => candle.itemId === item && candle.interval === interval);
+  } finally {
+    repository.close();
+  }
+});
+
+const report = await runBacktest(await Bun.file(strategyFile).text(), path, {
+  ...spec.config,
+  itemId,
+});
+
+if (values.json) {
+  console.log(JSON.stringify({ spec, report }, null, 2));
+} else {
+  printReport(report);
+}
+
+function printReport(report: BacktestReport): void {
+  if (spec.prices.type === 'generated') console.log(`Seed:          ${spec.prices.seed}`);
+  console.log(`Steps:         ${report.steps}`);
+  console.log(
+    `Equity:        ${report.initialEquity.toFixed(2)} -> ${report.finalEquity.toFixed(2)}`
+  );
+  console.log(`Return:        ${report.returnPct.toFixed(2)}%`);
+  console.log(
+    `Max drawdown:  ${report.maxDrawdown.toFixed(2)} (${report.maxDrawdownPct.toFixed(2)}%)`
+  );
+  console.log(
+    `Win rate:      ${report.winRate === null ? '-' : `${(report.winRate * 100).toFixed(1)}%`} (${report.wins} won, ${report.losses} lost)`
+  );
+  console.log(`Fills:         ${report.trades.length}`);
+  if (report.stopReason) console.log(`Stopped:       ${report.stopReason}`);
+  for (const line of report.logs) console.log(`  | ${line}`);
+}
@@ -0,0 +1,246 @@
+/**
+ * Tests for replaying strategies against a price history
+ */
+
+import { describe, it, expect } from 'bun:test';
+import {
+  BacktestRunner,
+  candlePricePath,
+  generatePricePath,
+  runBacktest,
+  type BacktestDeliver,
+  type PricePoint,
+} from '../backtest';
+import type { Candle } from '../candle-aggregator';
+import type { StrategyEvent } from '../strategy-worker';
+
+function pathOf(prices: number[]): PricePoint[] {
+  return prices.map((price, index) => ({ timestamp: index * 1000, price }));
+}
+
+/**
+ * In-process strategy calling the runner directly
+ */
+function strategyOf(
+  runner: BacktestRunner,
+  onEvent: (_event: StrategyEvent, _placeOrder: (_order: unknown) => Promise<unknown>) => unknown
+): BacktestDeliver {
+  const placeOrder = (order: unknown) =>
+    runner.handleRequest({ type: 'place-order', itemId: 'BTC', order });
+  return async (event) => {
+    await onEvent(event, placeOrder);
+  };
+}
+
+describe('generatePricePath', () => {
+  it('should give the same path for the same seed', () => {
+    const config = { initialPrice: 100, steps: 50, seed: 7 };
+    const first = generatePricePath('BTC', config);
+
+    expect(first).toHaveLength(50);
+    expect(first[0]).toEqual({ timestamp: 0, price: 100 });
+    expect(first[1].timestamp).toBe(60_000);
+    expect(generatePricePath('BTC', config)).toEqual(first);
+    expect(generatePricePath('BTC', { ...config, seed: 8 })).not.toEqual(first);
+  });
+
+  it('should reject invalid paths', () => {
+    expect(() => generatePricePath('BTC', { initialPrice: 0, steps: 10, seed: 1 })).toThrow(
+      'positive'
+    );
+    expect(() => generatePricePath('BTC', { initialPrice: 100, steps: 1, seed: 1 })).toThrow(
+      'at least 2'
+    );
+  });
+});
+
+describe('candlePricePath', () => {
+  it('should step through bar closes in time order', () => {
+    const bar = (openTime: number, close: number): Candle => ({
+      itemId: 'BTC',
+      interval: '1m',
+      openTime,
+      closeTime: openTime + 59_999,
+      open: close,
+      high: close,
+      low: close,
+      close,
+      volume: 1,
+      tradeCount: 1,
+    });
+
+    expect(candlePricePath([bar(60_000, 101), bar(0, 100)])).toEqual([
+      { timestamp: 59_999, price: 100 },
+      { timestamp: 119_999, price: 101 },
+    ]);
+  });
+});
+
+describe('BacktestRunner', () => {
+  it('should fill market orders with slippage and track equity', async () => {
+    const runner = new BacktestRunner(pathOf([100, 110, 120]), {
+      itemId: 'BTC',
+      initialCash: 1000,
+      slippage: 0.01,
+    });
+    let bought = false;
+
+    const result = await runner.run(
+      strategyOf(runner, async (event, placeOrder) => {
+        if (event.type !== 'tick' || bought) return;
+        bought = true;
+        const fill = await placeOrder({ side: 'buy', type: 'market', quantity: 5 });
+        expect(fill).toMatchObject({ status: 'filled', filledQuantity: 5, avgPrice: 101 });
+      })
+    );
+
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0]).toMatchObject({ side: 'buy', quantity: 5, price: 101, pnl: null });
+    expect(result.equityCurve.map((point) => point.equity)).toEqual([995, 1045, 1095]);
+    expect(result.initialEquity).toBe(1000);
+    expect(result.finalEquity).toBe(1095);
+    expect(result.returnPct).toBeCloseTo(9.5);
+    expect(result.maxDrawdown).toBe(5);
+  });
+
+  it('should fill resting limit orders once the price reaches them', async () => {
+    const runner = new BacktestRunner(pathOf([100, 95, 89, 90]), {
+      itemId: 'BTC',
+      initialCash: 1000,
+      slippage: 0.01,
+    });
+    const fills: number[] = [];
+
+    const result = await runner.run(
+      strategyOf(runner, async (event, placeOrder) => {
+        if (event.type === 'fill') fills.push(event.order.filledQuantity);
+        if (event.type === 'tick' && event.market.timestamp === 0) {
+          const placed = await placeOrder({ side: 'buy', type: 'limit', price: 90, quantity: 2 });
+          expect(placed).toMatchObject({ status: 'pending' });
+        }
+      })
+    );
+
+    // Fills at the ask that crossed the bid
+    expect(result.trades).toHaveLength(1);
+    expect(result.trades[0]).toMatchObject({ timestamp: 2000, side: 'buy', quantity: 2 });
+    expect(result.trades[0].price).toBeCloseTo(89.89);
+    expect(fills).toEqual([2]);
+  });
+
+  it('should count winning and losing sells against the average cost', async () => {
+    const runner = new BacktestRunner(pathOf([100, 120, 80, 80]), {
+      itemId: 'BTC',
+      initialCash: 0,
+      initialInventory: 10,
+      slippage: 0.01,
+    });
+
+    const result = await runner.run(
+      strategyOf(runner, async (event, placeOrder) => {
+        if (event.type === 'tick' && event.market.timestamp > 0 && event.market.timestamp < 3000) {
+          await placeOrder({ side: 'sell', type: 'market', quantity: 5 });
+        }
+      })
+    );
+
+    // Sold at the bids of 118.8 and 79.2
+    expect(result.trades.map((trade) => Math.round(trade.pnl ?? 0))).toEqual([94, -104]);
+    expect(result.wins).toBe(1);
+    expect(result.losses).toBe(1);
+    expect(result.winRate).toBe(0.5);
+    expect(result.maxDrawdown).toBeCloseTo(204);
+    expect(result.maxDrawdownPct).toBeCloseTo((204 / 1194) * 100);
+  });
+
+  it('should reject orders it cannot take or fund', async () => {
+    const runner = new BacktestRunner(pathOf([100, 100]), { itemId: 'BTC', initialCash: 50 });
+    const place = (order: unknown) =>
+      runner.handleRequest({ type: 'place-order', itemId: 'BTC', order });
+
+    expect(await place({ side: 'buy', type: 'stop', quantity: 1, stopPrice: 90 })).toEqual({
+      error: 'Backtests take limit and market orders only',
+    });
+    expect(await place({ side: 'buy', type: 'limit', price: 100, quantity: 1 })).toEqual({
+      error: 'Insufficient balance',
+    });
+    expect(await place({ side: 'sell', type: 'limit', price: 100, quantity: 1 })).toEqual({
+      error: 'Insufficient inventory',
+    });
+    expect(await runner.handleRequest({ type: 'place-order', itemId: 'ETH', order: {} })).toEqual({
+      error: 'Market not found',
+    });
+  });
+
+  it('should limit the orders a strategy sends per step', async () => {
+    const runner = new BacktestRunner(pathOf([100, 100]), {
+      itemId: 'BTC',
+      maxOrdersPerStep: 2,
+    });
+    const results: unknown[] = [];
+
+    await runner.run(async (event) => {
+      if (event.type !== 'tick') return;
+      for (let i = 0; i < 3; i++) {
+        results.push(await runner.handleRequest({ type: 'cancel-order', orderId: 'none' }));
+      }
+    });
+
+    expect(results).toEqual([
+      false,
+      false,
+      { error: 'At most 2 orders per step' },
+      false,
+      false,
+      { error: 'At most 2 orders per step' },
+    ]);
+  });
+
+  it('should reject invalid configs', () => {
+    expect(() => new BacktestRunner(pathOf([100]), { itemId: 'BTC' })).toThrow('at least 2');
+    expect(() => new BacktestRunner(pathOf([100, 0]), { itemId: 'BTC' })).toThrow('positive');
+    expect(() => new BacktestRunner(pathOf([100, 100]), { itemId: 'BTC', slippage: 1 })).toThrow(
+      'Slippage'
+    );
+    expect(() => new BacktestRunner(pathOf([100, 100]), { itemId: 'BTC', slippage: 0 })).toThrow(
+      'Slippage'
+    );
+  });
+});
+
+describe('runBacktest', () => {
+  it('should run a strategy script over the path', async () => {
+    const source = `
+      let bought = false;
+      async function onTick(market, api) {
+        if (bought) return;
+        bought = true;
+        const result = await api.placeOrder(market.itemId, { side: 'buy', type: 'market', quantity: 1 });
+        console.log('bought at', result.avgPrice);
+      }
+    `;
+
+    const report = await runBacktest(source, pathOf([100, 105]), {
+      itemId: 'BTC',
+      initialCash: 1000,
+      slippage: 0.01,
+    });
+
+    expect(report.trades).toHaveLength(1);
+    expect(report.finalEquity).toBe(1004);
+    expect(report.logs).toEqual(['bought at 101']);
+    expect(report.stopReason).toBeNull();
+  });
+
+  it('should report a strategy stopped for using too much CPU', async () => {
+    const report = await runBacktest(
+      'function onTick() { while (true) {} }',
+      pathOf([100, 101, 102]),
+      { itemId: 'BTC' },
+      { hookTimeoutMs: 50 }
+    );
+
+    expect(report.stopReason).toBe('A hook ran longer than 50ms');
+    expect(report.equityCurve).toHaveLength(3);
+  });
+});
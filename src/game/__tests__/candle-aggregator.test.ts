@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { CandleAggregator, createCandleAggregator } from '../candle-aggregator';
+import type { Trade } from '../types';
+
+function makeTrade(overrides: Partial<Trade>): Trade {
+  return {
+    id: 'trade-item-1-1',
+    buyOrderId: 'buy-1',
+    sellOrderId: 'sell-1',
+    itemId: 'item-1',
+    quantity: 5,
+    price: 100,
+    timestamp: 0,
+    ...overrides,
+  };
+}
+
+describe('CandleAggregator', () => {
+  let aggregator: CandleAggregator;
+
+  beforeEach(() => {
+    aggregator = createCandleAggregator();
+  });
+
+  it('should build OHLC from prices within one interval', () => {
+    aggregator.recordPrice('item-1', 100, 1000);
+    aggregator.recordPrice('item-1', 105, 1200);
+    aggregator.recordPrice('item-1', 98, 1400);
+    aggregator.recordPrice('item-1', 101, 1900);
+
+    const [candle] = aggregator.getCandles('item-1', '1s');
+    expect(candle).toMatchObject({
+      itemId: 'item-1',
+      interval: '1s',
+      openTime: 1000,
+      closeTime: 1999,
+      open: 100,
+      high: 105,
+      low: 98,
+      close: 101,
+      volume: 0,
+      tradeCount: 0,
+    });
+  });
+
+  it('should add trade volume', () => {
+    aggregator.recordPrice('item-1', 100, 1000);
+    aggregator.recordTrades([
+      makeTrade({ price: 102, quantity: 3, timestamp: 1100 }),
+      makeTrade({ price: 99, quantity: 2, timestamp: 1200 }),
+    ]);
+
+    const [candle] = aggregator.getCandles('item-1', '1m');
+    expect(candle.volume).toBe(5);
+    expect(candle.tradeCount).toBe(2);
+    expect(candle.high).toBe(102);
+    expect(candle.low).toBe(99);
+    expect(candle.close).toBe(99);
+  });
+
+  it('should close a bar when the interval rolls over', () => {
+    expect(aggregator.recordPrice('item-1', 100, 1000)).toEqual([]);
+
+    const closed = aggregator.recordPrice('item-1', 110, 2000);
+    expect(closed).toHaveLength(1);
+    expect(closed[0].closed).toBe(true);
+    expect(closed[0].candle).toMatchObject({ interval: '1s', openTime: 1000, close: 100 });
+
+    const candles = aggregator.getCandles('item-1', '1s');
+    expect(candles.map((c) => c.openTime)).toEqual([1000, 2000]);
+    expect(aggregator.getCandles('item-1', '1m')).toHaveLength(1);
+  });
+
+  it('should align bars to each interval', () => {
+    aggregator.recordPrice('item-1', 100, 3_700_000);
+
+    expect(aggregator.getCandles('item-1', '1m')[0].openTime).toBe(3_660_000);
+    expect(aggregator.getCandles('item-1', '5m')[0].openTime).toBe(3_600_000);
+    expect(aggregator.getCandles('item-1', '1h')[0].openTime).toBe(3_600_000);
+  });
+
+  it('should fold late input into the bar that covers it', () => {
+    aggregator.recordPrice('item-1', 100, 1000);
+    aggregator.recordPrice('item-1', 101, 2000);
+    aggregator.recordTrade(makeTrade({ price: 120, quantity: 4, timestamp: 1500 }));
+
+    const [first, second] = aggregator.getCandles('item-1', '1s');
+    expect(first.high).toBe(120);
+    expect(first.volume).toBe(4);
+    expect(second.close).toBe(101);
+  });
+
+  it('should filter by open time and limit to the latest bars', () => {
+    for (let i = 0; i < 5; i++) {
+      aggregator.recordPrice('item-1', 100 + i, i * 1000);
+    }
+
+    const ranged = aggregator.getCandles('item-1', '1s', { from: 1000, to: 3000 });
+    expect(ranged.map((c) => c.openTime)).toEqual([1000, 2000, 3000]);
+
+    const limited = aggregator.getCandles('item-1', '1s', { limit: 2 });
+    expect(limited.map((c) => c.openTime)).toEqual([3000, 4000]);
+  });
+
+  it('should keep items separate', () => {
+    aggregator.recordPrice('item-1', 100, 1000);
+    aggregator.recordPrice('item-2', 5, 1000);
+
+    expect(aggregator.getCandles('item-1', '1s')[0].close).toBe(100);
+    expect(aggregator.getCandles('item-2', '1s')[0].close).toBe(5);
+    expect(aggregator.getCandles('item-3', '1s')).toEqual([]);
+  });
+
+  it('should drop the oldest bars beyond the retention limit', () => {
+    aggregator = createCandleAggregator({ maxCandles: 3 });
+    for (let i = 0; i < 5; i++) {
+      aggregator.recordPrice('item-1', 100, i * 1000);
+    }
+
+    const candles = aggregator.getCandles('item-1', '1s');
+    expect(candles.map((c) => c.openTime)).toEqual([2000, 3000, 4000]);
+  });
+
+  it('should return the in-progress bar for every interval', () => {
+    aggregator.recordPrice('item-1', 100, 1000);
+    aggregator.recordPrice('item-1', 102, 2500);
+
+    const live = aggregator.getLiveCandles('item-1');
+    expect(live.map((c) => c.interval)).toEqual(['1s', '1m', '5m', '1h']);
+    expect(live[0].openTime).toBe(2000);
+    expect(live[1].open).toBe(100);
+    expect(live[1].close).toBe(102);
+  });
+
+  it('should return copies of stored bars', () => {
+    aggregator.recordPrice('item-1', 100, 1000);
+    aggregator.getCandles('item-1', '1s')[0].close = 0;
+
+    expect(aggregator.getCandles('item-1', '1s')[0].close).toBe(100);
+  });
+
+  it('should restore saved bars and keep updating the newest one', () => {
+    const source = createCandleAggregator();
+    source.recordPrice('item-1', 100, 1000);
+    source.recordPrice('item-1', 104, 2200);
+
+    aggregator.restore([
+      ...source.getCandles('item-1', '1s'),
+      ...source.getCandles('item-1', '1m'),
+    ]);
+    aggregator.recordPrice('item-1', 99, 2700);
+
+    const candles = aggregator.getCandles('item-1', '1s');
+    expect(candles.map((c) => c.openTime)).toEqual([1000, 2000]);
+    expect(candles[1]).toMatchObject({ open: 104, low: 99, close: 99 });
+    expect(aggregator.getCandles('item-1', '1m')[0]).toMatchObject({ open: 100, high: 104 });
+  });
+
+  it('should keep only the latest restored bars within the retention limit', () => {
+    aggregator = createCandleAggregator({ maxCandles: 2 });
+    const source = createCandleAggregator();
+    for (let i = 0; i < 4; i++) {
+      source.recordPrice('item-1', 100 + i, i * 1000);
+    }
+
+    aggregator.restore(source.getCandles('item-1', '1s'));
+
+    const candles = aggregator.getCandles('item-1', '1s');
+    expect(candles.map((c) => c.openTime)).toEqual([2000, 3000]);
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import {
+  CompetitionSchedule,
+  accountPlayerId,
+  createCompetitionSchedule,
+  isRoundPlayerId,
+  parseRoundItemId,
+  roundItemId,
+  roundPlayerId,
+  type RoundConfig,
+} from '../competition';
+
+const NOW = 1_000_000;
+
+function makeConfig(overrides: Partial<RoundConfig> = {}): RoundConfig {
+  return {
+    name: 'Weekly',
+    startTime: NOW + 1000,
+    endTime: NOW + 60_000,
+    items: ['BTC', 'ETH'],
+    startingCash: 10000,
+    startingInventory: { BTC: 1 },
+    ...overrides,
+  };
+}
+
+describe('round IDs', () => {
+  it('should map players and items into a round and back', () => {
+    expect(roundPlayerId('round-1', 'player-a')).toBe('player-a@round-1');
+    expect(accountPlayerId('player-a@round-1')).toBe('player-a');
+    expect(accountPlayerId('player-a')).toBe('player-a');
+    expect(isRoundPlayerId('player-a@round-1')).toBe(true);
+    expect(isRoundPlayerId('player-a')).toBe(false);
+
+    expect(roundItemId('round-1', 'BTC')).toBe('round-1:BTC');
+    expect(parseRoundItemId('round-1:BTC')).toEqual({ roundId: 'round-1', itemId: 'BTC' });
+    expect(parseRoundItemId('BTC')).toBeNull();
+  });
+});
+
+describe('CompetitionSchedule', () => {
+  let schedule: CompetitionSchedule;
+
+  beforeEach(() => {
+    schedule = createCompetitionSchedule();
+  });
+
+  describe('create', () => {
+    it('should schedule a round with a new ID', () => {
+      const first = schedule.create(makeConfig(), NOW);
+      schedule.create(makeConfig({ name: 'Next' }), NOW + 1);
+
+      expect(first.roundId).toBe('round-1');
+      expect(first.status).toBe('scheduled');
+      expect(first.participants).toEqual([]);
+      expect(first.standings).toBeNull();
+      expect(schedule.list().map((r) => r.roundId)).toEqual(['round-2', 'round-1']);
+    });
+
+    it('should reject inconsistent settings', () => {
+      expect(() => schedule.create(makeConfig({ endTime: NOW + 1000 }), NOW)).toThrow(
+        'Round must end after it starts'
+      );
+      expect(() =>
+        schedule.create(makeConfig({ startTime: NOW - 2000, endTime: NOW - 1000 }), NOW)
+      ).toThrow('Round end time is in the past');
+      expect(() => schedule.create(makeConfig({ items: [] }), NOW)).toThrow(
+        'Round needs at least one item'
+      );
+      expect(() => schedule.create(makeConfig({ items: ['BTC', 'BTC'] }), NOW)).toThrow(
+        'Round items must be unique'
+      );
+      expect(() => schedule.create(makeConfig({ startingInventory: { SOL: 1 } }), NOW)).toThrow(
+        'not traded in the round'
+      );
+      expect(() => schedule.create(makeConfig({ startingInventory: { BTC: 1.5 } }), NOW)).toThrow(
+        'Invalid starting quantity'
+      );
+    });
+  });
+
+  describe('join', () => {
+    it('should add each player once', () => {
+      const round = schedule.create(makeConfig(), NOW);
+      schedule.join(round.roundId, 'alice');
+
+      expect(schedule.isParticipant(round.roundId, 'alice')).toBe(true);
+      expect(schedule.isParticipant(round.roundId, 'bob')).toBe(false);
+      expect(() => schedule.join(round.roundId, 'alice')).toThrow('Already joined');
+      expect(() => schedule.join('round-9', 'alice')).toThrow('Round not found');
+    });
+
+    it('should refuse players once the round ended', () => {
+      const round = schedule.create(makeConfig(), NOW);
+      schedule.markStarted(round.roundId);
+      schedule.finish(round.roundId, []);
+
+      expect(() => schedule.join(round.roundId, 'alice')).toThrow('Round has ended');
+    });
+  });
+
+  describe('lifecycle', () => {
+    it('should start and end rounds on time', () => {
+      const round = schedule.create(makeConfig(), NOW);
+
+      expect(schedule.getStarting(NOW)).toEqual([]);
+      expect(schedule.getStarting(NOW + 1000)).toEqual([round]);
+      expect(schedule.isTrading(round.roundId, NOW + 1000)).toBe(false);
+
+      schedule.markStarted(round.roundId);
+      expect(round.status).toBe('running');
+      expect(schedule.isTrading(round.roundId, NOW + 1000)).toBe(true);
+
+      // Trading halts at the end time, even before the round is finished
+      expect(schedule.isTrading(round.roundId, NOW + 60_000)).toBe(false);
+      expect(schedule.getEnding(NOW + 59_999)).toEqual([]);
+      expect(schedule.getEnding(NOW + 60_000)).toEqual([round]);
+    });
+
+    it('should freeze the standings once', () => {
+      const round = schedule.create(makeConfig(), NOW);
+      schedule.markStarted(round.roundId);
+
+      const standing = {
+        playerId: 'alice',
+        cash: 10000,
+        holdingsValue: 0,
+        netWorth: 10000,
+        startingValue: 10000,
+        realizedPnl: 0,
+        unrealizedPnl: 0,
+        returnPct: 0,
+        riskAdjustedReturn: null,
+        tradeCount: 0,
+        rank: 1,
+      };
+      schedule.finish(round.roundId, [standing]);
+      schedule.finish(round.roundId, []);
+
+      expect(round.status).toBe('ended');
+      expect(round.standings).toEqual([standing]);
+      expect(schedule.getEnding(NOW + 60_000)).toEqual([]);
+    });
+  });
+
+  it('should keep numbering after restored rounds', () => {
+    const round = schedule.create(makeConfig(), NOW);
+    schedule.create(makeConfig(), NOW);
+    const restored = createCompetitionSchedule();
+    restored.restore({ ...round, roundId: 'round-7' });
+
+    expect(restored.create(makeConfig(), NOW).roundId).toBe('round-8');
+    expect(restored.get('round-7')?.name).toBe('Weekly');
+  });
+});
@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { DepthTracker, createDepthTracker } from '../depth-tracker';
+import { OrderBook } from '../order-book';
+import type { Order } from '../types';
+
+function makeOrder(overrides: Partial<Order>): Order {
+  return {
+    id: 'order-1',
+    playerId: 'player-1',
+    itemId: 'item-1',
+    type: 'limit',
+    side: 'buy',
+    quantity: 10,
+    price: 100,
+    timestamp: 1000,
+    status: 'pending',
+    ...overrides,
+  };
+}
+
+describe('DepthTracker', () => {
+  let orderBook: OrderBook;
+  let tracker: DepthTracker;
+
+  beforeEach(() => {
+    orderBook = new OrderBook();
+    tracker = createDepthTracker('item-1');
+  });
+
+  it('should return null when the book has not changed', () => {
+    expect(tracker.update(orderBook.getDepth())).toBeNull();
+    expect(tracker.getSequence()).toBe(0);
+  });
+
+  it('should emit new levels with an incremented sequence', () => {
+    orderBook.addOrder(makeOrder({ id: 'bid-1', price: 99 }));
+    orderBook.addOrder(makeOrder({ id: 'ask-1', side: 'sell', price: 101, quantity: 5 }));
+
+    const diff = tracker.update(orderBook.getDepth());
+    expect(diff?.sequence).toBe(1);
+    expect(diff?.previousSequence).toBe(0);
+    expect(diff?.itemId).toBe('item-1');
+    expect(diff?.bids).toEqual([{ price: 99, quantity: 10, orderCount: 1 }]);
+    expect(diff?.asks).toEqual([{ price: 101, quantity: 5, orderCount: 1 }]);
+  });
+
+  it('should only include changed levels', () => {
+    orderBook.addOrder(makeOrder({ id: 'bid-1', price: 99 }));
+    orderBook.addOrder(makeOrder({ id: 'bid-2', price: 98 }));
+    tracker.update(orderBook.getDepth());
+
+    orderBook.addOrder(makeOrder({ id: 'bid-3', price: 98, quantity: 5 }));
+    const diff = tracker.update(orderBook.getDepth());
+
+    expect(diff?.sequence).toBe(2);
+    expect(diff?.bids).toEqual([{ price: 98, quantity: 15, orderCount: 2 }]);
+    expect(diff?.asks).toEqual([]);
+  });
+
+  it('should report removed levels with zero quantity', () => {
+    orderBook.addOrder(makeOrder({ id: 'bid-1', price: 99 }));
+    tracker.update(orderBook.getDepth());
+
+    orderBook.removeOrder('bid-1');
+    const diff = tracker.update(orderBook.getDepth());
+
+    expect(diff?.bids).toEqual([{ price: 99, quantity: 0, orderCount: 0 }]);
+  });
+
+  it('should stamp snapshots with the last diff sequence', () => {
+    orderBook.addOrder(makeOrder({ id: 'bid-1', price: 99 }));
+    tracker.update(orderBook.getDepth());
+
+    const snapshot = tracker.snapshot(1);
+    expect(snapshot.sequence).toBe(1);
+    expect(snapshot.bids).toEqual([{ price: 99, quantity: 10, orderCount: 1 }]);
+    expect(snapshot.asks).toEqual([]);
+  });
+
+  it('should snapshot the last published book, not later changes', () => {
+    orderBook.addOrder(makeOrder({ id: 'bid-1', price: 98 }));
+    orderBook.addOrder(makeOrder({ id: 'bid-2', price: 99 }));
+    orderBook.addOrder(makeOrder({ id: 'ask-1', side: 'sell', price: 102 }));
+    orderBook.addOrder(makeOrder({ id: 'ask-2', side: 'sell', price: 101 }));
+    tracker.update(orderBook.getDepth());
+
+    orderBook.addOrder(makeOrder({ id: 'bid-3', price: 100 }));
+    const snapshot = tracker.snapshot();
+
+    expect(snapshot.sequence).toBe(1);
+    expect(snapshot.bids.map((level) => level.price)).toEqual([99, 98]);
+    expect(snapshot.asks.map((level) => level.price)).toEqual([101, 102]);
+    expect(tracker.update(orderBook.getDepth())?.bids).toEqual([
+      { price: 100, quantity: 10, orderCount: 1 },
+    ]);
+  });
+
+  it('should let a client rebuild the book from snapshot and diffs', () => {
+    const local = new Map<number, number>();
+    const apply = (levels: { price: number; quantity: number }[]) => {
+      for (const level of levels) {
+        if (level.quantity === 0) local.delete(level.price);
+        else local.set(level.price, level.quantity);
+      }
+    };
+
+    orderBook.addOrder(makeOrder({ id: 'bid-1', price: 99 }));
+    tracker.update(orderBook.getDepth());
+    apply(tracker.snapshot().bids);
+
+    orderBook.addOrder(makeOrder({ id: 'bid-2', price: 97, quantity: 3 }));
+    orderBook.removeOrder('bid-1');
+    apply(tracker.update(orderBook.getDepth())?.bids ?? []);
+
+    expect(Array.from(local.entries())).toEqual([[97, 3]]);
+  });
+
+  it('should continue diffs from a restored state', () => {
+    orderBook.addOrder(makeOrder({ id: 'bid-1', price: 99 }));
+    tracker.update(orderBook.getDepth());
+
+    const restored = createDepthTracker('item-1');
+    restored.setState(tracker.getState());
+    expect(restored.update(orderBook.getDepth())).toBeNull();
+
+    orderBook.addOrder(makeOrder({ id: 'bid-2', price: 98 }));
+    const diff = restored.update(orderBook.getDepth());
+    expect(diff).toMatchObject({ sequence: 2, previousSequence: 1 });
+    expect(diff?.bids).toEqual([{ price: 98, quantity: 10, orderCount: 1 }]);
+  });
+});
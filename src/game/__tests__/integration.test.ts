@@ -12,7 +12,7 @@
  */
 
 import { describe, it, expect, afterEach } from 'bun:test';
-import { WorkerPool, createWorkerPool } from '../market-worker';
+import { WorkerPool, createWorkerPool, type WorkerResponse } from '../market-worker';
 import { MarketEngine } from '../market-engine';
 import { createPlayerSession } from '../player-session';
 import type { Order } from '../types';
@@ -69,15 +69,16 @@ describe('Integration Tests', () => {
       expect(sellResponse.type).toBe('order-submitted');
       if (sellResponse.type === 'order-submitted') {
         expect(sellResponse.orderId).toBe('sell-1');
+        expect(sellResponse.trades.length).toBeGreaterThan(0);
+        expect(sellResponse.trades[0].buyOrderId).toBe('buy-1');
+        expect(sellResponse.trades[0].sellOrderId).toBe('sell-1');
+        expect(sellResponse.trades[0].quantity).toBe(1.5);
       }
 
       const tickResponse = await pool.tick('btc-usd');
       expect(tickResponse.type).toBe('tick-completed');
       if (tickResponse.type === 'tick-completed') {
-        expect(tickResponse.trades.length).toBeGreaterThan(0);
-        expect(tickResponse.trades[0].buyOrderId).toBe('buy-1');
-        expect(tickResponse.trades[0].sellOrderId).toBe('sell-1');
-        expect(tickResponse.trades[0].quantity).toBe(1.5);
+        expect(tickResponse.trades).toEqual([]);
         expect(tickResponse.currentPrice).toBeGreaterThan(0);
       }
 
@@ -94,6 +95,7 @@ describe('Integration Tests', () => {
       await pool.start();
       await pool.spawnWorker('eth-usd', 3000.0);
 
+      let tradeCount = 0;
       for (let i = 0; i < 5; i++) {
         const buyOrder: Order = {
           id: `buy-${i}`,
@@ -119,17 +121,16 @@ describe('Integration Tests', () => {
           timestamp: Date.now() + i + 0.5,
           status: 'pending',
         };
-        await pool.submitOrder(sellOrder);
+        const response = await pool.submitOrder(sellOrder);
+        if (response.type === 'order-submitted') {
+          tradeCount += response.trades.length;
+        }
       }
 
-      const tickResponse = await pool.tick('eth-usd');
-      expect(tickResponse.type).toBe('tick-completed');
-      if (tickResponse.type === 'tick-completed') {
-        expect(tickResponse.trades.length).toBe(5);
-      }
+      expect(tradeCount).toBe(5);
     });
 
-    it('should handle partial fills across multiple ticks', async () => {
+    it('should handle partial fills across multiple orders', async () => {
       pool = createWorkerPool();
       await pool.start();
       await pool.spawnWorker('sol-usd', 100.0);
@@ -147,6 +148,7 @@ describe('Integration Tests', () => {
       };
       await pool.submitOrder(largeBuy);
 
+      let filled = 0;
       for (let i = 0; i < 5; i++) {
         const sellOrder: Order = {
           id: `sell-${i}`,
@@ -159,14 +161,18 @@ describe('Integration Tests', () => {
           timestamp: Date.now() + i,
           status: 'pending',
         };
-        await pool.submitOrder(sellOrder);
+        const response = await pool.submitOrder(sellOrder);
+        if (response.type === 'order-submitted') {
+          filled += response.trades.reduce((sum, t) => sum + t.quantity, 0);
+        }
       }
 
-      const tickResponse = await pool.tick('sol-usd');
-      expect(tickResponse.type).toBe('tick-completed');
-      if (tickResponse.type === 'tick-completed') {
-        expect(tickResponse.trades.length).toBeGreaterThan(0);
-        expect(tickResponse.trades.reduce((sum, t) => sum + t.quantity, 0)).toBeGreaterThan(0);
+      // The buy fills 250 across three sells; the rest rest on the ask side
+      expect(filled).toBe(250);
+      const book = await pool.getOrderBook('sol-usd');
+      if (book.type === 'order-book') {
+        expect(book.bids).toEqual([]);
+        expect(book.asks.reduce((sum, o) => sum + o.quantity, 0)).toBe(250);
       }
     });
   });
@@ -189,6 +195,7 @@ describe('Integration Tests', () => {
 
       expect(pool.getWorkerCount()).toBe(markets.length);
 
+      const tradesByMarket = new Map<string, number>();
       for (const market of markets) {
         const buyOrder: Order = {
           id: `buy-${market.itemId}`,
@@ -205,7 +212,7 @@ describe('Integration Tests', () => {
 
         const sellOrder: Order = {
           id: `sell-${market.itemId}`,
-          playerId: `trader-${market.itemId}`,
+          playerId: `seller-${market.itemId}`,
           itemId: market.itemId,
           type: 'limit',
           side: 'sell',
@@ -214,7 +221,14 @@ describe('Integration Tests', () => {
           timestamp: Date.now(),
           status: 'pending',
         };
-        await pool.submitOrder(sellOrder);
+        const response = await pool.submitOrder(sellOrder);
+        if (response.type === 'order-submitted') {
+          tradesByMarket.set(market.itemId, response.trades.length);
+        }
+      }
+
+      for (const market of markets) {
+        expect(tradesByMarket.get(market.itemId)).toBeGreaterThan(0);
       }
 
       const results = await pool.tickAll();
@@ -223,7 +237,6 @@ describe('Integration Tests', () => {
       for (const [_itemId, response] of results) {
         expect(response.type).toBe('tick-completed');
         if (response.type === 'tick-completed') {
-          expect(response.trades.length).toBeGreaterThan(0);
           expect(response.currentPrice).toBeGreaterThan(0);
         }
       }
@@ -289,7 +302,9 @@ describe('Integration Tests', () => {
       await pool.spawnWorker('concurrent-market', 1000.0);
 
       const numPlayers = 50;
-      const orderPromises: Promise<void>[] = [];
+      const orderPromises: Promise<number>[] = [];
+      const tradeCount = (response: WorkerResponse) =>
+        response.type === 'order-submitted' ? response.trades.length : 0;
 
       for (let i = 0; i < numPlayers; i++) {
         const playerId = `player-${i}`;
@@ -305,7 +320,7 @@ describe('Integration Tests', () => {
           timestamp: Date.now() + i,
           status: 'pending',
         };
-        orderPromises.push(pool.submitOrder(buyOrder).then(() => undefined));
+        orderPromises.push(pool.submitOrder(buyOrder).then(tradeCount));
 
         const sellOrder: Order = {
           id: `sell-${playerId}`,
@@ -318,16 +333,14 @@ describe('Integration Tests', () => {
           timestamp: Date.now() + i + 0.5,
           status: 'pending',
         };
-        orderPromises.push(pool.submitOrder(sellOrder).then(() => undefined));
+        orderPromises.push(pool.submitOrder(sellOrder).then(tradeCount));
       }
 
-      await Promise.all(orderPromises);
+      const counts = await Promise.all(orderPromises);
+      expect(counts.reduce((sum, n) => sum + n, 0)).toBeGreaterThan(0);
 
       const tickResponse = await pool.tick('concurrent-market');
       expect(tickResponse.type).toBe('tick-completed');
-      if (tickResponse.type === 'tick-completed') {
-        expect(tickResponse.trades.length).toBeGreaterThan(0);
-      }
     });
 
     it('should maintain player session state across multiple transactions', async () => {
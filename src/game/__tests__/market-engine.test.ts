@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach } from 'bun:test';
 import { MarketEngine } from '../market-engine';
+import { createSeededRandom } from '../random';
 
 describe('MarketEngine', () => {
   let engine: MarketEngine;
@@ -66,10 +67,12 @@ describe('MarketEngine', () => {
     it('should produce price variance with volatility', () => {
       const highVolEngine = new MarketEngine('HIGH_VOL', 100.0, {
         volatility: 0.5,
+        seed: 1,
       });
 
       const lowVolEngine = new MarketEngine('LOW_VOL', 100.0, {
         volatility: 0.05,
+        seed: 1,
       });
 
       const highVolPrices: number[] = [];
@@ -93,6 +96,7 @@ describe('MarketEngine', () => {
         drift: 0.5,
         volatility: 0.1,
         dt: 0.01,
+        seed: 1,
       });
 
       const initialPrice = positiveDriftEngine.getCurrentPrice();
@@ -119,6 +123,149 @@ describe('MarketEngine', () => {
     });
   });
 
+  describe('seeded randomness', () => {
+    function pricePath(engine: MarketEngine, steps: number): number[] {
+      const prices: number[] = [];
+      for (let i = 0; i < steps; i++) {
+        engine.updatePrice();
+        prices.push(engine.getCurrentPrice());
+      }
+      return prices;
+    }
+
+    it('should reproduce identical prices for the same seed', () => {
+      const a = new MarketEngine('SEEDED', 100.0, { seed: 42 });
+      const b = new MarketEngine('SEEDED', 100.0, { seed: 42 });
+
+      expect(pricePath(a, 500)).toEqual(pricePath(b, 500));
+    });
+
+    it('should reproduce identical prices for the same order stream', () => {
+      const a = new MarketEngine('SEEDED', 100.0, { seed: 42 });
+      const b = new MarketEngine('SEEDED', 100.0, { seed: 42 });
+
+      for (const engine of [a, b]) {
+        engine.recordOrder('buy', 10);
+        engine.updatePrice();
+        engine.recordOrder('sell', 3);
+        engine.updatePrice();
+      }
+
+      expect(a.getCurrentPrice()).toBe(b.getCurrentPrice());
+    });
+
+    it('should diverge for different seeds', () => {
+      const a = new MarketEngine('SEEDED', 100.0, { seed: 1 });
+      const b = new MarketEngine('SEEDED', 100.0, { seed: 2 });
+
+      expect(pricePath(a, 10)).not.toEqual(pricePath(b, 10));
+    });
+
+    it('should draw from an injected random source', () => {
+      const a = new MarketEngine('INJECTED', 100.0, { random: createSeededRandom(7) });
+      const b = new MarketEngine('INJECTED', 100.0, { seed: 7 });
+
+      expect(pricePath(a, 50)).toEqual(pricePath(b, 50));
+    });
+
+    it('should replay from a restored random state', () => {
+      const seeded = new MarketEngine('SEEDED', 100.0, { seed: 42 });
+      pricePath(seeded, 20);
+
+      const state = seeded.getRandomState();
+      const price = seeded.getCurrentPrice();
+      const expected = pricePath(seeded, 20);
+
+      const replay = new MarketEngine('SEEDED', price, { seed: 0 });
+      replay.setRandomState(state);
+      expect(pricePath(replay, 20)).toEqual(expected);
+    });
+  });
+
+  describe('getState and setState', () => {
+    function pricePath(engine: MarketEngine, steps: number): number[] {
+      const prices: number[] = [];
+      for (let i = 0; i < steps; i++) {
+        engine.updatePrice();
+        prices.push(engine.getCurrentPrice());
+      }
+      return prices;
+    }
+
+    it('should continue the same price path from a snapshot', () => {
+      for (const priceModel of [
+        undefined,
+        { type: 'mean-reversion' as const, speed: 5 },
+        { type: 'stochastic-volatility' as const, kappa: 3, xi: 0.5, rho: -0.6 },
+        {
+          type: 'regime-switching' as const,
+          regimes: [
+            { name: 'calm', drift: 0.05, volatility: 0.2, meanDuration: 0.01 },
+            { name: 'wild', drift: -0.1, volatility: 0.8, meanDuration: 0.01 },
+          ],
+        },
+      ]) {
+        const original = new MarketEngine('SNAP', 100.0, { seed: 42, priceModel });
+        pricePath(original, 30);
+        original.recordOrder('buy', 10);
+        original.setVolatility(0.4);
+
+        const state = original.getState();
+        const expected = pricePath(original, 30);
+
+        const restored = new MarketEngine('SNAP', 1.0, { seed: 7, priceModel });
+        restored.setState(JSON.parse(JSON.stringify(state)));
+        expect(restored.getVolatility()).toBe(0.4);
+        expect(pricePath(restored, 30)).toEqual(expected);
+      }
+    });
+  });
+
+  describe('price models', () => {
+    it('should use GBM by default', () => {
+      expect(engine.getPriceModel().type).toBe('gbm');
+    });
+
+    it('should use the configured price model', () => {
+      const jumpy = new MarketEngine('JUMPY', 100.0, {
+        priceModel: { type: 'jump-diffusion', jumpIntensity: 10, jumpMean: 0, jumpStdDev: 0.1 },
+      });
+      expect(jumpy.getPriceModel().type).toBe('jump-diffusion');
+    });
+
+    it('should keep a mean-reverting item near its peg', () => {
+      const pegged = new MarketEngine('PEGGED', 1.0, {
+        volatility: 0.02,
+        seed: 42,
+        priceModel: { type: 'mean-reversion', speed: 5, mean: 1 },
+      });
+
+      for (let i = 0; i < 1000; i++) {
+        pegged.updatePrice();
+      }
+
+      expect(pegged.getCurrentPrice()).toBeGreaterThan(0.95);
+      expect(pegged.getCurrentPrice()).toBeLessThan(1.05);
+    });
+
+    it('should still apply order flow pressure', () => {
+      const quiet = new MarketEngine('PEGGED', 1.0, {
+        volatility: 0,
+        priceModel: { type: 'mean-reversion', speed: 5, mean: 1 },
+      });
+      const pushed = new MarketEngine('PEGGED', 1.0, {
+        volatility: 0,
+        priceModel: { type: 'mean-reversion', speed: 5, mean: 1 },
+      });
+
+      pushed.recordOrder('buy', 100);
+      quiet.updatePrice();
+      pushed.updatePrice();
+
+      expect(pushed.getCurrentPrice()).toBeGreaterThan(quiet.getCurrentPrice());
+    });
+  });
+
   describe('volatility', () => {
     it('should set and get volatility', () => {
       engine.setVolatility(0.5);
@@ -282,6 +429,34 @@ describe('MarketEngine', () => {
         engine.updatePrice();
       }).not.toThrow();
     });
+
+    it('should change only the parameters given', () => {
+      const tuned = new MarketEngine('TEST_TUNE', 100.0, { drift: 0.05, volatility: 0.2 });
+
+      tuned.setParameters({ volatility: 0.6, pressureFactor: -3 });
+
+      expect(tuned.getParameters()).toEqual({
+        drift: 0.05,
+        volatility: 0.6,
+        dt: tuned.getParameters().dt,
+        pressureFactor: 0,
+      });
+    });
+  });
+
+  describe('price shocks', () => {
+    it('should move the price by the given fraction', () => {
+      engine.applyShock(-0.25);
+      expect(engine.getCurrentPrice()).toBeCloseTo(75);
+
+      engine.applyShock(0.1);
+      expect(engine.getCurrentPrice()).toBeCloseTo(82.5);
+    });
+
+    it('should reject shocks that wipe out the price', () => {
+      expect(() => engine.applyShock(-1)).toThrow('zero');
+      expect(engine.getCurrentPrice()).toBe(100.0);
+    });
   });
 });
 
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'bun:test';
+import { CircuitBreaker, MarketHalts, createMarketHalts } from '../market-halts';
+
+const BREAKER = { maxMove: 0.1, windowMs: 60_000, haltMs: 30_000 };
+
+describe('CircuitBreaker', () => {
+  it('should trip on a move beyond the limit within the window', () => {
+    const breaker = new CircuitBreaker(BREAKER);
+
+    expect(breaker.record(100, 0)).toBeNull();
+    expect(breaker.record(105, 10_000)).toBeNull();
+    expect(breaker.record(95, 20_000)).toBeNull();
+    // Measured from the lowest price in the window
+    expect(breaker.record(111, 30_000)).toBeCloseTo(111 / 95 - 1);
+  });
+
+  it('should report the largest move, falls included', () => {
+    const breaker = new CircuitBreaker(BREAKER);
+
+    breaker.record(100, 0);
+    breaker.record(98, 1000);
+    expect(breaker.record(88, 2000)).toBeCloseTo(-0.12);
+  });
+
+  it('should forget prices older than the window', () => {
+    const breaker = new CircuitBreaker(BREAKER);
+
+    breaker.record(100, 0);
+    breaker.record(105, 50_000);
+    expect(breaker.record(112, 70_000)).toBeNull();
+  });
+
+  it('should start over after a trip', () => {
+    const breaker = new CircuitBreaker(BREAKER);
+
+    breaker.record(100, 0);
+    expect(breaker.record(120, 1000)).not.toBeNull();
+    expect(breaker.record(121, 2000)).toBeNull();
+    expect(breaker.record(125, 3000)).toBeNull();
+  });
+
+  it('should reject settings that are not positive', () => {
+    expect(() => new CircuitBreaker({ ...BREAKER, maxMove: 0 })).toThrow('move');
+    expect(() => new CircuitBreaker({ ...BREAKER, windowMs: -1 })).toThrow('window');
+    expect(() => new CircuitBreaker({ ...BREAKER, haltMs: 0 })).toThrow('halt');
+  });
+});
+
+describe('MarketHalts', () => {
+  it('should halt a market until resumed by hand', () => {
+    const halts = createMarketHalts();
+
+    const halt = halts.halt('BTC', { message: 'Maintenance' }, 1000);
+    expect(halt).toEqual({
+      itemId: 'BTC',
+      reason: 'manual',
+      message: 'Maintenance',
+      haltedAt: 1000,
+      resumesAt: null,
+    });
+    expect(halts.isHalted('BTC', 1_000_000)).toBe(true);
+    expect(halts.isHalted('ETH', 1000)).toBe(false);
+
+    expect(halts.resume('BTC')).toEqual(halt);
+    expect(halts.isHalted('BTC')).toBe(false);
+    expect(halts.resume('BTC')).toBeUndefined();
+  });
+
+  it('should lift timed halts once their time is up', () => {
+    const halts = new MarketHalts();
+    halts.halt('BTC', { durationMs: 5000 }, 1000);
+    halts.halt('ETH', {}, 1000);
+
+    expect(halts.isHalted('BTC', 5999)).toBe(true);
+    expect(halts.isHalted('BTC', 6000)).toBe(false);
+    expect(halts.resumeExpired(5999)).toEqual([]);
+    expect(halts.resumeExpired(6000).map((halt) => halt.itemId)).toEqual(['BTC']);
+    expect(halts.listHalts().map((halt) => halt.itemId)).toEqual(['ETH']);
+  });
+
+  it('should halt a market its circuit breaker trips on', () => {
+    const halts = new MarketHalts();
+    halts.setCircuitBreaker('BTC', BREAKER);
+
+    expect(halts.recordPrice('BTC', 100, 0)).toBeNull();
+    const halt = halts.recordPrice('BTC', 85, 1000);
+
+    expect(halt).toEqual({
+      itemId: 'BTC',
+      reason: 'circuit-breaker',
+      message: 'Price moved -15.0% within 60s',
+      haltedAt: 1000,
+      resumesAt: 31_000,
+    });
+    expect(halts.isHalted('BTC', 1000)).toBe(true);
+
+    // Prices are not watched while halted
+    expect(halts.recordPrice('BTC', 50, 2000)).toBeNull();
+  });
+
+  it('should ignore prices of markets without a breaker', () => {
+    const halts = new MarketHalts();
+    halts.setCircuitBreaker('BTC', BREAKER);
+    expect(halts.getCircuitBreaker('BTC')).toEqual(BREAKER);
+
+    halts.setCircuitBreaker('BTC', null);
+    halts.recordPrice('BTC', 100, 0);
+    expect(halts.recordPrice('BTC', 50, 1000)).toBeNull();
+    expect(halts.getCircuitBreaker('BTC')).toBeUndefined();
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { appendFileSync, mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { MarketJournal, createMarketJournal } from '../market-journal';
+import type { WorkerSnapshot } from '../market-worker';
+
+const SNAPSHOT: WorkerSnapshot = {
+  book: {
+    orders: [],
+    stopOrders: [],
+    displayed: [],
+    queue: [],
+    lastTradePrice: 101,
+    bookId: 'book-1',
+    nextTradeId: 3,
+    nextSequence: 7,
+  },
+  engine: {
+    currentPrice: 101,
+    drift: 0.08,
+    volatility: 0.2,
+    dt: 1 / 252,
+    pressureFactor: 1,
+    buyVolume: 0,
+    sellVolume: 0,
+    orderTimestamps: [],
+    randomState: 12345,
+    modelState: null,
+  },
+  depth: { sequence: 4, bids: [], asks: [] },
+};
+
+describe('MarketJournal', () => {
+  let dir: string;
+  let journal: MarketJournal;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'market-journal-'));
+    journal = createMarketJournal(dir, 'item-1');
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should number entries and load them back in order', () => {
+    journal.append({ type: 'tick' }, 1000);
+    journal.append({ type: 'cancel-order', orderId: 'order-1' }, 1001);
+
+    expect(journal.load()).toEqual({
+      snapshot: null,
+      entries: [
+        { seq: 1, at: 1000, message: { type: 'tick' } },
+        { seq: 2, at: 1001, message: { type: 'cancel-order', orderId: 'order-1' } },
+      ],
+    });
+    expect(journal.getPendingCount()).toBe(2);
+  });
+
+  it('should drop entries covered by a snapshot', () => {
+    journal.append({ type: 'tick' }, 1000);
+    journal.append({ type: 'tick' }, 1001);
+    journal.append({ type: 'tick' }, 1002);
+
+    journal.writeSnapshot(2, SNAPSHOT, 1005);
+
+    const { snapshot, entries } = journal.load();
+    expect(snapshot).toEqual({ seq: 2, takenAt: 1005, state: SNAPSHOT });
+    expect(entries.map((entry) => entry.seq)).toEqual([3]);
+    expect(journal.getPendingCount()).toBe(1);
+  });
+
+  it('should truncate unfinished entries and reuse their sequence numbers', () => {
+    journal.append({ type: 'tick' });
+    journal.append({ type: 'tick' });
+    journal.append({ type: 'tick' });
+
+    expect(journal.truncateAfter(1)).toBe(2);
+    expect(journal.append({ type: 'tick' }).seq).toBe(2);
+    expect(journal.load().entries.map((entry) => entry.seq)).toEqual([1, 2]);
+  });
+
+  it('should pick up where an existing journal left off', () => {
+    journal.append({ type: 'tick' });
+    journal.writeSnapshot(1, SNAPSHOT);
+    journal.append({ type: 'tick' });
+
+    const reopened = createMarketJournal(dir, 'item-1');
+    expect(reopened.getLastSeq()).toBe(2);
+    expect(reopened.getPendingCount()).toBe(1);
+    expect(reopened.append({ type: 'tick' }).seq).toBe(3);
+  });
+
+  it('should ignore a torn last line', () => {
+    journal.append({ type: 'tick' }, 1000);
+    appendFileSync(join(dir, 'item-1.journal'), '{"seq":2,"at":10');
+
+    expect(journal.load().entries).toEqual([{ seq: 1, at: 1000, message: { type: 'tick' } }]);
+
+    const reopened = createMarketJournal(dir, 'item-1');
+    reopened.append({ type: 'tick' }, 1001);
+    expect(reopened.load().entries.map((entry) => entry.seq)).toEqual([1, 2]);
+  });
+
+  it('should start over after a reset', () => {
+    journal.append({ type: 'tick' });
+    journal.writeSnapshot(1, SNAPSHOT);
+
+    journal.reset();
+
+    expect(journal.load()).toEqual({ snapshot: null, entries: [] });
+    expect(journal.append({ type: 'tick' }).seq).toBe(1);
+  });
+});
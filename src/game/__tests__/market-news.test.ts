@@ -0,0 +1,217 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  MarketNews,
+  createMarketNews,
+  type NewsEventSpec,
+  type NewsTemplate,
+} from '../market-news';
+import type { RandomSource } from '../random';
+
+/**
+ * Random source returning the same value every time
+ */
+function fixedRandom(value: number): RandomSource {
+  return { next: () => value, getState: () => 0, setState: () => undefined };
+}
+
+function makeSpec(overrides: Partial<NewsEventSpec> = {}): NewsEventSpec {
+  return {
+    kind: 'earnings',
+    headline: 'Bitcoin beats expectations',
+    itemIds: ['BTC'],
+    impact: { jump: 0.05, drift: 0.1, volatility: 0.5 },
+    impactAt: 10_000,
+    leadMs: 5000,
+    decayMs: 20_000,
+    ...overrides,
+  };
+}
+
+const MARKETS = [
+  { itemId: 'BTC', name: 'Bitcoin', sector: 'Layer 1' },
+  { itemId: 'ETH', name: 'Ether', sector: 'Layer 1' },
+  { itemId: 'DOGE', name: 'Dogecoin' },
+];
+
+describe('MarketNews', () => {
+  describe('scheduled events', () => {
+    it('should announce, land and end an event on time', () => {
+      const news = new MarketNews();
+      const event = news.schedule(makeSpec(), 0);
+      expect(event.status).toBe('scheduled');
+      expect(event.announceAt).toBe(5000);
+
+      expect(news.update(4999).announced).toEqual([]);
+      expect(news.update(5000).announced.map((e) => e.eventId)).toEqual([event.eventId]);
+
+      const { landed } = news.update(10_000);
+      expect(landed).toHaveLength(1);
+      expect(landed[0].materialised).toBe(true);
+
+      expect(news.update(29_999).ended).toEqual([]);
+      expect(news.update(30_000).ended.map((e) => e.status)).toEqual(['ended']);
+    });
+
+    it('should announce and land at once when the update is late', () => {
+      const news = new MarketNews();
+      news.schedule(makeSpec(), 0);
+
+      const update = news.update(12_000);
+      expect(update.announced).toHaveLength(1);
+      expect(update.landed).toHaveLength(1);
+      expect(update.ended).toEqual([]);
+    });
+
+    it('should hide events until they are announced', () => {
+      const news = new MarketNews();
+      news.schedule(makeSpec(), 0);
+
+      expect(news.listEvents()).toEqual([]);
+      expect(news.listEvents({ unannounced: true })).toHaveLength(1);
+      news.update(5000);
+      expect(news.listEvents()).toHaveLength(1);
+    });
+
+    it('should cancel events that have not landed', () => {
+      const news = new MarketNews();
+      const event = news.schedule(makeSpec(), 0);
+
+      expect(news.cancel(event.eventId)?.status).toBe('cancelled');
+      expect(news.update(10_000).landed).toEqual([]);
+      expect(news.cancel(event.eventId)).toBeUndefined();
+    });
+
+    it('should reject invalid events', () => {
+      const news = new MarketNews();
+
+      expect(() => news.schedule(makeSpec({ itemIds: [] }), 0)).toThrow('at least one item');
+      expect(() => news.schedule(makeSpec({ impactAt: 0 }), 1)).toThrow('past');
+      expect(() => news.schedule(makeSpec({ decayMs: 0 }), 0)).toThrow('Decay');
+      expect(() => news.schedule(makeSpec({ probability: 0 }), 0)).toThrow('Probability');
+      expect(() => news.schedule(makeSpec({ impact: { jump: -1 } }), 0)).toThrow('zero');
+    });
+  });
+
+  describe('impact', () => {
+    it('should fade the drift and volatility shift over the decay period', () => {
+      const news = new MarketNews();
+      news.schedule(makeSpec(), 0);
+      news.update(10_000);
+
+      expect(news.getAdjustment('BTC', 10_000)).toEqual({ drift: 0.1, volatility: 1.5 });
+      const halfway = news.getAdjustment('BTC', 20_000);
+      expect(halfway.drift).toBeCloseTo(0.05);
+      expect(halfway.volatility).toBeCloseTo(1.25);
+      expect(news.getAdjustment('ETH', 10_000)).toEqual({ drift: 0, volatility: 1 });
+      expect(news.getAffectedItems()).toEqual(['BTC']);
+
+      news.update(30_000);
+      expect(news.getAdjustment('BTC', 30_000)).toEqual({ drift: 0, volatility: 1 });
+      expect(news.getAffectedItems()).toEqual([]);
+    });
+
+    it('should combine events on the same market', () => {
+      const news = new MarketNews();
+      news.schedule(makeSpec(), 0);
+      news.schedule(makeSpec({ impact: { drift: -0.3, volatility: 1 } }), 0);
+      news.update(10_000);
+
+      const adjustment = news.getAdjustment('BTC', 10_000);
+      expect(adjustment.drift).toBeCloseTo(-0.2);
+      expect(adjustment.volatility).toBeCloseTo(3);
+    });
+
+    it('should land rumours with their probability', () => {
+      const falseRumour = new MarketNews({}, fixedRandom(0.7));
+      falseRumour.schedule(makeSpec({ kind: 'rumour', probability: 0.5 }), 0);
+
+      expect(falseRumour.update(10_000).landed[0].materialised).toBe(false);
+      expect(falseRumour.getAdjustment('BTC', 10_000)).toEqual({ drift: 0, volatility: 1 });
+
+      const trueRumour = new MarketNews({}, fixedRandom(0.3));
+      trueRumour.schedule(makeSpec({ kind: 'rumour', probability: 0.5 }), 0);
+      expect(trueRumour.update(10_000).landed[0].materialised).toBe(true);
+    });
+  });
+
+  describe('random events', () => {
+    const SECTOR_SHOCK: NewsTemplate = {
+      kind: 'supply-shock',
+      scope: 'sector',
+      headlines: ['Supply squeeze across {sector}'],
+      jump: [0.02, 0.04],
+      leadMs: 1000,
+      decayMs: 60_000,
+    };
+
+    it('should only start the clock on the first call', () => {
+      const news = new MarketNews({}, fixedRandom(0));
+      expect(news.generate(MARKETS, 0)).toEqual([]);
+      expect(news.generate(MARKETS, 0)).toEqual([]);
+    });
+
+    it('should draw events from the templates', () => {
+      const news = new MarketNews({ templates: [SECTOR_SHOCK] }, fixedRandom(0.5));
+      news.generate(MARKETS, 0);
+
+      // One interval gives each market a 1 - 1/e chance of an event
+      const events = news.generate(MARKETS, 10 * 60 * 1000);
+      expect(events).toHaveLength(2); // DOGE has no sector
+      expect(events[0]).toMatchObject({
+        kind: 'supply-shock',
+        source: 'random',
+        headline: 'Supply squeeze across Layer 1',
+        itemIds: ['BTC', 'ETH'],
+        sector: 'Layer 1',
+        impact: { jump: 0.03 },
+        impactAt: 601_000,
+        announceAt: 600_000,
+      });
+    });
+
+    it('should leave out shifts none of the markets hit can take', () => {
+      const news = new MarketNews(
+        { templates: [{ ...SECTOR_SHOCK, drift: 0.02, volatility: 0.5 }] },
+        fixedRandom(0.5)
+      );
+      const markets = [
+        { ...MARKETS[0], shifts: [] },
+        { ...MARKETS[1], shifts: ['volatility' as const] },
+      ];
+      news.generate(markets, 0);
+
+      const [event] = news.generate(markets, 10 * 60 * 1000);
+      expect(event.impact).toEqual({ jump: 0.03, drift: undefined, volatility: 0.5 });
+    });
+
+    it('should draw nothing when unlucky', () => {
+      const news = new MarketNews({ meanIntervalMs: 60_000 }, fixedRandom(0.99));
+      news.generate(MARKETS, 0);
+      expect(news.generate(MARKETS, 1000)).toEqual([]);
+    });
+
+    it('should replay the same events for the same seed', () => {
+      const draw = () => {
+        const news = createMarketNews({ meanIntervalMs: 1000 }, 42);
+        news.generate(MARKETS, 0);
+        return news.generate(MARKETS, 1000).map(({ headline, itemIds }) => ({ headline, itemIds }));
+      };
+
+      expect(draw()).toEqual(draw());
+    });
+
+    it('should reject a non-positive event interval', () => {
+      expect(() => new MarketNews({ meanIntervalMs: 0 })).toThrow('positive');
+    });
+  });
+
+  it('should keep a bounded history of finished events', () => {
+    const news = new MarketNews({ maxHistory: 2 });
+    for (let i = 0; i < 4; i++) {
+      news.schedule(makeSpec({ impactAt: 1000 * (i + 1), leadMs: 0, decayMs: 100 }), 0);
+    }
+    news.update(10_000);
+
+    expect(news.listEvents().map((event) => event.impactAt)).toEqual([4000, 3000]);
+  });
+});
@@ -3,6 +3,10 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createMarketJournal } from '../market-journal';
 import { MarketWorker, WorkerPool } from '../market-worker';
 import type { Order } from '../types';
 
@@ -209,7 +213,7 @@ describe('MarketWorker', () => {
         type: 'limit',
         side: 'sell',
         quantity: 10,
-        price: 100.0,
+        price: 101.0,
         timestamp: Date.now(),
         status: 'pending',
       };
@@ -227,6 +231,144 @@ describe('MarketWorker', () => {
     });
   });
 
+  describe('market state', () => {
+    beforeEach(async () => {
+      await worker.start();
+    });
+
+    it('should return current price and top of book', async () => {
+      const buyOrder: Order = {
+        id: 'order-market-bid-1',
+        playerId: 'player-1',
+        itemId: 'item-1',
+        type: 'limit',
+        side: 'buy',
+        quantity: 10,
+        price: 95.0,
+        timestamp: Date.now(),
+        status: 'pending',
+      };
+
+      await worker.submitOrder(buyOrder);
+      const response = await worker.getMarket();
+
+      expect(response.type).toBe('market-state');
+      if (response.type === 'market-state') {
+        expect(response.itemId).toBe('item-1');
+        expect(response.currentPrice).toBe(100.0);
+        expect(response.bestBid).toBe(95.0);
+        expect(response.bestAsk).toBeNull();
+        expect(response).not.toHaveProperty('_messageId');
+      }
+    });
+
+    it('should return aggregated depth', async () => {
+      for (const [id, price] of [
+        ['depth-1', 95.0],
+        ['depth-2', 95.0],
+        ['depth-3', 94.0],
+      ] as const) {
+        await worker.submitOrder({
+          id,
+          playerId: 'player-1',
+          itemId: 'item-1',
+          type: 'limit',
+          side: 'buy',
+          quantity: 10,
+          price,
+          timestamp: Date.now(),
+          status: 'pending',
+        });
+      }
+
+      const tick = await worker.tick();
+      expect(tick.type).toBe('tick-completed');
+      if (tick.type === 'tick-completed') {
+        expect(tick.depthDiff?.sequence).toBe(1);
+        expect(tick.depthDiff?.bids).toHaveLength(2);
+      }
+
+      const response = await worker.getDepth(1);
+
+      expect(response.type).toBe('depth');
+      if (response.type === 'depth') {
+        expect(response.snapshot.itemId).toBe('item-1');
+        expect(response.snapshot.sequence).toBe(1);
+        expect(response.snapshot.bids).toEqual([{ price: 95.0, quantity: 20, orderCount: 2 }]);
+      }
+    });
+
+    it('should only snapshot depth already published in a diff', async () => {
+      await worker.submitOrder({
+        id: 'depth-1',
+        playerId: 'player-1',
+        itemId: 'item-1',
+        type: 'limit',
+        side: 'buy',
+        quantity: 10,
+        price: 95.0,
+        timestamp: Date.now(),
+        status: 'pending',
+      });
+
+      const response = await worker.getDepth();
+
+      expect(response.type).toBe('depth');
+      if (response.type === 'depth') {
+        expect(response.snapshot.sequence).toBe(0);
+        expect(response.snapshot.bids).toEqual([]);
+      }
+    });
+
+    it('should pass engine config to the worker', async () => {
+      const volatileWorker = new MarketWorker('item-2', 50.0, { volatility: 0.9 });
+      await volatileWorker.start();
+
+      const response = await volatileWorker.getMarket();
+      await volatileWorker.stop();
+
+      expect(response.type).toBe('market-state');
+      if (response.type === 'market-state') {
+        expect(response.volatility).toBe(0.9);
+      }
+    });
+
+    it('should tune parameters and apply shocks', async () => {
+      const tuned = await worker.setParameters({ volatility: 0.7 });
+      expect(tuned.type).toBe('parameters');
+      if (tuned.type === 'parameters') {
+        expect(tuned.parameters.volatility).toBe(0.7);
+      }
+
+      const shocked = await worker.shock(-0.2);
+      expect(shocked.type).toBe('market-state');
+      if (shocked.type === 'market-state') {
+        expect(shocked.currentPrice).toBeCloseTo(80);
+        expect(shocked.volatility).toBe(0.7);
+      }
+    });
+
+    it('should replay the same prices for the same seed', async () => {
+      const prices: number[][] = [];
+
+      for (const itemId of ['seeded-a', 'seeded-b']) {
+        const seeded = new MarketWorker(itemId, 100.0, { seed: 1234 });
+        await seeded.start();
+
+        const path: number[] = [];
+        for (let i = 0; i < 5; i++) {
+          const response = await seeded.tick();
+          if (response.type === 'tick-completed') path.push(response.currentPrice);
+        }
+        await seeded.stop();
+        prices.push(path);
+      }
+
+      expect(prices[0]).toHaveLength(5);
+      expect(prices[0]).toEqual(prices[1]);
+    });
+  });
+
   describe('market tick', () => {
     beforeEach(async () => {
       await worker.start();
@@ -243,7 +385,7 @@ describe('MarketWorker', () => {
       }
     });
 
-    it('should match orders on tick', async () => {
+    it('should match crossing orders on entry', async () => {
       const buyOrder: Order = {
         id: 'order-bid-tick-1',
         playerId: 'player-1',
@@ -268,16 +410,231 @@ describe('MarketWorker', () => {
         status: 'pending',
       };
 
-      await worker.submitOrder(buyOrder);
-      await worker.submitOrder(sellOrder);
+      const buyResponse = await worker.submitOrder(buyOrder);
+      if (buyResponse.type === 'order-submitted') {
+        expect(buyResponse.trades).toEqual([]);
+      }
+
+      const response = await worker.submitOrder(sellOrder);
+
+      expect(response.type).toBe('order-submitted');
+      if (response.type === 'order-submitted') {
+        expect(response.trades).toHaveLength(1);
+        expect(response.trades[0].buyOrderId).toBe('order-bid-tick-1');
+        expect(response.trades[0].sellOrderId).toBe('order-ask-tick-1');
+      }
+
+      const tick = await worker.tick();
+      if (tick.type === 'tick-completed') {
+        expect(tick.trades).toEqual([]);
+      }
+    });
+
+    it('should amend a resting order and match it at its new price', async () => {
+      await worker.submitOrder({
+        id: 'order-amend-ask',
+        playerId: 'player-2',
+        itemId: 'item-1',
+        type: 'limit',
+        side: 'sell',
+        quantity: 5,
+        price: 102.0,
+        timestamp: Date.now(),
+        status: 'pending',
+      });
+      await worker.submitOrder({
+        id: 'order-amend-bid',
+        playerId: 'player-1',
+        itemId: 'item-1',
+        type: 'limit',
+        side: 'buy',
+        quantity: 10,
+        price: 100.0,
+        timestamp: Date.now(),
+        status: 'pending',
+      });
+
+      const response = await worker.amendOrder('order-amend-bid', { price: 102.0 });
+
+      expect(response.type).toBe('order-amended');
+      if (response.type === 'order-amended') {
+        expect(response.order).toMatchObject({ price: 102.0, quantity: 10 });
+        expect(response.trades).toHaveLength(1);
+        expect(response.trades[0].quantity).toBe(5);
+      }
+
+      const missing = await worker.amendOrder('order-unknown', { quantity: 1 });
+      expect(missing.type).toBe('error');
+    });
+
+    it('should refuse an amendment made against a stale open quantity', async () => {
+      await worker.submitOrder({
+        id: 'order-stale-bid',
+        playerId: 'player-1',
+        itemId: 'item-1',
+        type: 'limit',
+        side: 'buy',
+        quantity: 10,
+        price: 90.0,
+        timestamp: Date.now(),
+        status: 'pending',
+      });
+
+      const stale = await worker.amendOrder('order-stale-bid', { price: 91.0 }, 12);
+      expect(stale).toEqual({
+        type: 'error',
+        message: 'Order changed while being amended, try again',
+      });
+
+      const current = await worker.amendOrder('order-stale-bid', { price: 91.0 }, 10);
+      expect(current.type).toBe('order-amended');
+    });
+
+    it('should restore resting orders without matching them', async () => {
+      const bid: Order = {
+        id: 'order-restore-bid',
+        playerId: 'player-1',
+        itemId: 'item-1',
+        type: 'limit',
+        side: 'buy',
+        quantity: 4,
+        price: 100.0,
+        timestamp: Date.now(),
+        status: 'partial',
+      };
+
+      const response = await worker.restoreOrders([
+        bid,
+        { ...bid, id: 'order-restore-post', side: 'sell', price: 99.0, postOnly: true },
+      ]);
+
+      expect(response.type).toBe('orders-restored');
+      if (response.type === 'orders-restored') {
+        expect(response.restored).toEqual(['order-restore-bid']);
+        expect(response.rejected).toEqual([
+          { orderId: 'order-restore-post', message: 'Post-only order would take liquidity' },
+        ]);
+      }
+
+      const book = await worker.getOrderBook();
+      if (book.type === 'order-book') {
+        expect(book.bids.map((o) => o.id)).toContain('order-restore-bid');
+      }
+    });
+
+    it('should report self-trades prevented on entry', async () => {
+      const order: Order = {
+        id: 'order-self-ask',
+        playerId: 'player-1',
+        itemId: 'item-1',
+        type: 'limit',
+        side: 'sell',
+        quantity: 10,
+        price: 99.0,
+        timestamp: Date.now(),
+        status: 'pending',
+      };
+      await worker.submitOrder(order);
+
+      const response = await worker.submitOrder({
+        ...order,
+        id: 'order-self-bid',
+        side: 'buy',
+        price: 101.0,
+        timestamp: order.timestamp + 1,
+      });
+
+      expect(response.type).toBe('order-submitted');
+      if (response.type === 'order-submitted') {
+        expect(response.trades).toEqual([]);
+        expect(response.selfTrades).toMatchObject([
+          { orderId: 'order-self-bid', mode: 'cancel-newest', remainingQuantity: 0 },
+        ]);
+      }
+    });
+
+    it('should fire stop orders and match them on tick', async () => {
+      await worker.submitOrder({
+        id: 'order-ask-stop-1',
+        playerId: 'player-2',
+        itemId: 'item-1',
+        type: 'limit',
+        side: 'sell',
+        quantity: 5,
+        price: 99.0,
+        timestamp: Date.now(),
+        status: 'pending',
+      });
+
+      // Buy stop far below the market fires on the first price check
+      await worker.submitOrder({
+        id: 'order-stop-1',
+        playerId: 'player-1',
+        itemId: 'item-1',
+        type: 'stop',
+        side: 'buy',
+        quantity: 5,
+        price: 150.0,
+        stopPrice: 1.0,
+        timestamp: Date.now(),
+        status: 'pending',
+      });
+
+      const book = await worker.getOrderBook();
+      if (book.type === 'order-book') {
+        expect(book.bids).toEqual([]);
+      }
 
       const response = await worker.tick();
 
       expect(response.type).toBe('tick-completed');
       if (response.type === 'tick-completed') {
-        expect(response.trades.length).toBeGreaterThan(0);
+        expect(response.triggered.map((e) => e.orderId)).toEqual(['order-stop-1']);
+        expect(response.triggered[0].type).toBe('market');
+        expect(response.trades).toHaveLength(1);
+        expect(response.trades[0].buyOrderId).toBe('order-stop-1');
+      }
+    });
+
+    it('should expire unfilled market orders on entry', async () => {
+      const response = await worker.submitOrder({
+        id: 'order-market-1',
+        playerId: 'player-1',
+        itemId: 'item-1',
+        type: 'market',
+        side: 'buy',
+        quantity: 5,
+        price: 100.0,
+        timestamp: Date.now(),
+        status: 'pending',
+      });
+
+      expect(response.type).toBe('order-submitted');
+      if (response.type === 'order-submitted') {
+        expect(response.trades).toEqual([]);
+        expect(response.expired.map((e) => e.orderId)).toEqual(['order-market-1']);
+      }
+
+      const book = await worker.getOrderBook();
+      if (book.type === 'order-book') {
+        expect(book.bids).toEqual([]);
       }
     });
+
+    it('should reject stop orders missing a stop price', async () => {
+      const response = await worker.submitOrder({
+        id: 'order-stop-bad',
+        playerId: 'player-1',
+        itemId: 'item-1',
+        type: 'stop',
+        side: 'sell',
+        quantity: 5,
+        timestamp: Date.now(),
+        status: 'pending',
+      });
+
+      expect(response.type).toBe('error');
+    });
   });
 
   describe('worker crash handling', () => {
@@ -292,6 +649,50 @@ describe('MarketWorker', () => {
       const stoppedState = worker.getState();
       expect(stoppedState.isRunning).toBe(false);
     });
+
+    it('should replay snapshot and journal after a crash', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'market-worker-'));
+      const journaled = new MarketWorker('item-1', 100.0, undefined, {
+        journal: createMarketJournal(dir, 'item-1'),
+        snapshotEvery: 2,
+      });
+
+      try {
+        await journaled.start();
+        for (let i = 0; i < 3; i++) {
+          await journaled.submitOrder({
+            id: `order-journal-${i}`,
+            playerId: 'player-1',
+            itemId: 'item-1',
+            type: 'limit',
+            side: 'buy',
+            quantity: 5,
+            price: 90 - i,
+            timestamp: Date.now(),
+            status: 'pending',
+          });
+          await journaled.tick();
+        }
+        // Left for the journal: the snapshot covers the ticks before it
+        await journaled.cancelOrder('order-journal-0');
+        const bookBefore = await journaled.getOrderBook();
+        const marketBefore = await journaled.getMarket();
+
+        (journaled as unknown as { handleCrash(): void }).handleCrash();
+        await new Promise((resolve) => setTimeout(resolve, 400));
+
+        expect(journaled.getState().crashCount).toBe(1);
+        expect(await journaled.getOrderBook()).toEqual(bookBefore);
+        const marketAfter = await journaled.getMarket();
+        expect(marketAfter.type).toBe('market-state');
+        if (marketBefore.type === 'market-state' && marketAfter.type === 'market-state') {
+          expect(marketAfter.currentPrice).toBe(marketBefore.currentPrice);
+        }
+      } finally {
+        await journaled.stop();
+        rmSync(dir, { recursive: true, force: true });
+      }
+    });
   });
 });
 
@@ -571,12 +972,12 @@ describe('WorkerPool', () => {
 
       const sellResponse = await pool.submitOrder(sellOrder);
       expect(sellResponse.type).toBe('order-submitted');
+      if (sellResponse.type === 'order-submitted') {
+        expect(sellResponse.trades.length).toBeGreaterThan(0);
+      }
 
       const tickResponse = await pool.tick('btc-usd');
       expect(tickResponse.type).toBe('tick-completed');
-      if (tickResponse.type === 'tick-completed') {
-        expect(tickResponse.trades.length).toBeGreaterThan(0);
-      }
 
       const bookResponse = await pool.getOrderBook('btc-usd');
       expect(bookResponse.type).toBe('order-book');
@@ -1,5 +1,5 @@
 import { describe, it, expect, beforeEach } from 'bun:test';
-import { OrderBook } from '../order-book';
+import { OrderBook, getTimeInForce } from '../order-book';
 import type { Order } from '../types';
 
 describe('OrderBook', () => {
@@ -47,7 +47,7 @@ describe('OrderBook', () => {
     it('should add sell order to asks', () => {
       const order: Order = {
         id: 'ask-1',
-        playerId: 'player-1',
+        playerId: 'player-2',
         itemId: 'item-1',
         type: 'limit',
         side: 'sell',
@@ -116,7 +116,7 @@ describe('OrderBook', () => {
       const baseTime = Date.now();
       const order1: Order = {
         id: 'ask-1',
-        playerId: 'player-1',
+        playerId: 'player-2',
         itemId: 'item-1',
         type: 'limit',
         side: 'sell',
@@ -128,7 +128,7 @@ describe('OrderBook', () => {
 
       const order2: Order = {
         id: 'ask-2',
-        playerId: 'player-1',
+        playerId: 'player-2',
         itemId: 'item-1',
         type: 'limit',
         side: 'sell',
@@ -140,7 +140,7 @@ describe('OrderBook', () => {
 
       const order3: Order = {
         id: 'ask-3',
-        playerId: 'player-1',
+        playerId: 'player-2',
         itemId: 'item-1',
         type: 'limit',
         side: 'sell',
@@ -197,6 +197,7 @@ describe('OrderBook', () => {
       expect(orderBook.removeOrder('order-1')).toBe(true);
       expect(orderBook.getOrder('order-1')).toBeUndefined();
       expect(orderBook.getBids()).toHaveLength(0);
+      expect(order.status).toBe('cancelled');
     });
 
     it('should return false for non-existent order', () => {
@@ -227,7 +228,7 @@ describe('OrderBook', () => {
     it('should remove from asks when side is sell', () => {
       const order: Order = {
         id: 'order-1',
-        playerId: 'player-1',
+        playerId: 'player-2',
         itemId: 'item-1',
         type: 'limit',
         side: 'sell',
@@ -307,7 +308,7 @@ describe('OrderBook', () => {
     it('should not match when only asks exist', () => {
       const ask: Order = {
         id: 'ask-1',
-        playerId: 'player-1',
+        playerId: 'player-2',
         itemId: 'item-1',
         type: 'limit',
         side: 'sell',
@@ -337,7 +338,7 @@ describe('OrderBook', () => {
 
       const ask: Order = {
         id: 'ask-1',
-        playerId: 'player-1',
+        playerId: 'player-2',
         itemId: 'item-1',
         type: 'limit',
         side: 'sell',
@@ -373,7 +374,7 @@ describe('OrderBook', () => {
 
       const ask: Order = {
         id: 'ask-1',
-        playerId: 'player-1',
+        playerId: 'player-2',
         itemId: 'item-1',
         type: 'limit',
         side: 'sell',
@@ -405,7 +406,7 @@ describe('OrderBook', () => {
 
       const ask: Order = {
         id: 'ask-1',
-        playerId: 'player-1',
+        playerId: 'player-2',
         itemId: 'item-1',
         type: 'limit',
         side: 'sell',
@@ -437,7 +438,7 @@ describe('OrderBook', () => {
 
       const ask: Order = {
         id: 'ask-1',
-        playerId: 'player-1',
+        playerId: 'player-2',
         itemId: 'item-1',
         type: 'limit',
         side: 'sell',
@@ -459,6 +460,7 @@ describe('OrderBook', () => {
       expect(remainingBid?.status).toBe('partial');
 
       expect(orderBook.getOrder('ask-1')).toBeUndefined();
+      expect(ask.status).toBe('filled');
     });
 
     it('should support partial fills on ask', () => {
@@ -476,7 +478,7 @@ describe('OrderBook', () => {
 
       const ask: Order = {
         id: 'ask-1',
-        playerId: 'player-1',
+        playerId: 'player-2',
         itemId: 'item-1',
         type: 'limit',
         side: 'sell',
@@ -527,7 +529,7 @@ describe('OrderBook', () => {
 
       const ask1: Order = {
         id: 'ask-1',
-        playerId: 'player-1',
+        playerId: 'player-2',
         itemId: 'item-1',
         type: 'limit',
         side: 'sell',
@@ -539,7 +541,7 @@ describe('OrderBook', () => {
 
       const ask2: Order = {
         id: 'ask-2',
-        playerId: 'player-1',
+        playerId: 'player-2',
         itemId: 'item-1',
         type: 'limit',
         side: 'sell',
@@ -574,7 +576,7 @@ describe('OrderBook', () => {
 
       const ask: Order = {
         id: 'ask-1',
-        playerId: 'player-1',
+        playerId: 'player-2',
         itemId: 'item-1',
         type: 'limit',
         side: 'sell',
@@ -590,6 +592,37 @@ describe('OrderBook', () => {
       const trades = orderBook.matchOrders();
       expect(trades).toHaveLength(1);
       expect(trades[0].price).toBe(50);
+      expect(trades[0].aggressorSide).toBe('buy');
+    });
+
+    it('should mark the later limit order as aggressor', () => {
+      orderBook.addOrder({
+        id: 'bid-1',
+        playerId: 'player-1',
+        itemId: 'item-1',
+        type: 'limit',
+        side: 'buy',
+        quantity: 10,
+        price: 50,
+        timestamp: 1000,
+        status: 'pending',
+      });
+      orderBook.addOrder({
+        id: 'ask-1',
+        playerId: 'player-2',
+        itemId: 'item-1',
+        type: 'limit',
+        side: 'sell',
+        quantity: 10,
+        price: 49,
+        timestamp: 2000,
+        status: 'pending',
+      });
+
+      const trades = orderBook.matchOrders();
+      expect(trades).toHaveLength(1);
+      expect(trades[0].aggressorSide).toBe('sell');
+      expect(trades[0].id).toStartWith('trade-item-1-');
     });
 
     it('should match market sell with best bid', () => {
@@ -607,7 +640,7 @@ describe('OrderBook', () => {
 
       const ask: Order = {
         id: 'ask-1',
-        playerId: 'player-1',
+        playerId: 'player-2',
         itemId: 'item-1',
         type: 'market',
         side: 'sell',
@@ -641,6 +674,69 @@ describe('OrderBook', () => {
       const trades = orderBook.matchOrders();
       expect(trades).toEqual([]);
     });
+
+    it('should not fill a market buy above the price it carries', () => {
+      for (const [id, price] of [
+        ['ask-1', 100],
+        ['ask-2', 101],
+      ] as const) {
+        orderBook.addOrder({
+          id,
+          playerId: 'player-2',
+          itemId: 'item-1',
+          type: 'limit',
+          side: 'sell',
+          quantity: 5,
+          price,
+          timestamp: 1,
+          status: 'pending',
+        });
+      }
+      orderBook.addOrder({
+        id: 'bid-1',
+        playerId: 'player-1',
+        itemId: 'item-1',
+        type: 'market',
+        side: 'buy',
+        quantity: 10,
+        price: 100, // Funds were reserved at this price
+        timestamp: 2,
+        status: 'pending',
+      });
+
+      const trades = orderBook.matchOrders();
+      expect(trades.map((t) => [t.sellOrderId, t.price, t.quantity])).toEqual([['ask-1', 100, 5]]);
+      // The rest of the market buy expires instead of paying 101
+      expect(orderBook.getOrder('bid-1')).toBeUndefined();
+      expect(orderBook.getBestAsk()).toBe(101);
+    });
+
+    it('should fill a market sell ahead of cheaper resting asks', () => {
+      const order = (overrides: Partial<Order>): Order => ({
+        id: 'order-1',
+        playerId: 'player-1',
+        itemId: 'item-1',
+        type: 'limit',
+        side: 'sell',
+        quantity: 5,
+        timestamp: 1,
+        status: 'pending',
+        ...overrides,
+      });
+      orderBook.addOrder(order({ id: 'bid-1', side: 'buy', price: 99 }));
+      orderBook.addOrder(order({ id: 'ask-1', playerId: 'player-2', price: 100 }));
+      // Priced at the market when it was submitted, above the resting ask
+      orderBook.addOrder(
+        order({ id: 'mkt-1', playerId: 'player-3', type: 'market', price: 101, timestamp: 2 })
+      );
+
+      const trades = orderBook.matchOrders();
+      expect(trades.map((t) => [t.buyOrderId, t.sellOrderId, t.price])).toEqual([
+        ['bid-1', 'mkt-1', 99],
+      ]);
+      expect(orderBook.collectExpired()).toEqual([]);
+      expect(orderBook.getBestAsk()).toBe(100);
+    });
   });
 
   describe('getBestBid', () => {
@@ -682,7 +778,7 @@ describe('OrderBook', () => {
     it('should ignore bids when only asks exist', () => {
       const ask: Order = {
         id: 'ask-1',
-        playerId: 'player-1',
+        playerId: 'player-2',
         itemId: 'item-1',
         type: 'limit',
         side: 'sell',
@@ -706,7 +802,7 @@ describe('OrderBook', () => {
     it('should return lowest ask price', () => {
       const ask1: Order = {
         id: 'ask-1',
-        playerId: 'player-1',
+        playerId: 'player-2',
         itemId: 'item-1',
         type: 'limit',
         side: 'sell',
@@ -718,7 +814,7 @@ describe('OrderBook', () => {
 
       const ask2: Order = {
         id: 'ask-2',
-        playerId: 'player-1',
+        playerId: 'player-2',
         itemId: 'item-1',
         type: 'limit',
         side: 'sell',
@@ -806,7 +902,7 @@ describe('OrderBook', () => {
       const baseTime = Date.now();
       const ask1: Order = {
         id: 'ask-1',
-        playerId: 'player-1',
+        playerId: 'player-2',
         itemId: 'item-1',
         type: 'limit',
         side: 'sell',
@@ -818,7 +914,7 @@ describe('OrderBook', () => {
 
       const ask2: Order = {
         id: 'ask-2',
-        playerId: 'player-1',
+        playerId: 'player-2',
         itemId: 'item-1',
         type: 'limit',
         side: 'sell',
@@ -830,7 +926,7 @@ describe('OrderBook', () => {
 
       const ask3: Order = {
         id: 'ask-3',
-        playerId: 'player-1',
+        playerId: 'player-2',
         itemId: 'item-1',
         type: 'limit',
         side: 'sell',
@@ -894,6 +990,631 @@ describe('OrderBook', () => {
     });
   });
 
+  describe('getDepth', () => {
+    it('should aggregate orders by price level', () => {
+      const orders: Order[] = [
+        { id: 'bid-1', price: 50, quantity: 10, side: 'buy', timestamp: 1 },
+        { id: 'bid-2', price: 50, quantity: 5, side: 'buy', timestamp: 2 },
+        { id: 'bid-3', price: 49, quantity: 7, side: 'buy', timestamp: 3 },
+        { id: 'ask-1', price: 52, quantity: 4, side: 'sell', timestamp: 4 },
+        { id: 'ask-2', price: 51, quantity: 6, side: 'sell', timestamp: 5 },
+      ].map((o) => ({
+        ...o,
+        side: o.side as Order['side'],
+        playerId: 'player-1',
+        itemId: 'item-1',
+        type: 'limit',
+        status: 'pending',
+      }));
+
+      for (const order of orders) {
+        orderBook.addOrder(order);
+      }
+
+      const depth = orderBook.getDepth();
+      expect(depth.bids).toEqual([
+        { price: 50, quantity: 15, orderCount: 2 },
+        { price: 49, quantity: 7, orderCount: 1 },
+      ]);
+      expect(depth.asks).toEqual([
+        { price: 51, quantity: 6, orderCount: 1 },
+        { price: 52, quantity: 4, orderCount: 1 },
+      ]);
+    });
+
+    it('should limit the number of levels per side', () => {
+      for (let i = 0; i < 5; i++) {
+        orderBook.addOrder({
+          id: `bid-${i}`,
+          playerId: 'player-1',
+          itemId: 'item-1',
+          type: 'limit',
+          side: 'buy',
+          quantity: 1,
+          price: 40 + i,
+          timestamp: i,
+          status: 'pending',
+        });
+      }
+
+      const depth = orderBook.getDepth(2);
+      expect(depth.bids.map((l) => l.price)).toEqual([44, 43]);
+      expect(depth.asks).toEqual([]);
+    });
+  });
+
+  describe('stop orders', () => {
+    function makeOrder(overrides: Partial<Order>): Order {
+      return {
+        id: 'order-1',
+        playerId: overrides.side === 'sell' ? 'player-2' : 'player-1',
+        itemId: 'item-1',
+        type: 'limit',
+        side: 'buy',
+        quantity: 10,
+        price: 100,
+        timestamp: 1,
+        status: 'pending',
+        ...overrides,
+      };
+    }
+
+    it('should hold stop orders outside the bid/ask queues', () => {
+      orderBook.addOrder(makeOrder({ id: 'stop-1', type: 'stop', side: 'sell', stopPrice: 90 }));
+
+      expect(orderBook.getAsks()).toEqual([]);
+      expect(orderBook.getDepth().asks).toEqual([]);
+      expect(orderBook.getStopOrders().map((o) => o.id)).toEqual(['stop-1']);
+      expect(orderBook.getOrder('stop-1')?.type).toBe('stop');
+    });
+
+    it('should move triggered stops into the book and match them', () => {
+      orderBook.addOrder(makeOrder({ id: 'bid-1', price: 89, timestamp: 1 }));
+      orderBook.addOrder(
+        makeOrder({ id: 'stop-1', type: 'stop', side: 'sell', stopPrice: 90, timestamp: 2 }),
+        100
+      );
+
+      expect(orderBook.checkTriggers(95)).toEqual([]);
+
+      const events = orderBook.checkTriggers(90);
+      expect(events.map((e) => e.orderId)).toEqual(['stop-1']);
+      expect(orderBook.getStopOrders()).toEqual([]);
+
+      const trades = orderBook.matchOrders();
+      expect(trades).toHaveLength(1);
+      expect(trades[0]).toMatchObject({ sellOrderId: 'stop-1', price: 89, aggressorSide: 'sell' });
+    });
+
+    it('should trigger on the last trade price by default', () => {
+      expect(orderBook.checkTriggers()).toEqual([]);
+
+      orderBook.addOrder(makeOrder({ id: 'bid-1', price: 80 }));
+      orderBook.addOrder(makeOrder({ id: 'ask-1', side: 'sell', price: 80 }));
+      orderBook.matchOrders();
+      expect(orderBook.getLastTradePrice()).toBe(80);
+
+      orderBook.addOrder(makeOrder({ id: 'stop-1', type: 'stop', side: 'sell', stopPrice: 85 }));
+      expect(orderBook.checkTriggers().map((e) => e.orderId)).toEqual(['stop-1']);
+    });
+
+    it('should need a reference price for trailing stops', () => {
+      expect(() =>
+        orderBook.addOrder(makeOrder({ type: 'trailing-stop', side: 'sell', trailingOffset: 5 }))
+      ).toThrow();
+
+      orderBook.addOrder(
+        makeOrder({ type: 'trailing-stop', side: 'sell', trailingOffset: 5 }),
+        100
+      );
+      expect(orderBook.getStopOrders()[0].stopPrice).toBe(95);
+    });
+
+    it('should cancel untriggered stops', () => {
+      const stop = makeOrder({ id: 'stop-1', type: 'stop', side: 'sell', stopPrice: 90 });
+      orderBook.addOrder(stop);
+
+      expect(orderBook.removeOrder('stop-1')).toBe(true);
+      expect(stop.status).toBe('cancelled');
+      expect(orderBook.checkTriggers(50)).toEqual([]);
+    });
+  });
+
+  describe('time in force', () => {
+    function makeOrder(overrides: Partial<Order>): Order {
+      return {
+        id: 'order-1',
+        playerId: overrides.side === 'sell' ? 'player-2' : 'player-1',
+        itemId: 'item-1',
+        type: 'limit',
+        side: 'buy',
+        quantity: 10,
+        price: 100,
+        timestamp: 1,
+        status: 'pending',
+        ...overrides,
+      };
+    }
+
+    it('should default market orders to ioc and others to gtc', () => {
+      expect(getTimeInForce({ type: 'market' })).toBe('ioc');
+      expect(getTimeInForce({ type: 'limit' })).toBe('gtc');
+      expect(getTimeInForce({ type: 'market', timeInForce: 'fok' })).toBe('fok');
+    });
+
+    it('should never leave unfilled market orders on the book', () => {
+      const market = makeOrder({ id: 'mkt-1', type: 'market' });
+      orderBook.addOrder(market);
+
+      expect(orderBook.matchOrders()).toEqual([]);
+      expect(orderBook.getBids()).toEqual([]);
+      expect(market.status).toBe('expired');
+
+      const [expiry] = orderBook.collectExpired(5000);
+      expect(expiry).toMatchObject({
+        orderId: 'mkt-1',
+        timeInForce: 'ioc',
+        remainingQuantity: 10,
+      });
+      expect(orderBook.collectExpired()).toEqual([]);
+    });
+
+    it('should fill what it can of an ioc order and expire the rest', () => {
+      orderBook.addOrder(makeOrder({ id: 'ask-1', side: 'sell', quantity: 4, price: 99 }));
+      orderBook.addOrder(makeOrder({ id: 'ioc-1', timeInForce: 'ioc', timestamp: 2 }));
+
+      const trades = orderBook.matchOrders();
+      expect(trades).toHaveLength(1);
+      expect(trades[0].quantity).toBe(4);
+      expect(orderBook.getBids()).toEqual([]);
+      expect(orderBook.collectExpired()).toMatchObject([
+        { orderId: 'ioc-1', remainingQuantity: 6 },
+      ]);
+    });
+
+    it('should not expire ioc orders that filled completely', () => {
+      orderBook.addOrder(makeOrder({ id: 'ask-1', side: 'sell', price: 99 }));
+      orderBook.addOrder(makeOrder({ id: 'ioc-1', timeInForce: 'ioc', timestamp: 2 }));
+
+      orderBook.matchOrders();
+      expect(orderBook.collectExpired()).toEqual([]);
+    });
+
+    it('should kill a fok order that cannot fill completely', () => {
+      orderBook.addOrder(makeOrder({ id: 'ask-1', side: 'sell', quantity: 4, price: 99 }));
+      orderBook.addOrder(makeOrder({ id: 'ask-2', side: 'sell', quantity: 4, price: 101 }));
+      orderBook.addOrder(makeOrder({ id: 'fok-1', timeInForce: 'fok', timestamp: 2 }));
+
+      expect(orderBook.matchOrders()).toEqual([]);
+      expect(orderBook.getAskDepth()).toBe(8);
+      expect(orderBook.collectExpired()).toMatchObject([{ orderId: 'fok-1', timeInForce: 'fok' }]);
+    });
+
+    it('should fill a fok order when enough liquidity crosses', () => {
+      orderBook.addOrder(makeOrder({ id: 'ask-1', side: 'sell', quantity: 4, price: 99 }));
+      orderBook.addOrder(makeOrder({ id: 'ask-2', side: 'sell', quantity: 6, price: 100 }));
+      orderBook.addOrder(makeOrder({ id: 'fok-1', timeInForce: 'fok', timestamp: 2 }));
+
+      const trades = orderBook.matchOrders();
+      expect(trades.reduce((sum, t) => sum + t.quantity, 0)).toBe(10);
+      expect(orderBook.collectExpired()).toEqual([]);
+    });
+
+    it('should leave gtc orders resting', () => {
+      orderBook.addOrder(makeOrder({ id: 'gtc-1', timeInForce: 'gtc' }));
+
+      orderBook.matchOrders();
+      expect(orderBook.collectExpired(Number.MAX_SAFE_INTEGER)).toEqual([]);
+      expect(orderBook.getBids()).toHaveLength(1);
+    });
+
+    it('should expire gtd and day orders at their expiry time', () => {
+      orderBook.addOrder(makeOrder({ id: 'gtd-1', timeInForce: 'gtd', expiresAt: 1000 }));
+      orderBook.addOrder(makeOrder({ id: 'day-1', timeInForce: 'day', expiresAt: 2000 }));
+
+      expect(orderBook.collectExpired(999)).toEqual([]);
+      expect(orderBook.collectExpired(1000).map((e) => e.orderId)).toEqual(['gtd-1']);
+      expect(orderBook.collectExpired(2500)).toMatchObject([
+        { orderId: 'day-1', timeInForce: 'day', expiredAt: 2500 },
+      ]);
+      expect(orderBook.getBids()).toEqual([]);
+    });
+
+    it('should expire waiting stop orders', () => {
+      orderBook.addOrder(
+        makeOrder({
+          id: 'stop-1',
+          type: 'stop',
+          side: 'sell',
+          stopPrice: 90,
+          timeInForce: 'gtd',
+          expiresAt: 1000,
+        })
+      );
+
+      expect(orderBook.collectExpired(1000).map((e) => e.orderId)).toEqual(['stop-1']);
+      expect(orderBook.getStopOrders()).toEqual([]);
+    });
+  });
+
+  describe('iceberg and hidden orders', () => {
+    function makeOrder(overrides: Partial<Order>): Order {
+      return {
+        id: 'order-1',
+        playerId: overrides.side === 'buy' ? 'player-1' : 'player-2',
+        itemId: 'item-1',
+        type: 'limit',
+        side: 'sell',
+        quantity: 10,
+        price: 100,
+        timestamp: 1,
+        status: 'pending',
+        ...overrides,
+      };
+    }
+
+    it('should show only the displayed slice of an iceberg publicly', () => {
+      orderBook.addOrder(makeOrder({ id: 'ice-1', quantity: 100, displayQuantity: 10 }));
+
+      const [visible] = orderBook.getAsks();
+      expect(visible.quantity).toBe(10);
+      expect(visible.displayQuantity).toBeUndefined();
+      expect(orderBook.getAskDepth()).toBe(10);
+      expect(orderBook.getDepth().asks).toEqual([{ price: 100, quantity: 10, orderCount: 1 }]);
+
+      // The owner still sees the full order
+      expect(orderBook.getOrder('ice-1')?.quantity).toBe(100);
+      expect(orderBook.getOrder('ice-1')?.displayQuantity).toBe(10);
+    });
+
+    it('should refill an iceberg slice behind later orders at the same price', () => {
+      orderBook.addOrder(makeOrder({ id: 'ice-1', quantity: 30, displayQuantity: 10 }));
+      orderBook.addOrder(makeOrder({ id: 'ask-2', quantity: 5, timestamp: 2 }));
+      orderBook.addOrder(makeOrder({ id: 'bid-1', side: 'buy', quantity: 20, timestamp: 3 }));
+
+      const trades = orderBook.matchOrders();
+
+      expect(trades.map((t) => [t.sellOrderId, t.quantity])).toEqual([
+        ['ice-1', 10],
+        ['ask-2', 5],
+        ['ice-1', 5],
+      ]);
+      expect(orderBook.getOrder('ice-1')?.quantity).toBe(15);
+      expect(orderBook.getAsks()[0].quantity).toBe(5);
+    });
+
+    it('should fill an incoming order across several refills', () => {
+      orderBook.addOrder(makeOrder({ id: 'ice-1', quantity: 25, displayQuantity: 10 }));
+      orderBook.addOrder(makeOrder({ id: 'bid-1', side: 'buy', quantity: 25, timestamp: 2 }));
+
+      const trades = orderBook.matchOrders();
+
+      expect(trades.map((t) => t.quantity)).toEqual([10, 10, 5]);
+      expect(orderBook.getAsks()).toEqual([]);
+      expect(orderBook.getOrder('ice-1')).toBeUndefined();
+    });
+
+    it('should match hidden orders without showing them', () => {
+      orderBook.addOrder(makeOrder({ id: 'hidden-1', hidden: true, price: 99 }));
+      orderBook.addOrder(makeOrder({ id: 'ask-2', price: 101 }));
+
+      expect(orderBook.getAsks().map((o) => o.id)).toEqual(['ask-2']);
+      expect(orderBook.getBestAsk()).toBe(101);
+      expect(orderBook.getDepth().asks).toEqual([{ price: 101, quantity: 10, orderCount: 1 }]);
+
+      orderBook.addOrder(makeOrder({ id: 'bid-1', side: 'buy', price: 99, timestamp: 2 }));
+      const trades = orderBook.matchOrders();
+
+      expect(trades).toHaveLength(1);
+      expect(trades[0].sellOrderId).toBe('hidden-1');
+    });
+
+    it('should fill displayed orders before hidden ones at the same price', () => {
+      orderBook.addOrder(makeOrder({ id: 'hidden-1', hidden: true }));
+      orderBook.addOrder(makeOrder({ id: 'ask-2', timestamp: 2 }));
+      orderBook.addOrder(makeOrder({ id: 'bid-1', side: 'buy', quantity: 15, timestamp: 3 }));
+
+      const trades = orderBook.matchOrders();
+
+      expect(trades.map((t) => [t.sellOrderId, t.quantity])).toEqual([
+        ['ask-2', 10],
+        ['hidden-1', 5],
+      ]);
+    });
+
+    it('should reject invalid iceberg and hidden orders', () => {
+      expect(() =>
+        orderBook.addOrder(makeOrder({ type: 'market', price: undefined, hidden: true }))
+      ).toThrow('Only limit orders can be iceberg or hidden');
+      expect(() => orderBook.addOrder(makeOrder({ displayQuantity: 5, hidden: true }))).toThrow(
+        'Orders cannot be both iceberg and hidden'
+      );
+      expect(() => orderBook.addOrder(makeOrder({ displayQuantity: 0 }))).toThrow(
+        'Display quantity must be positive'
+      );
+      expect(orderBook.getAsks()).toEqual([]);
+    });
+  });
+
+  describe('self-trade prevention', () => {
+    function makeOrder(overrides: Partial<Order>): Order {
+      return {
+        id: 'order-1',
+        playerId: 'player-1',
+        itemId: 'item-1',
+        type: 'limit',
+        side: 'sell',
+        quantity: 10,
+        price: 100,
+        timestamp: 1,
+        status: 'pending',
+        ...overrides,
+      };
+    }
+
+    it('should cancel the newer order by default', () => {
+      const resting = makeOrder({ id: 'ask-1' });
+      const incoming = makeOrder({ id: 'bid-1', side: 'buy', timestamp: 2 });
+      orderBook.addOrder(resting);
+      orderBook.addOrder(incoming);
+
+      expect(orderBook.matchOrders()).toEqual([]);
+      expect(incoming.status).toBe('cancelled');
+      expect(orderBook.getAsks().map((o) => o.id)).toEqual(['ask-1']);
+      expect(orderBook.collectSelfTrades()).toMatchObject([
+        { orderId: 'bid-1', mode: 'cancel-newest', quantity: 10, remainingQuantity: 0 },
+      ]);
+      expect(orderBook.collectSelfTrades()).toEqual([]);
+    });
+
+    it('should cancel the resting order with cancel-oldest and keep matching', () => {
+      orderBook.addOrder(makeOrder({ id: 'ask-1' }));
+      orderBook.addOrder(makeOrder({ id: 'ask-2', playerId: 'player-2', price: 101 }));
+      orderBook.addOrder(
+        makeOrder({
+          id: 'bid-1',
+          side: 'buy',
+          price: 101,
+          timestamp: 2,
+          selfTradePrevention: 'cancel-oldest',
+        })
+      );
+
+      const trades = orderBook.matchOrders();
+
+      expect(trades).toHaveLength(1);
+      expect(trades[0].sellOrderId).toBe('ask-2');
+      expect(orderBook.getOrder('ask-1')).toBeUndefined();
+      expect(orderBook.collectSelfTrades().map((r) => r.orderId)).toEqual(['ask-1']);
+    });
+
+    it('should cancel both orders with cancel-both', () => {
+      orderBook.addOrder(makeOrder({ id: 'ask-1' }));
+      orderBook.addOrder(
+        makeOrder({ id: 'bid-1', side: 'buy', timestamp: 2, selfTradePrevention: 'cancel-both' })
+      );
+
+      orderBook.matchOrders();
+
+      expect(orderBook.getBids()).toEqual([]);
+      expect(orderBook.getAsks()).toEqual([]);
+      expect(orderBook.collectSelfTrades().map((r) => r.orderId)).toEqual(['bid-1', 'ask-1']);
+    });
+
+    it('should decrement both orders by the smaller quantity', () => {
+      orderBook.addOrder(makeOrder({ id: 'ask-1', quantity: 4 }));
+      orderBook.addOrder(
+        makeOrder({ id: 'bid-1', side: 'buy', timestamp: 2, selfTradePrevention: 'decrement' })
+      );
+
+      expect(orderBook.matchOrders()).toEqual([]);
+      expect(orderBook.getOrder('bid-1')?.quantity).toBe(6);
+      expect(orderBook.getOrder('ask-1')).toBeUndefined();
+      expect(orderBook.collectSelfTrades()).toMatchObject([
+        { orderId: 'bid-1', quantity: 4, remainingQuantity: 6 },
+        { orderId: 'ask-1', quantity: 4, remainingQuantity: 0 },
+      ]);
+    });
+  });
+
+  describe('post-only orders', () => {
+    function makeOrder(overrides: Partial<Order>): Order {
+      return {
+        id: 'order-1',
+        playerId: overrides.side === 'buy' ? 'player-1' : 'player-2',
+        itemId: 'item-1',
+        type: 'limit',
+        side: 'sell',
+        quantity: 10,
+        price: 100,
+        timestamp: 1,
+        status: 'pending',
+        postOnly: true,
+        ...overrides,
+      };
+    }
+
+    it('should rest when it does not cross', () => {
+      orderBook.addOrder(makeOrder({ id: 'ask-1', postOnly: false }));
+      orderBook.addOrder(makeOrder({ id: 'bid-1', side: 'buy', price: 99 }));
+
+      expect(orderBook.getBestBid()).toBe(99);
+    });
+
+    it('should be rejected when it would take liquidity', () => {
+      orderBook.addOrder(makeOrder({ id: 'ask-1', postOnly: false }));
+
+      expect(() => orderBook.addOrder(makeOrder({ id: 'bid-1', side: 'buy' }))).toThrow(
+        'Post-only order would take liquidity'
+      );
+      expect(orderBook.getBids()).toEqual([]);
+      expect(orderBook.getOrder('bid-1')).toBeUndefined();
+    });
+
+    it('should only accept limit orders', () => {
+      expect(() => orderBook.addOrder(makeOrder({ type: 'market', price: undefined }))).toThrow(
+        'Only limit orders can be post-only'
+      );
+    });
+  });
+
+  describe('amendOrder', () => {
+    function makeOrder(overrides: Partial<Order>): Order {
+      return {
+        id: 'order-1',
+        playerId: overrides.side === 'buy' ? 'player-1' : 'player-2',
+        itemId: 'item-1',
+        type: 'limit',
+        side: 'sell',
+        quantity: 10,
+        price: 100,
+        timestamp: 1,
+        status: 'pending',
+        ...overrides,
+      };
+    }
+
+    function fillOrderOfAsks(): string[] {
+      orderBook.addOrder(makeOrder({ id: 'bid-1', side: 'buy', quantity: 100, timestamp: 10 }));
+      return orderBook.matchOrders().map((t) => t.sellOrderId);
+    }
+
+    it('should keep time priority when only the quantity decreases', () => {
+      orderBook.addOrder(makeOrder({ id: 'ask-1' }));
+      orderBook.addOrder(makeOrder({ id: 'ask-2', timestamp: 2 }));
+
+      const amended = orderBook.amendOrder('ask-1', { quantity: 4 });
+
+      expect(amended.quantity).toBe(4);
+      expect(orderBook.getAskDepth()).toBe(14);
+      expect(fillOrderOfAsks()).toEqual(['ask-1', 'ask-2']);
+    });
+
+    it('should lose time priority when the quantity increases', () => {
+      orderBook.addOrder(makeOrder({ id: 'ask-1' }));
+      orderBook.addOrder(makeOrder({ id: 'ask-2', timestamp: 2 }));
+
+      orderBook.amendOrder('ask-1', { quantity: 20 });
+
+      expect(fillOrderOfAsks()).toEqual(['ask-2', 'ask-1']);
+    });
+
+    it('should lose time priority when the price changes', () => {
+      orderBook.addOrder(makeOrder({ id: 'ask-1', price: 101 }));
+      orderBook.addOrder(makeOrder({ id: 'ask-2', timestamp: 2 }));
+
+      orderBook.amendOrder('ask-1', { price: 100 });
+
+      expect(orderBook.getOrder('ask-1')?.price).toBe(100);
+      expect(fillOrderOfAsks()).toEqual(['ask-2', 'ask-1']);
+    });
+
+    it('should leave the order untouched when the amendment is invalid', () => {
+      orderBook.addOrder(makeOrder({ id: 'ask-1', price: 101, postOnly: true }));
+      orderBook.addOrder(makeOrder({ id: 'bid-1', side: 'buy', price: 99, timestamp: 2 }));
+
+      expect(() => orderBook.amendOrder('ask-1', { quantity: 0 })).toThrow(
+        'Quantity must be positive'
+      );
+      expect(() => orderBook.amendOrder('ask-1', { price: 99 })).toThrow(
+        'Post-only order would take liquidity'
+      );
+      expect(() => orderBook.amendOrder('missing', { price: 99 })).toThrow('Order not found');
+      expect(orderBook.getOrder('ask-1')).toMatchObject({ price: 101, quantity: 10 });
+    });
+
+    it('should only amend resting limit orders', () => {
+      orderBook.addOrder(makeOrder({ id: 'stop-1', type: 'stop', stopPrice: 90 }));
+
+      expect(() => orderBook.amendOrder('stop-1', { quantity: 5 })).toThrow('Order not found');
+    });
+  });
+
+  describe('getState and setState', () => {
+    function makeOrder(overrides: Partial<Order>): Order {
+      return {
+        id: 'order-1',
+        playerId: overrides.side === 'buy' ? 'player-1' : 'player-2',
+        itemId: 'item-1',
+        type: 'limit',
+        side: 'sell',
+        quantity: 10,
+        price: 100,
+        timestamp: 1,
+        status: 'pending',
+        ...overrides,
+      };
+    }
+
+    function fillOrder(book: OrderBook) {
+      book.addOrder(makeOrder({ id: 'bid-1', side: 'buy', quantity: 30, timestamp: 10 }));
+      return book.matchOrders().map((t) => ({ id: t.id, sell: t.sellOrderId, qty: t.quantity }));
+    }
+
+    it('should restore resting orders with their queue positions and iceberg slices', () => {
+      orderBook.addOrder(makeOrder({ id: 'ask-1', quantity: 10, displayQuantity: 4 }));
+      orderBook.addOrder(makeOrder({ id: 'ask-2', timestamp: 2 }));
+      orderBook.addOrder(makeOrder({ id: 'ask-3', timestamp: 3, hidden: true }));
+      orderBook.amendOrder('ask-2', { quantity: 12 });
+
+      const restored = new OrderBook();
+      restored.setState(JSON.parse(JSON.stringify(orderBook.getState())));
+
+      expect(fillOrder(restored)).toEqual(fillOrder(orderBook));
+      expect(restored.getDepth()).toEqual(orderBook.getDepth());
+    });
+
+    it('should restore waiting stops and the last trade price', () => {
+      orderBook.addOrder(makeOrder({ id: 'ask-1', quantity: 5 }));
+      orderBook.addOrder(makeOrder({ id: 'bid-1', side: 'buy', quantity: 5, timestamp: 2 }));
+      orderBook.matchOrders();
+      orderBook.addOrder(
+        makeOrder({ id: 'stop-1', type: 'trailing-stop', trailingOffset: 5 }),
+        120
+      );
+
+      const restored = new OrderBook();
+      restored.setState(orderBook.getState());
+
+      expect(restored.getLastTradePrice()).toBe(100);
+      expect(restored.getStopOrders()).toEqual([
+        expect.objectContaining({ id: 'stop-1', stopPrice: 115 }),
+      ]);
+    });
+
+    it('should not reuse the trade IDs of another book', () => {
+      const other = new OrderBook();
+      for (const book of [orderBook, other]) {
+        book.addOrder(makeOrder({ id: 'ask-1' }));
+      }
+
+      expect(fillOrder(other)[0].id).not.toBe(fillOrder(orderBook)[0].id);
+    });
+
+    it('should not share orders with the snapshot', () => {
+      orderBook.addOrder(makeOrder({ id: 'ask-1' }));
+      const state = orderBook.getState();
+
+      const restored = new OrderBook();
+      restored.setState(state);
+      restored.addOrder(makeOrder({ id: 'bid-1', side: 'buy', quantity: 4, timestamp: 2 }));
+      restored.matchOrders();
+
+      expect(state.orders[0].quantity).toBe(10);
+      expect(orderBook.getOrder('ask-1')?.quantity).toBe(10);
+    });
+
+    it('should replace whatever the book held before', () => {
+      orderBook.addOrder(makeOrder({ id: 'ask-1' }));
+      const empty = new OrderBook().getState();
+
+      orderBook.setState(empty);
+
+      expect(orderBook.getAsks()).toEqual([]);
+      expect(orderBook.getOrder('ask-1')).toBeUndefined();
+    });
+  });
+
   describe('getBidDepth and getAskDepth', () => {
     it('should return total bid quantity', () => {
       const bid1: Order = {
@@ -929,7 +1650,7 @@ describe('OrderBook', () => {
     it('should return total ask quantity', () => {
       const ask1: Order = {
         id: 'ask-1',
-        playerId: 'player-1',
+        playerId: 'player-2',
         itemId: 'item-1',
         type: 'limit',
         side: 'sell',
@@ -941,7 +1662,7 @@ describe('OrderBook', () => {
 
       const ask2: Order = {
         id: 'ask-2',
-        playerId: 'player-1',
+        playerId: 'player-2',
         itemId: 'item-1',
         type: 'limit',
         side: 'sell',
@@ -1007,7 +1728,7 @@ describe('OrderBook', () => {
 
       const ask: Order = {
         id: 'ask-1',
-        playerId: 'player-1',
+        playerId: 'player-2',
         itemId: 'item-1',
         type: 'limit',
         side: 'sell',
@@ -1053,7 +1774,7 @@ describe('OrderBook', () => {
 
       const ask1: Order = {
         id: 'ask-1',
-        playerId: 'player-1',
+        playerId: 'player-2',
         itemId: 'item-1',
         type: 'limit',
         side: 'sell',
@@ -1065,7 +1786,7 @@ describe('OrderBook', () => {
 
       const ask2: Order = {
         id: 'ask-2',
-        playerId: 'player-1',
+        playerId: 'player-2',
         itemId: 'item-1',
         type: 'limit',
         side: 'sell',
@@ -0,0 +1,361 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { OrderStore, createOrderStore } from '../order-store';
+import type { Order, Trade } from '../types';
+
+function makeOrder(overrides: Partial<Order>): Order {
+  return {
+    id: 'order-1',
+    playerId: 'alice',
+    itemId: 'BTC',
+    type: 'limit',
+    side: 'buy',
+    quantity: 10,
+    price: 100,
+    timestamp: 1000,
+    status: 'pending',
+    ...overrides,
+  };
+}
+
+function makeTrade(overrides: Partial<Trade>): Trade {
+  return {
+    id: 'trade-1',
+    buyOrderId: 'order-1',
+    sellOrderId: 'order-2',
+    itemId: 'BTC',
+    quantity: 5,
+    price: 100,
+    timestamp: 2000,
+    ...overrides,
+  };
+}
+
+describe('OrderStore', () => {
+  let store: OrderStore;
+
+  beforeEach(() => {
+    store = createOrderStore();
+  });
+
+  describe('add and get', () => {
+    it('should store a pending order with no fills', () => {
+      store.add(makeOrder({}));
+      const record = store.get('order-1');
+      expect(record?.status).toBe('pending');
+      expect(record?.filledQuantity).toBe(0);
+      expect(record?.remainingQuantity).toBe(10);
+      expect(record?.avgFillPrice).toBeNull();
+      expect(record?.tradeIds).toEqual([]);
+    });
+
+    it('should return undefined for unknown orders', () => {
+      expect(store.get('missing')).toBeUndefined();
+    });
+
+    it('should return copies of records', () => {
+      store.add(makeOrder({}));
+      const record = store.get('order-1');
+      record?.tradeIds.push('tampered');
+      expect(store.get('order-1')?.tradeIds).toEqual([]);
+    });
+  });
+
+  describe('applyTrade', () => {
+    beforeEach(() => {
+      store.add(makeOrder({ id: 'order-1', side: 'buy' }));
+      store.add(makeOrder({ id: 'order-2', playerId: 'bob', side: 'sell', quantity: 5 }));
+    });
+
+    it('should update both sides of a trade', () => {
+      store.applyTrade(makeTrade({ quantity: 5, price: 100 }));
+
+      const buy = store.get('order-1');
+      expect(buy?.status).toBe('partial');
+      expect(buy?.filledQuantity).toBe(5);
+      expect(buy?.remainingQuantity).toBe(5);
+      expect(buy?.tradeIds).toEqual(['trade-1']);
+
+      const sell = store.get('order-2');
+      expect(sell?.status).toBe('filled');
+      expect(sell?.remainingQuantity).toBe(0);
+      expect(sell?.updatedAt).toBe(2000);
+    });
+
+    it('should compute volume-weighted average fill price', () => {
+      store.add(makeOrder({ id: 'order-3', playerId: 'bob', side: 'sell', quantity: 5 }));
+      store.applyTrades([
+        makeTrade({ id: 'trade-1', quantity: 5, price: 100 }),
+        makeTrade({ id: 'trade-2', sellOrderId: 'order-3', quantity: 5, price: 110 }),
+      ]);
+
+      const buy = store.get('order-1');
+      expect(buy?.status).toBe('filled');
+      expect(buy?.avgFillPrice).toBe(105);
+      expect(buy?.tradeIds).toEqual(['trade-1', 'trade-2']);
+    });
+
+    it('should ignore a trade applied twice', () => {
+      const trade = makeTrade({ quantity: 5 });
+      store.applyTrade(trade);
+      store.applyTrade(trade);
+      expect(store.get('order-1')?.filledQuantity).toBe(5);
+    });
+  });
+
+  describe('cancel and remove', () => {
+    it('should cancel open orders only', () => {
+      store.add(makeOrder({ id: 'order-1' }));
+      store.add(makeOrder({ id: 'order-2', side: 'sell', quantity: 10 }));
+      store.applyTrade(makeTrade({ quantity: 10 }));
+
+      expect(store.cancel('order-1')).toBe(false);
+      expect(store.get('order-1')?.status).toBe('filled');
+
+      store.add(makeOrder({ id: 'order-3' }));
+      expect(store.cancel('order-3')).toBe(true);
+      expect(store.get('order-3')?.status).toBe('cancelled');
+      expect(store.cancel('order-3')).toBe(false);
+    });
+
+    it('should expire open orders only', () => {
+      store.add(makeOrder({ timeInForce: 'ioc' }));
+
+      expect(store.expire('order-1')).toBe(true);
+      expect(store.get('order-1')?.status).toBe('expired');
+      expect(store.expire('order-1')).toBe(false);
+      expect(store.getPlayerOrders('alice', { status: 'expired' }).total).toBe(1);
+      expect(store.getPlayerOrders('alice', { status: 'open' }).total).toBe(0);
+    });
+
+    it('should shrink open orders and cancel them when nothing is left', () => {
+      store.add(makeOrder({ id: 'order-1' }));
+      store.add(makeOrder({ id: 'order-2', side: 'sell', quantity: 10 }));
+      store.applyTrade(makeTrade({ quantity: 3 }));
+
+      expect(store.reduce('order-1', 4)).toBe(true);
+      expect(store.get('order-1')).toMatchObject({
+        quantity: 6,
+        filledQuantity: 3,
+        remainingQuantity: 3,
+        status: 'partial',
+      });
+
+      store.reduce('order-1', 3);
+      expect(store.get('order-1')?.status).toBe('cancelled');
+      expect(store.get('order-1')?.remainingQuantity).toBe(0);
+      expect(store.reduce('order-1', 1)).toBe(false);
+    });
+
+    it('should apply amendments to open orders', () => {
+      store.add(makeOrder({ id: 'order-1' }));
+      store.add(makeOrder({ id: 'order-2', side: 'sell', quantity: 10 }));
+      store.applyTrade(makeTrade({ quantity: 3 }));
+
+      expect(store.amend('order-1', { price: 105, quantity: 20 })).toBe(true);
+      expect(store.get('order-1')).toMatchObject({
+        price: 105,
+        quantity: 23,
+        filledQuantity: 3,
+        remainingQuantity: 20,
+      });
+
+      store.cancel('order-1');
+      expect(store.amend('order-1', { price: 90 })).toBe(false);
+    });
+
+    it('should forget removed orders', () => {
+      store.add(makeOrder({}));
+      expect(store.remove('order-1')).toBe(true);
+      expect(store.get('order-1')).toBeUndefined();
+      expect(store.getPlayerOrders('alice').total).toBe(0);
+    });
+  });
+
+  describe('markTriggered', () => {
+    it('should record when an open stop order fired', () => {
+      store.add(makeOrder({ type: 'trailing-stop', side: 'sell', trailingOffset: 5 }));
+
+      const marked = store.markTriggered({
+        orderId: 'order-1',
+        playerId: 'alice',
+        itemId: 'BTC',
+        side: 'sell',
+        quantity: 10,
+        type: 'market',
+        stopPrice: 105,
+        triggerPrice: 104,
+        triggeredAt: 3000,
+      });
+
+      expect(marked).toBe(true);
+      const record = store.get('order-1');
+      expect(record?.type).toBe('trailing-stop');
+      expect(record?.stopPrice).toBe(105);
+      expect(record?.triggeredAt).toBe(3000);
+      expect(record?.updatedAt).toBe(3000);
+    });
+
+    it('should ignore unknown and closed orders', () => {
+      const event = {
+        orderId: 'order-1',
+        playerId: 'alice',
+        itemId: 'BTC',
+        side: 'sell' as const,
+        quantity: 10,
+        type: 'market' as const,
+        stopPrice: 95,
+        triggerPrice: 95,
+        triggeredAt: 3000,
+      };
+      expect(store.markTriggered(event)).toBe(false);
+
+      store.add(makeOrder({ type: 'stop', stopPrice: 95 }));
+      store.cancel('order-1');
+      expect(store.markTriggered(event)).toBe(false);
+      expect(store.get('order-1')?.triggeredAt).toBeUndefined();
+    });
+  });
+
+  describe('getPlayerOrders', () => {
+    beforeEach(() => {
+      for (let i = 1; i <= 5; i++) {
+        store.add(makeOrder({ id: `order-${i}`, timestamp: i }));
+      }
+      store.add(makeOrder({ id: 'bob-1', playerId: 'bob' }));
+      store.cancel('order-2');
+    });
+
+    it('should return newest orders first', () => {
+      const page = store.getPlayerOrders('alice');
+      expect(page.total).toBe(5);
+      expect(page.orders.map((o) => o.id)).toEqual([
+        'order-5',
+        'order-4',
+        'order-3',
+        'order-2',
+        'order-1',
+      ]);
+    });
+
+    it('should paginate', () => {
+      const page = store.getPlayerOrders('alice', { offset: 1, limit: 2 });
+      expect(page.orders.map((o) => o.id)).toEqual(['order-4', 'order-3']);
+      expect(page.total).toBe(5);
+      expect(page.offset).toBe(1);
+      expect(page.limit).toBe(2);
+    });
+
+    it('should filter by status', () => {
+      expect(store.getPlayerOrders('alice', { status: 'cancelled' }).total).toBe(1);
+      expect(store.getPlayerOrders('alice', { status: 'open' }).total).toBe(4);
+    });
+
+    it('should return an empty page for unknown players', () => {
+      expect(store.getPlayerOrders('nobody')).toEqual({
+        orders: [],
+        total: 0,
+        offset: 0,
+        limit: 50,
+      });
+    });
+  });
+
+  describe('toResult', () => {
+    it('should build an OrderResult with the order trades', () => {
+      store.add(makeOrder({ id: 'order-1' }));
+      store.add(makeOrder({ id: 'order-2', side: 'sell', quantity: 4 }));
+      const trades = [
+        makeTrade({ quantity: 4, price: 99 }),
+        makeTrade({ id: 'trade-x', buyOrderId: 'other', sellOrderId: 'other-2' }),
+      ];
+      store.applyTrades(trades);
+
+      const result = store.toResult('order-1', trades);
+      expect(result).toEqual({
+        orderId: 'order-1',
+        status: 'partial',
+        filledQuantity: 4,
+        avgPrice: 99,
+        trades: [trades[0]],
+      });
+    });
+
+    it('should return undefined for unknown orders', () => {
+      expect(store.toResult('missing')).toBeUndefined();
+    });
+  });
+
+  describe('restore and takeChanges', () => {
+    it('should report added and updated orders once', () => {
+      store.add(makeOrder({ id: 'order-1' }));
+      store.add(makeOrder({ id: 'order-2', side: 'sell' }));
+      store.applyTrade(makeTrade({ quantity: 5 }));
+
+      const first = store.takeChanges();
+      expect(first.changed.map((r) => r.id)).toEqual(['order-1', 'order-2']);
+      expect(first.changed[0]).toMatchObject({ status: 'partial', filledQuantity: 5 });
+      expect(first.removed).toEqual([]);
+
+      store.cancel('order-2');
+      expect(store.takeChanges().changed.map((r) => r.id)).toEqual(['order-2']);
+      expect(store.takeChanges()).toEqual({ changed: [], removed: [] });
+    });
+
+    it('should report removed orders by ID', () => {
+      store.add(makeOrder({ id: 'order-1' }));
+      store.remove('order-1');
+
+      expect(store.takeChanges()).toEqual({ changed: [], removed: ['order-1'] });
+    });
+
+    it('should restore records without marking them changed', () => {
+      const source = createOrderStore();
+      source.add(makeOrder({ id: 'order-1', timestamp: 1000 }));
+      source.add(makeOrder({ id: 'order-2', timestamp: 2000 }));
+      source.applyTrade(makeTrade({ sellOrderId: 'other', quantity: 10 }));
+
+      for (const record of source.takeChanges().changed) {
+        store.restore(record);
+      }
+
+      expect(store.takeChanges().changed).toEqual([]);
+      expect(store.get('order-1')).toMatchObject({ status: 'filled', tradeIds: ['trade-1'] });
+      expect(store.getPlayerOrders('alice').orders.map((r) => r.id)).toEqual([
+        'order-2',
+        'order-1',
+      ]);
+    });
+
+    it('should prune the oldest finished orders beyond the cap', () => {
+      const capped = createOrderStore(2);
+      for (const id of ['order-1', 'order-2', 'order-3', 'order-4', 'order-5']) {
+        capped.add(makeOrder({ id }));
+      }
+      capped.add(makeOrder({ id: 'bob-1', playerId: 'bob' }));
+      for (const id of ['order-1', 'order-3', 'order-4', 'bob-1']) capped.cancel(id);
+      capped.takeChanges();
+
+      capped.cancel('order-5');
+      expect(capped.prune()).toBe(2);
+
+      expect(capped.get('order-1')).toBeUndefined();
+      expect(capped.get('order-3')).toBeUndefined();
+      expect(capped.getPlayerOrders('alice').orders.map((r) => r.id)).toEqual([
+        'order-5',
+        'order-4',
+        'order-2',
+      ]);
+      expect(capped.get('bob-1')?.status).toBe('cancelled');
+      expect(capped.takeChanges().changed.map((r) => r.id)).toEqual(['order-5']);
+    });
+
+    it('should list open orders oldest first', () => {
+      store.add(makeOrder({ id: 'order-1' }));
+      store.add(makeOrder({ id: 'order-2' }));
+      store.add(makeOrder({ id: 'order-3' }));
+      store.cancel('order-2');
+
+      expect(store.getOpenOrders().map((r) => r.id)).toEqual(['order-1', 'order-3']);
+    });
+  });
+});
@@ -250,6 +250,81 @@ describe('PlayerSession', () => {
     });
   });
 
+  describe('Reservations', () => {
+    it('should reserve funds without changing total balance', () => {
+      const session = new PlayerSession('player-1', 1000);
+      session.reserveBalance(400);
+      expect(session.getBalance()).toBe(1000);
+      expect(session.getReservedBalance()).toBe(400);
+      expect(session.getAvailableBalance()).toBe(600);
+      expect(session.hasAvailableBalance(600)).toBe(true);
+      expect(session.hasAvailableBalance(601)).toBe(false);
+    });
+
+    it('should throw when reserving more than available balance', () => {
+      const session = new PlayerSession('player-1', 1000);
+      session.reserveBalance(800);
+      expect(() => session.reserveBalance(201)).toThrow('Insufficient available balance');
+      expect(session.getReservedBalance()).toBe(800);
+    });
+
+    it('should refuse to reserve nothing or a negative amount', () => {
+      const session = new PlayerSession('player-1', 1000);
+      session.updateInventory('item-1', 10);
+
+      expect(() => session.reserveBalance(-5000)).toThrow('must be positive');
+      expect(() => session.reserveBalance(0)).toThrow('must be positive');
+      expect(() => session.reserveInventory('item-1', -1)).toThrow('must be positive');
+      expect(session.getAvailableBalance()).toBe(1000);
+      expect(session.getAvailableInventory('item-1')).toBe(10);
+    });
+
+    it('should release reserved funds', () => {
+      const session = new PlayerSession('player-1', 1000);
+      session.reserveBalance(400);
+      session.releaseBalance(150);
+      expect(session.getAvailableBalance()).toBe(750);
+      session.releaseBalance(1000);
+      expect(session.getReservedBalance()).toBe(0);
+    });
+
+    it('should not allow debits to eat into reserved funds', () => {
+      const session = new PlayerSession('player-1', 1000);
+      session.reserveBalance(400);
+      expect(() => session.updateBalance(-601)).toThrow('Insufficient balance');
+      session.updateBalance(-600);
+      expect(session.getBalance()).toBe(400);
+    });
+
+    it('should reserve and release inventory per item', () => {
+      const session = new PlayerSession('player-1');
+      session.updateInventory('item-1', 10);
+      session.reserveInventory('item-1', 4);
+      expect(session.getInventory('item-1')).toBe(10);
+      expect(session.getReservedInventory('item-1')).toBe(4);
+      expect(session.getAvailableInventory('item-1')).toBe(6);
+      expect(session.hasAvailableInventory('item-1', 7)).toBe(false);
+      expect(() => session.reserveInventory('item-1', 7)).toThrow(
+        'Insufficient available inventory'
+      );
+      expect(() => session.updateInventory('item-1', -7)).toThrow('Insufficient inventory');
+
+      session.releaseInventory('item-1', 4);
+      expect(session.getReservedInventory('item-1')).toBe(0);
+      expect(session.getAllReservedInventory()).toEqual(new Map());
+    });
+
+    it('should clear reservations on setState', () => {
+      const session = new PlayerSession('player-1', 1000);
+      session.updateInventory('item-1', 10);
+      session.reserveBalance(500);
+      session.reserveInventory('item-1', 5);
+      session.setState({ balance: 100, inventory: new Map() });
+      expect(session.getReservedBalance()).toBe(0);
+      expect(session.getReservedInventory('item-1')).toBe(0);
+    });
+  });
+
   describe('State Management', () => {
     it('should get complete state', () => {
       const session = new PlayerSession('player-1', 1000);
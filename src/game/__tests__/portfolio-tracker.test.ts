@@ -0,0 +1,202 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { PlayerSession } from '../player-session';
+import { PortfolioTracker, createPortfolioTracker } from '../portfolio-tracker';
+import { SettlementEngine, createSettlementEngine } from '../settlement';
+import type { Order, Trade } from '../types';
+
+function makeOrder(overrides: Partial<Order>): Order {
+  return {
+    id: 'order-1',
+    playerId: 'alice',
+    itemId: 'BTC',
+    type: 'limit',
+    side: 'buy',
+    quantity: 10,
+    price: 100,
+    timestamp: Date.now(),
+    status: 'pending',
+    ...overrides,
+  };
+}
+
+describe('PortfolioTracker', () => {
+  let sessions: Map<string, PlayerSession>;
+  let prices: Map<string, number>;
+  let settlement: SettlementEngine;
+  let tracker: PortfolioTracker;
+  let nextTrade: number;
+
+  /**
+   * Hold and settle a trade of quantity at price from seller to buyer
+   */
+  function fill(buyerId: string, sellerId: string, quantity: number, price: number): void {
+    const id = nextTrade++;
+    settlement.hold(makeOrder({ id: `buy-${id}`, playerId: buyerId, quantity, price }));
+    settlement.hold(makeOrder({ id: `sell-${id}`, playerId: sellerId, side: 'sell', quantity }));
+
+    const trade: Trade = {
+      id: `trade-${id}`,
+      buyOrderId: `buy-${id}`,
+      sellOrderId: `sell-${id}`,
+      itemId: 'BTC',
+      quantity,
+      price,
+      timestamp: Date.now(),
+    };
+    tracker.recordFills([trade], settlement.settleAll([trade]));
+  }
+
+  beforeEach(() => {
+    sessions = new Map([
+      ['alice', new PlayerSession('alice', 10000)],
+      ['bob', new PlayerSession('bob', 10000)],
+      ['market', new PlayerSession('market', 0)],
+    ]);
+    sessions.get('market')?.updateInventory('BTC', 1000);
+    prices = new Map([['BTC', 100]]);
+    settlement = createSettlementEngine((playerId) => sessions.get(playerId));
+    tracker = createPortfolioTracker(
+      (playerId) => sessions.get(playerId),
+      (itemId) => prices.get(itemId),
+      { startingValue: 10000, minSamples: 3 }
+    );
+    nextTrade = 1;
+  });
+
+  describe('value', () => {
+    it('should value cash plus inventory at the current price', () => {
+      fill('alice', 'market', 10, 100);
+      prices.set('BTC', 120);
+
+      const valuation = tracker.value('alice');
+      expect(valuation?.cash).toBe(9000);
+      expect(valuation?.holdingsValue).toBe(1200);
+      expect(valuation?.netWorth).toBe(10200);
+      expect(valuation?.unrealizedPnl).toBe(200);
+      expect(valuation?.realizedPnl).toBe(0);
+      expect(valuation?.returnPct).toBeCloseTo(2);
+      expect(valuation?.tradeCount).toBe(1);
+    });
+
+    it('should realize PnL against the average cost', () => {
+      fill('alice', 'market', 10, 100);
+      fill('alice', 'market', 10, 120);
+      fill('market', 'alice', 5, 130);
+
+      const valuation = tracker.value('alice');
+      expect(valuation?.realizedPnl).toBe(100); // 5 * (130 - 110)
+      expect(valuation?.unrealizedPnl).toBe(15 * 100 - 15 * 110);
+      expect(valuation?.tradeCount).toBe(3);
+    });
+
+    it('should cost inventory it never saw bought at the first price it values it at', () => {
+      sessions.get('bob')?.updateInventory('BTC', 5);
+
+      expect(tracker.value('bob')?.unrealizedPnl).toBe(0);
+      prices.set('BTC', 110);
+      expect(tracker.value('bob')?.unrealizedPnl).toBe(50);
+    });
+
+    it('should skip trades that did not settle', () => {
+      const trade: Trade = {
+        id: 'trade-x',
+        buyOrderId: 'unknown-buy',
+        sellOrderId: 'unknown-sell',
+        itemId: 'BTC',
+        quantity: 1,
+        price: 100,
+        timestamp: Date.now(),
+      };
+      tracker.recordFills([trade], settlement.settleAll([trade]));
+
+      expect(tracker.getStats('alice')).toBeUndefined();
+    });
+
+    it('should return null for unknown players', () => {
+      expect(tracker.value('nobody')).toBeNull();
+    });
+  });
+
+  describe('risk-adjusted return', () => {
+    it('should need enough samples', () => {
+      tracker.sample(['alice']);
+      tracker.sample(['alice']);
+      expect(tracker.value('alice')?.riskAdjustedReturn).toBeNull();
+    });
+
+    it('should divide the mean change by its standard deviation', () => {
+      fill('alice', 'market', 50, 100);
+      tracker.sample(['alice']);
+
+      for (const price of [110, 105, 120]) {
+        prices.set('BTC', price);
+        tracker.sample(['alice']);
+      }
+
+      // Net worth 10000 -> 10500 -> 10250 -> 11000
+      const returns = [10500 / 10000 - 1, 10250 / 10500 - 1, 11000 / 10250 - 1];
+      const mean = returns.reduce((a, b) => a + b) / 3;
+      const stdDev = Math.sqrt(returns.reduce((a, r) => a + (r - mean) ** 2, 0) / 3);
+      expect(tracker.value('alice')?.riskAdjustedReturn).toBeCloseTo(mean / stdDev);
+    });
+  });
+
+  describe('getLeaderboard', () => {
+    beforeEach(() => {
+      fill('alice', 'market', 10, 100);
+      fill('bob', 'market', 20, 100);
+      fill('market', 'bob', 20, 90);
+      prices.set('BTC', 110);
+    });
+
+    it('should rank by net worth by default', () => {
+      const board = tracker.getLeaderboard(['alice', 'bob']);
+      expect(board.map((e) => [e.rank, e.playerId])).toEqual([
+        [1, 'alice'],
+        [2, 'bob'],
+      ]);
+      expect(board[0].netWorth).toBe(10100);
+      expect(board[1].netWorth).toBe(9800);
+    });
+
+    it('should rank by trade count and limit the entries', () => {
+      const board = tracker.getLeaderboard(['alice', 'bob'], 'trades', 1);
+      expect(board.map((e) => e.playerId)).toEqual(['bob']);
+      expect(board[0].tradeCount).toBe(2);
+    });
+
+    it('should fall back to net worth without risk-adjusted returns', () => {
+      const board = tracker.getLeaderboard(['bob', 'alice'], 'risk-adjusted');
+      expect(board.map((e) => e.playerId)).toEqual(['alice', 'bob']);
+    });
+  });
+
+  it('should start a player opened with a starting value from it', () => {
+    sessions.set('round', new PlayerSession('round', 500));
+    sessions.get('round')?.updateInventory('NEW', 5);
+    tracker.open('round', 1000, { NEW: { quantity: 5, cost: 500 } });
+
+    // No market price yet: the items count at cost
+    expect(tracker.value('round')?.netWorth).toBe(1000);
+    expect(tracker.value('round')?.returnPct).toBe(0);
+
+    prices.set('NEW', 120);
+    expect(tracker.value('round')?.netWorth).toBe(1100);
+    expect(tracker.value('round')?.unrealizedPnl).toBe(100);
+  });
+
+  it('should restore stats kept from an earlier run', () => {
+    fill('alice', 'market', 10, 100);
+    fill('market', 'alice', 5, 110);
+    const stats = tracker.getStats('alice');
+
+    const restored = createPortfolioTracker(
+      (playerId) => sessions.get(playerId),
+      (itemId) => prices.get(itemId)
+    );
+    if (stats) restored.restore('alice', stats);
+
+    expect(restored.value('alice')?.realizedPnl).toBe(50);
+    expect(restored.value('alice')?.startingValue).toBe(10000);
+  });
+});
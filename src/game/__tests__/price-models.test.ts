@@ -0,0 +1,238 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  GbmModel,
+  JumpDiffusionModel,
+  MeanReversionModel,
+  RegimeSwitchingModel,
+  StochasticVolatilityModel,
+  createPriceModel,
+  getModelParameters,
+  type PriceModelConfig,
+  type PriceStepContext,
+} from '../price-models';
+
+function makeContext(overrides: Partial<PriceStepContext> = {}): PriceStepContext {
+  return {
+    dt: 1 / 252,
+    drift: 0.08,
+    volatility: 0.2,
+    normal: () => 0,
+    uniform: () => 0.5,
+    ...overrides,
+  };
+}
+
+function sequence(values: number[]): () => number {
+  let i = 0;
+  return () => values[i++ % values.length];
+}
+
+describe('GbmModel', () => {
+  it('should apply the GBM formula', () => {
+    const model = new GbmModel();
+    const context = makeContext({ dt: 1, drift: 0.1, volatility: 0.2, normal: () => 1 });
+
+    const expected = 100 * Math.exp(0.1 - 0.02 + 0.2);
+    expect(model.step(100, context)).toBeCloseTo(expected, 10);
+  });
+});
+
+describe('JumpDiffusionModel', () => {
+  it('should behave like GBM when no jump occurs', () => {
+    const model = new JumpDiffusionModel({
+      type: 'jump-diffusion',
+      jumpIntensity: 0,
+      jumpMean: 0.5,
+      jumpStdDev: 0.1,
+    });
+    const context = makeContext({ normal: () => 0.3 });
+
+    expect(model.step(100, context)).toBeCloseTo(new GbmModel().step(100, context), 10);
+  });
+
+  it('should add compensated jumps', () => {
+    const model = new JumpDiffusionModel({
+      type: 'jump-diffusion',
+      jumpIntensity: 1,
+      jumpMean: 0.5,
+      jumpStdDev: 0,
+    });
+    // First uniform stays above exp(-1), second drops below: exactly one jump
+    const context = makeContext({
+      dt: 1,
+      drift: 0,
+      volatility: 0,
+      uniform: sequence([0.5, 0.001]),
+    });
+
+    const k = Math.exp(0.5) - 1;
+    expect(model.step(100, context)).toBeCloseTo(100 * Math.exp(-k + 0.5), 10);
+  });
+});
+
+describe('MeanReversionModel', () => {
+  it('should pull the price toward the mean', () => {
+    const model = new MeanReversionModel({ type: 'mean-reversion', speed: 5, mean: 1 });
+    const context = makeContext({ dt: 0.1 });
+
+    const above = model.step(2, context);
+    expect(above).toBeLessThan(2);
+    expect(above).toBeGreaterThan(1);
+
+    const below = model.step(0.5, context);
+    expect(below).toBeGreaterThan(0.5);
+    expect(below).toBeLessThan(1);
+  });
+
+  it('should default the mean to the first price seen', () => {
+    const model = new MeanReversionModel({ type: 'mean-reversion', speed: 5 });
+    expect(model.getMean()).toBeUndefined();
+
+    expect(model.step(42, makeContext())).toBeCloseTo(42, 10);
+    expect(model.getMean()).toBe(42);
+  });
+});
+
+describe('StochasticVolatilityModel', () => {
+  it('should revert variance toward theta', () => {
+    const model = new StochasticVolatilityModel({
+      type: 'stochastic-volatility',
+      kappa: 1,
+      theta: 0.04,
+      xi: 0.5,
+      rho: -0.5,
+      initialVariance: 0.16,
+    });
+
+    expect(model.getCurrentVolatility()).toBeCloseTo(0.4, 10);
+    model.step(100, makeContext({ dt: 0.1 }));
+    expect(model.getCurrentVolatility()).toBeCloseTo(Math.sqrt(0.148), 10);
+  });
+
+  it('should default theta to the engine volatility squared', () => {
+    const model = new StochasticVolatilityModel({
+      type: 'stochastic-volatility',
+      kappa: 2,
+      xi: 0.3,
+      rho: 0,
+    });
+
+    model.step(100, makeContext({ volatility: 0.3 }));
+    expect(model.getCurrentVolatility()).toBeCloseTo(0.3, 10);
+  });
+
+  it('should never take the square root of a negative variance', () => {
+    const model = new StochasticVolatilityModel({
+      type: 'stochastic-volatility',
+      kappa: 0.1,
+      theta: 0.01,
+      xi: 5,
+      rho: 0,
+      initialVariance: 0.01,
+    });
+
+    let price = 100;
+    for (const z of [-3, -3, -3, 3, -3]) {
+      price = model.step(price, makeContext({ normal: () => z }));
+      expect(Number.isFinite(price)).toBe(true);
+      expect(model.getCurrentVolatility()).toBeGreaterThanOrEqual(0);
+    }
+  });
+});
+
+describe('RegimeSwitchingModel', () => {
+  const regimes = [
+    { name: 'calm', drift: 0, volatility: 0.1, meanDuration: 1 },
+    { name: 'turbulent', drift: 0, volatility: 1, meanDuration: 1 },
+  ];
+
+  it('should stay in a regime when no switch is drawn', () => {
+    const model = new RegimeSwitchingModel({ type: 'regime-switching', regimes });
+
+    for (let i = 0; i < 10; i++) {
+      model.step(100, makeContext({ uniform: () => 0.99 }));
+    }
+    expect(model.getRegime().name).toBe('calm');
+  });
+
+  it('should switch regimes and use their parameters', () => {
+    const model = new RegimeSwitchingModel({ type: 'regime-switching', regimes });
+    const context = makeContext({ dt: 1, normal: () => 1, uniform: () => 0 });
+
+    const price = model.step(100, context);
+    expect(model.getRegime().name).toBe('turbulent');
+    expect(price).toBeCloseTo(100 * Math.exp(-0.5 + 1), 10);
+
+    model.step(100, context);
+    expect(model.getRegime().name).toBe('calm');
+  });
+
+  it('should validate its regimes', () => {
+    expect(() => new RegimeSwitchingModel({ type: 'regime-switching', regimes: [] })).toThrow();
+    expect(
+      () => new RegimeSwitchingModel({ type: 'regime-switching', regimes, initialRegime: 5 })
+    ).toThrow();
+  });
+});
+
+describe('createPriceModel', () => {
+  it('should default to GBM', () => {
+    expect(createPriceModel().type).toBe('gbm');
+  });
+
+  it('should build the configured model', () => {
+    expect(createPriceModel({ type: 'mean-reversion', speed: 1 })).toBeInstanceOf(
+      MeanReversionModel
+    );
+    expect(
+      createPriceModel({
+        type: 'regime-switching',
+        regimes: [{ name: 'only', drift: 0, volatility: 0.1, meanDuration: 1 }],
+      }).type
+    ).toBe('regime-switching');
+  });
+});
+
+describe('getModelParameters', () => {
+  it('should list the engine parameters each model steps with', () => {
+    expect(getModelParameters()).toEqual(['drift', 'volatility']);
+    expect(getModelParameters({ type: 'mean-reversion', speed: 1 })).toEqual(['volatility']);
+    expect(
+      getModelParameters({ type: 'stochastic-volatility', kappa: 2, theta: 0.04, xi: 0.3, rho: 0 })
+    ).toEqual(['drift']);
+    expect(
+      getModelParameters({
+        type: 'regime-switching',
+        regimes: [{ name: 'only', drift: 0, volatility: 0.1, meanDuration: 1 }],
+      })
+    ).toEqual([]);
+  });
+
+  it('should leave out parameters that do not move the price', () => {
+    const configs: PriceModelConfig[] = [
+      { type: 'gbm' },
+      { type: 'mean-reversion', speed: 5, mean: 100 },
+      { type: 'stochastic-volatility', kappa: 2, theta: 0.04, xi: 0.3, rho: 0 },
+      {
+        type: 'regime-switching',
+        regimes: [{ name: 'only', drift: 0.1, volatility: 0.3, meanDuration: 1 }],
+      },
+    ];
+
+    for (const config of configs) {
+      const used = getModelParameters(config);
+      const base = createPriceModel(config).step(100, makeContext({ normal: () => 1 }));
+
+      for (const [name, value] of [
+        ['drift', 0.5],
+        ['volatility', 0.6],
+      ] as const) {
+        const moved = createPriceModel(config).step(
+          100,
+          makeContext({ normal: () => 1, [name]: value })
+        );
+        expect(moved !== base).toBe(used.includes(name));
+      }
+    }
+  });
+});
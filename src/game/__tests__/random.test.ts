@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'bun:test';
+import { SeededRandom, createSeededRandom, deriveSeed, randomSeed } from '../random';
+
+function draw(random: SeededRandom, count: number): number[] {
+  return Array.from({ length: count }, () => random.next());
+}
+
+describe('SeededRandom', () => {
+  it('should produce the same sequence for the same seed', () => {
+    expect(draw(createSeededRandom(42), 100)).toEqual(draw(createSeededRandom(42), 100));
+  });
+
+  it('should produce different sequences for different seeds', () => {
+    expect(draw(createSeededRandom(1), 10)).not.toEqual(draw(createSeededRandom(2), 10));
+  });
+
+  it('should stay within [0, 1)', () => {
+    for (const value of draw(createSeededRandom(7), 10000)) {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+
+  it('should be roughly uniform', () => {
+    const values = draw(createSeededRandom(123), 10000);
+    const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+    expect(mean).toBeCloseTo(0.5, 1);
+  });
+
+  it('should replay from a restored state', () => {
+    const random = createSeededRandom(99);
+    draw(random, 10);
+    const state = random.getState();
+    const expected = draw(random, 10);
+
+    random.setState(state);
+    expect(draw(random, 10)).toEqual(expected);
+  });
+
+  it('should report its seed', () => {
+    expect(createSeededRandom(5).getSeed()).toBe(5);
+    expect(createSeededRandom().getSeed()).toBeGreaterThanOrEqual(0);
+  });
+});
+
+describe('deriveSeed', () => {
+  it('should be stable for the same inputs', () => {
+    expect(deriveSeed(42, 'BTC')).toBe(deriveSeed(42, 'BTC'));
+  });
+
+  it('should differ per key and per base seed', () => {
+    expect(deriveSeed(42, 'BTC')).not.toBe(deriveSeed(42, 'ETH'));
+    expect(deriveSeed(42, 'BTC')).not.toBe(deriveSeed(43, 'BTC'));
+  });
+
+  it('should return an unsigned 32-bit integer', () => {
+    const seed = deriveSeed(randomSeed(), 'DOGE');
+    expect(Number.isInteger(seed)).toBe(true);
+    expect(seed).toBeGreaterThanOrEqual(0);
+    expect(seed).toBeLessThan(4294967296);
+  });
+});
@@ -0,0 +1,286 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { SettlementEngine, createSettlementEngine } from '../settlement';
+import { PlayerSession } from '../player-session';
+import { OrderBook } from '../order-book';
+import type { Order, Trade } from '../types';
+
+function makeOrder(overrides: Partial<Order>): Order {
+  return {
+    id: 'order-1',
+    playerId: 'alice',
+    itemId: 'BTC',
+    type: 'limit',
+    side: 'buy',
+    quantity: 10,
+    price: 100,
+    timestamp: Date.now(),
+    status: 'pending',
+    ...overrides,
+  };
+}
+
+describe('SettlementEngine', () => {
+  let sessions: Map<string, PlayerSession>;
+  let settlement: SettlementEngine;
+  let alice: PlayerSession;
+  let bob: PlayerSession;
+
+  beforeEach(() => {
+    alice = new PlayerSession('alice', 10000);
+    bob = new PlayerSession('bob', 0);
+    bob.updateInventory('BTC', 20);
+    sessions = new Map([
+      ['alice', alice],
+      ['bob', bob],
+    ]);
+    settlement = createSettlementEngine((playerId) => sessions.get(playerId));
+  });
+
+  describe('hold', () => {
+    it('should reserve funds for a buy order', () => {
+      settlement.hold(makeOrder({ id: 'buy-1', side: 'buy', quantity: 10, price: 100 }));
+      expect(alice.getBalance()).toBe(10000);
+      expect(alice.getAvailableBalance()).toBe(9000);
+      expect(alice.getReservedBalance()).toBe(1000);
+      expect(settlement.getOrderOwner('buy-1')).toBe('alice');
+      expect(settlement.getHeldQuantity('buy-1')).toBe(10);
+    });
+
+    it('should reserve items for a sell order', () => {
+      settlement.hold(makeOrder({ id: 'sell-1', playerId: 'bob', side: 'sell', quantity: 5 }));
+      expect(bob.getInventory('BTC')).toBe(20);
+      expect(bob.getAvailableInventory('BTC')).toBe(15);
+      expect(bob.getBalance()).toBe(0);
+    });
+
+    it('should throw when the player cannot cover the order', () => {
+      expect(() => settlement.hold(makeOrder({ quantity: 1000, price: 100 }))).toThrow(
+        'Insufficient available balance'
+      );
+      expect(settlement.getOrderOwner('order-1')).toBeUndefined();
+    });
+
+    it('should not let reservations be spent twice', () => {
+      settlement.hold(makeOrder({ id: 'buy-1', quantity: 60, price: 100 }));
+      expect(() => settlement.hold(makeOrder({ id: 'buy-2', quantity: 60, price: 100 }))).toThrow(
+        'Insufficient available balance'
+      );
+
+      settlement.hold(makeOrder({ id: 'sell-1', playerId: 'bob', side: 'sell', quantity: 15 }));
+      expect(() =>
+        settlement.hold(makeOrder({ id: 'sell-2', playerId: 'bob', side: 'sell', quantity: 15 }))
+      ).toThrow('Insufficient available inventory');
+    });
+
+    it('should throw for unknown players', () => {
+      expect(() => settlement.hold(makeOrder({ playerId: 'mallory' }))).toThrow('No session');
+    });
+  });
+
+  describe('settle', () => {
+    it('should transfer cash and items at the trade price', () => {
+      settlement.hold(makeOrder({ id: 'buy-1', side: 'buy', quantity: 10, price: 100 }));
+      settlement.hold(
+        makeOrder({ id: 'sell-1', playerId: 'bob', side: 'sell', quantity: 10, price: 100 })
+      );
+
+      const trade: Trade = {
+        id: 'trade-1',
+        buyOrderId: 'buy-1',
+        sellOrderId: 'sell-1',
+        itemId: 'BTC',
+        quantity: 10,
+        price: 100,
+        timestamp: Date.now(),
+      };
+      const result = settlement.settle(trade);
+
+      expect(result.settled).toBe(true);
+      expect(result.buyerId).toBe('alice');
+      expect(result.sellerId).toBe('bob');
+      expect(alice.getBalance()).toBe(9000);
+      expect(alice.getReservedBalance()).toBe(0);
+      expect(alice.getInventory('BTC')).toBe(10);
+      expect(bob.getBalance()).toBe(1000);
+      expect(bob.getInventory('BTC')).toBe(10);
+      expect(bob.getReservedInventory('BTC')).toBe(0);
+    });
+
+    it('should refund price improvement to the buyer', () => {
+      settlement.hold(makeOrder({ id: 'buy-1', side: 'buy', quantity: 10, price: 100 }));
+      settlement.hold(
+        makeOrder({ id: 'sell-1', playerId: 'bob', side: 'sell', quantity: 10, price: 90 })
+      );
+
+      settlement.settle({
+        id: 'trade-1',
+        buyOrderId: 'buy-1',
+        sellOrderId: 'sell-1',
+        itemId: 'BTC',
+        quantity: 10,
+        price: 90,
+        timestamp: Date.now(),
+      });
+
+      expect(alice.getBalance()).toBe(9100);
+      expect(bob.getBalance()).toBe(900);
+    });
+
+    it('should keep holds open for partially filled orders', () => {
+      settlement.hold(makeOrder({ id: 'buy-1', side: 'buy', quantity: 10, price: 100 }));
+      settlement.hold(
+        makeOrder({ id: 'sell-1', playerId: 'bob', side: 'sell', quantity: 4, price: 100 })
+      );
+
+      settlement.settle({
+        id: 'trade-1',
+        buyOrderId: 'buy-1',
+        sellOrderId: 'sell-1',
+        itemId: 'BTC',
+        quantity: 4,
+        price: 100,
+        timestamp: Date.now(),
+      });
+
+      expect(settlement.getHeldQuantity('buy-1')).toBe(6);
+      expect(alice.getReservedBalance()).toBe(600);
+      expect(settlement.getOrderOwner('sell-1')).toBeUndefined();
+    });
+
+    it('should not settle trades with unknown orders', () => {
+      const result = settlement.settle({
+        id: 'trade-1',
+        buyOrderId: 'ghost-buy',
+        sellOrderId: 'ghost-sell',
+        itemId: 'BTC',
+        quantity: 1,
+        price: 100,
+        timestamp: Date.now(),
+      });
+
+      expect(result.settled).toBe(false);
+      expect(result.error).toContain('Cannot resolve counterparties');
+      expect(alice.getBalance()).toBe(10000);
+    });
+  });
+
+  describe('release', () => {
+    it('should release remaining funds on cancel', () => {
+      settlement.hold(makeOrder({ id: 'buy-1', side: 'buy', quantity: 10, price: 100 }));
+      expect(settlement.release('buy-1')).toBe(true);
+      expect(alice.getAvailableBalance()).toBe(10000);
+      expect(settlement.release('buy-1')).toBe(false);
+    });
+
+    it('should release remaining items on cancel', () => {
+      settlement.hold(makeOrder({ id: 'sell-1', playerId: 'bob', side: 'sell', quantity: 5 }));
+      settlement.release('sell-1');
+      expect(bob.getAvailableInventory('BTC')).toBe(20);
+    });
+
+    it('should release part of a hold on reduce', () => {
+      settlement.hold(makeOrder({ id: 'buy-1', side: 'buy', quantity: 10, price: 100 }));
+
+      expect(settlement.reduce('buy-1', 4)).toBe(true);
+      expect(alice.getAvailableBalance()).toBe(9400);
+      expect(settlement.getHeldQuantity('buy-1')).toBe(6);
+
+      settlement.reduce('buy-1', 6);
+      expect(alice.getAvailableBalance()).toBe(10000);
+      expect(settlement.getOrderOwner('buy-1')).toBeUndefined();
+      expect(settlement.reduce('buy-1', 1)).toBe(false);
+    });
+  });
+
+  describe('amend', () => {
+    it('should re-reserve funds at the new price and quantity', () => {
+      settlement.hold(makeOrder({ id: 'buy-1', side: 'buy', quantity: 10, price: 100 }));
+
+      const previous = settlement.amend('buy-1', { price: 110, quantity: 20 });
+
+      expect(previous).toEqual({ price: 100, quantity: 10 });
+      expect(alice.getReservedBalance()).toBe(2200);
+      expect(settlement.getHeldQuantity('buy-1')).toBe(20);
+
+      settlement.amend('buy-1', previous);
+      expect(alice.getReservedBalance()).toBe(1000);
+    });
+
+    it('should re-reserve items for sell orders', () => {
+      settlement.hold(makeOrder({ id: 'sell-1', playerId: 'bob', side: 'sell', quantity: 5 }));
+
+      settlement.amend('sell-1', { quantity: 2 });
+      expect(bob.getAvailableInventory('BTC')).toBe(18);
+    });
+
+    it('should throw without changing the hold when the player cannot cover it', () => {
+      settlement.hold(makeOrder({ id: 'buy-1', side: 'buy', quantity: 10, price: 100 }));
+
+      expect(() => settlement.amend('buy-1', { quantity: 1000 })).toThrow(
+        'Insufficient available balance'
+      );
+      expect(settlement.getHeldQuantity('buy-1')).toBe(10);
+      expect(alice.getReservedBalance()).toBe(1000);
+    });
+  });
+
+  describe('with OrderBook', () => {
+    it('should settle all trades from a matching pass', () => {
+      const orderBook = new OrderBook();
+      const buy = makeOrder({ id: 'buy-1', side: 'buy', quantity: 10, price: 105 });
+      const sellA = makeOrder({
+        id: 'sell-1',
+        playerId: 'bob',
+        side: 'sell',
+        quantity: 6,
+        price: 100,
+        timestamp: 1,
+      });
+      const sellB = makeOrder({
+        id: 'sell-2',
+        playerId: 'bob',
+        side: 'sell',
+        quantity: 6,
+        price: 102,
+        timestamp: 2,
+      });
+
+      for (const order of [buy, sellA, sellB]) {
+        settlement.hold(order);
+        orderBook.addOrder(order);
+      }
+
+      const results = settlement.settleAll(orderBook.matchOrders());
+
+      expect(results.every((r) => r.settled)).toBe(true);
+      expect(alice.getInventory('BTC')).toBe(10);
+      expect(alice.getBalance()).toBe(10000 - 6 * 100 - 4 * 102);
+      expect(bob.getBalance()).toBe(6 * 100 + 4 * 102);
+      expect(bob.getInventory('BTC')).toBe(10);
+      expect(bob.getAvailableInventory('BTC')).toBe(8);
+
+      settlement.release('sell-2');
+      expect(bob.getAvailableInventory('BTC')).toBe(10);
+    });
+
+    it('should not fill a market buy beyond what it reserved', () => {
+      const buyer = new PlayerSession('carol', 1000);
+      sessions.set('carol', buyer);
+      const orderBook = new OrderBook();
+      const ask = makeOrder({ id: 'sell-1', playerId: 'bob', side: 'sell', price: 101 });
+      const buy = makeOrder({ id: 'buy-1', playerId: 'carol', type: 'market', timestamp: 2 });
+
+      for (const order of [ask, buy]) {
+        settlement.hold(order);
+        orderBook.addOrder(order);
+      }
+      const trades = orderBook.matchOrders();
+      for (const expiry of orderBook.collectExpired()) settlement.release(expiry.orderId);
+
+      expect(trades).toEqual([]);
+      expect(buyer.getBalance()).toBe(1000);
+      expect(buyer.getAvailableBalance()).toBe(1000);
+      expect(orderBook.getBestAsk()).toBe(101);
+    });
+  });
+});
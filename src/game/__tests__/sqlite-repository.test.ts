@@ -0,0 +1,321 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { BacktestRecord } from '../backtest';
+import type { Candle } from '../candle-aggregator';
+import type { CompetitionRound } from '../competition';
+import type { OrderRecord } from '../order-store';
+import { SqliteRepository, createSqliteRepository } from '../sqlite-repository';
+import type { Trade } from '../types';
+
+function makeRecord(overrides: Partial<OrderRecord>): OrderRecord {
+  return {
+    id: 'order-1',
+    playerId: 'alice',
+    itemId: 'BTC',
+    type: 'limit',
+    side: 'buy',
+    quantity: 10,
+    price: 100,
+    timestamp: 1000,
+    status: 'pending',
+    filledQuantity: 0,
+    remainingQuantity: 10,
+    avgFillPrice: null,
+    tradeIds: [],
+    updatedAt: 1000,
+    ...overrides,
+  };
+}
+
+function makeTrade(overrides: Partial<Trade>): Trade {
+  return {
+    id: 'trade-1',
+    buyOrderId: 'order-1',
+    sellOrderId: 'order-2',
+    itemId: 'BTC',
+    quantity: 5,
+    price: 100,
+    timestamp: 2000,
+    ...overrides,
+  };
+}
+
+function makeCandle(overrides: Partial<Candle>): Candle {
+  return {
+    itemId: 'BTC',
+    interval: '1s',
+    openTime: 1000,
+    closeTime: 1999,
+    open: 100,
+    high: 101,
+    low: 99,
+    close: 100,
+    volume: 0,
+    tradeCount: 0,
+    ...overrides,
+  };
+}
+
+describe('SqliteRepository', () => {
+  let repository: SqliteRepository;
+
+  beforeEach(() => {
+    repository = createSqliteRepository();
+  });
+
+  afterEach(() => {
+    repository.close();
+  });
+
+  describe('accounts', () => {
+    it('should save and load accounts', () => {
+      const account = { playerId: 'p1', username: 'Alice', passwordHash: 'hash', createdAt: 1 };
+      repository.saveAccount(account);
+
+      expect(repository.loadAccounts()).toEqual([account]);
+    });
+
+    it('should reject a username taken in another case', () => {
+      repository.saveAccount({
+        playerId: 'p1',
+        username: 'Alice',
+        passwordHash: 'h',
+        createdAt: 1,
+      });
+
+      expect(() =>
+        repository.saveAccount({
+          playerId: 'p2',
+          username: 'alice',
+          passwordHash: 'h',
+          createdAt: 2,
+        })
+      ).toThrow();
+    });
+  });
+
+  describe('players', () => {
+    it('should upsert balances and inventory', () => {
+      repository.savePlayers([
+        { playerId: 'p1', balance: 1000, inventory: { BTC: 2 }, updatedAt: 1 },
+      ]);
+      repository.savePlayers([
+        { playerId: 'p1', balance: 500, inventory: { BTC: 3, ETH: 1 }, updatedAt: 2 },
+      ]);
+
+      expect(repository.loadPlayers()).toEqual([
+        { playerId: 'p1', balance: 500, inventory: { BTC: 3, ETH: 1 }, updatedAt: 2 },
+      ]);
+    });
+  });
+
+  describe('portfolios', () => {
+    it('should upsert leaderboard stats', () => {
+      const portfolio = {
+        playerId: 'p1',
+        startingValue: 100000,
+        realizedPnl: 25.5,
+        tradeCount: 3,
+        positions: { BTC: { quantity: 2, cost: 200 } },
+        updatedAt: 1,
+      };
+      repository.savePortfolios([{ ...portfolio, tradeCount: 1 }]);
+      repository.savePortfolios([portfolio]);
+
+      expect(repository.loadPortfolios()).toEqual([portfolio]);
+    });
+  });
+
+  describe('orders', () => {
+    it('should round-trip full records oldest first', () => {
+      const later = makeRecord({ id: 'order-2', timestamp: 2000, displayQuantity: 2 });
+      const earlier = makeRecord({
+        id: 'order-1',
+        status: 'partial',
+        filledQuantity: 4,
+        remainingQuantity: 6,
+        avgFillPrice: 99.5,
+        tradeIds: ['trade-1'],
+      });
+      repository.saveOrders([later, earlier]);
+
+      expect(repository.loadOrders()).toEqual([earlier, later]);
+    });
+
+    it('should update and delete records', () => {
+      repository.saveOrders([makeRecord({ id: 'order-1' }), makeRecord({ id: 'order-2' })]);
+      repository.saveOrders([makeRecord({ id: 'order-1', status: 'cancelled' })]);
+      repository.deleteOrders(['order-2']);
+
+      const orders = repository.loadOrders();
+      expect(orders).toHaveLength(1);
+      expect(orders[0].status).toBe('cancelled');
+    });
+
+    it('should load only open orders', () => {
+      repository.saveOrders([
+        makeRecord({ id: 'order-1', status: 'filled' }),
+        makeRecord({ id: 'order-2', status: 'partial', timestamp: 3000 }),
+        makeRecord({ id: 'order-3', timestamp: 2000 }),
+      ]);
+
+      expect(repository.loadOpenOrders().map((r) => r.id)).toEqual(['order-3', 'order-2']);
+    });
+
+    it('should delete finished orders last changed before a time', () => {
+      repository.saveOrders([
+        makeRecord({ id: 'order-1', status: 'filled', updatedAt: 1000 }),
+        makeRecord({ id: 'order-2', status: 'expired', updatedAt: 3000 }),
+        makeRecord({ id: 'order-3', updatedAt: 1000 }),
+      ]);
+
+      expect(repository.deleteClosedOrders(2000)).toBe(1);
+      expect(repository.loadOrders().map((r) => r.id)).toEqual(['order-2', 'order-3']);
+    });
+  });
+
+  describe('trades', () => {
+    it('should return trades newest first, filtered by item', () => {
+      repository.saveTrades([
+        makeTrade({ id: 'trade-1', timestamp: 1000 }),
+        makeTrade({ id: 'trade-2', timestamp: 2000, aggressorSide: 'buy' }),
+        makeTrade({ id: 'trade-3', itemId: 'ETH', timestamp: 3000 }),
+      ]);
+
+      const trades = repository.getTrades({ itemId: 'BTC' });
+      expect(trades.map((t) => t.id)).toEqual(['trade-2', 'trade-1']);
+      expect(trades[0].aggressorSide).toBe('buy');
+      expect(trades[1]).toEqual(makeTrade({ id: 'trade-1', timestamp: 1000 }));
+      expect(repository.getTrades({ limit: 1 }).map((t) => t.id)).toEqual(['trade-3']);
+    });
+
+    it('should refuse a trade whose ID is already stored', () => {
+      repository.saveTrades([makeTrade({})]);
+      expect(() => repository.saveTrades([makeTrade({ quantity: 99 })])).toThrow();
+
+      expect(repository.getTrades()).toEqual([makeTrade({})]);
+    });
+  });
+
+  describe('markets and candles', () => {
+    it('should keep the last price of each market', () => {
+      repository.saveMarkets([{ itemId: 'BTC', price: 50000, updatedAt: 1 }]);
+      repository.saveMarkets([{ itemId: 'BTC', price: 51000, updatedAt: 2 }]);
+
+      expect(repository.loadMarkets()).toEqual([{ itemId: 'BTC', price: 51000, updatedAt: 2 }]);
+    });
+
+    it('should load the latest bars of each series, oldest first', () => {
+      repository.saveCandles([
+        makeCandle({ openTime: 1000 }),
+        makeCandle({ openTime: 3000 }),
+        makeCandle({ openTime: 2000 }),
+        makeCandle({ interval: '1m', openTime: 0, closeTime: 59_999 }),
+      ]);
+      // A live bar saved again overwrites itself
+      repository.saveCandles([makeCandle({ openTime: 3000, close: 105 })]);
+
+      const candles = repository.loadCandles(2);
+      expect(candles.map((c) => `${c.interval}@${c.openTime}`)).toEqual([
+        '1m@0',
+        '1s@2000',
+        '1s@3000',
+      ]);
+      expect(candles[2].close).toBe(105);
+    });
+  });
+
+  describe('rounds', () => {
+    it('should upsert rounds and load them oldest first', () => {
+      const round: CompetitionRound = {
+        roundId: 'round-1',
+        name: 'Weekly',
+        startTime: 1000,
+        endTime: 2000,
+        items: ['BTC'],
+        startingCash: 10000,
+        startingInventory: { BTC: 1 },
+        seed: 42,
+        status: 'scheduled',
+        participants: [],
+        createdAt: 10,
+        standings: null,
+      };
+      repository.saveRounds([{ ...round, roundId: 'round-2', createdAt: 20 }, round]);
+      repository.saveRounds([{ ...round, status: 'running', participants: ['p1'] }]);
+
+      const rounds = repository.loadRounds();
+      expect(rounds.map((r) => r.roundId)).toEqual(['round-1', 'round-2']);
+      expect(rounds[0]).toEqual({ ...round, status: 'running', participants: ['p1'] });
+    });
+  });
+
+  describe('backtests', () => {
+    it("should upsert backtests and load a player's newest first", () => {
+      const backtest: BacktestRecord = {
+        backtestId: 'backtest-1',
+        playerId: 'alice',
+        name: 'Dip buyer',
+        source: 'function onTick() {}',
+        spec: {
+          itemId: 'BTC',
+          prices: { type: 'generated', initialPrice: 100, steps: 10, seed: 1 },
+        },
+        status: 'running',
+        createdAt: 10,
+        completedAt: null,
+        report: null,
+        error: null,
+      };
+      repository.saveBacktests([
+        backtest,
+        { ...backtest, backtestId: 'backtest-2', createdAt: 20 },
+        { ...backtest, backtestId: 'backtest-3', playerId: 'bob' },
+      ]);
+      repository.saveBacktests([{ ...backtest, status: 'failed', error: 'boom', completedAt: 30 }]);
+
+      expect(repository.loadBacktests('alice').map((b) => b.backtestId)).toEqual([
+        'backtest-2',
+        'backtest-1',
+      ]);
+      expect(repository.getBacktest('backtest-1')).toEqual({
+        ...backtest,
+        status: 'failed',
+        error: 'boom',
+        completedAt: 30,
+      });
+      expect(repository.getBacktest('backtest-9')).toBeUndefined();
+    });
+  });
+
+  describe('transaction', () => {
+    it('should store nothing when a write fails', () => {
+      expect(() =>
+        repository.transaction(() => {
+          repository.saveMarkets([{ itemId: 'BTC', price: 1, updatedAt: 1 }]);
+          throw new Error('boom');
+        })
+      ).toThrow('boom');
+
+      expect(repository.loadMarkets()).toEqual([]);
+    });
+  });
+
+  it('should keep state in a file across reopening', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'game-repository-'));
+    const path = join(dir, 'game.sqlite');
+    try {
+      const first = createSqliteRepository(path);
+      first.saveOrders([makeRecord({})]);
+      first.close();
+
+      const second = createSqliteRepository(path);
+      expect(second.loadOrders()).toEqual([makeRecord({})]);
+      second.close();
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
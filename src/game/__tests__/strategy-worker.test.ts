@@ -0,0 +1,231 @@
+/**
+ * Tests for player strategies running in sandboxed Bun workers
+ */
+
+import { describe, it, expect, afterEach } from 'bun:test';
+import {
+  StrategyWorker,
+  compileStrategy,
+  createStrategyWorker,
+  type StrategyLimits,
+  type StrategyMarket,
+  type StrategyRequest,
+} from '../strategy-worker';
+
+const MARKET: StrategyMarket = {
+  itemId: 'BTC',
+  currentPrice: 100,
+  volatility: 0.2,
+  bestBid: 99,
+  bestAsk: 101,
+  timestamp: 1000,
+};
+
+/**
+ * Wait until a condition holds or the time runs out
+ */
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition() && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+describe('compileStrategy', () => {
+  it('should strip types and exports', () => {
+    const code = compileStrategy(
+      'export function onTick(market: { currentPrice: number }): number { return market.currentPrice; }'
+    );
+    expect(code).toContain('function onTick(market)');
+    expect(code).not.toContain('export');
+  });
+
+  it('should reject imports', () => {
+    expect(() => compileStrategy("import fs from 'fs'; function onTick() {}")).toThrow(
+      'cannot import'
+    );
+    expect(() => compileStrategy("function onTick() { require('fs'); }")).toThrow('cannot import');
+    expect(() => compileStrategy("async function onTick() { await import('fs'); }")).toThrow(
+      'cannot import'
+    );
+    expect(() => compileStrategy("function onTick() { import.meta.require('fs'); }")).toThrow(
+      'cannot import'
+    );
+  });
+
+  it('should reject source that does not parse', () => {
+    expect(() => compileStrategy('function onTick( {')).toThrow('does not compile');
+  });
+});
+
+describe('StrategyWorker', () => {
+  let worker: StrategyWorker | undefined;
+  let requests: StrategyRequest[];
+
+  async function startStrategy(
+    source: string,
+    limits?: Partial<StrategyLimits>
+  ): Promise<StrategyWorker> {
+    requests = [];
+    worker = createStrategyWorker(
+      compileStrategy(source),
+      async (request) => {
+        requests.push(request);
+        return request.type === 'place-order' ? { orderId: `order-${requests.length}` } : true;
+      },
+      limits
+    );
+    await worker.start();
+    return worker;
+  }
+
+  afterEach(() => {
+    worker?.stop();
+    worker = undefined;
+  });
+
+  it('should report the hooks a strategy declares', async () => {
+    const strategy = await startStrategy('function onTick() {} function onFill() {}');
+
+    expect(strategy.getInfo().status).toBe('running');
+    expect(strategy.getInfo().hooks).toEqual(['onTick', 'onFill']);
+    expect(strategy.dispatch({ type: 'tick', market: MARKET })).toBe(true);
+    expect(strategy.dispatch({ type: 'trade', trade: {} as never })).toBe(false);
+  });
+
+  it('should place orders from hooks and hand back the results', async () => {
+    const strategy = await startStrategy(`
+      let ticks = 0;
+      async function onTick(market, api) {
+        ticks++;
+        const result = await api.placeOrder(market.itemId, {
+          side: 'buy',
+          type: 'limit',
+          price: market.bestBid,
+          quantity: 1,
+        });
+        console.log('placed', result.orderId, 'after', ticks, 'tick');
+      }
+    `);
+
+    strategy.dispatch({ type: 'tick', market: MARKET });
+    await waitFor(() => strategy.getLogs().length > 0);
+
+    expect(requests).toEqual([
+      {
+        type: 'place-order',
+        itemId: 'BTC',
+        order: { side: 'buy', type: 'limit', price: 99, quantity: 1 },
+      },
+    ]);
+    expect(strategy.getLogs()).toEqual(['placed order-1 after 1 tick']);
+    expect(strategy.getInfo().ordersPlaced).toBe(1);
+  });
+
+  it('should not expose the runtime to the script', async () => {
+    const strategy = await startStrategy(`
+      function onTick() {
+        const { Bun, process, require, fetch, setTimeout } = globalThis;
+        console.log(typeof Bun, typeof process, typeof require, typeof fetch, typeof setTimeout);
+      }
+    `);
+
+    strategy.dispatch({ type: 'tick', market: MARKET });
+    await waitFor(() => strategy.getLogs().length > 0);
+
+    expect(strategy.getLogs()).toEqual(['undefined undefined undefined undefined undefined']);
+  });
+
+  it('should not hand the script objects it can escape the sandbox through', async () => {
+    const strategy = await startStrategy(`
+      async function onTick(market, api) {
+        const pending = api.placeOrder(market.itemId, { side: 'buy', type: 'limit', price: 1, quantity: 1 });
+        const outer = pending.constructor.constructor('return globalThis')();
+        console.log(pending instanceof Promise, typeof outer.postMessage, typeof outer.setTimeout);
+        await pending;
+      }
+    `);
+
+    strategy.dispatch({ type: 'tick', market: MARKET });
+    await waitFor(() => strategy.getLogs().length > 0);
+
+    expect(strategy.getLogs()).toEqual(['true undefined undefined']);
+  });
+
+  it('should log hook errors and keep running', async () => {
+    const strategy = await startStrategy("function onTick() { throw new Error('boom'); }");
+
+    strategy.dispatch({ type: 'tick', market: MARKET });
+    await waitFor(() => strategy.getLogs().length > 0);
+
+    expect(strategy.getLogs()).toEqual(['Error: boom']);
+    expect(strategy.getInfo().status).toBe('running');
+  });
+
+  it('should stop a strategy whose hook uses too much CPU', async () => {
+    const strategy = await startStrategy('function onTick() { while (true) {} }', {
+      hookTimeoutMs: 50,
+    });
+
+    strategy.dispatch({ type: 'tick', market: MARKET });
+    await waitFor(() => strategy.getInfo().status === 'stopped');
+
+    expect(strategy.getInfo().stopReason).toBe('A hook ran longer than 50ms');
+  });
+
+  it('should stop a strategy that stops responding', async () => {
+    const strategy = await startStrategy(
+      'async function onTick() { await null; while (true) {} }',
+      { responseTimeoutMs: 200 }
+    );
+
+    strategy.dispatch({ type: 'tick', market: MARKET });
+    await waitFor(() => strategy.getInfo().status === 'stopped');
+
+    expect(strategy.getInfo().stopReason).toContain('stopped responding');
+  });
+
+  it('should limit the order rate', async () => {
+    const strategy = await startStrategy(
+      `
+      async function onTick(market, api) {
+        const results = [];
+        for (let i = 0; i < 5; i++) results.push(await api.cancelOrder('order-' + i));
+        console.log(JSON.stringify(results));
+      }
+    `,
+      { orderBurst: 3, ordersPerSecond: 0.001 }
+    );
+
+    strategy.dispatch({ type: 'tick', market: MARKET });
+    await waitFor(() => strategy.getLogs().length > 0);
+
+    expect(requests).toHaveLength(3);
+    expect(JSON.parse(strategy.getLogs()[0])).toEqual([
+      true,
+      true,
+      true,
+      { error: 'Order rate limit exceeded' },
+      { error: 'Order rate limit exceeded' },
+    ]);
+    expect(strategy.getInfo().ordersRateLimited).toBe(2);
+  });
+
+  it('should skip ticks of a market until its last tick is handled', async () => {
+    const strategy = await startStrategy(`
+      async function onTick(market, api) {
+        await api.cancelOrder('order-1');
+      }
+    `);
+
+    expect(strategy.dispatch({ type: 'tick', market: MARKET })).toBe(true);
+    expect(strategy.dispatch({ type: 'tick', market: MARKET })).toBe(false);
+    expect(strategy.dispatch({ type: 'tick', market: { ...MARKET, itemId: 'ETH' } })).toBe(true);
+    expect(strategy.getInfo().eventsDropped).toBe(1);
+  });
+
+  it('should fail to start scripts that throw or declare no hooks', async () => {
+    await expect(startStrategy("throw new Error('bad script');")).rejects.toThrow('bad script');
+    await expect(startStrategy('const x = 1;')).rejects.toThrow('declares no');
+  });
+});
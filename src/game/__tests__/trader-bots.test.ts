@@ -0,0 +1,217 @@
+import { describe, it, expect } from 'bun:test';
+import { createSeededRandom, type RandomSource } from '../random';
+import {
+  MarketMakerStrategy,
+  MeanReversionStrategy,
+  MomentumStrategy,
+  NoiseStrategy,
+  TraderBot,
+  createTraderBots,
+  isBotPlayerId,
+  type BotContext,
+  type BotView,
+} from '../trader-bots';
+
+/**
+ * Random source returning the same value every time
+ */
+function fixedRandom(value: number): RandomSource {
+  return { next: () => value, getState: () => 0, setState: () => undefined };
+}
+
+function makeView(overrides: Partial<BotView> = {}): BotView {
+  return { price: 100, cash: 10000, inventory: 100, openOrders: [], ...overrides };
+}
+
+function makeContext(overrides: Partial<BotContext> = {}): BotContext {
+  return {
+    history: [],
+    aggressiveness: 1,
+    orderValue: 1000,
+    random: fixedRandom(0),
+    ...overrides,
+  };
+}
+
+describe('MarketMakerStrategy', () => {
+  const strategy = new MarketMakerStrategy();
+
+  it('should quote both sides around the price', () => {
+    const { cancel, place } = strategy.decide(makeView(), makeContext());
+
+    expect(cancel).toEqual([]);
+    expect(place).toHaveLength(2);
+    const [bid, ask] = place;
+    expect(bid).toMatchObject({ side: 'buy', type: 'limit', quantity: 10 });
+    expect(ask).toMatchObject({ side: 'sell', type: 'limit', quantity: 9 });
+    expect(bid.price).toBeCloseTo(99.9);
+    expect(ask.price).toBeCloseTo(100.1);
+  });
+
+  it('should quote wider when less aggressive', () => {
+    const tight = strategy.decide(makeView(), makeContext()).place;
+    const wide = strategy.decide(makeView(), makeContext({ aggressiveness: 0 })).place;
+
+    expect((wide[1].price ?? 0) - (wide[0].price ?? 0)).toBeCloseTo(2);
+    expect((tight[1].price ?? 0) - (tight[0].price ?? 0)).toBeCloseTo(0.2);
+  });
+
+  it('should leave quotes alone until the price moves away from them', () => {
+    const openOrders = [
+      { orderId: 'bid', side: 'buy' as const, price: 99.9, quantity: 10 },
+      { orderId: 'ask', side: 'sell' as const, price: 100.1, quantity: 10 },
+    ];
+    // The quotes hold 999 cash and 10 items, so the position is balanced
+    const view = makeView({ cash: 9001, inventory: 90, openOrders });
+
+    expect(strategy.decide(view, makeContext())).toEqual({ cancel: [], place: [] });
+
+    const moved = strategy.decide({ ...view, price: 101 }, makeContext());
+    expect(moved.cancel).toEqual(['bid', 'ask']);
+    expect(moved.place[0].price).toBeGreaterThan(100.5);
+  });
+
+  it('should lean its quotes against its position', () => {
+    const longItems = strategy.decide(makeView({ cash: 0, inventory: 200 }), makeContext());
+
+    // Nothing to bid with; the offer moves down to sell
+    expect(longItems.place).toHaveLength(1);
+    expect(longItems.place[0].side).toBe('sell');
+    expect(longItems.place[0].price).toBeCloseTo(100 * (1 - 0.001) * 1.001);
+  });
+});
+
+describe('MomentumStrategy', () => {
+  const strategy = new MomentumStrategy();
+  const rising = Array.from({ length: 19 }, (_, i) => 100 + i);
+  const falling = Array.from({ length: 19 }, (_, i) => 100 - i);
+
+  it('should wait for enough history', () => {
+    const decision = strategy.decide(makeView(), makeContext({ history: rising.slice(0, 10) }));
+    expect(decision.place).toEqual([]);
+  });
+
+  it('should buy into a rising market and sell into a falling one', () => {
+    const buy = strategy.decide(makeView({ price: 119 }), makeContext({ history: rising }));
+    expect(buy.place).toEqual([{ side: 'buy', type: 'market', quantity: 8 }]);
+
+    const sell = strategy.decide(makeView({ price: 81 }), makeContext({ history: falling }));
+    expect(sell.place).toEqual([{ side: 'sell', type: 'market', quantity: 12 }]);
+  });
+
+  it('should trade less often when less aggressive', () => {
+    const context = makeContext({ history: rising, aggressiveness: 0.3, random: fixedRandom(0.5) });
+    expect(strategy.decide(makeView({ price: 119 }), context).place).toEqual([]);
+  });
+});
+
+describe('MeanReversionStrategy', () => {
+  const strategy = new MeanReversionStrategy();
+  const flat = Array.from({ length: 19 }, (_, i) => (i % 2 === 0 ? 100 : 101));
+
+  it('should bid after a drop well below the average', () => {
+    const { place } = strategy.decide(makeView({ price: 90 }), makeContext({ history: flat }));
+    expect(place).toEqual([{ side: 'buy', type: 'limit', quantity: 11, price: 90 }]);
+  });
+
+  it('should offer after a jump well above the average', () => {
+    const { place } = strategy.decide(makeView({ price: 110 }), makeContext({ history: flat }));
+    expect(place).toEqual([{ side: 'sell', type: 'limit', quantity: 9, price: 110 }]);
+  });
+
+  it("should cancel last turn's orders and stay out near the average", () => {
+    const openOrders = [{ orderId: 'old', side: 'buy' as const, price: 95, quantity: 5 }];
+    const decision = strategy.decide(
+      makeView({ price: 100, openOrders }),
+      makeContext({ history: flat })
+    );
+    expect(decision).toEqual({ cancel: ['old'], place: [] });
+  });
+});
+
+describe('NoiseStrategy', () => {
+  const strategy = new NoiseStrategy();
+
+  it('should not trade with no aggressiveness', () => {
+    const decision = strategy.decide(makeView(), makeContext({ aggressiveness: 0 }));
+    expect(decision).toEqual({ cancel: [], place: [] });
+  });
+
+  it('should place orders near the price and cancel the oldest beyond a few', () => {
+    const openOrders = ['a', 'b', 'c'].map((orderId) => ({
+      orderId,
+      side: 'buy' as const,
+      price: 99,
+      quantity: 1,
+    }));
+    const decision = strategy.decide(
+      makeView({ openOrders }),
+      makeContext({ random: createSeededRandom(7) })
+    );
+
+    expect(decision.cancel).toEqual(['a']);
+    for (const order of decision.place) {
+      expect(order.quantity).toBeGreaterThanOrEqual(1);
+      if (order.price !== undefined) {
+        expect(Math.abs(order.price - 100)).toBeLessThanOrEqual(1);
+      }
+    }
+  });
+});
+
+describe('TraderBot', () => {
+  it('should remember the prices it saw', () => {
+    const bot = new TraderBot(
+      'bot-1',
+      'BTC',
+      { strategy: 'momentum', count: 1, capital: 10000, aggressiveness: 1 },
+      fixedRandom(0)
+    );
+
+    for (let i = 0; i < 19; i++) {
+      expect(bot.decide(makeView({ price: 100 + i })).place).toEqual([]);
+    }
+    expect(bot.decide(makeView({ price: 119 })).place[0]?.side).toBe('buy');
+  });
+});
+
+describe('createTraderBots', () => {
+  it("should create each strategy's count of bots with stable IDs", () => {
+    const bots = createTraderBots(
+      'BTC',
+      [
+        { strategy: 'market-maker', count: 2, capital: 1000, aggressiveness: 0.5 },
+        { strategy: 'noise', count: 1, capital: 1000, aggressiveness: 0.5 },
+      ],
+      42
+    );
+
+    expect(bots.map((bot) => bot.botId)).toEqual([
+      'bot-BTC-market-maker-1',
+      'bot-BTC-market-maker-2',
+      'bot-BTC-noise-1',
+    ]);
+    expect(bots.every((bot) => isBotPlayerId(bot.botId))).toBe(true);
+    expect(isBotPlayerId('player-1')).toBe(false);
+  });
+
+  it('should make the same decisions with the same seed', () => {
+    const config = [{ strategy: 'noise' as const, count: 1, capital: 100000, aggressiveness: 1 }];
+    const first = createTraderBots('BTC', config, 7)[0];
+    const second = createTraderBots('BTC', config, 7)[0];
+
+    for (let i = 0; i < 5; i++) {
+      expect(first.decide(makeView())).toEqual(second.decide(makeView()));
+    }
+  });
+
+  it('should reject invalid configs', () => {
+    const valid = { strategy: 'noise' as const, count: 1, capital: 1000, aggressiveness: 0.5 };
+
+    expect(() => createTraderBots('BTC', [{ ...valid, count: 1.5 }])).toThrow('count');
+    expect(() => createTraderBots('BTC', [{ ...valid, capital: 0 }])).toThrow('capital');
+    expect(() => createTraderBots('BTC', [{ ...valid, aggressiveness: 2 }])).toThrow(
+      'aggressiveness'
+    );
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'bun:test';
+import { TradingSession, createTradingSession } from '../trading-session';
+
+describe('TradingSession', () => {
+  it('should default to hourly sessions aligned to the epoch', () => {
+    const session = createTradingSession();
+
+    expect(session.getLength()).toBe(3_600_000);
+    expect(session.getSessionStart(3_700_000)).toBe(3_600_000);
+    expect(session.getSessionEnd(3_700_000)).toBe(7_200_000);
+  });
+
+  it('should treat a session boundary as the start of the next session', () => {
+    const session = createTradingSession({ length: 1000 });
+
+    expect(session.getSessionStart(2000)).toBe(2000);
+    expect(session.getSessionEnd(2000)).toBe(3000);
+    expect(session.getSessionEnd(1999)).toBe(2000);
+  });
+
+  it('should align sessions to the configured offset', () => {
+    const session = createTradingSession({ length: 1000, offset: 250 });
+
+    expect(session.getSessionStart(1100)).toBe(250);
+    expect(session.getSessionEnd(1100)).toBe(1250);
+    expect(session.getSessionEnd(1250)).toBe(2250);
+    expect(session.getSessionEnd(100)).toBe(250);
+  });
+
+  it('should reject non-positive lengths', () => {
+    expect(() => new TradingSession({ length: 0 })).toThrow();
+    expect(() => new TradingSession({ length: NaN })).toThrow();
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach } from 'bun:test';
+import { TriggerBook, createTriggerBook, isStopOrder } from '../trigger-book';
+import type { Order } from '../types';
+
+function makeOrder(overrides: Partial<Order>): Order {
+  return {
+    id: 'stop-1',
+    playerId: 'player-1',
+    itemId: 'item-1',
+    type: 'stop',
+    side: 'sell',
+    quantity: 10,
+    price: 90,
+    stopPrice: 90,
+    timestamp: 1000,
+    status: 'pending',
+    ...overrides,
+  };
+}
+
+describe('TriggerBook', () => {
+  let book: TriggerBook;
+
+  beforeEach(() => {
+    book = createTriggerBook();
+  });
+
+  describe('isStopOrder', () => {
+    it('should identify stop order types', () => {
+      expect(isStopOrder({ type: 'stop' })).toBe(true);
+      expect(isStopOrder({ type: 'stop-limit' })).toBe(true);
+      expect(isStopOrder({ type: 'trailing-stop' })).toBe(true);
+      expect(isStopOrder({ type: 'limit' })).toBe(false);
+      expect(isStopOrder({ type: 'market' })).toBe(false);
+    });
+  });
+
+  describe('add', () => {
+    it('should require the fields each type needs', () => {
+      expect(() => book.add(makeOrder({ stopPrice: undefined }), 100)).toThrow();
+      expect(() => book.add(makeOrder({ type: 'stop-limit', price: undefined }), 100)).toThrow();
+      expect(() => book.add(makeOrder({ type: 'trailing-stop' }), 100)).toThrow();
+      expect(() => book.add(makeOrder({ type: 'limit' }), 100)).toThrow();
+      expect(book.size()).toBe(0);
+    });
+
+    it('should place trailing stops relative to the reference price', () => {
+      book.add(makeOrder({ id: 'sell', type: 'trailing-stop', trailingOffset: 5 }), 100);
+      book.add(
+        makeOrder({ id: 'buy', type: 'trailing-stop', side: 'buy', trailingOffset: 5 }),
+        100
+      );
+
+      expect(book.get('sell')?.stopPrice).toBe(95);
+      expect(book.get('buy')?.stopPrice).toBe(105);
+    });
+  });
+
+  describe('check', () => {
+    it('should fire a sell stop at or below its stop price', () => {
+      book.add(makeOrder({}), 100);
+
+      expect(book.check(91)).toEqual([]);
+
+      const fired = book.check(90);
+      expect(fired).toHaveLength(1);
+      expect(fired[0].order.type).toBe('market');
+      expect(fired[0].event).toMatchObject({
+        orderId: 'stop-1',
+        side: 'sell',
+        quantity: 10,
+        type: 'market',
+        stopPrice: 90,
+        triggerPrice: 90,
+      });
+      expect(fired[0].order.triggeredAt).toBe(fired[0].event.triggeredAt);
+      expect(book.size()).toBe(0);
+    });
+
+    it('should fire a buy stop at or above its stop price', () => {
+      book.add(makeOrder({ side: 'buy', stopPrice: 110, price: 110 }), 100);
+
+      expect(book.check(109)).toEqual([]);
+      expect(book.check(112)).toHaveLength(1);
+    });
+
+    it('should convert stop-limit orders into limit orders', () => {
+      book.add(makeOrder({ type: 'stop-limit', stopPrice: 90, price: 88 }), 100);
+
+      const [{ order }] = book.check(89);
+      expect(order.type).toBe('limit');
+      expect(order.price).toBe(88);
+    });
+
+    it('should ratchet a sell trailing stop up but never down', () => {
+      book.add(makeOrder({ type: 'trailing-stop', trailingOffset: 5 }), 100);
+
+      book.check(110);
+      expect(book.get('stop-1')?.stopPrice).toBe(105);
+
+      book.check(107);
+      expect(book.get('stop-1')?.stopPrice).toBe(105);
+
+      const fired = book.check(105);
+      expect(fired).toHaveLength(1);
+      expect(fired[0].order.type).toBe('market');
+      expect(fired[0].event.stopPrice).toBe(105);
+    });
+
+    it('should ratchet a buy trailing stop down but never up', () => {
+      book.add(makeOrder({ type: 'trailing-stop', side: 'buy', trailingOffset: 5 }), 100);
+
+      book.check(90);
+      expect(book.get('stop-1')?.stopPrice).toBe(95);
+
+      book.check(93);
+      expect(book.get('stop-1')?.stopPrice).toBe(95);
+
+      expect(book.check(96)).toHaveLength(1);
+    });
+
+    it('should leave untouched stops waiting', () => {
+      book.add(makeOrder({ id: 'near', stopPrice: 95 }), 100);
+      book.add(makeOrder({ id: 'far', stopPrice: 80 }), 100);
+
+      const fired = book.check(94);
+      expect(fired.map((f) => f.order.id)).toEqual(['near']);
+      expect(book.getOrders().map((o) => o.id)).toEqual(['far']);
+    });
+  });
+
+  it('should remove stops on cancel', () => {
+    book.add(makeOrder({}), 100);
+
+    expect(book.remove('stop-1')).toBe(true);
+    expect(book.remove('stop-1')).toBe(false);
+    expect(book.check(50)).toEqual([]);
+  });
+});
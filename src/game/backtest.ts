@@ -0,0 +1,569 @@
+/**
+ * Backtest - replays a strategy against a fixed price history
+ *
+ * The history is either stored candles (one step per bar, at its close) or
+ * a path generated by a seeded MarketEngine, so the same seed always gives
+ * the same prices. Each step runs as fast as the strategy handles it:
+ * 1. The price moves and a synthetic market account quotes one bid and one
+ *    ask around it, `slippage` away from the price; resting orders the new
+ *    quotes cross fill first
+ * 2. The strategy's onFill hook gets those fills, then onTick gets the step
+ * 3. Orders the hooks place match against the quotes right away, like on
+ *    entry in a live market; their fills reach onFill before the next step
+ *
+ * Orders go through a real OrderBook and SettlementEngine against a session
+ * of their own, so funds are reserved and settled like in the game but the
+ * player's game balance is never touched. Backtests take limit and market
+ * orders only.
+ *
+ * Results: equity curve, maximum drawdown, win rate of closing sells
+ * against the average cost paid, and the list of fills.
+ */
+
+import type { Candle, CandleInterval } from './candle-aggregator';
+import { MarketEngine, type MarketEngineConfig } from './market-engine';
+import { OrderBook } from './order-book';
+import { OrderStore } from './order-store';
+import { PlayerSession } from './player-session';
+import { SettlementEngine } from './settlement';
+import type { StrategyEvent, StrategyLimits, StrategyRequest } from './strategy-worker';
+import { compileStrategy, createStrategyWorker } from './strategy-worker';
+import type { Order, OrderSide, Trade } from './types';
+
+/**
+ * One step of a price history
+ */
+export interface PricePoint {
+  timestamp: number;
+  price: number;
+}
+
+/**
+ * Seeded MarketEngine path to backtest against
+ */
+export interface GeneratedPathConfig {
+  initialPrice: number;
+  steps: number; // Prices in the path, the initial one included
+  seed: number;
+  engine?: Partial<Omit<MarketEngineConfig, 'seed' | 'random'>>;
+  startTime?: number;
+  stepMs?: number; // Time between prices
+}
+
+export interface BacktestConfig {
+  itemId: string;
+  initialCash: number;
+  initialInventory: number; // Costed at the first price
+  slippage: number; // Fraction of the price the synthetic quotes sit away from it (above 0)
+  liquidity: number; // Quantity quoted on each side every step
+  volatility: number; // Reported to onTick
+  maxOrdersPerStep: number; // Orders and cancels the strategy may send per step
+}
+
+/**
+ * A fill of one of the strategy's orders
+ */
+export interface BacktestTrade {
+  tradeId: string;
+  orderId: string;
+  timestamp: number;
+  side: OrderSide;
+  quantity: number;
+  price: number;
+  pnl: number | null; // Realized by a sell, against the average cost
+}
+
+export interface EquityPoint {
+  timestamp: number;
+  price: number;
+  cash: number;
+  inventory: number;
+  equity: number;
+}
+
+export interface BacktestResult {
+  itemId: string;
+  steps: number;
+  startTime: number;
+  endTime: number;
+  initialEquity: number;
+  finalEquity: number;
+  returnPct: number;
+  maxDrawdown: number; // Largest fall of equity from a previous peak
+  maxDrawdownPct: number;
+  wins: number;
+  losses: number;
+  winRate: number | null; // Share of sells closed at a profit; null with none closed
+  trades: BacktestTrade[];
+  equityCurve: EquityPoint[];
+}
+
+/**
+ * A finished backtest with what the strategy logged
+ */
+export interface BacktestReport extends BacktestResult {
+  stopReason: string | null; // Why the strategy stopped early, if it did
+  logs: string[];
+}
+
+/**
+ * Where a backtest's prices come from
+ */
+export type PriceSource =
+  | { type: 'candles'; interval: CandleInterval; from?: number; to?: number }
+  | ({ type: 'generated' } & GeneratedPathConfig);
+
+/**
+ * What to backtest a strategy against
+ */
+export interface BacktestSpec {
+  itemId: string;
+  prices: PriceSource;
+  config?: Partial<Omit<BacktestConfig, 'itemId'>>;
+}
+
+/**
+ * Stored bars of an item and interval, oldest first
+ */
+export type CandleLoader = (_itemId: string, _interval: CandleInterval) => Candle[];
+
+export type BacktestStatus = 'running' | 'completed' | 'failed';
+
+/**
+ * A backtest a player ran, kept with its outcome
+ */
+export interface BacktestRecord {
+  backtestId: string;
+  playerId: string;
+  name: string;
+  source: string;
+  spec: BacktestSpec;
+  status: BacktestStatus;
+  createdAt: number;
+  completedAt: number | null;
+  report: BacktestReport | null;
+  error: string | null;
+}
+
+/**
+ * Hands an event to the strategy and resolves once it is handled
+ * (e.g. StrategyWorker.deliver)
+ */
+export type BacktestDeliver = (_event: StrategyEvent) => Promise<void>;
+
+const DEFAULT_CONFIG: Omit<BacktestConfig, 'itemId'> = {
+  initialCash: 10000,
+  initialInventory: 0,
+  slippage: 0.001,
+  liquidity: 1_000_000,
+  volatility: 0.2,
+  maxOrdersPerStep: 10,
+};
+
+const PLAYER_ID = 'backtest-player';
+const MARKET_ID = 'backtest-market';
+
+// The market account never runs out of cash or items
+const MARKET_FUNDS = Number.MAX_SAFE_INTEGER;
+
+/**
+ * Generate a price path from a seeded MarketEngine
+ * @param itemId - Item the path is for
+ * @param config - Start price, length and seed of the path
+ * @returns Prices, oldest first
+ * @throws Error if the start price or number of steps is invalid
+ */
+export function generatePricePath(itemId: string, config: GeneratedPathConfig): PricePoint[] {
+  if (!(config.initialPrice > 0)) {
+    throw new Error('Initial price must be positive');
+  }
+  if (!Number.isInteger(config.steps) || config.steps < 2) {
+    throw new Error('A price path needs at least 2 steps');
+  }
+
+  const { startTime = 0, stepMs = 60_000 } = config;
+  const engine = new MarketEngine(itemId, config.initialPrice, {
+    ...config.engine,
+    seed: config.seed,
+  });
+
+  const path: PricePoint[] = [{ timestamp: startTime, price: engine.getCurrentPrice() }];
+  for (let step = 1; step < config.steps; step++) {
+    engine.updatePrice();
+    path.push({ timestamp: startTime + step * stepMs, price: engine.getCurrentPrice() });
+  }
+  return path;
+}
+
+/**
+ * Turn candles into a price path, one step per bar at its close
+ * @param candles - Bars of one item and interval
+ * @returns Prices, oldest first
+ */
+export function candlePricePath(candles: Candle[]): PricePoint[] {
+  return [...candles]
+    .sort((a, b) => a.openTime - b.openTime)
+    .map((candle) => ({ timestamp: candle.closeTime, price: candle.close }));
+}
+
+/**
+ * Build the price path a spec describes
+ * @param spec - Item and price source
+ * @param loadCandles - Reads stored bars (candle sources only)
+ * @returns Prices, oldest first
+ * @throws Error if the path cannot be generated or too few bars are stored
+ */
+export function buildPricePath(spec: BacktestSpec, loadCandles: CandleLoader): PricePoint[] {
+  const source = spec.prices;
+  if (source.type === 'generated') {
+    return generatePricePath(spec.itemId, source);
+  }
+
+  const { from = -Infinity, to = Infinity } = source;
+  const candles = loadCandles(spec.itemId, source.interval).filter(
+    (candle) => candle.openTime >= from && candle.openTime <= to
+  );
+  if (candles.length < 2) {
+    throw new Error(`Not enough ${source.interval} candles of ${spec.itemId} to backtest`);
+  }
+  return candlePricePath(candles);
+}
+
+/**
+ * Simulated market a strategy trades in during a backtest
+ */
+export class BacktestRunner {
+  private readonly config: BacktestConfig;
+  private readonly book = new OrderBook();
+  private readonly orders = new OrderStore();
+  private readonly player: PlayerSession;
+  private readonly market: PlayerSession;
+  private readonly settlement: SettlementEngine;
+  private quotes: string[] = [];
+  private price = 0;
+  private timestamp = 0;
+  private ordersThisStep = 0;
+  private nextOrderId = 0;
+  private position = 0; // Held quantity behind averageCost
+  private averageCost = 0;
+  private trades: BacktestTrade[] = [];
+  private pendingFills: string[] = []; // Orders filled since the strategy last heard
+
+  /**
+   * @param path - Prices to replay, oldest first
+   * @param config - Item, starting funds and fill settings
+   * @throws Error if the path is shorter than 2 steps or the config is invalid
+   */
+  constructor(
+    private readonly path: PricePoint[],
+    config: Partial<BacktestConfig> & Pick<BacktestConfig, 'itemId'>
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+
+    if (path.length < 2) {
+      throw new Error('A backtest needs at least 2 prices');
+    }
+    if (path.some((point) => !(point.price > 0))) {
+      throw new Error('Backtest prices must be positive');
+    }
+    if (this.config.initialCash < 0 || this.config.initialInventory < 0) {
+      throw new Error('Initial cash and inventory cannot be negative');
+    }
+    // The market account's own quotes must not cross each other
+    if (!(this.config.slippage > 0) || this.config.slippage >= 1) {
+      throw new Error('Slippage must be above 0 and below 1');
+    }
+
+    this.player = new PlayerSession(PLAYER_ID, this.config.initialCash);
+    this.player.updateInventory(this.config.itemId, this.config.initialInventory);
+    this.market = new PlayerSession(MARKET_ID, MARKET_FUNDS);
+    this.market.updateInventory(this.config.itemId, MARKET_FUNDS);
+    this.settlement = new SettlementEngine((playerId) =>
+      playerId === PLAYER_ID ? this.player : playerId === MARKET_ID ? this.market : undefined
+    );
+
+    this.position = this.config.initialInventory;
+    this.averageCost = path[0].price;
+  }
+
+  /**
+   * Replay the whole path
+   * @param deliver - Hands events to the strategy, one at a time
+   * @returns Performance of the strategy over the path
+   */
+  async run(deliver: BacktestDeliver): Promise<BacktestResult> {
+    const equityCurve: EquityPoint[] = [];
+
+    for (const point of this.path) {
+      this.price = point.price;
+      this.timestamp = point.timestamp;
+      this.ordersThisStep = 0;
+
+      this.refreshQuotes();
+      await this.deliverFills(deliver);
+      await deliver({
+        type: 'tick',
+        market: {
+          itemId: this.config.itemId,
+          currentPrice: this.price,
+          volatility: this.config.volatility,
+          bestBid: this.book.getBestBid(),
+          bestAsk: this.book.getBestAsk(),
+          timestamp: this.timestamp,
+        },
+      });
+      await this.deliverFills(deliver);
+
+      const inventory = this.player.getInventory(this.config.itemId);
+      const cash = this.player.getBalance();
+      equityCurve.push({
+        timestamp: this.timestamp,
+        price: this.price,
+        cash,
+        inventory,
+        equity: cash + inventory * this.price,
+      });
+    }
+
+    return this.summarize(equityCurve);
+  }
+
+  /**
+   * Carry out an order or cancel the strategy asked for
+   * @returns Same shape as the game's order results: the order with its fills,
+   *   whether a cancel succeeded, or an error
+   */
+  async handleRequest(request: StrategyRequest): Promise<unknown> {
+    if (this.ordersThisStep >= this.config.maxOrdersPerStep) {
+      return { error: `At most ${this.config.maxOrdersPerStep} orders per step` };
+    }
+    this.ordersThisStep++;
+
+    return request.type === 'place-order'
+      ? this.placeOrder(request.itemId, request.order)
+      : this.cancelOrder(request.orderId);
+  }
+
+  private placeOrder(itemId: string, input: unknown): unknown {
+    if (itemId !== this.config.itemId) return { error: 'Market not found' };
+
+    const body = (typeof input === 'object' && input !== null ? input : {}) as Partial<Order>;
+    if (body.side !== 'buy' && body.side !== 'sell') {
+      return { error: 'Invalid order: side must be buy or sell' };
+    }
+    if (body.type !== 'limit' && body.type !== 'market') {
+      return { error: 'Backtests take limit and market orders only' };
+    }
+    if (typeof body.quantity !== 'number' || !(body.quantity >= 1)) {
+      return { error: 'Invalid order: quantity must be at least 1' };
+    }
+    if (body.type === 'limit' && (typeof body.price !== 'number' || !(body.price > 0))) {
+      return { error: 'Limit orders require a positive price' };
+    }
+
+    // Market orders are priced at the quote they will take
+    const quote = body.side === 'buy' ? this.book.getBestAsk() : this.book.getBestBid();
+    const price = body.type === 'limit' ? (body.price as number) : (quote ?? this.price);
+    if (body.side === 'buy' && !this.player.hasAvailableBalance(price * body.quantity)) {
+      return { error: 'Insufficient balance' };
+    }
+    if (body.side === 'sell' && !this.player.hasAvailableInventory(itemId, body.quantity)) {
+      return { error: 'Insufficient inventory' };
+    }
+
+    const order = this.createOrder(PLAYER_ID, body.side, body.type, price, body.quantity);
+    const trades = this.submit(order);
+    return this.orders.toResult(order.id, trades);
+  }
+
+  private cancelOrder(orderId: string): boolean {
+    const record = this.orders.get(orderId);
+    if (!record || record.playerId !== PLAYER_ID) return false;
+    if (!this.book.removeOrder(orderId)) return false;
+
+    this.settlement.release(orderId);
+    this.orders.cancel(orderId);
+    return true;
+  }
+
+  /**
+   * Replace the market account's quotes with a fresh pair around the price
+   */
+  private refreshQuotes(): void {
+    for (const orderId of this.quotes) {
+      this.book.removeOrder(orderId);
+      this.settlement.release(orderId);
+    }
+
+    const { slippage, liquidity } = this.config;
+    const bid = this.createOrder(MARKET_ID, 'buy', 'limit', this.price * (1 - slippage), liquidity);
+    const ask = this.createOrder(
+      MARKET_ID,
+      'sell',
+      'limit',
+      this.price * (1 + slippage),
+      liquidity
+    );
+    this.quotes = [bid.id, ask.id];
+    this.submit(bid);
+    this.submit(ask);
+  }
+
+  private createOrder(
+    playerId: string,
+    side: OrderSide,
+    type: Order['type'],
+    price: number,
+    quantity: number
+  ): Order {
+    return {
+      id: `backtest-order-${this.nextOrderId++}`,
+      playerId,
+      itemId: this.config.itemId,
+      side,
+      type,
+      price,
+      quantity,
+      timestamp: this.timestamp,
+      status: 'pending',
+    };
+  }
+
+  /**
+   * Hold, book and match an order, then settle what it filled
+   * @returns Trades of the matching pass
+   */
+  private submit(order: Order): Trade[] {
+    this.settlement.hold(order);
+    this.orders.add(order);
+    this.book.addOrder(order, this.price);
+
+    const trades = this.book.matchOrders().map((trade) => ({
+      ...trade,
+      timestamp: this.timestamp,
+    }));
+    const results = this.settlement.settleAll(trades);
+    this.orders.applyTrades(trades);
+    trades.forEach((trade, index) => {
+      if (results[index].settled) this.recordFill(trade);
+    });
+
+    // Unfilled market order leftovers
+    for (const expiry of this.book.collectExpired(this.timestamp)) {
+      this.settlement.release(expiry.orderId);
+      this.orders.expire(expiry.orderId);
+    }
+
+    return trades;
+  }
+
+  private recordFill(trade: Trade): void {
+    const buy = this.orders.get(trade.buyOrderId)?.playerId === PLAYER_ID;
+    const orderId = buy ? trade.buyOrderId : trade.sellOrderId;
+    if (this.orders.get(orderId)?.playerId !== PLAYER_ID) return;
+
+    let pnl: number | null = null;
+    if (buy) {
+      const cost = this.averageCost * this.position + trade.price * trade.quantity;
+      this.position += trade.quantity;
+      this.averageCost = cost / this.position;
+    } else {
+      pnl = (trade.price - this.averageCost) * trade.quantity;
+      this.position -= trade.quantity;
+    }
+
+    this.trades.push({
+      tradeId: trade.id,
+      orderId,
+      timestamp: trade.timestamp,
+      side: buy ? 'buy' : 'sell',
+      quantity: trade.quantity,
+      price: trade.price,
+      pnl,
+    });
+    if (!this.pendingFills.includes(orderId)) this.pendingFills.push(orderId);
+  }
+
+  /**
+   * Tell the strategy about its fills, including ones its onFill causes
+   */
+  private async deliverFills(deliver: BacktestDeliver): Promise<void> {
+    while (this.pendingFills.length > 0) {
+      const orderId = this.pendingFills.shift() as string;
+      const order = this.orders.get(orderId);
+      if (order) await deliver({ type: 'fill', order });
+    }
+  }
+
+  private summarize(equityCurve: EquityPoint[]): BacktestResult {
+    const initialEquity =
+      this.config.initialCash + this.config.initialInventory * this.path[0].price;
+    const finalEquity = equityCurve[equityCurve.length - 1].equity;
+
+    let peak = initialEquity;
+    let maxDrawdown = 0;
+    let maxDrawdownPct = 0;
+    for (const point of equityCurve) {
+      peak = Math.max(peak, point.equity);
+      maxDrawdown = Math.max(maxDrawdown, peak - point.equity);
+      if (peak > 0) maxDrawdownPct = Math.max(maxDrawdownPct, ((peak - point.equity) / peak) * 100);
+    }
+
+    const closed = this.trades.filter((trade) => trade.pnl !== null);
+    const wins = closed.filter((trade) => (trade.pnl as number) > 0).length;
+    const losses = closed.filter((trade) => (trade.pnl as number) < 0).length;
+
+    return {
+      itemId: this.config.itemId,
+      steps: this.path.length,
+      startTime: this.path[0].timestamp,
+      endTime: this.path[this.path.length - 1].timestamp,
+      initialEquity,
+      finalEquity,
+      returnPct: initialEquity > 0 ? ((finalEquity - initialEquity) / initialEquity) * 100 : 0,
+      maxDrawdown,
+      maxDrawdownPct,
+      wins,
+      losses,
+      winRate: wins + losses > 0 ? wins / (wins + losses) : null,
+      trades: [...this.trades],
+      equityCurve,
+    };
+  }
+}
+
+/**
+ * Run a strategy script over a price path in a sandboxed strategy worker
+ * @param source - TypeScript or JavaScript strategy source
+ * @param path - Prices to replay, oldest first
+ * @param config - Item, starting funds and fill settings
+ * @param limits - CPU and responsiveness limits of the worker
+ * @throws Error if the config is invalid or the script fails to load
+ */
+export async function runBacktest(
+  source: string,
+  path: PricePoint[],
+  config: Partial<BacktestConfig> & Pick<BacktestConfig, 'itemId'>,
+  limits: Partial<StrategyLimits> = {}
+): Promise<BacktestReport> {
+  const runner = new BacktestRunner(path, config);
+  // Orders per step are limited by the runner; time runs faster than the game's
+  const worker = createStrategyWorker(
+    compileStrategy(source),
+    (request) => runner.handleRequest(request),
+    { ...limits, ordersPerSecond: Number.MAX_SAFE_INTEGER, orderBurst: Number.MAX_SAFE_INTEGER }
+  );
+
+  await worker.start();
+  try {
+    const result = await runner.run((event) => worker.deliver(event));
+    const { status, stopReason } = worker.getInfo();
+    return {
+      ...result,
+      stopReason: status === 'stopped' ? stopReason : null,
+      logs: worker.getLogs(),
+    };
+  } finally {
+    worker.stop();
+  }
+}
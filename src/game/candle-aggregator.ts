@@ -0,0 +1,228 @@
+/**
+ * Candle Aggregator - OHLCV bars per item at fixed intervals
+ *
+ * Consumes two kinds of input:
+ * - Simulated prices from MarketEngine (move open/high/low/close, no volume)
+ * - Executed trades (move the price and add volume)
+ *
+ * Bars are aligned to wall-clock interval boundaries. Intervals with no input
+ * produce no bar, so consumers should expect gaps in quiet markets.
+ */
+
+import type { Trade } from './types';
+
+export type CandleInterval = '1s' | '1m' | '5m' | '1h';
+
+/**
+ * Interval lengths in milliseconds
+ */
+export const CANDLE_INTERVALS: Record<CandleInterval, number> = {
+  '1s': 1000,
+  '1m': 60_000,
+  '5m': 300_000,
+  '1h': 3_600_000,
+};
+
+export interface Candle {
+  itemId: string;
+  interval: CandleInterval;
+  openTime: number;
+  closeTime: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  tradeCount: number;
+}
+
+/**
+ * A bar that changed, flagged closed once its interval has rolled over
+ */
+export interface CandleUpdate {
+  candle: Candle;
+  closed: boolean;
+}
+
+export interface CandleQuery {
+  from?: number;
+  to?: number;
+  limit?: number;
+}
+
+export interface CandleAggregatorConfig {
+  maxCandles: number; // Bars retained per item and interval
+}
+
+/**
+ * Builds and retains OHLCV bars for every item and interval
+ */
+export class CandleAggregator {
+  private config: CandleAggregatorConfig;
+  private series = new Map<string, Candle[]>();
+
+  /**
+   * @param config - Retention settings
+   */
+  constructor(config?: Partial<CandleAggregatorConfig>) {
+    this.config = {
+      maxCandles: 1000,
+      ...config,
+    };
+  }
+
+  /**
+   * Record a simulated market price
+   * @param itemId - Item/market identifier
+   * @param price - Current price
+   * @param timestamp - Observation time (ms)
+   * @returns Bars closed by this update
+   */
+  recordPrice(itemId: string, price: number, timestamp = Date.now()): CandleUpdate[] {
+    return this.record(itemId, price, 0, timestamp);
+  }
+
+  /**
+   * Record an executed trade
+   * @param trade - Trade to fold into the bars for its item
+   * @returns Bars closed by this update
+   */
+  recordTrade(trade: Trade): CandleUpdate[] {
+    return this.record(trade.itemId, trade.price, trade.quantity, trade.timestamp);
+  }
+
+  /**
+   * Record several trades in order
+   */
+  recordTrades(trades: Trade[]): CandleUpdate[] {
+    return trades.flatMap((trade) => this.recordTrade(trade));
+  }
+
+  /**
+   * Get bars for an item, oldest first
+   * @param itemId - Item/market identifier
+   * @param interval - Bar interval
+   * @param query - Optional open-time range (inclusive) and max count (latest bars win)
+   */
+  getCandles(itemId: string, interval: CandleInterval, query: CandleQuery = {}): Candle[] {
+    const { from = -Infinity, to = Infinity, limit } = query;
+    const candles = (this.series.get(seriesKey(itemId, interval)) ?? [])
+      .filter((candle) => candle.openTime >= from && candle.openTime <= to)
+      .map((candle) => ({ ...candle }));
+
+    return limit !== undefined ? candles.slice(-limit) : candles;
+  }
+
+  /**
+   * Get the in-progress bar for every interval of an item
+   */
+  getLiveCandles(itemId: string): Candle[] {
+    const live: Candle[] = [];
+    for (const interval of Object.keys(CANDLE_INTERVALS) as CandleInterval[]) {
+      const candles = this.series.get(seriesKey(itemId, interval));
+      const last = candles?.[candles.length - 1];
+      if (last) live.push({ ...last });
+    }
+    return live;
+  }
+
+  /**
+   * Load bars kept from an earlier run
+   *
+   * The newest restored bar of each series stays open, so input in the same
+   * interval keeps updating it.
+   * @param candles - Bars oldest first; only the latest maxCandles per series are kept
+   */
+  restore(candles: Candle[]): void {
+    for (const candle of candles) {
+      const key = seriesKey(candle.itemId, candle.interval);
+      const series = this.series.get(key) ?? [];
+      this.series.set(key, series);
+
+      const last = series[series.length - 1];
+      if (last && candle.openTime <= last.openTime) continue;
+
+      series.push({ ...candle });
+      if (series.length > this.config.maxCandles) {
+        series.splice(0, series.length - this.config.maxCandles);
+      }
+    }
+  }
+
+  getMaxCandles(): number {
+    return this.config.maxCandles;
+  }
+
+  private record(itemId: string, price: number, volume: number, timestamp: number): CandleUpdate[] {
+    const closed: CandleUpdate[] = [];
+
+    for (const [interval, length] of Object.entries(CANDLE_INTERVALS) as [
+      CandleInterval,
+      number,
+    ][]) {
+      const key = seriesKey(itemId, interval);
+      const candles = this.series.get(key) ?? [];
+      this.series.set(key, candles);
+
+      const openTime = Math.floor(timestamp / length) * length;
+      const last = candles[candles.length - 1];
+
+      if (last && openTime <= last.openTime) {
+        // Late input folds into the bar covering it, if still retained
+        const target = findCandle(candles, openTime);
+        if (target) applyToCandle(target, price, volume);
+        continue;
+      }
+
+      if (last) {
+        closed.push({ candle: { ...last }, closed: true });
+      }
+
+      candles.push({
+        itemId,
+        interval,
+        openTime,
+        closeTime: openTime + length - 1,
+        open: price,
+        high: price,
+        low: price,
+        close: price,
+        volume,
+        tradeCount: volume > 0 ? 1 : 0,
+      });
+
+      if (candles.length > this.config.maxCandles) {
+        candles.splice(0, candles.length - this.config.maxCandles);
+      }
+    }
+
+    return closed;
+  }
+}
+
+function seriesKey(itemId: string, interval: CandleInterval): string {
+  return `${itemId}:${interval}`;
+}
+
+function findCandle(candles: Candle[], openTime: number): Candle | undefined {
+  for (let i = candles.length - 1; i >= 0; i--) {
+    if (candles[i].openTime === openTime) return candles[i];
+    if (candles[i].openTime < openTime) return undefined;
+  }
+  return undefined;
+}
+
+function applyToCandle(candle: Candle, price: number, volume: number): void {
+  candle.high = Math.max(candle.high, price);
+  candle.low = Math.min(candle.low, price);
+  candle.close = price;
+  candle.volume += volume;
+  if (volume > 0) candle.tradeCount++;
+}
+
+/**
+ * Factory function to create a candle aggregator
+ */
+export function createCandleAggregator(config?: Partial<CandleAggregatorConfig>): CandleAggregator {
+  return new CandleAggregator(config);
+}
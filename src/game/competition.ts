@@ -0,0 +1,220 @@
+/**
+ * Competition - timed trading rounds with their own players and markets
+ *
+ * A round trades its own copies of the allowed items, from its start time to
+ * its end time, and every participant starts it with the same cash and
+ * inventory. State is kept apart by ID:
+ * - Round markets are `<roundId>:<itemId>`
+ * - Participants trade as `<playerId>@<roundId>`, so balances, orders and
+ *   stats never mix with the main game or other rounds
+ *
+ * Rounds move scheduled -> running -> ended. An ended round keeps its frozen
+ * standings and stays listed as an archive.
+ */
+
+import type { LeaderboardEntry } from './portfolio-tracker';
+
+export type RoundStatus = 'scheduled' | 'running' | 'ended';
+
+/**
+ * What an admin defines for a round
+ */
+export interface RoundConfig {
+  name: string;
+  startTime: number;
+  endTime: number;
+  items: string[]; // Base item IDs traded in the round
+  startingCash: number;
+  startingInventory: Record<string, number>;
+  seed?: number; // Base seed for the round's price paths (random if omitted)
+}
+
+export interface CompetitionRound extends RoundConfig {
+  roundId: string;
+  status: RoundStatus;
+  participants: string[]; // Player IDs, in join order
+  createdAt: number;
+  standings: LeaderboardEntry[] | null; // Frozen when the round ends; player IDs are not round IDs
+}
+
+const ROUND_PLAYER_SEPARATOR = '@';
+const ROUND_ITEM_SEPARATOR = ':';
+
+/**
+ * Player ID a participant trades a round as
+ */
+export function roundPlayerId(roundId: string, playerId: string): string {
+  return `${playerId}${ROUND_PLAYER_SEPARATOR}${roundId}`;
+}
+
+/**
+ * Player behind a round player ID (main game IDs are returned unchanged)
+ */
+export function accountPlayerId(playerId: string): string {
+  const at = playerId.lastIndexOf(ROUND_PLAYER_SEPARATOR);
+  return at === -1 ? playerId : playerId.slice(0, at);
+}
+
+export function isRoundPlayerId(playerId: string): boolean {
+  return playerId.includes(ROUND_PLAYER_SEPARATOR);
+}
+
+/**
+ * Market ID of an item in a round
+ */
+export function roundItemId(roundId: string, itemId: string): string {
+  return `${roundId}${ROUND_ITEM_SEPARATOR}${itemId}`;
+}
+
+/**
+ * Split a round market ID
+ * @returns Round and base item, or null for main game markets
+ */
+export function parseRoundItemId(marketId: string): { roundId: string; itemId: string } | null {
+  const at = marketId.indexOf(ROUND_ITEM_SEPARATOR);
+  if (at === -1) return null;
+  return { roundId: marketId.slice(0, at), itemId: marketId.slice(at + 1) };
+}
+
+/**
+ * Keeps rounds and decides when they start and end
+ */
+export class CompetitionSchedule {
+  private rounds = new Map<string, CompetitionRound>();
+  private nextRoundId = 1;
+
+  /**
+   * Define a new round
+   * @param config - Round settings
+   * @param now - Current time in ms (default: now)
+   * @throws Error if the settings are inconsistent
+   */
+  create(config: RoundConfig, now = Date.now()): CompetitionRound {
+    validateConfig(config, now);
+
+    const round: CompetitionRound = {
+      ...config,
+      items: [...config.items],
+      startingInventory: { ...config.startingInventory },
+      roundId: `round-${this.nextRoundId++}`,
+      status: 'scheduled',
+      participants: [],
+      createdAt: now,
+      standings: null,
+    };
+    this.rounds.set(round.roundId, round);
+    return round;
+  }
+
+  /**
+   * Bring back a round kept from an earlier run
+   */
+  restore(round: CompetitionRound): void {
+    this.rounds.set(round.roundId, round);
+
+    const number = Number(round.roundId.replace('round-', ''));
+    if (number >= this.nextRoundId) this.nextRoundId = number + 1;
+  }
+
+  /**
+   * Add a player to a round that has not ended
+   * @throws Error if the round is unknown, over, or already joined
+   */
+  join(roundId: string, playerId: string): CompetitionRound {
+    const round = this.rounds.get(roundId);
+    if (!round) throw new Error('Round not found');
+    if (round.status === 'ended') throw new Error('Round has ended');
+    if (round.participants.includes(playerId)) throw new Error('Already joined');
+
+    round.participants.push(playerId);
+    return round;
+  }
+
+  get(roundId: string): CompetitionRound | undefined {
+    return this.rounds.get(roundId);
+  }
+
+  /**
+   * All rounds, newest first
+   */
+  list(): CompetitionRound[] {
+    return Array.from(this.rounds.values()).sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  isParticipant(roundId: string, playerId: string): boolean {
+    return this.rounds.get(roundId)?.participants.includes(playerId) ?? false;
+  }
+
+  /**
+   * Check whether a round accepts orders: running and not yet past its end
+   */
+  isTrading(roundId: string, now = Date.now()): boolean {
+    const round = this.rounds.get(roundId);
+    return round?.status === 'running' && now < round.endTime;
+  }
+
+  /**
+   * Scheduled rounds whose start time has come
+   */
+  getStarting(now = Date.now()): CompetitionRound[] {
+    return this.list().filter((round) => round.status === 'scheduled' && round.startTime <= now);
+  }
+
+  /**
+   * Running rounds whose end time has come
+   */
+  getEnding(now = Date.now()): CompetitionRound[] {
+    return this.list().filter((round) => round.status === 'running' && round.endTime <= now);
+  }
+
+  markStarted(roundId: string): void {
+    const round = this.rounds.get(roundId);
+    if (round?.status === 'scheduled') round.status = 'running';
+  }
+
+  /**
+   * End a round and freeze its standings
+   * @param standings - Final ranking, keyed by player (not round player) ID
+   */
+  finish(roundId: string, standings: LeaderboardEntry[]): void {
+    const round = this.rounds.get(roundId);
+    if (!round || round.status === 'ended') return;
+
+    round.status = 'ended';
+    round.standings = standings;
+  }
+}
+
+function validateConfig(config: RoundConfig, now: number): void {
+  if (!(config.endTime > config.startTime)) {
+    throw new Error('Round must end after it starts');
+  }
+  if (config.endTime <= now) {
+    throw new Error('Round end time is in the past');
+  }
+  if (config.items.length === 0) {
+    throw new Error('Round needs at least one item');
+  }
+  if (new Set(config.items).size !== config.items.length) {
+    throw new Error('Round items must be unique');
+  }
+  if (!(config.startingCash >= 0)) {
+    throw new Error('Starting cash cannot be negative');
+  }
+
+  for (const [itemId, quantity] of Object.entries(config.startingInventory)) {
+    if (!config.items.includes(itemId)) {
+      throw new Error(`Starting inventory item ${itemId} is not traded in the round`);
+    }
+    if (!Number.isInteger(quantity) || quantity < 0) {
+      throw new Error(`Invalid starting quantity for ${itemId}`);
+    }
+  }
+}
+
+/**
+ * Factory function to create a competition schedule
+ */
+export function createCompetitionSchedule(): CompetitionSchedule {
+  return new CompetitionSchedule();
+}
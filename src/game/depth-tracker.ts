@@ -0,0 +1,167 @@
+/**
+ * Depth Tracker - sequence-numbered Level 2 snapshots and incremental diffs
+ *
+ * Lets clients maintain a local copy of the aggregated book:
+ * - Fetch a snapshot (sequence N)
+ * - Apply every diff with sequence > N in order
+ *
+ * Diff entries carry the absolute quantity at a price (0 = level removed), so
+ * applying a diff that overlaps the snapshot is harmless. A gap in sequence
+ * numbers means the client missed a diff and should re-fetch the snapshot.
+ */
+
+import type { BookDepth, PriceLevel } from './order-book';
+
+/**
+ * Top-of-book snapshot stamped with the sequence of the last diff it includes
+ */
+export interface DepthSnapshot extends BookDepth {
+  itemId: string;
+  sequence: number;
+  timestamp: number;
+}
+
+/**
+ * Changed price levels since the previous sequence
+ */
+export interface DepthDiff extends BookDepth {
+  itemId: string;
+  sequence: number;
+  previousSequence: number;
+  timestamp: number;
+}
+
+/**
+ * Last published book state and its sequence, for snapshots
+ */
+export interface DepthTrackerState {
+  sequence: number;
+  bids: PriceLevel[];
+  asks: PriceLevel[];
+}
+
+/**
+ * Tracks the last published book state for one market
+ */
+export class DepthTracker {
+  private sequence = 0;
+  private bids = new Map<number, PriceLevel>();
+  private asks = new Map<number, PriceLevel>();
+
+  /**
+   * @param itemId - Item/market identifier
+   */
+  constructor(private readonly itemId: string) {}
+
+  /**
+   * Compare the current book against the last published state
+   * @param depth - Full aggregated depth (OrderBook.getDepth())
+   * @returns Diff with the next sequence number, or null if nothing changed
+   */
+  update(depth: BookDepth): DepthDiff | null {
+    const bids = diffSide(this.bids, depth.bids);
+    const asks = diffSide(this.asks, depth.asks);
+
+    if (bids.length === 0 && asks.length === 0) {
+      return null;
+    }
+
+    this.bids = toMap(depth.bids);
+    this.asks = toMap(depth.asks);
+
+    const previousSequence = this.sequence;
+    this.sequence++;
+
+    return {
+      itemId: this.itemId,
+      sequence: this.sequence,
+      previousSequence,
+      bids,
+      asks,
+      timestamp: Date.now(),
+    };
+  }
+
+  /**
+   * Snapshot of the last published book at its sequence
+   *
+   * Built from what the diffs so far describe rather than the live book, so
+   * orders placed since the last update() only reach clients in the next diff.
+   * @param levels - Maximum number of levels per side (default: all)
+   */
+  snapshot(levels = Infinity): DepthSnapshot {
+    return {
+      itemId: this.itemId,
+      sequence: this.sequence,
+      bids: sortLevels(this.bids, (a, b) => b - a, levels),
+      asks: sortLevels(this.asks, (a, b) => a - b, levels),
+      timestamp: Date.now(),
+    };
+  }
+
+  /**
+   * Get the sequence number of the last published diff
+   */
+  getSequence(): number {
+    return this.sequence;
+  }
+
+  getState(): DepthTrackerState {
+    return {
+      sequence: this.sequence,
+      bids: Array.from(this.bids.values(), (level) => ({ ...level })),
+      asks: Array.from(this.asks.values(), (level) => ({ ...level })),
+    };
+  }
+
+  /**
+   * Restore a state captured with getState(); diffs continue its sequence
+   */
+  setState(state: DepthTrackerState): void {
+    this.sequence = state.sequence;
+    this.bids = toMap(state.bids);
+    this.asks = toMap(state.asks);
+  }
+}
+
+function toMap(levels: PriceLevel[]): Map<number, PriceLevel> {
+  return new Map(levels.map((level) => [level.price, { ...level }]));
+}
+
+function sortLevels(
+  levels: Map<number, PriceLevel>,
+  compare: (_a: number, _b: number) => number,
+  limit: number
+): PriceLevel[] {
+  return Array.from(levels.values(), (level) => ({ ...level }))
+    .sort((a, b) => compare(a.price, b.price))
+    .slice(0, limit);
+}
+
+function diffSide(previous: Map<number, PriceLevel>, current: PriceLevel[]): PriceLevel[] {
+  const changes: PriceLevel[] = [];
+  const seen = new Set<number>();
+
+  for (const level of current) {
+    seen.add(level.price);
+    const before = previous.get(level.price);
+    if (!before || before.quantity !== level.quantity || before.orderCount !== level.orderCount) {
+      changes.push({ ...level });
+    }
+  }
+
+  for (const price of previous.keys()) {
+    if (!seen.has(price)) {
+      changes.push({ price, quantity: 0, orderCount: 0 });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Factory function to create a depth tracker
+ */
+export function createDepthTracker(itemId: string): DepthTracker {
+  return new DepthTracker(itemId);
+}
@@ -1,8 +1,14 @@
+import type { PriceModelConfig } from './price-models';
+import type { BotConfig } from './trader-bots';
+
 export interface ItemMetadata {
   name: string;
   description: string;
   initialPrice: number;
   volatility: number;
+  sector?: string; // Group sector-wide news hits together
+  priceModel?: PriceModelConfig; // Price process for this item's market (GBM if omitted)
+  bots?: BotConfig[]; // Trader bots on this item's market (DEFAULT_BOTS if omitted)
 }
 
 export interface ItemType<T extends ItemMetadata = ItemMetadata> {
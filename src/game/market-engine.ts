@@ -1,12 +1,17 @@
 /**
- * Market Engine - GBM (Geometric Brownian Motion) price simulation with order flow pressure
+ * Market Engine - stochastic price simulation with order flow pressure
  *
  * Implements procedural pricing using:
- * - GBM formula for price dynamics
+ * - A pluggable PriceModel for price dynamics (GBM by default)
  * - Box-Muller transform for normal distribution
  * - Order flow pressure for buy/sell imbalance
+ *
+ * All randomness comes from an injectable RandomSource, so a fixed seed and
+ * the same order stream reproduce the same price path exactly.
  */
 
+import { createPriceModel, type PriceModel, type PriceModelConfig } from './price-models';
+import { createSeededRandom, type RandomSource } from './random';
 import type { Market, OrderSide } from './types';
 
 /**
@@ -19,6 +24,36 @@ export interface MarketEngineConfig {
   baseAdjustment: number;
   pressureFactor: number;
   timeWindow: number;
+  seed?: number; // Seed for the default generator (ignored when random is set)
+  random?: RandomSource; // Generator to draw from; not transferable to workers
+  priceModel?: PriceModelConfig; // Price process (GBM if omitted)
+}
+
+/**
+ * Parameters that can be tuned while a market runs
+ */
+export interface MarketParameters {
+  drift: number;
+  volatility: number;
+  dt: number;
+  pressureFactor: number;
+}
+
+/**
+ * Everything a MarketEngine needs to continue from where it was (plain data,
+ * so it can cross the worker boundary)
+ */
+export interface MarketEngineState {
+  currentPrice: number;
+  drift: number;
+  volatility: number;
+  dt: number;
+  pressureFactor: number;
+  buyVolume: number;
+  sellVolume: number;
+  orderTimestamps: number[];
+  randomState: number;
+  modelState: number | null;
 }
 
 /**
@@ -31,6 +66,8 @@ export class MarketEngine {
   private buyVolume = 0;
   private sellVolume = 0;
   private orderTimestamps: number[] = [];
+  private random: RandomSource;
+  private model: PriceModel;
 
   /**
    * Initialize market engine
@@ -51,6 +88,9 @@ export class MarketEngine {
       timeWindow: 60000,
       ...config,
     };
+
+    this.random = this.config.random ?? createSeededRandom(this.config.seed);
+    this.model = createPriceModel(this.config.priceModel);
   }
 
   /**
@@ -66,10 +106,10 @@ export class MarketEngine {
     let u1: number;
 
     do {
-      u1 = Math.random();
+      u1 = this.random.next();
     } while (u1 <= 0.00001);
 
-    const u2 = Math.random();
+    const u2 = this.random.next();
 
     const z0 = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
 
@@ -110,9 +150,9 @@ export class MarketEngine {
   }
 
   /**
-   * Update price using GBM formula with order flow pressure adjustment
+   * Update price using the configured price model with order flow pressure adjustment
    *
-   * GBM formula:
+   * GBM formula (default model):
    * S(t+1) = S(t) * exp((μ - σ²/2) * dt + σ * ε * sqrt(dt))
    *
    * Order flow adjustment:
@@ -120,21 +160,17 @@ export class MarketEngine {
    * finalPrice = S(t+1) * (1 + priceAdjustment)
    */
   updatePrice(): void {
-    const mu = this.config.drift;
-    const sigma = this.config.volatility;
-    const dt = this.config.dt;
-
     const pressure = this.calculateOrderFlowPressure();
-    const epsilon = this.boxMullerTransform();
-
-    const driftTerm = (mu - (sigma * sigma) / 2) * dt;
-    const diffusionTerm = sigma * epsilon * Math.sqrt(dt);
-
-    const logReturn = driftTerm + diffusionTerm;
-    const gbmPrice = this.currentPrice * Math.exp(logReturn);
+    const modelPrice = this.model.step(this.currentPrice, {
+      dt: this.config.dt,
+      drift: this.config.drift,
+      volatility: this.config.volatility,
+      normal: () => this.boxMullerTransform(),
+      uniform: () => this.random.next(),
+    });
 
     const priceAdjustment = this.config.baseAdjustment * this.config.pressureFactor * pressure;
-    const adjustedPrice = gbmPrice * (1 + priceAdjustment);
+    const adjustedPrice = modelPrice * (1 + priceAdjustment);
 
     this.currentPrice = Math.max(adjustedPrice, 0.01);
   }
@@ -168,6 +204,13 @@ export class MarketEngine {
     };
   }
 
+  /**
+   * Get the price model driving this market
+   */
+  getPriceModel(): PriceModel {
+    return this.model;
+  }
+
   /**
    * Get current price
    */
@@ -213,6 +256,91 @@ export class MarketEngine {
     this.config.dt = Math.max(dt, 0);
   }
 
+  /**
+   * Get the tunable parameters
+   */
+  getParameters(): MarketParameters {
+    return {
+      drift: this.config.drift,
+      volatility: this.config.volatility,
+      dt: this.config.dt,
+      pressureFactor: this.config.pressureFactor,
+    };
+  }
+
+  /**
+   * Change any of the tunable parameters; each is clamped like its setter
+   * @param parameters - Parameters to change
+   */
+  setParameters(parameters: Partial<MarketParameters>): void {
+    if (parameters.drift !== undefined) this.setDrift(parameters.drift);
+    if (parameters.volatility !== undefined) this.setVolatility(parameters.volatility);
+    if (parameters.dt !== undefined) this.setTimeStep(parameters.dt);
+    if (parameters.pressureFactor !== undefined) this.setPressureFactor(parameters.pressureFactor);
+  }
+
+  /**
+   * Move the price at once, outside the price model
+   * @param change - Relative move (e.g. -0.1 for a 10% drop)
+   * @throws Error if the move would take the price to zero or below
+   */
+  applyShock(change: number): void {
+    if (!(change > -1)) {
+      throw new Error('A shock cannot take the price to zero');
+    }
+    this.currentPrice = Math.max(this.currentPrice * (1 + change), 0.01);
+  }
+
+  /**
+   * Snapshot the random generator state
+   * @returns State to pass to setRandomState() to replay from this point
+   */
+  getRandomState(): number {
+    return this.random.getState();
+  }
+
+  /**
+   * Restore a random generator state captured with getRandomState()
+   */
+  setRandomState(state: number): void {
+    this.random.setState(state);
+  }
+
+  /**
+   * Snapshot the engine: price, tunable parameters, pending order flow and
+   * generator/model state
+   */
+  getState(): MarketEngineState {
+    return {
+      currentPrice: this.currentPrice,
+      drift: this.config.drift,
+      volatility: this.config.volatility,
+      dt: this.config.dt,
+      pressureFactor: this.config.pressureFactor,
+      buyVolume: this.buyVolume,
+      sellVolume: this.sellVolume,
+      orderTimestamps: [...this.orderTimestamps],
+      randomState: this.random.getState(),
+      modelState: this.model.getState?.() ?? null,
+    };
+  }
+
+  /**
+   * Restore a snapshot captured with getState()
+   */
+  setState(state: MarketEngineState): void {
+    this.currentPrice = state.currentPrice;
+    this.config.drift = state.drift;
+    this.config.volatility = state.volatility;
+    this.config.dt = state.dt;
+    this.config.pressureFactor = state.pressureFactor;
+    this.buyVolume = state.buyVolume;
+    this.sellVolume = state.sellVolume;
+    this.orderTimestamps = [...state.orderTimestamps];
+    this.random.setState(state.randomState);
+    this.model.setState?.(state.modelState);
+  }
+
   /**
    * Set order flow pressure factor
    * @param factor - Pressure multiplier (higher = more impact)
@@ -0,0 +1,199 @@
+/**
+ * Market halts and circuit breakers
+ *
+ * A halted market takes no new orders and does not tick, so nothing matches
+ * and its price stands still until it resumes. Halts are either placed by an
+ * admin (open-ended or for a set time) or tripped by a circuit breaker.
+ *
+ * A circuit breaker watches one market's prices over a sliding window and
+ * halts the market for haltMs when the price moves more than maxMove (as a
+ * fraction) away from any price seen in the window. The window starts over
+ * after a trip, so a market does not halt again on the move that halted it.
+ */
+
+export type HaltReason = 'manual' | 'circuit-breaker';
+
+export interface MarketHalt {
+  itemId: string;
+  reason: HaltReason;
+  message: string;
+  haltedAt: number;
+  resumesAt: number | null; // null until resumed by hand
+}
+
+export interface CircuitBreakerConfig {
+  maxMove: number; // Largest move within the window, as a fraction (0.1 = 10%)
+  windowMs: number;
+  haltMs: number; // How long a trip halts the market
+}
+
+interface PriceSample {
+  timestamp: number;
+  price: number;
+}
+
+/**
+ * Circuit breaker of one market
+ */
+export class CircuitBreaker {
+  private samples: PriceSample[] = [];
+
+  /**
+   * @param config - Move, window and halt length
+   * @throws Error if any of them is not positive
+   */
+  constructor(readonly config: CircuitBreakerConfig) {
+    if (!(config.maxMove > 0)) throw new Error('Circuit breaker move must be positive');
+    if (!(config.windowMs > 0)) throw new Error('Circuit breaker window must be positive');
+    if (!(config.haltMs > 0)) throw new Error('Circuit breaker halt must be positive');
+  }
+
+  /**
+   * Add a price and check the move within the window
+   * @param price - Latest price
+   * @param now - Time of the price in ms
+   * @returns The largest move from a price in the window if it exceeds
+   *   maxMove (the breaker trips and its window starts over), else null
+   */
+  record(price: number, now: number): number | null {
+    const windowStart = now - this.config.windowMs;
+    this.samples = this.samples.filter((sample) => sample.timestamp >= windowStart);
+
+    let move = 0;
+    for (const sample of this.samples) {
+      const change = price / sample.price - 1;
+      if (Math.abs(change) > Math.abs(move)) move = change;
+    }
+
+    if (Math.abs(move) > this.config.maxMove) {
+      this.samples = [];
+      return move;
+    }
+
+    this.samples.push({ timestamp: now, price });
+    return null;
+  }
+}
+
+/**
+ * Halts and circuit breakers of every market
+ */
+export class MarketHalts {
+  private halts = new Map<string, MarketHalt>();
+  private breakers = new Map<string, CircuitBreaker>();
+
+  /**
+   * Halt a market, replacing any halt it is under
+   * @param itemId - Market to halt
+   * @param options - Why, and for how long (until resumed by hand if omitted)
+   * @param now - Current time in ms
+   * @returns The halt
+   */
+  halt(
+    itemId: string,
+    options: { reason?: HaltReason; message?: string; durationMs?: number } = {},
+    now = Date.now()
+  ): MarketHalt {
+    const { reason = 'manual', message = 'Halted by an admin', durationMs } = options;
+    const halt: MarketHalt = {
+      itemId,
+      reason,
+      message,
+      haltedAt: now,
+      resumesAt: durationMs !== undefined ? now + durationMs : null,
+    };
+    this.halts.set(itemId, halt);
+    return { ...halt };
+  }
+
+  /**
+   * Lift a market's halt
+   * @returns The halt lifted, or undefined if the market was not halted
+   */
+  resume(itemId: string): MarketHalt | undefined {
+    const halt = this.halts.get(itemId);
+    this.halts.delete(itemId);
+    return halt && { ...halt };
+  }
+
+  /**
+   * Lift halts whose time is up
+   * @returns The halts lifted
+   */
+  resumeExpired(now = Date.now()): MarketHalt[] {
+    const expired = Array.from(this.halts.values()).filter(
+      (halt) => halt.resumesAt !== null && halt.resumesAt <= now
+    );
+    for (const halt of expired) {
+      this.halts.delete(halt.itemId);
+    }
+    return expired;
+  }
+
+  /**
+   * Check whether a market is halted (a halt past its time counts as lifted)
+   */
+  isHalted(itemId: string, now = Date.now()): boolean {
+    const halt = this.halts.get(itemId);
+    return halt !== undefined && (halt.resumesAt === null || halt.resumesAt > now);
+  }
+
+  getHalt(itemId: string): MarketHalt | undefined {
+    const halt = this.halts.get(itemId);
+    return halt && { ...halt };
+  }
+
+  listHalts(): MarketHalt[] {
+    return Array.from(this.halts.values()).map((halt) => ({ ...halt }));
+  }
+
+  /**
+   * Set or remove a market's circuit breaker
+   * @param itemId - Market to watch
+   * @param config - Breaker settings, or null to remove it
+   * @throws Error if the settings are invalid
+   */
+  setCircuitBreaker(itemId: string, config: CircuitBreakerConfig | null): void {
+    if (config) {
+      this.breakers.set(itemId, new CircuitBreaker({ ...config }));
+    } else {
+      this.breakers.delete(itemId);
+    }
+  }
+
+  getCircuitBreaker(itemId: string): CircuitBreakerConfig | undefined {
+    const breaker = this.breakers.get(itemId);
+    return breaker && { ...breaker.config };
+  }
+
+  /**
+   * Feed a market's latest price to its circuit breaker
+   * @returns The halt if the breaker tripped, else null
+   */
+  recordPrice(itemId: string, price: number, now = Date.now()): MarketHalt | null {
+    const breaker = this.breakers.get(itemId);
+    if (!breaker || this.isHalted(itemId, now)) return null;
+
+    const move = breaker.record(price, now);
+    if (move === null) return null;
+
+    const percent = (move * 100).toFixed(1);
+    const seconds = breaker.config.windowMs / 1000;
+    return this.halt(
+      itemId,
+      {
+        reason: 'circuit-breaker',
+        message: `Price moved ${move > 0 ? '+' : ''}${percent}% within ${seconds}s`,
+        durationMs: breaker.config.haltMs,
+      },
+      now
+    );
+  }
+}
+
+/**
+ * Factory function to create the halt book of a set of markets
+ */
+export function createMarketHalts(): MarketHalts {
+  return new MarketHalts();
+}
@@ -0,0 +1,209 @@
+/**
+ * Market Journal - write-ahead log and snapshots for one market worker
+ *
+ * Every message that changes a market is appended here before the worker
+ * sees it, stamped with a sequence number and the time it was journaled.
+ * The worker processes journaled messages at that time, so replaying them
+ * makes exactly the same decisions. Periodic snapshots of the worker state
+ * cap how much has to be replayed; entries a snapshot covers are dropped.
+ *
+ * Files per market in the journal directory:
+ * - <itemId>.journal: one JSON entry per line, oldest first
+ * - <itemId>.snapshot.json: latest snapshot and the last sequence it includes
+ *
+ * Entries are appended without fsync: they survive a crashed worker or
+ * process, not a lost machine.
+ */
+
+import {
+  appendFileSync,
+  existsSync,
+  mkdirSync,
+  readFileSync,
+  renameSync,
+  rmSync,
+  writeFileSync,
+} from 'node:fs';
+import { join } from 'node:path';
+import type { WorkerMessage, WorkerSnapshot } from './market-worker';
+
+/**
+ * A journaled message
+ */
+export interface JournalEntry {
+  seq: number;
+  at: number; // Time the worker processes the message at (ms)
+  message: WorkerMessage;
+}
+
+/**
+ * Worker state after every entry up to and including seq
+ */
+export interface JournalSnapshot {
+  seq: number;
+  takenAt: number;
+  state: WorkerSnapshot;
+}
+
+/**
+ * What a restarted worker needs to get back to where it was
+ */
+export interface JournalRecovery {
+  snapshot: JournalSnapshot | null;
+  entries: JournalEntry[]; // Entries after the snapshot, oldest first
+}
+
+/**
+ * File-backed journal for one market
+ */
+export class MarketJournal {
+  private journalPath: string;
+  private snapshotPath: string;
+  private lastSeq = 0;
+  private pending = 0; // Entries not yet covered by a snapshot
+
+  /**
+   * @param dir - Journal directory (created if missing)
+   * @param itemId - Item/market identifier
+   */
+  constructor(dir: string, itemId: string) {
+    mkdirSync(dir, { recursive: true });
+    const name = encodeURIComponent(itemId);
+    this.journalPath = join(dir, `${name}.journal`);
+    this.snapshotPath = join(dir, `${name}.snapshot.json`);
+
+    const { snapshot, entries } = this.load();
+    this.lastSeq = entries[entries.length - 1]?.seq ?? snapshot?.seq ?? 0;
+    this.pending = entries.length;
+
+    // Drop a torn last line so new entries do not run into it
+    if (existsSync(this.journalPath)) {
+      this.rewrite(this.readEntries());
+    }
+  }
+
+  /**
+   * Drop the journal and snapshot (e.g. when a market starts fresh)
+   */
+  reset(): void {
+    rmSync(this.journalPath, { force: true });
+    rmSync(this.snapshotPath, { force: true });
+    this.lastSeq = 0;
+    this.pending = 0;
+  }
+
+  /**
+   * Append a message before it is processed
+   * @param message - Message about to be sent to the worker
+   * @param at - Time the worker should process it at (default: now)
+   * @returns The stored entry
+   */
+  append(message: WorkerMessage, at = Date.now()): JournalEntry {
+    const entry: JournalEntry = { seq: this.lastSeq + 1, at, message };
+    appendFileSync(this.journalPath, `${JSON.stringify(entry)}\n`);
+    this.lastSeq = entry.seq;
+    this.pending++;
+    return entry;
+  }
+
+  /**
+   * Store a snapshot and drop the entries it covers
+   * @param seq - Last entry the snapshot includes
+   * @param state - Worker state after that entry
+   * @param now - Snapshot time (default: now)
+   */
+  writeSnapshot(seq: number, state: WorkerSnapshot, now = Date.now()): void {
+    const snapshot: JournalSnapshot = { seq, takenAt: now, state };
+    writeAtomically(this.snapshotPath, JSON.stringify(snapshot));
+
+    const remaining = this.readEntries().filter((entry) => entry.seq > seq);
+    this.rewrite(remaining);
+    this.pending = remaining.length;
+  }
+
+  /**
+   * Drop entries after a sequence number (messages the worker never finished)
+   * @param seq - Last entry to keep
+   * @returns Number of entries dropped
+   */
+  truncateAfter(seq: number): number {
+    const entries = this.readEntries();
+    const kept = entries.filter((entry) => entry.seq <= seq);
+    const dropped = entries.length - kept.length;
+    if (dropped === 0) return 0;
+
+    this.rewrite(kept);
+    this.lastSeq = Math.max(seq, this.readSnapshot()?.seq ?? 0);
+    this.pending -= dropped;
+    return dropped;
+  }
+
+  /**
+   * Read the latest snapshot and the entries after it
+   */
+  load(): JournalRecovery {
+    const snapshot = this.readSnapshot();
+    const after = snapshot?.seq ?? 0;
+    return {
+      snapshot,
+      entries: this.readEntries().filter((entry) => entry.seq > after),
+    };
+  }
+
+  getLastSeq(): number {
+    return this.lastSeq;
+  }
+
+  /**
+   * Number of entries a restart would replay
+   */
+  getPendingCount(): number {
+    return this.pending;
+  }
+
+  private readSnapshot(): JournalSnapshot | null {
+    if (!existsSync(this.snapshotPath)) return null;
+    return JSON.parse(readFileSync(this.snapshotPath, 'utf8')) as JournalSnapshot;
+  }
+
+  private readEntries(): JournalEntry[] {
+    if (!existsSync(this.journalPath)) return [];
+
+    const entries: JournalEntry[] = [];
+    for (const line of readFileSync(this.journalPath, 'utf8').split('\n')) {
+      if (!line) continue;
+      try {
+        entries.push(JSON.parse(line) as JournalEntry);
+      } catch {
+        // A crash mid-append leaves a torn last line; nothing after it was written
+        break;
+      }
+    }
+    return entries;
+  }
+
+  private rewrite(entries: JournalEntry[]): void {
+    writeAtomically(
+      this.journalPath,
+      entries.map((entry) => `${JSON.stringify(entry)}\n`).join('')
+    );
+  }
+}
+
+/**
+ * Replace a file so readers see either the old or the new content, never half
+ */
+function writeAtomically(path: string, content: string): void {
+  const temp = `${path}.tmp`;
+  writeFileSync(temp, content);
+  renameSync(temp, path);
+}
+
+/**
+ * Factory function to create a market journal
+ * @param dir - Journal directory
+ * @param itemId - Item/market identifier
+ */
+export function createMarketJournal(dir: string, itemId: string): MarketJournal {
+  return new MarketJournal(dir, itemId);
+}
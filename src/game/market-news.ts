@@ -0,0 +1,432 @@
+/**
+ * Market news - scheduled and random events that move prices
+ *
+ * An event targets one or more items (one item, or every item of a sector)
+ * and carries a headline and an impact: a price jump when it lands, and/or a
+ * shift of the markets' drift and volatility that fades linearly to nothing
+ * over its decay period. Players hear of an event leadMs before it lands.
+ *
+ * Rumours may turn out false: an event lands with its impact only with its
+ * probability, drawn when it lands. Other events always land.
+ *
+ * A market only takes the shifts its price model steps with, so random events
+ * leave out a shift none of the markets they hit can take.
+ *
+ * Random events follow templates (earnings beats and misses, supply shocks,
+ * rumours); each market draws one every meanIntervalMs on average. This
+ * module only decides; the caller moves the markets and tells the players.
+ */
+
+import type { ModelParameter } from './price-models';
+import { createSeededRandom, type RandomSource } from './random';
+
+export type NewsKind = 'earnings' | 'supply-shock' | 'rumour';
+
+export type NewsStatus = 'scheduled' | 'announced' | 'landed' | 'ended' | 'cancelled';
+
+export interface NewsImpact {
+  jump?: number; // Relative price move on landing (e.g. -0.05 for a 5% drop)
+  drift?: number; // Added to the drift, fading over the decay period
+  volatility?: number; // Relative change of volatility (0.5 = +50%), fading likewise
+}
+
+/**
+ * An event to schedule
+ */
+export interface NewsEventSpec {
+  kind: NewsKind;
+  headline: string;
+  itemIds: string[];
+  sector?: string; // Sector the itemIds were picked from, if any
+  impact: NewsImpact;
+  probability?: number; // Chance the impact happens (default 1)
+  impactAt: number;
+  leadMs?: number; // Announced this long before the impact (default 0)
+  decayMs: number; // Time the drift and volatility shift takes to fade
+}
+
+export interface NewsEvent extends Required<Omit<NewsEventSpec, 'sector' | 'leadMs'>> {
+  eventId: string;
+  source: 'scheduled' | 'random';
+  sector: string | null;
+  announceAt: number;
+  status: NewsStatus;
+  materialised: boolean | null; // Whether the impact happened; null until it lands
+}
+
+/**
+ * Shape of a random event
+ *
+ * Headlines may use {name} (the item's name) and {sector}. The jump is drawn
+ * uniformly from its range; drift and volatility are taken as given.
+ */
+export interface NewsTemplate {
+  kind: NewsKind;
+  scope: 'item' | 'sector';
+  headlines: string[];
+  jump?: [number, number];
+  drift?: number;
+  volatility?: number;
+  probability?: number;
+  leadMs: number;
+  decayMs: number;
+}
+
+/**
+ * A market random events can hit
+ */
+export interface NewsMarket {
+  itemId: string;
+  name: string;
+  sector?: string;
+  shifts?: ModelParameter[]; // Parameters news can shift on it (default: drift and volatility)
+}
+
+/**
+ * Shift a market is under from the events still fading on it
+ */
+export interface NewsAdjustment {
+  drift: number; // Added to the market's drift
+  volatility: number; // Factor on the market's volatility
+}
+
+/**
+ * Events that changed phase in an update, in time order
+ */
+export interface NewsUpdate {
+  announced: NewsEvent[];
+  landed: NewsEvent[];
+  ended: NewsEvent[];
+}
+
+export interface MarketNewsConfig {
+  meanIntervalMs: number; // Average time between random events on one market
+  templates: NewsTemplate[];
+  maxHistory: number; // Ended and cancelled events kept for listings
+}
+
+const MINUTE = 60 * 1000;
+
+export const DEFAULT_NEWS_TEMPLATES: NewsTemplate[] = [
+  {
+    kind: 'earnings',
+    scope: 'item',
+    headlines: ['{name} beats expectations', '{name} posts a record quarter'],
+    jump: [0.02, 0.06],
+    drift: 0.02,
+    volatility: 0.3,
+    leadMs: 30 * 1000,
+    decayMs: 5 * MINUTE,
+  },
+  {
+    kind: 'earnings',
+    scope: 'item',
+    headlines: ['{name} misses expectations', '{name} cuts its outlook'],
+    jump: [-0.06, -0.02],
+    drift: -0.02,
+    volatility: 0.3,
+    leadMs: 30 * 1000,
+    decayMs: 5 * MINUTE,
+  },
+  {
+    kind: 'supply-shock',
+    scope: 'sector',
+    headlines: ['Supply squeeze across {sector}', '{sector} issuance halted'],
+    jump: [0.03, 0.08],
+    volatility: 1,
+    leadMs: 0,
+    decayMs: 10 * MINUTE,
+  },
+  {
+    kind: 'supply-shock',
+    scope: 'sector',
+    headlines: ['Flood of new supply hits {sector}', 'Large holders unload {sector}'],
+    jump: [-0.08, -0.03],
+    volatility: 1,
+    leadMs: 0,
+    decayMs: 10 * MINUTE,
+  },
+  {
+    kind: 'rumour',
+    scope: 'item',
+    headlines: ['Rumour: major partnership for {name}', 'Whispers of a big buyer of {name}'],
+    jump: [0.02, 0.05],
+    volatility: 0.5,
+    probability: 0.5,
+    leadMs: 15 * 1000,
+    decayMs: 2 * MINUTE,
+  },
+  {
+    kind: 'rumour',
+    scope: 'item',
+    headlines: ['Rumour: regulators look into {name}', 'Whispers of a security flaw in {name}'],
+    jump: [-0.05, -0.02],
+    volatility: 0.5,
+    probability: 0.5,
+    leadMs: 15 * 1000,
+    decayMs: 2 * MINUTE,
+  },
+];
+
+const DEFAULT_CONFIG: MarketNewsConfig = {
+  meanIntervalMs: 10 * MINUTE,
+  templates: DEFAULT_NEWS_TEMPLATES,
+  maxHistory: 100,
+};
+
+/**
+ * Schedules news events and tracks their impact
+ */
+export class MarketNews {
+  private events = new Map<string, NewsEvent>();
+  private nextEventId = 1;
+  private lastGenerated: number | null = null;
+  private readonly config: MarketNewsConfig;
+
+  /**
+   * @param config - Random event rate, templates and history length
+   * @param random - Source for random events and rumours (seed it to replay a run)
+   * @throws Error if the random event interval is not positive
+   */
+  constructor(
+    config: Partial<MarketNewsConfig> = {},
+    private readonly random: RandomSource = createSeededRandom()
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    if (!(this.config.meanIntervalMs > 0)) {
+      throw new Error('Mean interval between events must be positive');
+    }
+  }
+
+  /**
+   * Schedule an event
+   * @param spec - What happens, to which items and when
+   * @param now - Current time in ms
+   * @returns The event
+   * @throws Error if it targets no items, lands in the past or its impact is invalid
+   */
+  schedule(spec: NewsEventSpec, now = Date.now()): NewsEvent {
+    return this.add(spec, 'scheduled', now);
+  }
+
+  /**
+   * Cancel an event that has not landed yet
+   * @returns The cancelled event, or undefined if there is none to cancel
+   */
+  cancel(eventId: string): NewsEvent | undefined {
+    const event = this.events.get(eventId);
+    if (!event || (event.status !== 'scheduled' && event.status !== 'announced')) {
+      return undefined;
+    }
+
+    event.status = 'cancelled';
+    this.prune();
+    return { ...event };
+  }
+
+  /**
+   * Draw random events for the time since the previous call (the first call
+   * only starts the clock)
+   * @param markets - Markets events can hit
+   * @param now - Current time in ms
+   * @returns The events drawn, scheduled to land after their lead time
+   */
+  generate(markets: NewsMarket[], now = Date.now()): NewsEvent[] {
+    const elapsed = this.lastGenerated === null ? 0 : now - this.lastGenerated;
+    this.lastGenerated = now;
+    if (elapsed <= 0) return [];
+
+    const chance = 1 - Math.exp(-elapsed / this.config.meanIntervalMs);
+    const events: NewsEvent[] = [];
+
+    for (const market of markets) {
+      if (this.random.next() >= chance) continue;
+
+      const templates = this.config.templates.filter(
+        (template) => template.scope === 'item' || market.sector !== undefined
+      );
+      if (templates.length === 0) continue;
+
+      const template = this.pick(templates);
+      events.push(this.add(this.fromTemplate(template, market, markets, now), 'random', now));
+    }
+
+    return events;
+  }
+
+  /**
+   * Move events to their next phase
+   * @param now - Current time in ms
+   * @returns The events announced, landed and ended by now
+   */
+  update(now = Date.now()): NewsUpdate {
+    const update: NewsUpdate = { announced: [], landed: [], ended: [] };
+    const events = Array.from(this.events.values()).sort((a, b) => a.impactAt - b.impactAt);
+
+    for (const event of events) {
+      if (event.status === 'scheduled' && event.announceAt <= now) {
+        event.status = 'announced';
+        update.announced.push({ ...event });
+      }
+      if (event.status === 'announced' && event.impactAt <= now) {
+        event.status = 'landed';
+        event.materialised = event.probability >= 1 || this.random.next() < event.probability;
+        update.landed.push({ ...event });
+      }
+      if (event.status === 'landed' && event.impactAt + event.decayMs <= now) {
+        event.status = 'ended';
+        update.ended.push({ ...event });
+      }
+    }
+
+    if (update.ended.length > 0) this.prune();
+    return update;
+  }
+
+  /**
+   * Drift and volatility shift of a market from the events fading on it
+   * @param itemId - Market
+   * @param now - Current time in ms
+   */
+  getAdjustment(itemId: string, now = Date.now()): NewsAdjustment {
+    const adjustment: NewsAdjustment = { drift: 0, volatility: 1 };
+
+    for (const event of this.events.values()) {
+      if (event.status !== 'landed' || !event.materialised || !event.itemIds.includes(itemId)) {
+        continue;
+      }
+
+      const weight = Math.max(1 - (now - event.impactAt) / event.decayMs, 0);
+      adjustment.drift += (event.impact.drift ?? 0) * weight;
+      adjustment.volatility *= 1 + (event.impact.volatility ?? 0) * weight;
+    }
+
+    return adjustment;
+  }
+
+  /**
+   * Items with events still fading on them
+   */
+  getAffectedItems(): string[] {
+    const itemIds = new Set<string>();
+    for (const event of this.events.values()) {
+      if (event.status === 'landed' && event.materialised) {
+        for (const itemId of event.itemIds) itemIds.add(itemId);
+      }
+    }
+    return Array.from(itemIds);
+  }
+
+  getEvent(eventId: string): NewsEvent | undefined {
+    const event = this.events.get(eventId);
+    return event && { ...event };
+  }
+
+  /**
+   * Events by landing time, newest first
+   * @param options - Include events not announced yet (default false)
+   */
+  listEvents(options: { unannounced?: boolean } = {}): NewsEvent[] {
+    return Array.from(this.events.values())
+      .filter((event) => options.unannounced || event.status !== 'scheduled')
+      .sort((a, b) => b.impactAt - a.impactAt)
+      .map((event) => ({ ...event }));
+  }
+
+  private add(spec: NewsEventSpec, source: NewsEvent['source'], now: number): NewsEvent {
+    const { leadMs = 0, probability = 1, sector, ...rest } = spec;
+    if (spec.itemIds.length === 0) throw new Error('An event must target at least one item');
+    if (spec.impactAt < now) throw new Error('An event cannot land in the past');
+    if (!(leadMs >= 0)) throw new Error('Lead time cannot be negative');
+    if (!(spec.decayMs > 0)) throw new Error('Decay period must be positive');
+    if (!(probability > 0 && probability <= 1)) {
+      throw new Error('Probability must be above 0 and at most 1');
+    }
+    if (spec.impact.jump !== undefined && !(spec.impact.jump > -1)) {
+      throw new Error('A jump cannot take the price to zero');
+    }
+    if (spec.impact.volatility !== undefined && !(spec.impact.volatility > -1)) {
+      throw new Error('Volatility cannot fall by 100% or more');
+    }
+
+    const event: NewsEvent = {
+      ...rest,
+      itemIds: [...spec.itemIds],
+      impact: { ...spec.impact },
+      probability,
+      eventId: `news-${now}-${this.nextEventId++}`,
+      source,
+      sector: sector ?? null,
+      announceAt: Math.max(spec.impactAt - leadMs, now),
+      status: 'scheduled',
+      materialised: null,
+    };
+    this.events.set(event.eventId, event);
+    return { ...event };
+  }
+
+  private fromTemplate(
+    template: NewsTemplate,
+    market: NewsMarket,
+    markets: NewsMarket[],
+    now: number
+  ): NewsEventSpec {
+    const sector = template.scope === 'sector' ? market.sector : undefined;
+    const targets = sector ? markets.filter((other) => other.sector === sector) : [market];
+    const headline = this.pick(template.headlines)
+      .replaceAll('{name}', market.name)
+      .replaceAll('{sector}', sector ?? market.name);
+    const jump = template.jump
+      ? template.jump[0] + (template.jump[1] - template.jump[0]) * this.random.next()
+      : undefined;
+
+    return {
+      kind: template.kind,
+      headline,
+      itemIds: targets.map((target) => target.itemId),
+      sector,
+      impact: {
+        jump,
+        drift: canShift(targets, 'drift') ? template.drift : undefined,
+        volatility: canShift(targets, 'volatility') ? template.volatility : undefined,
+      },
+      probability: template.probability,
+      impactAt: now + template.leadMs,
+      leadMs: template.leadMs,
+      decayMs: template.decayMs,
+    };
+  }
+
+  private pick<T>(values: T[]): T {
+    return values[Math.floor(this.random.next() * values.length)];
+  }
+
+  /**
+   * Drop the oldest finished events beyond the history limit
+   */
+  private prune(): void {
+    const finished = Array.from(this.events.values())
+      .filter((event) => event.status === 'ended' || event.status === 'cancelled')
+      .sort((a, b) => a.impactAt - b.impactAt);
+
+    for (const event of finished.slice(0, Math.max(finished.length - this.config.maxHistory, 0))) {
+      this.events.delete(event.eventId);
+    }
+  }
+}
+
+/**
+ * Check whether news can shift a parameter on any of the markets
+ */
+export function canShift(markets: NewsMarket[], parameter: ModelParameter): boolean {
+  return markets.some((market) => (market.shifts ?? ['drift', 'volatility']).includes(parameter));
+}
+
+/**
+ * Factory function to create a news engine
+ * @param config - Random event rate, templates and history length
+ * @param seed - Seed for random events and rumours (random if omitted)
+ */
+export function createMarketNews(config?: Partial<MarketNewsConfig>, seed?: number): MarketNews {
+  return new MarketNews(config, createSeededRandom(seed));
+}
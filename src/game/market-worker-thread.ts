@@ -2,278 +2,310 @@
  * Worker thread implementation for per-market processing
  *
  * Each worker maintains its own:
- * - OrderBook (price-time priority matching)
+ * - OrderBook (price-time priority matching, with its stop-order trigger book)
  * - MarketEngine (GBM price simulation)
- * - PlayerSession registry (player state)
+ * - DepthTracker (sequence-numbered Level 2 diffs)
+ *
+ * Player balances and inventory are not kept here: a player's cash spans every
+ * market, so reservation and settlement happen on the main thread against the
+ * SessionManager using the trades this worker reports back.
  *
  * Message protocol:
- * - submit-order → Process order, add to order book
+ * - initialize → Create order book and market engine for the item
+ * - submit-order → Add to order book and match it immediately
  * - cancel-order → Cancel order by ID
+ * - amend-order → Amend price/quantity, then match like a new entry
+ * - restore-orders → Re-add resting orders after a restart; no matching and
+ *   no order flow, since they were already in the market
  * - get-order-book → Return current bid/ask queues
- * - tick → Update price (GBM) and match orders
+ * - get-market → Return current price and top of book
+ * - get-depth → Return aggregated price levels with the current depth sequence
+ * - tick → Update price, fire stops, match orders, expire orders by time in
+ *   force and diff the book
+ * - get-parameters → Return the engine's tunable parameters
+ * - set-parameters → Change them; the next tick uses the new values
+ * - shock → Move the price at once; stops it crosses fire on the next tick
+ *
+ * - snapshot → Return book, engine and depth tracker state
+ * - recover → Load a snapshot and replay journal entries after it (sent by
+ *   MarketWorker right after initialize when restarting a crashed worker)
+ *
+ * Submit and tick responses also carry orders cut down by self-trade
+ * prevention so the main thread can release their reservations.
+ *
+ * Journaled messages carry the time they were journaled, and Date.now() is
+ * pinned to it while they run. Expiries, queue times, trade timestamps and
+ * the order flow window then come out the same when the journal is replayed.
  */
 
-// Simplified implementations for worker thread
-// In production, these would import from the actual modules
+import { OrderBook, type OrderAmendment } from './order-book';
+import { DepthTracker } from './depth-tracker';
+import { MarketEngine, type MarketParameters } from './market-engine';
+import { isStopOrder, type TriggerEvent } from './trigger-book';
+import type { Order, Trade } from './types';
+import type { JournalEntry } from './market-journal';
+import type {
+  WorkerEngineConfig,
+  WorkerMessage,
+  WorkerResponse,
+  WorkerSnapshot,
+} from './market-worker';
+
+declare const self: Worker;
 
-class SimpleOrderBook {
-  constructor() {
-    this.bids = [];
-    this.asks = [];
-    this.orders = new Map();
-    this.nextTradeId = 0;
-  }
-
-  addOrder(order) {
-    if (order.side === 'buy') {
-      this.bids.push(order);
-      this.bids.sort((a, b) => {
-        const priceDiff = (b.price || 0) - (a.price || 0);
-        return priceDiff !== 0 ? priceDiff : a.timestamp - b.timestamp;
-      });
-    } else {
-      this.asks.push(order);
-      this.asks.sort((a, b) => {
-        const priceDiff = (a.price || 0) - (b.price || 0);
-        return priceDiff !== 0 ? priceDiff : a.timestamp - b.timestamp;
-      });
-    }
-    this.orders.set(order.id, order);
-  }
+/**
+ * Initialization message sent by MarketWorker right after spawning
+ */
+interface InitializeMessage {
+  type: 'initialize';
+  itemId: string;
+  initialPrice: number;
+  config?: WorkerEngineConfig;
+}
 
-  removeOrder(orderId) {
-    const order = this.orders.get(orderId);
-    if (!order) return false;
+/**
+ * Recovery message sent by MarketWorker after restarting a crashed worker
+ */
+interface RecoverMessage {
+  type: 'recover';
+  snapshot?: WorkerSnapshot;
+  entries: JournalEntry[];
+}
 
-    if (order.side === 'buy') {
-      this.bids = this.bids.filter((o) => o.id !== orderId);
-    } else {
-      this.asks = this.asks.filter((o) => o.id !== orderId);
-    }
-    this.orders.delete(orderId);
-    return true;
-  }
+type IncomingMessage = (WorkerMessage | InitializeMessage | RecoverMessage) & {
+  _messageId?: number;
+  _at?: number; // Journal time of journaled messages
+};
 
-  matchOrders() {
-    const trades = [];
-    while (this.bids.length > 0 && this.asks.length > 0) {
-      const bestBid = this.bids[0];
-      const bestAsk = this.asks[0];
-
-      const bidPrice = bestBid.price;
-      const askPrice = bestAsk.price;
-
-      const canMatch =
-        bestBid.type === 'market' ||
-        bestAsk.type === 'market' ||
-        (bidPrice !== undefined && askPrice !== undefined && bidPrice >= askPrice);
-
-      if (!canMatch) break;
-
-      let tradePrice;
-      if (bestBid.type === 'market') {
-        tradePrice = askPrice ?? 0;
-      } else if (bestAsk.type === 'market') {
-        tradePrice = bidPrice ?? 0;
-      } else {
-        tradePrice = askPrice ?? 0;
-      }
-
-      const tradeQuantity = Math.min(bestBid.quantity, bestAsk.quantity);
-
-      const trade = {
-        id: `trade-${this.nextTradeId++}`,
-        buyOrderId: bestBid.id,
-        sellOrderId: bestAsk.id,
-        itemId: bestBid.itemId,
-        quantity: tradeQuantity,
-        price: tradePrice,
-        timestamp: Date.now(),
-      };
-      trades.push(trade);
-
-      bestBid.quantity -= tradeQuantity;
-      bestAsk.quantity -= tradeQuantity;
-
-      if (bestBid.quantity === 0) {
-        this.bids.shift();
-        this.orders.delete(bestBid.id);
-      }
-      if (bestAsk.quantity === 0) {
-        this.asks.shift();
-        this.orders.delete(bestAsk.id);
-      }
-    }
-    return trades;
-  }
+// Bound on stop cascades per tick (fills tripping stops whose fills trip more)
+const MAX_TRIGGER_ROUNDS = 10;
 
-  getBids() {
-    return [...this.bids];
-  }
+let orderBook: OrderBook;
+let marketEngine: MarketEngine;
+let depthTracker: DepthTracker;
 
-  getAsks() {
-    return [...this.asks];
-  }
+function initialize(itemId: string, initialPrice: number, config?: WorkerEngineConfig): void {
+  orderBook = new OrderBook();
+  marketEngine = new MarketEngine(itemId, initialPrice, config);
+  depthTracker = new DepthTracker(itemId);
 }
 
-class SimpleMarketEngine {
-  constructor(itemId, initialPrice) {
-    this.itemId = itemId;
-    this.currentPrice = initialPrice;
-    this.drift = 0.08;
-    this.volatility = 0.2;
-    this.dt = 1 / 252;
+function handleSubmitOrder(order: Order): WorkerResponse {
+  const quantity = order.quantity;
+  orderBook.addOrder(order, marketEngine.getCurrentPrice());
+
+  // The book is uncrossed after every entry, so this only fills the new order
+  // (and any stops its fills trip)
+  const triggered: TriggerEvent[] = [];
+  const trades = runMatching(triggered);
+  const selfTrades = orderBook.collectSelfTrades();
+
+  // Quantity cancelled against the player's own orders is not real order flow
+  if (!isStopOrder(order)) {
+    const prevented = selfTrades
+      .filter((reduction) => reduction.orderId === order.id)
+      .reduce((sum, reduction) => sum + reduction.quantity, 0);
+    marketEngine.recordOrder(order.side, quantity - prevented);
   }
 
-  updatePrice() {
-    const mu = this.drift;
-    const sigma = this.volatility;
-    const dt = this.dt;
-
-    // Box-Muller transform for normal distribution
-    let u1;
-    do {
-      u1 = Math.random();
-    } while (u1 <= 0.00001);
-    const u2 = Math.random();
-    const z0 = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
-
-    const driftTerm = (mu - (sigma * sigma) / 2) * dt;
-    const diffusionTerm = sigma * z0 * Math.sqrt(dt);
-    const logReturn = driftTerm + diffusionTerm;
-    const gbmPrice = this.currentPrice * Math.exp(logReturn);
-
-    this.currentPrice = Math.max(gbmPrice, 0.01);
-  }
+  return {
+    type: 'order-submitted',
+    orderId: order.id,
+    trades,
+    triggered,
+    expired: orderBook.collectExpired(),
+    selfTrades,
+  };
+}
 
-  getCurrentPrice() {
-    return this.currentPrice;
+/**
+ * Fire stops at a price; triggered orders count as new order flow
+ */
+function fireTriggers(price?: number): TriggerEvent[] {
+  const events = orderBook.checkTriggers(price);
+  for (const event of events) {
+    marketEngine.recordOrder(event.side, event.quantity);
   }
+  return events;
 }
 
-class SimplePlayerSession {
-  constructor(playerId, initialBalance = 0) {
-    this.playerId = playerId;
-    this.balance = initialBalance;
-    this.inventory = new Map();
+function handleCancelOrder(orderId: string): WorkerResponse {
+  const success = orderBook.removeOrder(orderId);
+  if (success) {
+    return { type: 'order-cancelled', orderId };
   }
+  return { type: 'error', message: 'Order not found' };
+}
 
-  getBalance() {
-    return this.balance;
+function handleAmendOrder(
+  orderId: string,
+  amendment: OrderAmendment,
+  openQuantity?: number
+): WorkerResponse {
+  // Fills the main thread has not settled yet would leave its reservation
+  // for the amended order short
+  const current = orderBook.getOrder(orderId);
+  if (openQuantity !== undefined && current && current.quantity !== openQuantity) {
+    throw new Error('Order changed while being amended, try again');
   }
 
-  getInventory(itemId) {
-    return this.inventory.get(itemId) ?? 0;
-  }
+  const order = orderBook.amendOrder(orderId, amendment);
 
-  hasSufficientBalance(amount) {
-    return this.balance >= amount;
-  }
+  // A new price may cross the spread
+  const triggered: TriggerEvent[] = [];
+  const trades = runMatching(triggered);
 
-  hasSufficientInventory(itemId, quantity) {
-    return (this.inventory.get(itemId) ?? 0) >= quantity;
-  }
+  return {
+    type: 'order-amended',
+    order,
+    trades,
+    triggered,
+    expired: orderBook.collectExpired(),
+    selfTrades: orderBook.collectSelfTrades(),
+  };
+}
 
-  updateBalance(delta) {
-    const newBalance = this.balance + delta;
-    if (newBalance < 0) {
-      throw new Error('Insufficient balance');
+function handleRestoreOrders(orders: Order[]): WorkerResponse {
+  const restored: string[] = [];
+  const rejected: { orderId: string; message: string }[] = [];
+
+  for (const order of orders) {
+    try {
+      orderBook.addOrder(order, marketEngine.getCurrentPrice());
+      restored.push(order.id);
+    } catch (error) {
+      rejected.push({
+        orderId: order.id,
+        message: error instanceof Error ? error.message : String(error),
+      });
     }
-    this.balance = newBalance;
   }
 
-  updateInventory(itemId, delta) {
-    const currentQuantity = this.inventory.get(itemId) ?? 0;
-    const newQuantity = currentQuantity + delta;
-    if (newQuantity < 0) {
-      throw new Error('Insufficient inventory');
-    }
-    if (newQuantity === 0) {
-      this.inventory.delete(itemId);
-    } else {
-      this.inventory.set(itemId, newQuantity);
-    }
-  }
+  return { type: 'orders-restored', restored, rejected };
 }
 
-function getPlayerSession(playerId) {
-  let session = playerSessions.get(playerId);
-  if (!session) {
-    session = new SimplePlayerSession(playerId, 1000000);
-    playerSessions.set(playerId, session);
-  }
-  return session;
+function handleGetOrderBook(): WorkerResponse {
+  return {
+    type: 'order-book',
+    bids: orderBook.getBids(),
+    asks: orderBook.getAsks(),
+  };
 }
 
-function getPlayerSessionForOrder(order) {
-  const session = getPlayerSession(order.playerId);
-
-  if (order.side === 'sell' && !session.hasSufficientInventory(order.itemId, order.quantity)) {
-    session.updateInventory(order.itemId, 1000);
-  }
-
-  return session;
+function handleGetMarket(): WorkerResponse {
+  return {
+    type: 'market-state',
+    itemId: marketEngine.getMarketState().itemId,
+    currentPrice: marketEngine.getCurrentPrice(),
+    volatility: marketEngine.getVolatility(),
+    bestBid: orderBook.getBestBid(),
+    bestAsk: orderBook.getBestAsk(),
+  };
 }
 
-let orderBook;
-let marketEngine;
-const playerSessions = new Map();
-
-function initialize(itemId, initialPrice) {
-  orderBook = new SimpleOrderBook();
-  marketEngine = new SimpleMarketEngine(itemId, initialPrice);
+function handleGetDepth(levels?: number): WorkerResponse {
+  return { type: 'depth', snapshot: depthTracker.snapshot(levels) };
 }
 
-function handleSubmitOrder(order) {
-  const session = getPlayerSessionForOrder(order);
+/**
+ * Match the book, then keep firing stops tripped by the new last trade price
+ * @param triggered - Collects the trigger events of the cascade
+ */
+function runMatching(triggered: TriggerEvent[]): Trade[] {
+  const trades = orderBook.matchOrders();
 
-  if (order.side === 'buy') {
-    const cost = (order.price || 0) * order.quantity;
-    if (!session.hasSufficientBalance(cost)) {
-      return { type: 'error', message: 'Insufficient balance' };
-    }
-    session.updateBalance(-cost);
-  } else {
-    if (!session.hasSufficientInventory(order.itemId, order.quantity)) {
-      return { type: 'error', message: 'Insufficient inventory' };
-    }
-    session.updateInventory(order.itemId, -order.quantity);
+  for (let round = 0; round < MAX_TRIGGER_ROUNDS && trades.length > 0; round++) {
+    const cascade = fireTriggers();
+    if (cascade.length === 0) break;
+    triggered.push(...cascade);
+    trades.push(...orderBook.matchOrders());
   }
 
-  orderBook.addOrder(order);
-  return { type: 'order-submitted', orderId: order.id, trades: [] };
+  return trades;
 }
 
-function handleCancelOrder(orderId) {
-  const success = orderBook.removeOrder(orderId);
-  if (success) {
-    return { type: 'order-cancelled', orderId };
-  }
-  return { type: 'error', message: 'Order not found' };
-}
+function handleTick(): WorkerResponse {
+  marketEngine.updatePrice();
+  const triggered = fireTriggers(marketEngine.getCurrentPrice());
+  const trades = runMatching(triggered);
 
-function handleGetOrderBook() {
   return {
-    type: 'order-book',
-    bids: orderBook.getBids(),
-    asks: orderBook.getAsks(),
+    type: 'tick-completed',
+    trades,
+    triggered,
+    expired: orderBook.collectExpired(),
+    selfTrades: orderBook.collectSelfTrades(),
+    currentPrice: marketEngine.getCurrentPrice(),
+    bestBid: orderBook.getBestBid(),
+    bestAsk: orderBook.getBestAsk(),
+    depthDiff: depthTracker.update(orderBook.getDepth()),
   };
 }
 
-function handleTick() {
-  marketEngine.updatePrice();
-  const trades = orderBook.matchOrders();
+function handleSetParameters(parameters: Partial<MarketParameters>): WorkerResponse {
+  marketEngine.setParameters(parameters);
+  return { type: 'parameters', parameters: marketEngine.getParameters() };
+}
 
+function handleShock(change: number): WorkerResponse {
+  marketEngine.applyShock(change);
+  return handleGetMarket();
+}
+
+function handleSnapshot(): WorkerResponse {
   return {
-    type: 'tick-completed',
-    trades,
-    currentPrice: marketEngine.getCurrentPrice(),
+    type: 'snapshot',
+    state: {
+      book: orderBook.getState(),
+      engine: marketEngine.getState(),
+      depth: depthTracker.getState(),
+    },
   };
 }
 
-self.onmessage = function (event) {
+/**
+ * Load the snapshot, then replay the entries after it; their responses were
+ * already delivered before the crash, so they are dropped
+ */
+function handleRecover(
+  snapshot: WorkerSnapshot | undefined,
+  entries: JournalEntry[]
+): WorkerResponse {
+  if (snapshot) {
+    orderBook.setState(snapshot.book);
+    marketEngine.setState(snapshot.engine);
+    depthTracker.setState(snapshot.depth);
+  }
+
+  for (const entry of entries) {
+    atTime(entry.at, () => handleMessage(entry.message));
+  }
+
+  return { type: 'recovered', replayed: entries.length };
+}
+
+/**
+ * Run a handler with Date.now() pinned to a journal time
+ */
+function atTime<T>(at: number | undefined, run: () => T): T {
+  if (at === undefined) {
+    return run();
+  }
+
+  const now = Date.now;
+  Date.now = () => at;
+  try {
+    return run();
+  } finally {
+    Date.now = now;
+  }
+}
+
+self.onmessage = (event: MessageEvent<IncomingMessage>) => {
   const data = event.data;
-  const response = handleMessage(data);
+  const response: WorkerResponse & { _messageId?: number } = atTime(data._at, () =>
+    handleMessage(data)
+  );
 
   if (data._messageId !== undefined) {
     response._messageId = data._messageId;
@@ -282,12 +314,19 @@ self.onmessage = function (event) {
   self.postMessage(response);
 };
 
-function handleMessage(data) {
+function handleMessage(data: IncomingMessage): WorkerResponse {
   try {
     switch (data.type) {
       case 'initialize':
-        initialize(data.itemId, data.initialPrice);
-        return { type: 'order-submitted', orderId: '', trades: [] };
+        initialize(data.itemId, data.initialPrice, data.config);
+        return {
+          type: 'order-submitted',
+          orderId: '',
+          trades: [],
+          triggered: [],
+          expired: [],
+          selfTrades: [],
+        };
 
       case 'submit-order':
         return handleSubmitOrder(data.order);
@@ -295,16 +334,43 @@ function handleMessage(data) {
       case 'cancel-order':
         return handleCancelOrder(data.orderId);
 
+      case 'amend-order':
+        return handleAmendOrder(data.orderId, data.amendment, data.openQuantity);
+
+      case 'restore-orders':
+        return handleRestoreOrders(data.orders);
+
       case 'get-order-book':
         return handleGetOrderBook();
 
+      case 'get-market':
+        return handleGetMarket();
+
+      case 'get-depth':
+        return handleGetDepth(data.levels);
+
       case 'tick':
         return handleTick();
 
+      case 'get-parameters':
+        return { type: 'parameters', parameters: marketEngine.getParameters() };
+
+      case 'set-parameters':
+        return handleSetParameters(data.parameters);
+
+      case 'shock':
+        return handleShock(data.change);
+
+      case 'snapshot':
+        return handleSnapshot();
+
+      case 'recover':
+        return handleRecover(data.snapshot, data.entries);
+
       default:
         return { type: 'error', message: 'Unknown message type' };
     }
   } catch (error) {
-    return { type: 'error', message: error.message };
+    return { type: 'error', message: error instanceof Error ? error.message : String(error) };
   }
 }
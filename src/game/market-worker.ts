@@ -3,21 +3,42 @@
  *
  * Spawns one Bun.Worker per market/item for dedicated market processing.
  * Each worker maintains its own:
- * - OrderBook (price-time priority matching)
- * - MarketEngine (GBM price simulation)
- * - PlayerSession registry (player state)
+ * - OrderBook (price-time priority matching, stop orders, time in force)
+ * - MarketEngine (price simulation via its configured price model)
+ *
+ * Player state stays on the main thread, which settles the trades workers return.
  *
  * Worker message protocol:
- * - 'submit-order' → Process order, add to order book
+ * - 'submit-order' → Add order to the book and return the fills it made on entry
  * - 'cancel-order' → Cancel order by ID
+ * - 'amend-order' → Change price/quantity in place and return any fills it makes
+ * - 'restore-orders' → Put orders from an earlier run back in the book without matching
  * - 'get-order-book' → Return current bid/ask queues
- * - 'tick' → Update price (GBM) and match orders
+ * - 'get-market' → Return current price and top of book
+ * - 'get-depth' → Return aggregated price levels (Level 2 snapshot)
+ * - 'tick' → Update price, fire stops, match orders, expire orders and diff the book
+ * - 'get-parameters' → Return the engine's tunable parameters
+ * - 'set-parameters' → Change drift, volatility, time step and/or pressure factor
+ * - 'shock' → Move the price at once by a fraction
+ * - 'snapshot' → Return the whole market state (book, engine, depth sequence)
+ *
+ * Crash recovery: with a journal, every message that changes the market is
+ * written to it before it is posted, and the worker is snapshotted every few
+ * hundred entries. A restarted worker gets the latest snapshot and the entries
+ * after it and replays them, so it resumes with the same book and price path.
+ * Messages the crashed worker never answered fail and are left out of the replay.
  *
  * IMPORTANT: WorkerManager (Task 6) manages worker lifecycle via postMessage.
  * Effect.fork creates fibers that send messages to workers.
  * Workers themselves run as separate Bun threads (managed by Bun runtime).
  */
 
+import type { DepthDiff, DepthSnapshot, DepthTrackerState } from './depth-tracker';
+import type { MarketEngineConfig, MarketEngineState, MarketParameters } from './market-engine';
+import { createMarketJournal, type JournalRecovery, type MarketJournal } from './market-journal';
+import type { OrderAmendment, OrderBookState, OrderExpiry, SelfTradeReduction } from './order-book';
+import { randomSeed } from './random';
+import type { TriggerEvent } from './trigger-book';
 import type { Order, Trade } from './types';
 
 /**
@@ -26,37 +47,139 @@ import type { Order, Trade } from './types';
 export type WorkerMessage =
   | { type: 'submit-order'; order: Order }
   | { type: 'cancel-order'; orderId: string }
+  | {
+      type: 'amend-order';
+      orderId: string;
+      amendment: OrderAmendment;
+      openQuantity?: number; // Rejected unless the order still has this open quantity
+    }
+  | { type: 'restore-orders'; orders: Order[] }
   | { type: 'get-order-book' }
-  | { type: 'tick' };
+  | { type: 'get-market' }
+  | { type: 'get-depth'; levels?: number }
+  | { type: 'tick' }
+  | { type: 'get-parameters' }
+  | { type: 'set-parameters'; parameters: Partial<MarketParameters> }
+  | { type: 'shock'; change: number }
+  | { type: 'snapshot' };
+
+/**
+ * Messages that change the market and are journaled
+ */
+const JOURNALED_MESSAGES: WorkerMessage['type'][] = [
+  'submit-order',
+  'cancel-order',
+  'amend-order',
+  'restore-orders',
+  'tick',
+  'set-parameters',
+  'shock',
+];
+
+/**
+ * Complete state of a market worker between messages
+ */
+export interface WorkerSnapshot {
+  book: OrderBookState;
+  engine: MarketEngineState;
+  depth: DepthTrackerState;
+}
 
 /**
  * Worker response types for worker → main thread communication
  */
 export type WorkerResponse =
-  | { type: 'order-submitted'; orderId: string; trades: Trade[] }
+  | {
+      type: 'order-submitted';
+      orderId: string;
+      trades: Trade[];
+      triggered: TriggerEvent[];
+      expired: OrderExpiry[];
+      selfTrades: SelfTradeReduction[];
+    }
   | { type: 'order-cancelled'; orderId: string }
+  | {
+      type: 'order-amended';
+      order: Order; // Order as amended, before the fills below
+      trades: Trade[];
+      triggered: TriggerEvent[];
+      expired: OrderExpiry[];
+      selfTrades: SelfTradeReduction[];
+    }
+  | {
+      type: 'orders-restored';
+      restored: string[];
+      rejected: { orderId: string; message: string }[];
+    }
   | { type: 'order-book'; bids: Order[]; asks: Order[] }
-  | { type: 'tick-completed'; trades: Trade[]; currentPrice: number }
+  | {
+      type: 'market-state';
+      itemId: string;
+      currentPrice: number;
+      volatility: number;
+      bestBid: number | null;
+      bestAsk: number | null;
+    }
+  | { type: 'depth'; snapshot: DepthSnapshot }
+  | {
+      type: 'tick-completed';
+      trades: Trade[];
+      triggered: TriggerEvent[];
+      expired: OrderExpiry[];
+      selfTrades: SelfTradeReduction[];
+      currentPrice: number;
+      bestBid: number | null;
+      bestAsk: number | null;
+      depthDiff: DepthDiff | null;
+    }
+  | { type: 'parameters'; parameters: MarketParameters }
+  | { type: 'snapshot'; state: WorkerSnapshot }
+  | { type: 'recovered'; replayed: number }
   | { type: 'error'; message: string };
 
+/**
+ * MarketEngine parameters that can be posted to a worker
+ *
+ * A RandomSource instance cannot cross the thread boundary, so seeded runs
+ * pass a seed and the worker builds its own generator.
+ */
+export type WorkerEngineConfig = Partial<Omit<MarketEngineConfig, 'random'>>;
+
 /**
  * Market worker state for crash recovery
  */
 interface MarketWorkerState {
   itemId: string;
   initialPrice: number;
+  config?: WorkerEngineConfig;
   isRunning: boolean;
   crashCount: number;
   lastCrashTime: number;
 }
 
+/**
+ * Crash recovery settings for one market worker
+ */
+export interface MarketWorkerOptions {
+  journal?: MarketJournal; // Without one, a restarted worker starts empty
+  snapshotEvery?: number; // Journal entries between snapshots (default: 500)
+}
+
+/**
+ * WorkerPool settings
+ */
+export interface WorkerPoolOptions {
+  journalDir?: string; // Directory for per-market journals; no journaling if omitted
+  snapshotEvery?: number; // Journal entries between snapshots (default: 500)
+}
+
 /**
  * MarketWorker class wraps a Bun.Worker for per-market processing
  *
  * Manages:
  * - Worker lifecycle (spawn, restart, shutdown)
  * - Message routing (postMessage to worker)
- * - Crash handling (exponential backoff restart)
+ * - Crash handling (exponential backoff restart, journal replay)
  */
 export class MarketWorker {
   readonly itemId: string;
@@ -65,12 +188,37 @@ export class MarketWorker {
   private pendingResponses: Map<number, (_response: WorkerResponse) => void>;
   private nextMessageId = 0;
   private restartTimeout?: ReturnType<typeof setTimeout>;
+  private journal?: MarketJournal;
+  private snapshotEvery: number;
+  private journaled = new Map<number, number>(); // messageId -> journal seq, until answered
+  private answeredSeq = 0; // Last journal entry the worker answered
+  private snapshotting = false;
 
-  constructor(itemId: string, initialPrice: number) {
+  /**
+   * @param itemId - Item/market identifier
+   * @param initialPrice - Initial price for the market
+   * @param config - Optional MarketEngine parameters (e.g. volatility, seed)
+   * @param options - Journal for crash recovery
+   */
+  constructor(
+    itemId: string,
+    initialPrice: number,
+    config?: WorkerEngineConfig,
+    options: MarketWorkerOptions = {}
+  ) {
     this.itemId = itemId;
+    this.journal = options.journal;
+    this.snapshotEvery = options.snapshotEvery ?? 500;
+
+    // Replays must draw the same random numbers, so a journaled market needs a known seed
+    if (this.journal && config?.seed === undefined) {
+      config = { ...config, seed: randomSeed() };
+    }
+
     this.state = {
       itemId,
       initialPrice,
+      config,
       isRunning: false,
       crashCount: 0,
       lastCrashTime: 0,
@@ -87,6 +235,10 @@ export class MarketWorker {
       return;
     }
 
+    // A fresh start has nothing to recover
+    this.journal?.reset();
+    this.answeredSeq = 0;
+
     await this.spawnWorker();
     this.state.isRunning = true;
   }
@@ -138,6 +290,32 @@ export class MarketWorker {
     return this.sendMessage(message);
   }
 
+  /**
+   * Amend a resting order's price and/or open quantity
+   * @param orderId - Order ID to amend
+   * @param amendment - New price and/or open quantity
+   * @param openQuantity - Open quantity the order must still have
+   * @returns Promise resolving to worker response
+   */
+  async amendOrder(
+    orderId: string,
+    amendment: OrderAmendment,
+    openQuantity?: number
+  ): Promise<WorkerResponse> {
+    const message: WorkerMessage = { type: 'amend-order', orderId, amendment, openQuantity };
+    return this.sendMessage(message);
+  }
+
+  /**
+   * Put resting orders from an earlier run back in the book
+   * @param orders - Orders oldest first, with their open quantity
+   * @returns Promise resolving to the restored and rejected order IDs
+   */
+  async restoreOrders(orders: Order[]): Promise<WorkerResponse> {
+    const message: WorkerMessage = { type: 'restore-orders', orders };
+    return this.sendMessage(message);
+  }
+
   /**
    * Get current order book
    * @returns Promise resolving to order book data
@@ -147,6 +325,25 @@ export class MarketWorker {
     return this.sendMessage(message);
   }
 
+  /**
+   * Get current price and top of book
+   * @returns Promise resolving to market state
+   */
+  async getMarket(): Promise<WorkerResponse> {
+    const message: WorkerMessage = { type: 'get-market' };
+    return this.sendMessage(message);
+  }
+
+  /**
+   * Get aggregated price levels
+   * @param levels - Maximum levels per side (default: all)
+   * @returns Promise resolving to depth snapshot
+   */
+  async getDepth(levels?: number): Promise<WorkerResponse> {
+    const message: WorkerMessage = { type: 'get-depth', levels };
+    return this.sendMessage(message);
+  }
+
   /**
    * Trigger market tick (price update and order matching)
    * @returns Promise resolving to tick result
@@ -156,6 +353,32 @@ export class MarketWorker {
     return this.sendMessage(message);
   }
 
+  /**
+   * Get the engine's tunable parameters
+   * @returns Promise resolving to the parameters
+   */
+  async getParameters(): Promise<WorkerResponse> {
+    return this.sendMessage({ type: 'get-parameters' });
+  }
+
+  /**
+   * Change the engine's tunable parameters
+   * @param parameters - Parameters to change
+   * @returns Promise resolving to the parameters after the change
+   */
+  async setParameters(parameters: Partial<MarketParameters>): Promise<WorkerResponse> {
+    return this.sendMessage({ type: 'set-parameters', parameters });
+  }
+
+  /**
+   * Move the price at once
+   * @param change - Relative move (e.g. -0.1 for a 10% drop)
+   * @returns Promise resolving to the market state after the move
+   */
+  async shock(change: number): Promise<WorkerResponse> {
+    return this.sendMessage({ type: 'shock', change });
+  }
+
   /**
    * Get worker state
    */
@@ -175,6 +398,15 @@ export class MarketWorker {
 
     const messageId = this.nextMessageId++;
 
+    // Write ahead: the worker processes the message at its journal time
+    const entry =
+      this.journal && JOURNALED_MESSAGES.includes(message.type)
+        ? this.journal.append(message)
+        : undefined;
+    if (entry) {
+      this.journaled.set(messageId, entry.seq);
+    }
+
     return new Promise((resolve) => {
       this.pendingResponses.set(messageId, resolve);
 
@@ -195,15 +427,49 @@ export class MarketWorker {
 
       // Send message with correlation ID
       if (this.worker) {
-        this.worker.postMessage({ ...message, _messageId: messageId });
+        this.worker.postMessage({ ...message, _messageId: messageId, _at: entry?.at });
       }
     });
   }
 
+  /**
+   * Record that the worker finished a journaled message, and snapshot when
+   * enough entries have built up
+   */
+  private acknowledge(messageId: number): void {
+    const seq = this.journaled.get(messageId);
+    if (seq === undefined) return;
+
+    this.journaled.delete(messageId);
+    this.answeredSeq = Math.max(this.answeredSeq, seq);
+
+    if (!this.journal || this.snapshotting || this.journal.getPendingCount() < this.snapshotEvery) {
+      return;
+    }
+
+    // Everything journaled so far is processed before the snapshot request
+    const journal = this.journal;
+    const covered = journal.getLastSeq();
+    this.snapshotting = true;
+    this.sendMessage({ type: 'snapshot' })
+      .then((response) => {
+        if (response.type === 'snapshot') {
+          journal.writeSnapshot(covered, response.state);
+        }
+      })
+      .catch((error) => {
+        console.error(`Failed to snapshot worker for ${this.itemId}:`, error);
+      })
+      .finally(() => {
+        this.snapshotting = false;
+      });
+  }
+
   /**
    * Spawn a new Bun worker
+   * @param recovery - Snapshot and journal entries to replay before taking messages
    */
-  private async spawnWorker(): Promise<void> {
+  private async spawnWorker(recovery?: JournalRecovery): Promise<void> {
     const workerPath = import.meta.url.replace('market-worker.ts', 'market-worker-thread.ts');
 
     this.worker = new Worker(workerPath, {
@@ -212,14 +478,19 @@ export class MarketWorker {
 
     // Set up message handler
     this.worker.onmessage = (event) => {
-      const response = event.data as WorkerResponse & { _messageId?: number };
-      const messageId = response._messageId;
+      const { _messageId: messageId, ...response } = event.data as WorkerResponse & {
+        _messageId?: number;
+      };
+
+      if (messageId !== undefined) {
+        this.acknowledge(messageId);
+      }
 
       if (messageId !== undefined && this.pendingResponses.has(messageId)) {
         const callback = this.pendingResponses.get(messageId);
         if (callback) {
           this.pendingResponses.delete(messageId);
-          callback(response);
+          callback(response as WorkerResponse);
         }
       }
     };
@@ -235,7 +506,27 @@ export class MarketWorker {
       type: 'initialize',
       itemId: this.itemId,
       initialPrice: this.state.initialPrice,
+      config: this.state.config,
     });
+
+    if (recovery && (recovery.snapshot || recovery.entries.length > 0)) {
+      const messageId = this.nextMessageId++;
+      this.pendingResponses.set(messageId, (response) => {
+        if (response.type === 'recovered') {
+          console.log(`Worker for ${this.itemId} replayed ${response.replayed} journal entries`);
+        } else {
+          console.error(`Worker for ${this.itemId} failed to recover:`, response);
+        }
+      });
+
+      // Posted right after initialize, so it runs before any new message
+      this.worker.postMessage({
+        type: 'recover',
+        snapshot: recovery.snapshot?.state,
+        entries: recovery.entries,
+        _messageId: messageId,
+      });
+    }
   }
 
   /**
@@ -263,6 +554,15 @@ export class MarketWorker {
       this.worker = null;
     }
 
+    // Unanswered messages never finished: fail them now and keep them out of
+    // the replay (one of them may be what crashed the worker)
+    for (const resolve of this.pendingResponses.values()) {
+      resolve({ type: 'error', message: 'Worker crashed' });
+    }
+    this.pendingResponses.clear();
+    this.journaled.clear();
+    this.journal?.truncateAfter(this.answeredSeq);
+
     // Schedule restart
     this.restartTimeout = setTimeout(async () => {
       if (!this.state.isRunning) {
@@ -270,7 +570,7 @@ export class MarketWorker {
       }
 
       try {
-        await this.spawnWorker();
+        await this.spawnWorker(this.journal?.load());
         console.log(`Worker for ${this.itemId} restarted successfully`);
       } catch (error) {
         console.error(`Failed to restart worker for ${this.itemId}:`, error);
@@ -293,7 +593,10 @@ export class WorkerPool {
   private workers: Map<string, MarketWorker>;
   private isRunning = false;
 
-  constructor() {
+  /**
+   * @param options - Journal directory for crash recovery
+   */
+  constructor(private readonly options: WorkerPoolOptions = {}) {
     this.workers = new Map();
   }
 
@@ -332,14 +635,23 @@ export class WorkerPool {
    * Spawn a worker for a new market
    * @param itemId - Item/market identifier
    * @param initialPrice - Initial price for the market
+   * @param config - Optional MarketEngine parameters (e.g. volatility, seed)
    */
-  async spawnWorker(itemId: string, initialPrice: number): Promise<void> {
+  async spawnWorker(
+    itemId: string,
+    initialPrice: number,
+    config?: WorkerEngineConfig
+  ): Promise<void> {
     if (this.workers.has(itemId)) {
       console.warn(`Worker for ${itemId} already exists`);
       return;
     }
 
-    const worker = new MarketWorker(itemId, initialPrice);
+    const { journalDir, snapshotEvery } = this.options;
+    const worker = new MarketWorker(itemId, initialPrice, config, {
+      journal: journalDir !== undefined ? createMarketJournal(journalDir, itemId) : undefined,
+      snapshotEvery,
+    });
     await worker.start();
     this.workers.set(itemId, worker);
     console.log(`Worker spawned for ${itemId}`);
@@ -382,6 +694,51 @@ export class WorkerPool {
     return await worker.cancelOrder(orderId);
   }
 
+  /**
+   * Amend an order in a market
+   * @param itemId - Item identifier
+   * @param orderId - Order ID to amend
+   * @param amendment - New price and/or open quantity
+   * @param openQuantity - Open quantity the order must still have
+   * @returns Promise resolving to worker response
+   */
+  async amendOrder(
+    itemId: string,
+    orderId: string,
+    amendment: OrderAmendment,
+    openQuantity?: number
+  ): Promise<WorkerResponse> {
+    const worker = this.workers.get(itemId);
+
+    if (!worker) {
+      return {
+        type: 'error',
+        message: `No worker for item ${itemId}`,
+      };
+    }
+
+    return await worker.amendOrder(orderId, amendment, openQuantity);
+  }
+
+  /**
+   * Put resting orders from an earlier run back in a market's book
+   * @param itemId - Item identifier
+   * @param orders - Orders oldest first, with their open quantity
+   * @returns Promise resolving to worker response
+   */
+  async restoreOrders(itemId: string, orders: Order[]): Promise<WorkerResponse> {
+    const worker = this.workers.get(itemId);
+
+    if (!worker) {
+      return {
+        type: 'error',
+        message: `No worker for item ${itemId}`,
+      };
+    }
+
+    return await worker.restoreOrders(orders);
+  }
+
   /**
    * Get order book for a market
    * @param itemId - Item identifier
@@ -400,6 +757,43 @@ export class WorkerPool {
     return await worker.getOrderBook();
   }
 
+  /**
+   * Get current price and top of book for a market
+   * @param itemId - Item identifier
+   * @returns Promise resolving to market state
+   */
+  async getMarket(itemId: string): Promise<WorkerResponse> {
+    const worker = this.workers.get(itemId);
+
+    if (!worker) {
+      return {
+        type: 'error',
+        message: `No worker for item ${itemId}`,
+      };
+    }
+
+    return await worker.getMarket();
+  }
+
+  /**
+   * Get aggregated price levels for a market
+   * @param itemId - Item identifier
+   * @param levels - Maximum levels per side (default: all)
+   * @returns Promise resolving to depth snapshot
+   */
+  async getDepth(itemId: string, levels?: number): Promise<WorkerResponse> {
+    const worker = this.workers.get(itemId);
+
+    if (!worker) {
+      return {
+        type: 'error',
+        message: `No worker for item ${itemId}`,
+      };
+    }
+
+    return await worker.getDepth(levels);
+  }
+
   /**
    * Trigger tick for all markets
    * @returns Map of itemId to tick results
@@ -434,6 +828,65 @@ export class WorkerPool {
     return await worker.tick();
   }
 
+  /**
+   * Get a market's tunable parameters
+   * @param itemId - Item identifier
+   * @returns Promise resolving to the parameters
+   */
+  async getParameters(itemId: string): Promise<WorkerResponse> {
+    const worker = this.workers.get(itemId);
+
+    if (!worker) {
+      return {
+        type: 'error',
+        message: `No worker for item ${itemId}`,
+      };
+    }
+
+    return await worker.getParameters();
+  }
+
+  /**
+   * Change a market's tunable parameters
+   * @param itemId - Item identifier
+   * @param parameters - Parameters to change
+   * @returns Promise resolving to the parameters after the change
+   */
+  async setParameters(
+    itemId: string,
+    parameters: Partial<MarketParameters>
+  ): Promise<WorkerResponse> {
+    const worker = this.workers.get(itemId);
+
+    if (!worker) {
+      return {
+        type: 'error',
+        message: `No worker for item ${itemId}`,
+      };
+    }
+
+    return await worker.setParameters(parameters);
+  }
+
+  /**
+   * Move a market's price at once
+   * @param itemId - Item identifier
+   * @param change - Relative move (e.g. -0.1 for a 10% drop)
+   * @returns Promise resolving to the market state after the move
+   */
+  async shock(itemId: string, change: number): Promise<WorkerResponse> {
+    const worker = this.workers.get(itemId);
+
+    if (!worker) {
+      return {
+        type: 'error',
+        message: `No worker for item ${itemId}`,
+      };
+    }
+
+    return await worker.shock(change);
+  }
+
   /**
    * Check if a worker exists for an item
    * @param itemId - Item identifier
@@ -482,8 +935,8 @@ export class WorkerPool {
 /**
  * Factory function to create a WorkerPool
  */
-export function createWorkerPool(): WorkerPool {
-  return new WorkerPool();
+export function createWorkerPool(options?: WorkerPoolOptions): WorkerPool {
+  return new WorkerPool(options);
 }
 
 /**
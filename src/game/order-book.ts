@@ -4,11 +4,111 @@
  * Implements a double-sided order book with:
  * - Bid heap: Max heap (highest price first), price-time priority
  * - Ask heap: Min heap (lowest price first), price-time priority
- * - Support for limit and market orders
- * - Partial fills supported
+ * - Support for limit and market orders; market orders queue ahead of limit
+ *   orders on their side whatever price they carry, and a market buy
+ *   carrying a price never fills above it, so it cannot spend more than was
+ *   reserved for it
+ * - Stop orders held in a TriggerBook until their stop price is reached
+ * - Time in force: ioc/fok/market orders never rest after their matching
+ *   pass; gtd and day orders expire at expiresAt
+ * - Iceberg orders: only displayQuantity is tradable and shown at a time;
+ *   each refill from the hidden reserve goes to the back of its price level
+ * - Hidden orders: match normally but never appear in the public views, and
+ *   queue behind displayed orders at the same price
+ * - Self-trade prevention: a player's orders never match each other; the
+ *   taker's mode decides which side is cancelled or decremented
+ * - Post-only orders: rejected on entry if they would take liquidity
+ * - Amendments: quantity decreases keep time priority; price changes and
+ *   size increases requeue the order at the back of its price level
+ * - Partial fills supported; trade IDs are unique across books, so trades
+ *   from a new book never reuse the IDs of an earlier one
+ * - Snapshots: getState/setState capture the whole book, queue positions included
+ *
+ * getBids/getAsks/getDepth/getBest* are the public (displayed) view;
+ * getOrder returns the full order for its owner.
+ */
+
+import { TriggerBook, isStopOrder, type TriggerEvent } from './trigger-book';
+import type { Order, OrderSide, SelfTradePrevention, TimeInForce, Trade } from './types';
+
+/**
+ * Aggregated quantity resting at one price
+ */
+export interface PriceLevel {
+  price: number;
+  quantity: number;
+  orderCount: number;
+}
+
+/**
+ * Aggregated price levels for both sides of the book
+ */
+export interface BookDepth {
+  bids: PriceLevel[];
+  asks: PriceLevel[];
+}
+
+/**
+ * An order removed from the book by its time in force
  */
+export interface OrderExpiry {
+  orderId: string;
+  playerId: string;
+  itemId: string;
+  timeInForce: TimeInForce;
+  remainingQuantity: number;
+  expiredAt: number;
+}
 
-import type { Order, Trade } from './types';
+/**
+ * Quantity taken off an order by self-trade prevention
+ */
+export interface SelfTradeReduction {
+  orderId: string;
+  playerId: string;
+  itemId: string;
+  mode: SelfTradePrevention; // Mode of the taker that triggered the prevention
+  quantity: number; // Quantity removed from the order
+  remainingQuantity: number; // 0 when the order was cancelled
+  reducedAt: number;
+}
+
+/**
+ * Requested change to a resting order
+ */
+export interface OrderAmendment {
+  price?: number; // New limit price
+  quantity?: number; // New open quantity
+}
+
+/**
+ * Serializable state of a book between messages
+ */
+export interface OrderBookState {
+  orders: Order[]; // Resting orders
+  stopOrders: Order[]; // Orders waiting in the trigger book
+  displayed: [string, number][]; // Iceberg orderId -> tradable slice left
+  queue: [string, { time: number; sequence: number }][]; // Time priority
+  lastTradePrice: number | null;
+  bookId: string; // Keeps trade IDs unique across books and restarts
+  nextTradeId: number;
+  nextSequence: number;
+}
+
+/**
+ * Effective time in force (market orders default to ioc, everything else to gtc)
+ */
+export function getTimeInForce(order: Pick<Order, 'type' | 'timeInForce'>): TimeInForce {
+  return order.timeInForce ?? (order.type === 'market' ? 'ioc' : 'gtc');
+}
+
+/**
+ * Check whether an order must not rest on the book after its first matching pass
+ */
+function isImmediate(order: Order): boolean {
+  const timeInForce = getTimeInForce(order);
+  return order.type === 'market' || timeInForce === 'ioc' || timeInForce === 'fok';
+}
 
 /**
  * Priority queue implementation with custom comparator
@@ -69,6 +169,14 @@ class PriorityQueue<T> {
     return [...this.heap];
   }
 
+  toSortedArray(): T[] {
+    return [...this.heap].sort(this.comparator);
+  }
+
+  clear(): void {
+    this.heap = [];
+  }
+
   private bubbleUp(index: number): void {
     while (index > 0) {
       const parentIndex = Math.floor((index - 1) / 2);
@@ -118,11 +226,25 @@ export class OrderBook {
   private bids: PriorityQueue<Order>;
   private asks: PriorityQueue<Order>;
   private orders: Map<string, Order>; // orderId -> Order for O(1) lookup
+  private triggers = new TriggerBook();
+  private immediate = new Set<string>(); // Orders to expire after the next matching pass
+  private fokChecked = new Set<string>();
+  private expired: OrderExpiry[] = [];
+  private selfTrades: SelfTradeReduction[] = [];
+  private displayed = new Map<string, number>(); // Iceberg orderId -> tradable slice left
+  private queue = new Map<string, { time: number; sequence: number }>(); // Time priority
+  private lastTradePrice: number | null = null;
+  private bookId: string = crypto.randomUUID();
   private nextTradeId = 0;
+  private nextSequence = 0;
 
   constructor() {
     // Bids: Max heap on price (highest first), min heap on timestamp (for same price, earliest first)
     this.bids = new PriorityQueue((a, b) => {
+      // Market orders first whatever price they carry, in arrival order
+      if (a.type === 'market' || b.type === 'market') {
+        return marketRank(a) - marketRank(b) || this.compareQueue(a, b);
+      }
       if (a.price === undefined || b.price === undefined) {
         return 0;
       }
@@ -130,12 +252,15 @@ export class OrderBook {
       if (b.price !== a.price) {
         return b.price - a.price;
       }
-      // Same price: FIFO (earlier timestamp first)
-      return a.timestamp - b.timestamp;
+      // Same price: displayed before hidden, then FIFO
+      return this.compareQueue(a, b);
     });
 
     // Asks: Min heap on price, min heap on timestamp (for same price, earliest first)
     this.asks = new PriorityQueue((a, b) => {
+      if (a.type === 'market' || b.type === 'market') {
+        return marketRank(a) - marketRank(b) || this.compareQueue(a, b);
+      }
       if (a.price === undefined || b.price === undefined) {
         return 0;
       }
@@ -143,8 +268,8 @@ export class OrderBook {
       if (a.price !== b.price) {
         return a.price - b.price;
       }
-      // Same price: FIFO (earlier timestamp first)
-      return a.timestamp - b.timestamp;
+      // Same price: displayed before hidden, then FIFO
+      return this.compareQueue(a, b);
     });
 
     this.orders = new Map();
@@ -153,8 +278,34 @@ export class OrderBook {
   /**
    * Add an order to the book
    * @param order - Order to add
+   * @param referencePrice - Current market price, used to place trailing stops
+   * @throws Error if the order has an invalid iceberg/hidden setup, or is
+   * post-only and would cross the book
    */
-  addOrder(order: Order): void {
+  addOrder(order: Order, referencePrice?: number): void {
+    validateDisplay(order);
+
+    // Stop orders wait in the trigger book until they fire
+    if (isStopOrder(order)) {
+      this.triggers.add(order, referencePrice ?? this.lastTradePrice ?? undefined);
+      return;
+    }
+
+    if (order.postOnly) {
+      if (order.type !== 'limit') {
+        throw new Error('Only limit orders can be post-only');
+      }
+      const opposite = (order.side === 'buy' ? this.asks : this.bids).peek();
+      if (opposite && crosses(order, opposite)) {
+        throw new Error('Post-only order would take liquidity');
+      }
+    }
+
+    this.queue.set(order.id, { time: order.timestamp, sequence: this.nextSequence++ });
+    if (order.displayQuantity !== undefined) {
+      this.displayed.set(order.id, Math.min(order.displayQuantity, order.quantity));
+    }
+
     // Add to appropriate heap based on side
     if (order.side === 'buy') {
       this.bids.push(order);
@@ -164,6 +315,10 @@ export class OrderBook {
 
     // Store in map for O(1) lookup
     this.orders.set(order.id, order);
+
+    if (isImmediate(order)) {
+      this.immediate.add(order.id);
+    }
   }
 
   /**
@@ -172,6 +327,13 @@ export class OrderBook {
    * @returns true if order was found and removed, false otherwise
    */
   removeOrder(orderId: string): boolean {
+    const stopOrder = this.triggers.get(orderId);
+    if (stopOrder) {
+      this.triggers.remove(orderId);
+      stopOrder.status = 'cancelled';
+      return true;
+    }
+
     const order = this.orders.get(orderId);
     if (!order) {
       return false;
@@ -185,10 +347,70 @@ export class OrderBook {
     }
 
     // Remove from map
-    this.orders.delete(orderId);
+    this.forget(orderId);
+    order.status = 'cancelled';
     return true;
   }
 
+  /**
+   * Amend the price and/or open quantity of a resting limit order
+   *
+   * The order keeps its time priority only when the price is unchanged and
+   * the quantity does not grow. Nothing changes if the amendment is invalid.
+   * @param orderId - ID of the order to amend
+   * @param amendment - New price and/or open quantity
+   * @returns Copy of the amended order
+   * @throws Error if the order is not resting, the values are invalid, or a
+   * post-only order would cross the book at its new price
+   */
+  amendOrder(orderId: string, amendment: OrderAmendment): Order {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      throw new Error('Order not found');
+    }
+    if (order.type !== 'limit') {
+      throw new Error('Only limit orders can be amended');
+    }
+
+    const price = amendment.price ?? order.price;
+    const quantity = amendment.quantity ?? order.quantity;
+    if (price === undefined || !(price > 0)) {
+      throw new Error('Price must be positive');
+    }
+    if (!(quantity > 0)) {
+      throw new Error('Quantity must be positive');
+    }
+
+    if (order.postOnly && price !== order.price) {
+      const opposite = (order.side === 'buy' ? this.asks : this.bids).peek();
+      if (opposite && crosses({ ...order, price }, opposite)) {
+        throw new Error('Post-only order would take liquidity');
+      }
+    }
+
+    if (price === order.price && quantity <= order.quantity) {
+      order.quantity = quantity;
+      const slice = this.displayed.get(orderId);
+      if (slice !== undefined && slice > quantity) {
+        this.displayed.set(orderId, quantity);
+      }
+      return { ...order };
+    }
+
+    // Price changes and size increases lose time priority
+    const heap = order.side === 'buy' ? this.bids : this.asks;
+    heap.remove((o) => o.id === orderId);
+    order.price = price;
+    order.quantity = quantity;
+    this.requeue(order);
+    if (order.displayQuantity !== undefined) {
+      this.displayed.set(orderId, Math.min(order.displayQuantity, quantity));
+    }
+    heap.push(order);
+
+    return { ...order };
+  }
+
   /**
    * Match orders and generate trades
    * @returns Array of trades generated from matching
@@ -205,6 +427,18 @@ export class OrderBook {
         break;
       }
 
+      // Fill-or-kill orders reaching the top are killed unless fully fillable
+      if (this.killUnfillable(bestBid, bestAsk)) {
+        continue;
+      }
+
+      // A market buy priced below the best ask cannot fill; drop it now so it
+      // does not hold back the limit bids queued behind it
+      if (!withinPriceCap(bestBid, bestAsk)) {
+        this.expire(bestBid);
+        continue;
+      }
+
       // Check if prices cross
       const bidPrice = bestBid.price;
       const askPrice = bestAsk.price;
@@ -219,6 +453,22 @@ export class OrderBook {
         break;
       }
 
+      // Aggressor: market orders always take; otherwise the later order crossed the spread
+      let aggressorSide: OrderSide;
+      if (bestBid.type === 'market') {
+        aggressorSide = 'buy';
+      } else if (bestAsk.type === 'market') {
+        aggressorSide = 'sell';
+      } else {
+        aggressorSide = bestAsk.timestamp > bestBid.timestamp ? 'sell' : 'buy';
+      }
+
+      // A player never trades with themselves
+      if (bestBid.playerId === bestAsk.playerId) {
+        this.preventSelfTrade(bestBid, bestAsk, aggressorSide);
+        continue;
+      }
+
       // Determine trade price
       let tradePrice: number;
       if (bestBid.type === 'market') {
@@ -232,52 +482,393 @@ export class OrderBook {
         tradePrice = askPrice ?? 0;
       }
 
-      // Determine trade quantity
-      const tradeQuantity = Math.min(bestBid.quantity, bestAsk.quantity);
+      // Determine trade quantity (icebergs only trade their displayed slice)
+      const tradeQuantity = Math.min(this.getTradable(bestBid), this.getTradable(bestAsk));
 
       // Generate trade
       const trade: Trade = {
-        id: `trade-${this.nextTradeId++}`,
+        id: `trade-${bestBid.itemId}-${this.bookId}-${this.nextTradeId++}`,
         buyOrderId: bestBid.id,
         sellOrderId: bestAsk.id,
         itemId: bestBid.itemId,
         quantity: tradeQuantity,
         price: tradePrice,
         timestamp: Date.now(),
+        aggressorSide,
       };
       trades.push(trade);
+      this.lastTradePrice = tradePrice;
 
-      // Update quantities
-      bestBid.quantity -= tradeQuantity;
-      bestAsk.quantity -= tradeQuantity;
+      // Update quantities and remove filled orders from top of heap
+      this.fill(bestBid, this.bids, tradeQuantity);
+      this.fill(bestAsk, this.asks, tradeQuantity);
+    }
 
-      // Remove filled orders from top of heap
-      if (bestBid.quantity === 0) {
-        this.bids.pop();
-        this.orders.delete(bestBid.id);
-      } else {
-        // Partial fill: keep order with updated status
-        bestBid.status = 'partial';
+    // Immediate orders get exactly one matching pass
+    for (const orderId of this.immediate) {
+      const order = this.orders.get(orderId);
+      if (order) {
+        this.expire(order);
+      }
+    }
+    this.immediate.clear();
+    this.fokChecked.clear();
+
+    return trades;
+  }
+
+  /**
+   * Expire gtd/day orders (resting or waiting to trigger) and collect every
+   * order expired since the last call, including ioc/fok/market leftovers
+   * from matchOrders
+   * @param now - Current time in ms
+   * @returns Expired orders, oldest expiry first
+   */
+  collectExpired(now = Date.now()): OrderExpiry[] {
+    for (const order of [...this.orders.values(), ...this.triggers.getOrders()]) {
+      if (order.expiresAt !== undefined && order.expiresAt <= now) {
+        this.expire(order, now);
+      }
+    }
+
+    const expired = this.expired;
+    this.expired = [];
+    return expired;
+  }
+
+  /**
+   * Collect every order cut down by self-trade prevention since the last call
+   * @returns Reductions in the order they happened
+   */
+  collectSelfTrades(): SelfTradeReduction[] {
+    const selfTrades = this.selfTrades;
+    this.selfTrades = [];
+    return selfTrades;
+  }
+
+  /**
+   * Resolve a bid and ask from the same player using the taker's mode
+   *
+   * Every mode removes at least one of the two orders, so matching always
+   * moves on.
+   */
+  private preventSelfTrade(bestBid: Order, bestAsk: Order, aggressorSide: OrderSide): void {
+    const [taker, maker] = aggressorSide === 'buy' ? [bestBid, bestAsk] : [bestAsk, bestBid];
+    const mode = taker.selfTradePrevention ?? 'cancel-newest';
+
+    switch (mode) {
+      case 'cancel-newest':
+        this.reduce(taker, taker.quantity, mode);
+        break;
+      case 'cancel-oldest':
+        this.reduce(maker, maker.quantity, mode);
+        break;
+      case 'cancel-both':
+        this.reduce(taker, taker.quantity, mode);
+        this.reduce(maker, maker.quantity, mode);
+        break;
+      case 'decrement': {
+        const quantity = Math.min(taker.quantity, maker.quantity);
+        this.reduce(taker, quantity, mode);
+        this.reduce(maker, quantity, mode);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Take quantity off a resting order, cancelling it when nothing is left
+   */
+  private reduce(order: Order, quantity: number, mode: SelfTradePrevention): void {
+    order.quantity -= quantity;
+
+    this.selfTrades.push({
+      orderId: order.id,
+      playerId: order.playerId,
+      itemId: order.itemId,
+      mode,
+      quantity,
+      remainingQuantity: order.quantity,
+      reducedAt: Date.now(),
+    });
+
+    if (order.quantity > 0) {
+      const slice = this.displayed.get(order.id);
+      if (slice !== undefined && slice > order.quantity) {
+        this.displayed.set(order.id, order.quantity);
+      }
+      return;
+    }
+
+    if (order.side === 'buy') {
+      this.bids.remove((o) => o.id === order.id);
+    } else {
+      this.asks.remove((o) => o.id === order.id);
+    }
+    this.forget(order.id);
+    order.status = 'cancelled';
+  }
+
+  /**
+   * Apply a fill to the order at the top of a heap
+   *
+   * Filled orders leave the book. An iceberg whose displayed slice is used up
+   * refills it from the reserve and rejoins the back of its price level.
+   */
+  private fill(order: Order, heap: PriorityQueue<Order>, quantity: number): void {
+    order.quantity -= quantity;
+
+    if (order.quantity === 0) {
+      heap.pop();
+      this.forget(order.id);
+      order.status = 'filled';
+      return;
+    }
+
+    // Partial fill: keep order with updated status
+    order.status = 'partial';
+
+    const slice = this.displayed.get(order.id);
+    if (slice === undefined || order.displayQuantity === undefined) {
+      return;
+    }
+
+    if (slice > quantity) {
+      this.displayed.set(order.id, slice - quantity);
+      return;
+    }
+
+    heap.pop();
+    this.displayed.set(order.id, Math.min(order.displayQuantity, order.quantity));
+    this.requeue(order);
+    heap.push(order);
+  }
+
+  /**
+   * Give an order a fresh queue position behind everything already resting
+   */
+  private requeue(order: Order): void {
+    this.queue.set(order.id, {
+      time: Math.max(Date.now(), order.timestamp),
+      sequence: this.nextSequence++,
+    });
+  }
+
+  /**
+   * Quantity of an order that can trade right now
+   */
+  private getTradable(order: Order): number {
+    return this.displayed.get(order.id) ?? order.quantity;
+  }
+
+  /**
+   * Same-price priority: displayed orders first, then earliest queue time
+   */
+  private compareQueue(a: Order, b: Order): number {
+    if (Boolean(a.hidden) !== Boolean(b.hidden)) {
+      return a.hidden ? 1 : -1;
+    }
+
+    const queueA = this.queue.get(a.id);
+    const queueB = this.queue.get(b.id);
+    const timeA = queueA?.time ?? a.timestamp;
+    const timeB = queueB?.time ?? b.timestamp;
+    if (timeA !== timeB) {
+      return timeA - timeB;
+    }
+    return (queueA?.sequence ?? 0) - (queueB?.sequence ?? 0);
+  }
+
+  /**
+   * Stop tracking an order that left the book
+   */
+  private forget(orderId: string): void {
+    this.orders.delete(orderId);
+    this.immediate.delete(orderId);
+    this.fokChecked.delete(orderId);
+    this.displayed.delete(orderId);
+    this.queue.delete(orderId);
+  }
+
+  /**
+   * Public view of a resting order: hidden orders are left out and icebergs
+   * show only their displayed slice
+   */
+  private toDisplayed(order: Order): Order | null {
+    if (order.hidden) {
+      return null;
+    }
+
+    const slice = this.displayed.get(order.id);
+    if (slice === undefined) {
+      return order;
+    }
+
+    const { displayQuantity: _displayQuantity, ...visible } = order;
+    return { ...visible, quantity: slice };
+  }
+
+  /**
+   * Displayed orders of one side
+   */
+  private getDisplayed(heap: PriorityQueue<Order>): Order[] {
+    return heap.toArray().flatMap((order) => this.toDisplayed(order) ?? []);
+  }
+
+  /**
+   * Best displayed order of one side
+   */
+  private getBestDisplayed(heap: PriorityQueue<Order>): Order | undefined {
+    const top = heap.peek();
+    if (!top?.hidden) {
+      return top;
+    }
+    // Hidden orders sort behind displayed ones, so only a hidden top needs a scan
+    return heap.toSortedArray().find((order) => !order.hidden);
+  }
+
+  /**
+   * Kill a fill-or-kill order at the top of the book if the opposite side
+   * cannot fill it completely
+   * @returns true if an order was killed
+   */
+  private killUnfillable(bestBid: Order, bestAsk: Order): boolean {
+    for (const [order, opposite] of [
+      [bestBid, this.asks],
+      [bestAsk, this.bids],
+    ] as const) {
+      if (getTimeInForce(order) !== 'fok' || this.fokChecked.has(order.id)) {
+        continue;
       }
+      this.fokChecked.add(order.id);
 
-      if (bestAsk.quantity === 0) {
-        this.asks.pop();
-        this.orders.delete(bestAsk.id);
+      // Other fill-or-kill orders may be killed themselves, so they do not count
+      const fillable = opposite
+        .toArray()
+        .filter((o) => getTimeInForce(o) !== 'fok' && crosses(order, o))
+        .reduce((sum, o) => sum + o.quantity, 0);
+
+      if (fillable < order.quantity) {
+        this.expire(order);
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Remove an order (from the book or trigger book) because of its time in force
+   */
+  private expire(order: Order, now = Date.now()): void {
+    const wasWaiting = this.triggers.remove(order.id);
+    if (!wasWaiting) {
+      if (order.side === 'buy') {
+        this.bids.remove((o) => o.id === order.id);
       } else {
-        // Partial fill: keep order with updated status
-        bestAsk.status = 'partial';
+        this.asks.remove((o) => o.id === order.id);
       }
     }
 
-    return trades;
+    this.forget(order.id);
+    order.status = 'expired';
+
+    this.expired.push({
+      orderId: order.id,
+      playerId: order.playerId,
+      itemId: order.itemId,
+      timeInForce: getTimeInForce(order),
+      remainingQuantity: order.quantity,
+      expiredAt: now,
+    });
+  }
+
+  /**
+   * Fire stop orders reached by a price and move them into the book
+   * @param price - Reference price (defaults to the last trade price)
+   * @returns Trigger events for the converted orders
+   */
+  checkTriggers(price: number | null = this.lastTradePrice): TriggerEvent[] {
+    if (price === null) {
+      return [];
+    }
+
+    return this.triggers.check(price).map(({ order, event }) => {
+      this.addOrder(order);
+      return event;
+    });
+  }
+
+  /**
+   * Snapshot the book
+   *
+   * Orders waiting to expire or reports not yet collected are not included,
+   * so take snapshots between matching passes.
+   */
+  getState(): OrderBookState {
+    return {
+      orders: Array.from(this.orders.values(), (order) => ({ ...order })),
+      stopOrders: this.triggers.getOrders().map((order) => ({ ...order })),
+      displayed: Array.from(this.displayed),
+      queue: Array.from(this.queue, ([orderId, position]) => [orderId, { ...position }]),
+      lastTradePrice: this.lastTradePrice,
+      bookId: this.bookId,
+      nextTradeId: this.nextTradeId,
+      nextSequence: this.nextSequence,
+    };
   }
 
   /**
-   * Get the best bid price (highest price)
-   * @returns Best bid price or null if no bids
+   * Replace the whole book with a snapshot captured with getState()
+   */
+  setState(state: OrderBookState): void {
+    this.bids.clear();
+    this.asks.clear();
+    this.orders.clear();
+    this.triggers = new TriggerBook();
+    this.immediate.clear();
+    this.fokChecked.clear();
+    this.expired = [];
+    this.selfTrades = [];
+
+    // Queue positions first: the heaps order by them
+    this.displayed = new Map(state.displayed);
+    this.queue = new Map(state.queue.map(([orderId, position]) => [orderId, { ...position }]));
+    this.lastTradePrice = state.lastTradePrice;
+    this.bookId = state.bookId;
+    this.nextTradeId = state.nextTradeId;
+    this.nextSequence = state.nextSequence;
+
+    for (const snapshot of state.orders) {
+      const order = { ...snapshot };
+      this.orders.set(order.id, order);
+      (order.side === 'buy' ? this.bids : this.asks).push(order);
+    }
+    for (const order of state.stopOrders) {
+      this.triggers.restore({ ...order });
+    }
+  }
+
+  /**
+   * Get stop orders that have not triggered yet
+   */
+  getStopOrders(): Order[] {
+    return this.triggers.getOrders();
+  }
+
+  /**
+   * Get the price of the most recent trade
+   * @returns Last trade price or null if nothing has traded
+   */
+  getLastTradePrice(): number | null {
+    return this.lastTradePrice;
+  }
+
+  /**
+   * Get the best displayed bid price (highest price)
+   * @returns Best bid price or null if no displayed bids
    */
   getBestBid(): number | null {
-    const bestBid = this.bids.peek();
+    const bestBid = this.getBestDisplayed(this.bids);
     if (!bestBid) {
       return null;
     }
@@ -285,11 +876,11 @@ export class OrderBook {
   }
 
   /**
-   * Get the best ask price (lowest price)
-   * @returns Best ask price or null if no asks
+   * Get the best displayed ask price (lowest price)
+   * @returns Best ask price or null if no displayed asks
    */
   getBestAsk(): number | null {
-    const bestAsk = this.asks.peek();
+    const bestAsk = this.getBestDisplayed(this.asks);
     if (!bestAsk) {
       return null;
     }
@@ -297,43 +888,129 @@ export class OrderBook {
   }
 
   /**
-   * Get all bids (for testing/inspection)
-   * @returns Array of all bids in priority order
+   * Get displayed bids (hidden orders left out, icebergs at their displayed slice)
+   * @returns Array of displayed bids in heap order
    */
   getBids(): Order[] {
-    return this.bids.toArray();
+    return this.getDisplayed(this.bids);
   }
 
   /**
-   * Get all asks (for testing/inspection)
-   * @returns Array of all asks in priority order
+   * Get displayed asks (hidden orders left out, icebergs at their displayed slice)
+   * @returns Array of displayed asks in heap order
    */
   getAsks(): Order[] {
-    return this.asks.toArray();
+    return this.getDisplayed(this.asks);
   }
 
   /**
-   * Get order by ID
+   * Get order by ID, including its hidden quantity (owner view)
    * @param orderId - Order ID
    * @returns Order or undefined if not found
    */
   getOrder(orderId: string): Order | undefined {
-    return this.orders.get(orderId);
+    return this.orders.get(orderId) ?? this.triggers.get(orderId);
   }
 
   /**
-   * Get total bid depth
-   * @returns Total quantity of all bids
+   * Get aggregated displayed price levels (Level 2 view)
+   * @param levels - Maximum number of levels per side (default: all)
+   * @returns Bids best-first (highest price) and asks best-first (lowest price)
+   */
+  getDepth(levels = Infinity): BookDepth {
+    return {
+      bids: aggregateLevels(this.getBids(), (a, b) => b - a, levels),
+      asks: aggregateLevels(this.getAsks(), (a, b) => a - b, levels),
+    };
+  }
+
+  /**
+   * Get total displayed bid depth
+   * @returns Total displayed quantity of all bids
    */
   getBidDepth(): number {
-    return this.bids.toArray().reduce((sum, order) => sum + order.quantity, 0);
+    return this.getBids().reduce((sum, order) => sum + order.quantity, 0);
   }
 
   /**
-   * Get total ask depth
-   * @returns Total quantity of all asks
+   * Get total displayed ask depth
+   * @returns Total displayed quantity of all asks
    */
   getAskDepth(): number {
-    return this.asks.toArray().reduce((sum, order) => sum + order.quantity, 0);
+    return this.getAsks().reduce((sum, order) => sum + order.quantity, 0);
+  }
+}
+
+/**
+ * Check that iceberg/hidden settings make sense for an order
+ * @throws Error if they do not
+ */
+function validateDisplay(order: Order): void {
+  if (order.displayQuantity === undefined && !order.hidden) {
+    return;
+  }
+  if (order.type !== 'limit' && order.type !== 'stop-limit') {
+    throw new Error('Only limit orders can be iceberg or hidden');
+  }
+  if (order.displayQuantity !== undefined && order.hidden) {
+    throw new Error('Orders cannot be both iceberg and hidden');
+  }
+  if (order.displayQuantity !== undefined && !(order.displayQuantity > 0)) {
+    throw new Error('Display quantity must be positive');
+  }
+}
+
+/**
+ * Check whether a resting order is acceptable to an incoming one
+ */
+function crosses(order: Order, resting: Order): boolean {
+  const [bid, ask] = order.side === 'buy' ? [order, resting] : [resting, order];
+  if (!withinPriceCap(bid, ask)) return false;
+  if (order.type === 'market' || resting.type === 'market') return true;
+  if (order.price === undefined || resting.price === undefined) return false;
+  return order.side === 'buy' ? resting.price <= order.price : resting.price >= order.price;
+}
+
+/**
+ * Heap rank of an order on its side: market orders ahead of limit orders
+ */
+function marketRank(order: Order): number {
+  return order.type === 'market' ? 0 : 1;
+}
+
+/**
+ * Check that a market buy carrying a price would not pay more than it
+ * (market buys trade at the ask)
+ */
+function withinPriceCap(bid: Order, ask: Order): boolean {
+  if (bid.type !== 'market' || bid.price === undefined || ask.price === undefined) return true;
+  return ask.price <= bid.price;
+}
+
+/**
+ * Aggregate orders into price levels, skipping unpriced (market) orders
+ */
+function aggregateLevels(
+  orders: Order[],
+  compare: (_a: number, _b: number) => number,
+  levels: number
+): PriceLevel[] {
+  const byPrice = new Map<number, PriceLevel>();
+
+  for (const order of orders) {
+    if (order.price === undefined) {
+      continue;
+    }
+    const level = byPrice.get(order.price);
+    if (level) {
+      level.quantity += order.quantity;
+      level.orderCount++;
+    } else {
+      byPrice.set(order.price, { price: order.price, quantity: order.quantity, orderCount: 1 });
+    }
   }
+
+  return Array.from(byPrice.values())
+    .sort((a, b) => compare(a.price, b.price))
+    .slice(0, levels);
 }
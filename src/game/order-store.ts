@@ -0,0 +1,419 @@
+/**
+ * Order lifecycle store
+ *
+ * Keeps every accepted order after it leaves the OrderBook so its final state
+ * stays queryable:
+ * - Status transitions: pending → partial → filled, or → cancelled/expired
+ * - Size cuts from self-trade prevention (quantity shrinks, fills stay)
+ * - Amendments to price and open quantity
+ * - When a stop order triggered, and the stop price it fired at
+ * - Filled/remaining quantity and volume-weighted average fill price
+ * - IDs of the trades that filled it
+ * - Per-player history, newest first
+ * - Which records changed since they were last saved
+ *
+ * prune() caps how many finished orders each player keeps in memory, so the
+ * store only grows with open orders.
+ */
+
+import type { OrderAmendment } from './order-book';
+import type { TriggerEvent } from './trigger-book';
+import type { Order, OrderResult, OrderStatus, Trade } from './types';
+
+/**
+ * Order with its fill history
+ *
+ * quantity is the original order size; remainingQuantity is what is still open.
+ */
+export interface OrderRecord extends Order {
+  filledQuantity: number;
+  remainingQuantity: number;
+  avgFillPrice: number | null;
+  tradeIds: string[];
+  updatedAt: number;
+}
+
+/**
+ * Status filter for order history; 'open' matches pending and partial orders
+ */
+export type OrderStatusFilter = OrderStatus | 'open';
+
+/**
+ * Options for paginated order history
+ */
+export interface OrderQuery {
+  status?: OrderStatusFilter;
+  offset?: number;
+  limit?: number;
+}
+
+/**
+ * One page of order history
+ */
+export interface OrderPage {
+  orders: OrderRecord[];
+  total: number;
+  offset: number;
+  limit: number;
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+const DEFAULT_MAX_CLOSED_PER_PLAYER = 1000;
+
+/**
+ * In-memory order store with per-player index
+ */
+export class OrderStore {
+  private records = new Map<string, OrderRecord>();
+  private byPlayer = new Map<string, string[]>(); // playerId -> orderIds, oldest first
+  private changed = new Set<string>(); // orderIds touched since the last takeChanges
+
+  /**
+   * @param maxClosedPerPlayer - Finished orders kept per player by prune()
+   */
+  constructor(private readonly maxClosedPerPlayer = DEFAULT_MAX_CLOSED_PER_PLAYER) {}
+
+  /**
+   * Record a newly accepted order
+   * @param order - Order as submitted (quantity is the original size)
+   * @returns The stored record
+   */
+  add(order: Order): OrderRecord {
+    const record: OrderRecord = {
+      ...order,
+      status: 'pending',
+      filledQuantity: 0,
+      remainingQuantity: order.quantity,
+      avgFillPrice: null,
+      tradeIds: [],
+      updatedAt: order.timestamp,
+    };
+
+    this.insert(record);
+    this.changed.add(order.id);
+    return { ...record, tradeIds: [...record.tradeIds] };
+  }
+
+  /**
+   * Load a record kept from an earlier run
+   *
+   * Records must be restored oldest first to keep history ordering. Restored
+   * records do not count as changed.
+   * @param record - Stored record
+   */
+  restore(record: OrderRecord): void {
+    this.insert({ ...record, tradeIds: [...record.tradeIds] });
+  }
+
+  /**
+   * Apply a trade to both of its orders
+   * @param trade - Executed trade
+   */
+  applyTrade(trade: Trade): void {
+    this.fill(trade.buyOrderId, trade);
+    this.fill(trade.sellOrderId, trade);
+  }
+
+  /**
+   * Apply a batch of trades in order
+   * @param trades - Executed trades
+   */
+  applyTrades(trades: Trade[]): void {
+    for (const trade of trades) {
+      this.applyTrade(trade);
+    }
+  }
+
+  /**
+   * Mark an open order as cancelled
+   * @param orderId - Order ID
+   * @returns true if the order was open and is now cancelled
+   */
+  cancel(orderId: string): boolean {
+    const record = this.records.get(orderId);
+    if (!record || !isOpen(record.status)) {
+      return false;
+    }
+
+    record.status = 'cancelled';
+    record.updatedAt = Date.now();
+    this.changed.add(record.id);
+    return true;
+  }
+
+  /**
+   * Mark an open order expired by its time in force
+   * @param orderId - Order ID
+   * @returns true if the order was open
+   */
+  expire(orderId: string): boolean {
+    const record = this.records.get(orderId);
+    if (!record || !isOpen(record.status)) {
+      return false;
+    }
+
+    record.status = 'expired';
+    record.updatedAt = Date.now();
+    this.changed.add(record.id);
+    return true;
+  }
+
+  /**
+   * Apply an amendment confirmed by the market
+   * @param orderId - Order ID
+   * @param amendment - New price and/or open quantity
+   * @returns true if the order was open
+   */
+  amend(orderId: string, amendment: OrderAmendment): boolean {
+    const record = this.records.get(orderId);
+    if (!record || !isOpen(record.status)) {
+      return false;
+    }
+
+    if (amendment.price !== undefined) {
+      record.price = amendment.price;
+    }
+    if (amendment.quantity !== undefined) {
+      record.quantity = record.filledQuantity + amendment.quantity;
+      record.remainingQuantity = amendment.quantity;
+    }
+    record.updatedAt = Date.now();
+    this.changed.add(record.id);
+    return true;
+  }
+
+  /**
+   * Shrink an open order, cancelling it when nothing is left
+   * @param orderId - Order ID
+   * @param quantity - Quantity taken off the order
+   * @returns true if the order was open
+   */
+  reduce(orderId: string, quantity: number): boolean {
+    const record = this.records.get(orderId);
+    if (!record || !isOpen(record.status)) {
+      return false;
+    }
+
+    record.quantity = Math.max(record.quantity - quantity, record.filledQuantity);
+    record.remainingQuantity = record.quantity - record.filledQuantity;
+    if (record.remainingQuantity === 0) {
+      record.status = 'cancelled';
+    }
+    record.updatedAt = Date.now();
+    this.changed.add(record.id);
+    return true;
+  }
+
+  /**
+   * Record that a stop order fired and is now live in the book
+   * @param event - Trigger event reported by the market
+   * @returns true if the order was open
+   */
+  markTriggered(event: TriggerEvent): boolean {
+    const record = this.records.get(event.orderId);
+    if (!record || !isOpen(record.status)) {
+      return false;
+    }
+
+    record.stopPrice = event.stopPrice;
+    record.triggeredAt = event.triggeredAt;
+    record.updatedAt = event.triggeredAt;
+    this.changed.add(record.id);
+    return true;
+  }
+
+  /**
+   * Forget an order that was never accepted by its market
+   * @param orderId - Order ID
+   * @returns true if the order was known
+   */
+  remove(orderId: string): boolean {
+    const record = this.records.get(orderId);
+    if (!record) {
+      return false;
+    }
+
+    this.records.delete(orderId);
+    this.changed.add(orderId);
+    const playerOrders = this.byPlayer.get(record.playerId) ?? [];
+    this.byPlayer.set(
+      record.playerId,
+      playerOrders.filter((id) => id !== orderId)
+    );
+    return true;
+  }
+
+  /**
+   * Forget each player's oldest finished orders beyond the cap
+   *
+   * Unlike remove(), pruned orders are not reported by takeChanges(): they
+   * stay wherever they were saved. Orders changed since the last
+   * takeChanges() are kept until they have been collected.
+   * @returns Number of orders forgotten
+   */
+  prune(): number {
+    let pruned = 0;
+
+    const isClosed = (orderId: string) => {
+      const record = this.records.get(orderId);
+      return record !== undefined && !isOpen(record.status);
+    };
+
+    for (const [playerId, ids] of this.byPlayer) {
+      let closed = ids.filter(isClosed).length;
+      if (closed <= this.maxClosedPerPlayer) continue;
+
+      // Oldest first, so the newest finished orders are kept
+      const kept = ids.filter((id) => {
+        if (closed <= this.maxClosedPerPlayer || this.changed.has(id) || !isClosed(id)) {
+          return true;
+        }
+
+        this.records.delete(id);
+        closed--;
+        pruned++;
+        return false;
+      });
+
+      if (kept.length > 0) {
+        this.byPlayer.set(playerId, kept);
+      } else {
+        this.byPlayer.delete(playerId);
+      }
+    }
+
+    return pruned;
+  }
+
+  /**
+   * Get an order by ID
+   * @param orderId - Order ID
+   * @returns Copy of the record or undefined if unknown
+   */
+  get(orderId: string): OrderRecord | undefined {
+    const record = this.records.get(orderId);
+    return record ? { ...record, tradeIds: [...record.tradeIds] } : undefined;
+  }
+
+  /**
+   * Get a page of a player's orders, newest first
+   * @param playerId - Player ID
+   * @param query - Status filter and pagination
+   * @returns Page of matching orders and the total match count
+   */
+  getPlayerOrders(playerId: string, query: OrderQuery = {}): OrderPage {
+    const offset = Math.max(query.offset ?? 0, 0);
+    const limit = Math.min(Math.max(query.limit ?? DEFAULT_PAGE_SIZE, 1), MAX_PAGE_SIZE);
+    const status = query.status;
+
+    const matching: OrderRecord[] = [];
+    const ids = this.byPlayer.get(playerId) ?? [];
+
+    for (let i = ids.length - 1; i >= 0; i--) {
+      const record = this.records.get(ids[i]);
+      if (!record) continue;
+      if (status === 'open' ? !isOpen(record.status) : status && record.status !== status) {
+        continue;
+      }
+      matching.push(record);
+    }
+
+    return {
+      orders: matching
+        .slice(offset, offset + limit)
+        .map((r) => ({ ...r, tradeIds: [...r.tradeIds] })),
+      total: matching.length,
+      offset,
+      limit,
+    };
+  }
+
+  /**
+   * Get every pending or partially filled order, oldest first
+   */
+  getOpenOrders(): OrderRecord[] {
+    return Array.from(this.records.values())
+      .filter((record) => isOpen(record.status))
+      .map((record) => ({ ...record, tradeIds: [...record.tradeIds] }));
+  }
+
+  /**
+   * Collect the orders changed since the last call
+   * @returns Current records of changed orders, and IDs of removed ones
+   */
+  takeChanges(): { changed: OrderRecord[]; removed: string[] } {
+    const changed: OrderRecord[] = [];
+    const removed: string[] = [];
+
+    for (const orderId of this.changed) {
+      const record = this.get(orderId);
+      if (record) {
+        changed.push(record);
+      } else {
+        removed.push(orderId);
+      }
+    }
+
+    this.changed.clear();
+    return { changed, removed };
+  }
+
+  /**
+   * Build the submission result for an order
+   * @param orderId - Order ID
+   * @param trades - Trades to report alongside (e.g. fills on entry)
+   * @returns OrderResult or undefined if the order is unknown
+   */
+  toResult(orderId: string, trades: Trade[] = []): OrderResult | undefined {
+    const record = this.records.get(orderId);
+    if (!record) {
+      return undefined;
+    }
+
+    return {
+      orderId,
+      status: record.status,
+      filledQuantity: record.filledQuantity,
+      avgPrice: record.avgFillPrice ?? 0,
+      trades: trades.filter((t) => t.buyOrderId === orderId || t.sellOrderId === orderId),
+    };
+  }
+
+  private insert(record: OrderRecord): void {
+    this.records.set(record.id, record);
+
+    const playerOrders = this.byPlayer.get(record.playerId) ?? [];
+    playerOrders.push(record.id);
+    this.byPlayer.set(record.playerId, playerOrders);
+  }
+
+  private fill(orderId: string, trade: Trade): void {
+    const record = this.records.get(orderId);
+    if (!record || record.tradeIds.includes(trade.id)) {
+      return;
+    }
+
+    const previousNotional = (record.avgFillPrice ?? 0) * record.filledQuantity;
+
+    record.filledQuantity += trade.quantity;
+    record.remainingQuantity = Math.max(record.quantity - record.filledQuantity, 0);
+    record.avgFillPrice = (previousNotional + trade.price * trade.quantity) / record.filledQuantity;
+    record.tradeIds.push(trade.id);
+    record.status = record.remainingQuantity === 0 ? 'filled' : 'partial';
+    record.updatedAt = trade.timestamp;
+    this.changed.add(record.id);
+  }
+}
+
+function isOpen(status: OrderStatus): boolean {
+  return status === 'pending' || status === 'partial';
+}
+
+/**
+ * Factory function to create an order store
+ * @param maxClosedPerPlayer - Finished orders kept per player by prune()
+ */
+export function createOrderStore(maxClosedPerPlayer?: number): OrderStore {
+  return new OrderStore(maxClosedPerPlayer);
+}
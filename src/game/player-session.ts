@@ -19,9 +19,15 @@ export interface PlayerSessionState {
  *
  * Uses plain object for state updates within a single worker
  * Prevents negative balances and inventory via validation
+ *
+ * Funds and items backing resting orders are tracked as reservations: they stay
+ * part of balance/inventory until consumed by a fill, but are no longer
+ * available for new orders or direct debits.
  */
 export class PlayerSession {
   private state: PlayerSessionState;
+  private reservedBalance = 0;
+  private reservedInventory = new Map<string, number>();
 
   /**
    * Create a new player session
@@ -60,9 +66,9 @@ export class PlayerSession {
   updateBalance(delta: number): void {
     const newBalance = this.state.balance + delta;
 
-    if (newBalance < 0) {
+    if (newBalance < this.reservedBalance) {
       throw new Error(
-        `Insufficient balance: cannot update from ${this.state.balance} to ${newBalance} (delta: ${delta})`
+        `Insufficient balance: cannot update from ${this.state.balance} to ${newBalance} (delta: ${delta}, reserved: ${this.reservedBalance})`
       );
     }
 
@@ -87,10 +93,11 @@ export class PlayerSession {
   updateInventory(itemId: string, delta: number): void {
     const currentQuantity = this.state.inventory.get(itemId) ?? 0;
     const newQuantity = currentQuantity + delta;
+    const reserved = this.getReservedInventory(itemId);
 
-    if (newQuantity < 0) {
+    if (newQuantity < reserved) {
       throw new Error(
-        `Insufficient inventory: cannot update ${itemId} from ${currentQuantity} to ${newQuantity} (delta: ${delta})`
+        `Insufficient inventory: cannot update ${itemId} from ${currentQuantity} to ${newQuantity} (delta: ${delta}, reserved: ${reserved})`
       );
     }
 
@@ -120,6 +127,128 @@ export class PlayerSession {
     return this.getInventory(itemId) >= quantity;
   }
 
+  /**
+   * Get balance reserved for resting orders
+   */
+  getReservedBalance(): number {
+    return this.reservedBalance;
+  }
+
+  /**
+   * Get balance not reserved by resting orders
+   */
+  getAvailableBalance(): number {
+    return this.state.balance - this.reservedBalance;
+  }
+
+  /**
+   * Reserve funds for a resting order
+   * @param amount - Amount to reserve
+   * @throws Error if the amount is not positive or available balance is below it
+   */
+  reserveBalance(amount: number): void {
+    if (!(amount > 0)) {
+      throw new Error(`Reserved amount must be positive (got ${amount})`);
+    }
+    if (amount > this.getAvailableBalance()) {
+      throw new Error(
+        `Insufficient available balance: cannot reserve ${amount} (available: ${this.getAvailableBalance()})`
+      );
+    }
+
+    this.reservedBalance += amount;
+  }
+
+  /**
+   * Release previously reserved funds back to the available balance
+   * @param amount - Amount to release (clamped to the reserved total)
+   */
+  releaseBalance(amount: number): void {
+    this.reservedBalance = Math.max(this.reservedBalance - amount, 0);
+  }
+
+  /**
+   * Get quantity of an item reserved for resting orders
+   * @param itemId - Item identifier
+   * @returns Reserved quantity (0 if none)
+   */
+  getReservedInventory(itemId: string): number {
+    return this.reservedInventory.get(itemId) ?? 0;
+  }
+
+  /**
+   * Get quantity of an item not reserved by resting orders
+   * @param itemId - Item identifier
+   * @returns Available quantity
+   */
+  getAvailableInventory(itemId: string): number {
+    return this.getInventory(itemId) - this.getReservedInventory(itemId);
+  }
+
+  /**
+   * Reserve items for a resting order
+   * @param itemId - Item identifier
+   * @param quantity - Quantity to reserve
+   * @throws Error if the quantity is not positive or available inventory is below it
+   */
+  reserveInventory(itemId: string, quantity: number): void {
+    if (!(quantity > 0)) {
+      throw new Error(`Reserved quantity must be positive (got ${quantity})`);
+    }
+
+    const available = this.getAvailableInventory(itemId);
+
+    if (quantity > available) {
+      throw new Error(
+        `Insufficient available inventory: cannot reserve ${quantity} ${itemId} (available: ${available})`
+      );
+    }
+
+    this.reservedInventory.set(itemId, this.getReservedInventory(itemId) + quantity);
+  }
+
+  /**
+   * Release previously reserved items back to available inventory
+   * @param itemId - Item identifier
+   * @param quantity - Quantity to release (clamped to the reserved total)
+   */
+  releaseInventory(itemId: string, quantity: number): void {
+    const remaining = this.getReservedInventory(itemId) - quantity;
+
+    if (remaining <= 0) {
+      this.reservedInventory.delete(itemId);
+    } else {
+      this.reservedInventory.set(itemId, remaining);
+    }
+  }
+
+  /**
+   * Check if player has enough unreserved balance for a new order
+   * @param amount - Required amount
+   * @returns True if available balance >= amount
+   */
+  hasAvailableBalance(amount: number): boolean {
+    return this.getAvailableBalance() >= amount;
+  }
+
+  /**
+   * Check if player has enough unreserved quantity of an item for a new order
+   * @param itemId - Item identifier
+   * @param quantity - Required quantity
+   * @returns True if available inventory >= quantity
+   */
+  hasAvailableInventory(itemId: string, quantity: number): boolean {
+    return this.getAvailableInventory(itemId) >= quantity;
+  }
+
+  /**
+   * Get all reserved inventory items
+   * @returns Copy of reserved inventory map (defensive copy)
+   */
+  getAllReservedInventory(): Map<string, number> {
+    return new Map(this.reservedInventory);
+  }
+
   /**
    * Get all inventory items
    * @returns Copy of inventory map (defensive copy)
@@ -141,6 +270,7 @@ export class PlayerSession {
 
   /**
    * Set player state (for initialization or reset)
+   * Clears all reservations.
    * @param newState - New state to set
    */
   setState(newState: PlayerSessionState): void {
@@ -148,6 +278,8 @@ export class PlayerSession {
       balance: newState.balance,
       inventory: new Map(newState.inventory),
     };
+    this.reservedBalance = 0;
+    this.reservedInventory.clear();
   }
 
   /**
@@ -0,0 +1,333 @@
+/**
+ * Portfolio Tracker - mark-to-market valuation and leaderboard
+ *
+ * Values every player at current market prices:
+ * - Net worth: cash balance plus inventory at the latest price
+ * - Realized PnL: gains locked in by sells, against the average cost paid
+ * - Unrealized PnL: inventory value minus what it cost
+ * - Return since start, and a Sharpe-like risk-adjusted return (mean over
+ *   standard deviation of net worth changes between samples, no risk-free rate)
+ *
+ * Cost basis is built from settled fills. Inventory the tracker has not seen
+ * bought (e.g. kept from before tracking started) is costed at the price it
+ * is first valued at.
+ */
+
+import type { SessionResolver, SettlementResult } from './settlement';
+import type { Trade } from './types';
+
+/**
+ * Resolves an item to its current market price
+ */
+export type PriceResolver = (_itemId: string) => number | undefined;
+
+export type LeaderboardSort = 'net-worth' | 'return' | 'risk-adjusted' | 'trades';
+
+/**
+ * Held quantity of one item and what was paid for it in total
+ */
+export interface PositionCost {
+  quantity: number;
+  cost: number;
+}
+
+/**
+ * What the tracker keeps per player between valuations
+ */
+export interface PortfolioStats {
+  startingValue: number;
+  realizedPnl: number;
+  tradeCount: number;
+  positions: Record<string, PositionCost>;
+}
+
+/**
+ * A player's portfolio valued at current prices
+ */
+export interface PortfolioValuation {
+  playerId: string;
+  cash: number;
+  holdingsValue: number;
+  netWorth: number;
+  startingValue: number;
+  realizedPnl: number;
+  unrealizedPnl: number;
+  returnPct: number;
+  riskAdjustedReturn: number | null; // null until enough samples
+  tradeCount: number;
+}
+
+export interface LeaderboardEntry extends PortfolioValuation {
+  rank: number;
+}
+
+export interface PortfolioTrackerConfig {
+  startingValue: number; // Net worth players start with
+  maxSamples: number; // Net worth changes kept per player for risk-adjusted return
+  minSamples: number; // Changes needed before a risk-adjusted return is reported
+}
+
+/**
+ * Tracks cost basis and net worth history per player
+ */
+export class PortfolioTracker {
+  private config: PortfolioTrackerConfig;
+  private stats = new Map<string, PortfolioStats>();
+  private lastNetWorth = new Map<string, number>();
+  private returns = new Map<string, number[]>();
+
+  /**
+   * @param resolveSession - Lookup for a player's cash and inventory
+   * @param resolvePrice - Lookup for an item's current price
+   * @param config - Starting value and sampling settings
+   */
+  constructor(
+    private readonly resolveSession: SessionResolver,
+    private readonly resolvePrice: PriceResolver,
+    config?: Partial<PortfolioTrackerConfig>
+  ) {
+    this.config = {
+      startingValue: 100000,
+      maxSamples: 300,
+      minSamples: 10,
+      ...config,
+    };
+  }
+
+  /**
+   * Start tracking a player from a given starting value (e.g. a competition
+   * round's starting cash and inventory)
+   * @param playerId - Player ID
+   * @param startingValue - Net worth the player starts with
+   * @param positions - Starting inventory and what it is valued at
+   */
+  open(
+    playerId: string,
+    startingValue: number,
+    positions: Record<string, PositionCost> = {}
+  ): void {
+    this.stats.set(playerId, {
+      startingValue,
+      realizedPnl: 0,
+      tradeCount: 0,
+      positions: structuredClone(positions),
+    });
+    this.lastNetWorth.delete(playerId);
+    this.returns.delete(playerId);
+  }
+
+  /**
+   * Bring back stats kept from an earlier run
+   */
+  restore(playerId: string, stats: PortfolioStats): void {
+    this.stats.set(playerId, structuredClone(stats));
+  }
+
+  /**
+   * Get a copy of a player's stats (to store them)
+   */
+  getStats(playerId: string): PortfolioStats | undefined {
+    const stats = this.stats.get(playerId);
+    return stats ? structuredClone(stats) : undefined;
+  }
+
+  /**
+   * Update cost basis, realized PnL and trade counts from settled fills
+   * @param trades - Trades in the order they were settled
+   * @param results - Settlement outcome of each trade; unsettled ones are skipped
+   */
+  recordFills(trades: Trade[], results: SettlementResult[]): void {
+    trades.forEach((trade, i) => {
+      const result = results[i];
+      if (!result?.settled || !result.buyerId || !result.sellerId) return;
+
+      this.recordBuy(result.buyerId, trade);
+      this.recordSell(result.sellerId, trade);
+    });
+  }
+
+  /**
+   * Value a player's portfolio at current prices
+   * @returns Valuation, or null if the player has no session
+   */
+  value(playerId: string): PortfolioValuation | null {
+    const session = this.resolveSession(playerId);
+    if (!session) return null;
+
+    const stats = this.getOrCreate(playerId);
+    let holdingsValue = 0;
+    let cost = 0;
+
+    for (const [itemId, quantity] of session.getAllInventory()) {
+      const price = this.resolvePrice(itemId);
+      const position = this.reconcile(stats, itemId, quantity, price);
+
+      // Items without a market price count at what they cost
+      holdingsValue += price !== undefined ? quantity * price : position.cost;
+      cost += position.cost;
+    }
+
+    const cash = session.getBalance();
+    const netWorth = cash + holdingsValue;
+    return {
+      playerId,
+      cash,
+      holdingsValue,
+      netWorth,
+      startingValue: stats.startingValue,
+      realizedPnl: stats.realizedPnl,
+      unrealizedPnl: holdingsValue - cost,
+      returnPct: ((netWorth - stats.startingValue) / stats.startingValue) * 100,
+      riskAdjustedReturn: this.riskAdjustedReturn(playerId),
+      tradeCount: stats.tradeCount,
+    };
+  }
+
+  /**
+   * Record one net worth observation per player for the risk-adjusted return
+   *
+   * Call at a steady interval; each call adds the change since the previous one.
+   * @param playerIds - Players to sample
+   */
+  sample(playerIds: Iterable<string>): void {
+    for (const playerId of playerIds) {
+      const valuation = this.value(playerId);
+      if (!valuation) continue;
+
+      const previous = this.lastNetWorth.get(playerId);
+      this.lastNetWorth.set(playerId, valuation.netWorth);
+      if (previous === undefined || previous <= 0) continue;
+
+      const returns = this.returns.get(playerId) ?? [];
+      returns.push(valuation.netWorth / previous - 1);
+      if (returns.length > this.config.maxSamples) returns.shift();
+      this.returns.set(playerId, returns);
+    }
+  }
+
+  /**
+   * Rank players by a metric, best first
+   * @param playerIds - Players to rank
+   * @param sort - Metric to rank by (default: net worth)
+   * @param limit - Max entries (default: all)
+   */
+  getLeaderboard(
+    playerIds: Iterable<string>,
+    sort: LeaderboardSort = 'net-worth',
+    limit = Infinity
+  ): LeaderboardEntry[] {
+    const valuations: PortfolioValuation[] = [];
+    for (const playerId of playerIds) {
+      const valuation = this.value(playerId);
+      if (valuation) valuations.push(valuation);
+    }
+
+    // Ties (and players without a risk-adjusted return yet) fall back to net worth
+    valuations.sort(
+      (a, b) =>
+        metric(b, sort) - metric(a, sort) ||
+        b.netWorth - a.netWorth ||
+        a.playerId.localeCompare(b.playerId)
+    );
+
+    return valuations.slice(0, limit).map((valuation, i) => ({ ...valuation, rank: i + 1 }));
+  }
+
+  private recordBuy(playerId: string, trade: Trade): void {
+    const stats = this.getOrCreate(playerId);
+    const position = stats.positions[trade.itemId] ?? { quantity: 0, cost: 0 };
+    position.quantity += trade.quantity;
+    position.cost += trade.quantity * trade.price;
+    stats.positions[trade.itemId] = position;
+    stats.tradeCount++;
+  }
+
+  private recordSell(playerId: string, trade: Trade): void {
+    const stats = this.getOrCreate(playerId);
+    stats.tradeCount++;
+
+    const position = stats.positions[trade.itemId];
+    if (!position) return;
+
+    // Items sold beyond the tracked position have no known cost: no realized PnL
+    const sold = Math.min(trade.quantity, position.quantity);
+    const averageCost = position.cost / position.quantity;
+    stats.realizedPnl += sold * (trade.price - averageCost);
+    position.quantity -= sold;
+    position.cost -= sold * averageCost;
+
+    if (position.quantity <= 0) delete stats.positions[trade.itemId];
+  }
+
+  /**
+   * Line the tracked position up with the inventory the player actually holds
+   */
+  private reconcile(
+    stats: PortfolioStats,
+    itemId: string,
+    quantity: number,
+    price: number | undefined
+  ): PositionCost {
+    const position = stats.positions[itemId] ?? { quantity: 0, cost: 0 };
+
+    if (quantity > position.quantity) {
+      // Unknown cost is taken at the first price seen, so wait for one
+      if (price === undefined) return position;
+      position.cost += (quantity - position.quantity) * price;
+    } else if (quantity < position.quantity) {
+      position.cost *= quantity / position.quantity;
+    }
+
+    position.quantity = quantity;
+    stats.positions[itemId] = position;
+    return position;
+  }
+
+  private riskAdjustedReturn(playerId: string): number | null {
+    const returns = this.returns.get(playerId) ?? [];
+    if (returns.length < this.config.minSamples) return null;
+
+    const mean = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+    const variance = returns.reduce((sum, r) => sum + (r - mean) ** 2, 0) / returns.length;
+    const stdDev = Math.sqrt(variance);
+    return stdDev > 0 ? mean / stdDev : null;
+  }
+
+  private getOrCreate(playerId: string): PortfolioStats {
+    let stats = this.stats.get(playerId);
+    if (!stats) {
+      stats = {
+        startingValue: this.config.startingValue,
+        realizedPnl: 0,
+        tradeCount: 0,
+        positions: {},
+      };
+      this.stats.set(playerId, stats);
+    }
+    return stats;
+  }
+}
+
+function metric(valuation: PortfolioValuation, sort: LeaderboardSort): number {
+  switch (sort) {
+    case 'net-worth':
+      return valuation.netWorth;
+    case 'return':
+      return valuation.returnPct;
+    case 'risk-adjusted':
+      return valuation.riskAdjustedReturn ?? -Infinity;
+    case 'trades':
+      return valuation.tradeCount;
+  }
+}
+
+/**
+ * Factory function to create a portfolio tracker
+ */
+export function createPortfolioTracker(
+  resolveSession: SessionResolver,
+  resolvePrice: PriceResolver,
+  config?: Partial<PortfolioTrackerConfig>
+): PortfolioTracker {
+  return new PortfolioTracker(resolveSession, resolvePrice, config);
+}
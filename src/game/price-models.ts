@@ -0,0 +1,346 @@
+/**
+ * Price Models - stochastic processes that drive MarketEngine prices
+ *
+ * Implements:
+ * - GBM (geometric Brownian motion, the original behaviour)
+ * - Merton jump-diffusion (GBM plus Poisson-timed log-normal jumps)
+ * - Ornstein-Uhlenbeck mean reversion (log price pulled toward a level)
+ * - Heston-style stochastic volatility (variance follows its own CIR process)
+ * - Markov regime switching (drift/volatility jump between named regimes)
+ *
+ * Models only produce the next price; order flow pressure and the price
+ * floor stay in MarketEngine. Parameters are annualised like the engine's
+ * drift and volatility, and configs are plain data so they can be posted to
+ * market workers and stored in ItemMetadata.
+ */
+
+/**
+ * Inputs for one simulation step
+ */
+export interface PriceStepContext {
+  dt: number;
+  drift: number; // Engine drift (μ)
+  volatility: number; // Engine volatility (σ)
+  normal(): number; // Standard normal draw
+  uniform(): number; // Uniform draw in [0, 1)
+}
+
+/**
+ * A stochastic process advancing the price by one step
+ *
+ * Models that carry state between steps expose it as a single number (null
+ * while unset) so a market snapshot can capture and restore it.
+ */
+export interface PriceModel {
+  readonly type: PriceModelConfig['type'];
+  step(price: number, context: PriceStepContext): number;
+  getState?(): number | null;
+  setState?(state: number | null): void;
+}
+
+export interface GbmConfig {
+  type: 'gbm';
+}
+
+export interface JumpDiffusionConfig {
+  type: 'jump-diffusion';
+  jumpIntensity: number; // Expected jumps per unit time (λ)
+  jumpMean: number; // Mean log jump size (μJ)
+  jumpStdDev: number; // Std dev of log jump size (σJ)
+}
+
+export interface MeanReversionConfig {
+  type: 'mean-reversion';
+  speed: number; // Reversion speed (θ)
+  mean?: number; // Long-run price level (defaults to the first price seen)
+}
+
+export interface StochasticVolatilityConfig {
+  type: 'stochastic-volatility';
+  kappa: number; // Variance reversion speed (κ)
+  theta?: number; // Long-run variance (defaults to σ²)
+  xi: number; // Volatility of variance (ξ)
+  rho: number; // Correlation between price and variance shocks (ρ)
+  initialVariance?: number; // Defaults to theta
+}
+
+export interface Regime {
+  name: string;
+  drift: number;
+  volatility: number;
+  meanDuration: number; // Expected time spent in the regime before switching
+}
+
+export interface RegimeSwitchingConfig {
+  type: 'regime-switching';
+  regimes: Regime[];
+  initialRegime?: number;
+}
+
+export type PriceModelConfig =
+  | GbmConfig
+  | JumpDiffusionConfig
+  | MeanReversionConfig
+  | StochasticVolatilityConfig
+  | RegimeSwitchingConfig;
+
+/**
+ * Engine parameter a price model can step with
+ */
+export type ModelParameter = 'drift' | 'volatility';
+
+/**
+ * Geometric Brownian motion
+ *
+ * S(t+1) = S(t) * exp((μ - σ²/2) * dt + σ * ε * sqrt(dt))
+ */
+export class GbmModel implements PriceModel {
+  readonly type = 'gbm';
+
+  step(price: number, { dt, drift, volatility, normal }: PriceStepContext): number {
+    return gbmStep(price, drift, volatility, dt, normal());
+  }
+}
+
+/**
+ * Merton jump-diffusion
+ *
+ * GBM compensated for the expected jump, plus N ~ Poisson(λ * dt) jumps
+ * each with log size ~ N(μJ, σJ²):
+ * k = exp(μJ + σJ²/2) - 1
+ * S(t+1) = S(t) * exp((μ - σ²/2 - λk) * dt + σ * ε * sqrt(dt) + Σ Yi)
+ */
+export class JumpDiffusionModel implements PriceModel {
+  readonly type = 'jump-diffusion';
+
+  constructor(private readonly config: JumpDiffusionConfig) {}
+
+  step(price: number, context: PriceStepContext): number {
+    const { dt, drift, volatility, normal, uniform } = context;
+    const { jumpIntensity, jumpMean, jumpStdDev } = this.config;
+
+    const k = Math.exp(jumpMean + (jumpStdDev * jumpStdDev) / 2) - 1;
+    const jumps = poisson(jumpIntensity * dt, uniform);
+
+    let jumpReturn = 0;
+    for (let i = 0; i < jumps; i++) {
+      jumpReturn += jumpMean + jumpStdDev * normal();
+    }
+
+    const logReturn =
+      (drift - (volatility * volatility) / 2 - jumpIntensity * k) * dt +
+      volatility * normal() * Math.sqrt(dt) +
+      jumpReturn;
+
+    return price * Math.exp(logReturn);
+  }
+}
+
+/**
+ * Ornstein-Uhlenbeck mean reversion on log price
+ *
+ * x = ln S
+ * x(t+1) = x(t) + θ * (ln m - x(t)) * dt + σ * ε * sqrt(dt)
+ */
+export class MeanReversionModel implements PriceModel {
+  readonly type = 'mean-reversion';
+  private mean: number | undefined;
+
+  constructor(private readonly config: MeanReversionConfig) {
+    this.mean = config.mean;
+  }
+
+  step(price: number, { dt, volatility, normal }: PriceStepContext): number {
+    this.mean ??= price;
+
+    const x = Math.log(price);
+    const next = x + this.config.speed * (Math.log(this.mean) - x) * dt;
+
+    return Math.exp(next + volatility * normal() * Math.sqrt(dt));
+  }
+
+  /**
+   * Get the level prices revert to (undefined until the first step)
+   */
+  getMean(): number | undefined {
+    return this.mean;
+  }
+
+  getState(): number | null {
+    return this.mean ?? null;
+  }
+
+  setState(state: number | null): void {
+    this.mean = state ?? undefined;
+  }
+}
+
+/**
+ * Heston-style stochastic volatility (full-truncation Euler scheme)
+ *
+ * v(t+1) = v + κ * (θ - v⁺) * dt + ξ * sqrt(v⁺) * z2 * sqrt(dt)
+ * S(t+1) = S(t) * exp((μ - v⁺/2) * dt + sqrt(v⁺) * z1 * sqrt(dt))
+ * where z2 = ρ * z1 + sqrt(1 - ρ²) * ε, v⁺ = max(v, 0)
+ */
+export class StochasticVolatilityModel implements PriceModel {
+  readonly type = 'stochastic-volatility';
+  private variance: number | undefined;
+
+  constructor(private readonly config: StochasticVolatilityConfig) {
+    this.variance = config.initialVariance ?? config.theta;
+  }
+
+  step(price: number, { dt, drift, volatility, normal }: PriceStepContext): number {
+    const theta = this.config.theta ?? volatility * volatility;
+    this.variance ??= theta;
+
+    const { kappa, xi, rho } = this.config;
+    const v = Math.max(this.variance, 0);
+
+    const z1 = normal();
+    const z2 = rho * z1 + Math.sqrt(1 - rho * rho) * normal();
+
+    this.variance = v + kappa * (theta - v) * dt + xi * Math.sqrt(v) * z2 * Math.sqrt(dt);
+
+    return price * Math.exp((drift - v / 2) * dt + Math.sqrt(v) * z1 * Math.sqrt(dt));
+  }
+
+  /**
+   * Get the current instantaneous volatility (sqrt of variance)
+   */
+  getCurrentVolatility(): number | undefined {
+    return this.variance === undefined ? undefined : Math.sqrt(Math.max(this.variance, 0));
+  }
+
+  getState(): number | null {
+    return this.variance ?? null;
+  }
+
+  setState(state: number | null): void {
+    this.variance = state ?? undefined;
+  }
+}
+
+/**
+ * Markov regime switching between GBM regimes
+ *
+ * Each step leaves the current regime with probability dt / meanDuration and
+ * moves to one of the other regimes uniformly at random, then takes a GBM
+ * step with that regime's drift and volatility.
+ */
+export class RegimeSwitchingModel implements PriceModel {
+  readonly type = 'regime-switching';
+  private regime: number;
+
+  constructor(private readonly config: RegimeSwitchingConfig) {
+    if (config.regimes.length === 0) {
+      throw new Error('Regime switching requires at least one regime');
+    }
+    this.regime = config.initialRegime ?? 0;
+    if (!config.regimes[this.regime]) {
+      throw new Error(`Unknown initial regime: ${this.regime}`);
+    }
+  }
+
+  step(price: number, { dt, normal, uniform }: PriceStepContext): number {
+    const { regimes } = this.config;
+    const current = regimes[this.regime];
+
+    if (regimes.length > 1 && uniform() < dt / current.meanDuration) {
+      const offset = 1 + Math.floor(uniform() * (regimes.length - 1));
+      this.regime = (this.regime + offset) % regimes.length;
+    }
+
+    const active = regimes[this.regime];
+    return gbmStep(price, active.drift, active.volatility, dt, normal());
+  }
+
+  /**
+   * Get the active regime
+   */
+  getRegime(): Regime {
+    return this.config.regimes[this.regime];
+  }
+
+  getState(): number | null {
+    return this.regime;
+  }
+
+  setState(state: number | null): void {
+    if (state !== null && this.config.regimes[state]) {
+      this.regime = state;
+    }
+  }
+}
+
+function gbmStep(
+  price: number,
+  drift: number,
+  volatility: number,
+  dt: number,
+  epsilon: number
+): number {
+  const driftTerm = (drift - (volatility * volatility) / 2) * dt;
+  const diffusionTerm = volatility * epsilon * Math.sqrt(dt);
+  return price * Math.exp(driftTerm + diffusionTerm);
+}
+
+/**
+ * Draw from Poisson(lambda) using Knuth's method (fine for small lambda)
+ */
+function poisson(lambda: number, uniform: () => number): number {
+  if (lambda <= 0) return 0;
+
+  const limit = Math.exp(-lambda);
+  let count = 0;
+  let product = uniform();
+
+  while (product > limit) {
+    count++;
+    product *= uniform();
+  }
+
+  return count;
+}
+
+/**
+ * Get the engine parameters a price model steps with; changing the others
+ * has no effect on its prices
+ *
+ * Mean reversion pulls toward its level instead of drifting, stochastic
+ * volatility only reads the engine volatility when it has no theta, and
+ * regime switching takes both from its regimes.
+ * @param config - Model config (GBM if omitted)
+ */
+export function getModelParameters(config: PriceModelConfig = { type: 'gbm' }): ModelParameter[] {
+  switch (config.type) {
+    case 'gbm':
+    case 'jump-diffusion':
+      return ['drift', 'volatility'];
+    case 'mean-reversion':
+      return ['volatility'];
+    case 'stochastic-volatility':
+      return config.theta === undefined ? ['drift', 'volatility'] : ['drift'];
+    case 'regime-switching':
+      return [];
+  }
+}
+
+/**
+ * Factory function to create a price model from its config
+ * @param config - Model selection and parameters (GBM if omitted)
+ */
+export function createPriceModel(config: PriceModelConfig = { type: 'gbm' }): PriceModel {
+  switch (config.type) {
+    case 'gbm':
+      return new GbmModel();
+    case 'jump-diffusion':
+      return new JumpDiffusionModel(config);
+    case 'mean-reversion':
+      return new MeanReversionModel(config);
+    case 'stochastic-volatility':
+      return new StochasticVolatilityModel(config);
+    case 'regime-switching':
+      return new RegimeSwitchingModel(config);
+  }
+}
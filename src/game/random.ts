@@ -0,0 +1,95 @@
+/**
+ * Seedable pseudo-random number generation
+ *
+ * Uses Mulberry32: a 32-bit state, fast, and good enough for price
+ * simulation. The whole generator state is one integer, so it can be
+ * snapshotted, posted to a worker or persisted and later restored to replay
+ * the exact same sequence.
+ */
+
+/**
+ * Source of uniform random numbers in [0, 1)
+ */
+export interface RandomSource {
+  next(): number;
+  getState(): number;
+  setState(state: number): void;
+}
+
+/**
+ * Mulberry32 generator
+ */
+export class SeededRandom implements RandomSource {
+  private state: number;
+
+  /**
+   * @param seed - Any number; only the low 32 bits are used
+   */
+  constructor(private readonly seed: number) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Next uniform value in [0, 1)
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Get the seed this generator started from
+   */
+  getSeed(): number {
+    return this.seed;
+  }
+
+  /**
+   * Snapshot the generator state
+   */
+  getState(): number {
+    return this.state;
+  }
+
+  /**
+   * Restore a state captured with getState()
+   */
+  setState(state: number): void {
+    this.state = state >>> 0;
+  }
+}
+
+/**
+ * Pick a fresh seed for runs that do not ask for one
+ */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+/**
+ * Derive an independent seed for a named stream (e.g. one per item)
+ * @param seed - Base seed
+ * @param key - Stream name
+ *
+ * FNV-1a over the key, mixed with the base seed, so every item in a seeded
+ * run gets its own reproducible price path.
+ */
+export function deriveSeed(seed: number, key: string): number {
+  let hash = (0x811c9dc5 ^ seed) >>> 0;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+/**
+ * Factory function to create a seeded generator
+ * @param seed - Seed to start from (random if omitted)
+ */
+export function createSeededRandom(seed: number = randomSeed()): SeededRandom {
+  return new SeededRandom(seed);
+}
@@ -0,0 +1,129 @@
+/**
+ * Game state repository
+ *
+ * Durable storage for everything that must survive a restart:
+ * - Accounts and player portfolios (balance and inventory)
+ * - Portfolio stats behind the leaderboard (cost basis, realized PnL, trade count)
+ * - Order records, open and historical; open ones are put back in their books on boot
+ * - Executed trades
+ * - Last price of every market and its OHLCV bars
+ * - Competition rounds, with the frozen standings of ended ones
+ * - Backtests players ran, with their results
+ *
+ * Reservations are not stored: they are rebuilt by holding funds for the
+ * restored open orders again.
+ */
+
+import type { BacktestRecord } from './backtest';
+import type { Candle } from './candle-aggregator';
+import type { CompetitionRound } from './competition';
+import type { OrderRecord } from './order-store';
+import type { PortfolioStats } from './portfolio-tracker';
+import type { Trade } from './types';
+
+/**
+ * Registered player account
+ */
+export interface AccountRecord {
+  playerId: string;
+  username: string;
+  passwordHash: string;
+  createdAt: number;
+}
+
+/**
+ * Player portfolio; balance and inventory include reserved amounts
+ */
+export interface PlayerRecord {
+  playerId: string;
+  balance: number;
+  inventory: Record<string, number>;
+  updatedAt: number;
+}
+
+/**
+ * Leaderboard stats of a player
+ */
+export interface PortfolioRecord extends PortfolioStats {
+  playerId: string;
+  updatedAt: number;
+}
+
+/**
+ * Last known state of a market
+ */
+export interface MarketRecord {
+  itemId: string;
+  price: number;
+  updatedAt: number;
+}
+
+/**
+ * Filter for trade history, newest first
+ */
+export interface TradeQuery {
+  itemId?: string;
+  limit?: number;
+}
+
+/**
+ * Storage backend for game state
+ *
+ * Writes are upserts keyed by ID, so saving the same record twice is safe,
+ * except trades: they are only ever inserted, so a reused trade ID fails.
+ */
+export interface GameRepository {
+  loadAccounts(): AccountRecord[];
+  saveAccount(_account: AccountRecord): void;
+
+  loadPlayers(): PlayerRecord[];
+  savePlayers(_players: PlayerRecord[]): void;
+
+  loadPortfolios(): PortfolioRecord[];
+  savePortfolios(_portfolios: PortfolioRecord[]): void;
+
+  loadOrders(): OrderRecord[];
+  loadOpenOrders(): OrderRecord[];
+  saveOrders(_orders: OrderRecord[]): void;
+  deleteOrders(_orderIds: string[]): void;
+
+  /**
+   * Delete filled, cancelled and expired orders last changed before a time
+   * @returns Number of orders deleted
+   */
+  deleteClosedOrders(_before: number): number;
+
+  getTrades(_query?: TradeQuery): Trade[];
+  /**
+   * Insert new trades
+   * @throws Error if a trade ID is already stored
+   */
+  saveTrades(_trades: Trade[]): void;
+
+  loadMarkets(): MarketRecord[];
+  saveMarkets(_markets: MarketRecord[]): void;
+
+  /**
+   * Load the latest bars of every item and interval, oldest first
+   * @param _perSeries - Max bars per item and interval
+   */
+  loadCandles(_perSeries: number): Candle[];
+  saveCandles(_candles: Candle[]): void;
+
+  loadRounds(): CompetitionRound[];
+  saveRounds(_rounds: CompetitionRound[]): void;
+
+  /**
+   * Load a player's backtests, newest first
+   */
+  loadBacktests(_playerId: string): BacktestRecord[];
+  getBacktest(_backtestId: string): BacktestRecord | undefined;
+  saveBacktests(_backtests: BacktestRecord[]): void;
+
+  /**
+   * Run writes atomically: all of them are stored or none
+   */
+  transaction(_fn: () => void): void;
+
+  close(): void;
+}
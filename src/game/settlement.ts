@@ -0,0 +1,304 @@
+/**
+ * Trade settlement against player sessions
+ *
+ * Transfers cash and items between buyer and seller for every matched trade:
+ * - Funds (buy) or items (sell) are reserved in the PlayerSession when an order rests
+ * - Each fill consumes the reservation and moves items to the buyer and cash to
+ *   the seller at the trade price
+ * - Reserved-but-unspent funds are released on price improvement, completion or cancel
+ * - Amending an order re-reserves at its new price and quantity
+ *
+ * Settlement runs wherever the PlayerSession registry lives; trades coming from
+ * an OrderBook only carry order IDs, so the engine keeps its own order registry
+ * to resolve the buyer and seller of each fill.
+ */
+
+import type { OrderAmendment } from './order-book';
+import type { PlayerSession } from './player-session';
+import type { Order, OrderSide, Trade } from './types';
+
+/**
+ * Resolves a player ID to its session (e.g. SessionManager.getSession)
+ */
+export type SessionResolver = (_playerId: string) => PlayerSession | undefined;
+
+/**
+ * Reservation held on behalf of a resting order
+ */
+interface OrderHold {
+  orderId: string;
+  playerId: string;
+  itemId: string;
+  side: OrderSide;
+  price: number;
+  remainingQuantity: number;
+}
+
+/**
+ * Outcome of settling a single trade
+ */
+export interface SettlementResult {
+  tradeId: string;
+  buyerId: string | null;
+  sellerId: string | null;
+  quantity: number;
+  price: number;
+  settled: boolean;
+  error?: string;
+}
+
+/**
+ * Settlement engine holding order funds and settling trades
+ */
+export class SettlementEngine {
+  private holds = new Map<string, OrderHold>();
+
+  /**
+   * Create a settlement engine
+   * @param resolveSession - Lookup for the session owning a player ID
+   */
+  constructor(private readonly resolveSession: SessionResolver) {}
+
+  /**
+   * Reserve funds (buy) or items (sell) for a newly accepted order
+   * @param order - Order being accepted; buy orders must carry a price
+   * @throws Error if the player has no session or lacks unreserved funds/items
+   */
+  hold(order: Order): void {
+    const session = this.resolveSession(order.playerId);
+    if (!session) {
+      throw new Error(`No session for player ${order.playerId}`);
+    }
+
+    const price = order.price ?? 0;
+
+    if (order.side === 'buy') {
+      session.reserveBalance(price * order.quantity);
+    } else {
+      session.reserveInventory(order.itemId, order.quantity);
+    }
+
+    this.holds.set(order.id, {
+      orderId: order.id,
+      playerId: order.playerId,
+      itemId: order.itemId,
+      side: order.side,
+      price,
+      remainingQuantity: order.quantity,
+    });
+  }
+
+  /**
+   * Settle a single trade between its buyer and seller
+   * @param trade - Trade produced by OrderBook.matchOrders
+   * @returns Settlement outcome (settled is false when either side is unknown)
+   */
+  settle(trade: Trade): SettlementResult {
+    const buyHold = this.holds.get(trade.buyOrderId);
+    const sellHold = this.holds.get(trade.sellOrderId);
+
+    const result: SettlementResult = {
+      tradeId: trade.id,
+      buyerId: buyHold?.playerId ?? null,
+      sellerId: sellHold?.playerId ?? null,
+      quantity: trade.quantity,
+      price: trade.price,
+      settled: false,
+    };
+
+    const buyer = buyHold && this.resolveSession(buyHold.playerId);
+    const seller = sellHold && this.resolveSession(sellHold.playerId);
+
+    if (!buyHold || !sellHold || !buyer || !seller) {
+      result.error = `Cannot resolve counterparties for ${trade.id}`;
+      return result;
+    }
+
+    const cost = trade.price * trade.quantity;
+    const reserved = buyHold.price * trade.quantity;
+
+    // The book caps market buys at their reserved price, so this is a last
+    // line of defence for buys held without one; check before mutating
+    if (cost > reserved && buyer.getAvailableBalance() < cost - reserved) {
+      throw new Error(`Insufficient balance to settle ${trade.id} for ${buyHold.playerId}`);
+    }
+
+    // Buyer: the reservation at the order price is consumed; any price
+    // improvement stays in the balance as available funds
+    buyer.releaseBalance(reserved);
+    buyer.updateBalance(-cost);
+    buyer.updateInventory(trade.itemId, trade.quantity);
+
+    // Seller: reserved items leave the inventory in exchange for cash
+    seller.releaseInventory(trade.itemId, trade.quantity);
+    seller.updateInventory(trade.itemId, -trade.quantity);
+    seller.updateBalance(cost);
+
+    this.consume(buyHold, trade.quantity);
+    this.consume(sellHold, trade.quantity);
+
+    result.settled = true;
+    return result;
+  }
+
+  /**
+   * Settle a batch of trades in order
+   * @param trades - Trades produced by a matching pass
+   * @returns Settlement outcome for each trade
+   */
+  settleAll(trades: Trade[]): SettlementResult[] {
+    return trades.map((trade) => {
+      try {
+        return this.settle(trade);
+      } catch (error) {
+        console.error(`Failed to settle ${trade.id}:`, error);
+        return {
+          tradeId: trade.id,
+          buyerId: this.holds.get(trade.buyOrderId)?.playerId ?? null,
+          sellerId: this.holds.get(trade.sellOrderId)?.playerId ?? null,
+          quantity: trade.quantity,
+          price: trade.price,
+          settled: false,
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    });
+  }
+
+  /**
+   * Release whatever is still reserved for an order (cancel or expiry)
+   * @param orderId - Order ID
+   * @returns true if a hold existed and was released
+   */
+  release(orderId: string): boolean {
+    const hold = this.holds.get(orderId);
+    if (!hold) {
+      return false;
+    }
+
+    this.holds.delete(orderId);
+
+    const session = this.resolveSession(hold.playerId);
+    if (!session) {
+      return true;
+    }
+
+    if (hold.side === 'buy') {
+      session.releaseBalance(hold.price * hold.remainingQuantity);
+    } else {
+      session.releaseInventory(hold.itemId, hold.remainingQuantity);
+    }
+
+    return true;
+  }
+
+  /**
+   * Move an order's reservation to its amended price and/or quantity
+   * @param orderId - Order ID
+   * @param amendment - New price and/or remaining quantity
+   * @returns The price and quantity held before, to restore if the amendment fails
+   * @throws Error if the order is not held or the player cannot cover the increase
+   */
+  amend(orderId: string, amendment: OrderAmendment): { price: number; quantity: number } {
+    const hold = this.holds.get(orderId);
+    if (!hold) {
+      throw new Error(`No hold for order ${orderId}`);
+    }
+
+    const session = this.resolveSession(hold.playerId);
+    if (!session) {
+      throw new Error(`No session for player ${hold.playerId}`);
+    }
+
+    const previous = { price: hold.price, quantity: hold.remainingQuantity };
+    const price = amendment.price ?? hold.price;
+    const quantity = amendment.quantity ?? hold.remainingQuantity;
+
+    if (hold.side === 'buy') {
+      const delta = price * quantity - hold.price * hold.remainingQuantity;
+      if (delta > 0) {
+        session.reserveBalance(delta);
+      } else {
+        session.releaseBalance(-delta);
+      }
+    } else {
+      const delta = quantity - hold.remainingQuantity;
+      if (delta > 0) {
+        session.reserveInventory(hold.itemId, delta);
+      } else {
+        session.releaseInventory(hold.itemId, -delta);
+      }
+    }
+
+    hold.price = price;
+    hold.remainingQuantity = quantity;
+    return previous;
+  }
+
+  /**
+   * Release part of an order's reservation (e.g. self-trade decrement)
+   * @param orderId - Order ID
+   * @param quantity - Quantity no longer needed
+   * @returns true if a hold existed
+   */
+  reduce(orderId: string, quantity: number): boolean {
+    const hold = this.holds.get(orderId);
+    if (!hold) {
+      return false;
+    }
+
+    const released = Math.min(quantity, hold.remainingQuantity);
+    const session = this.resolveSession(hold.playerId);
+    if (session) {
+      if (hold.side === 'buy') {
+        session.releaseBalance(hold.price * released);
+      } else {
+        session.releaseInventory(hold.itemId, released);
+      }
+    }
+
+    this.consume(hold, released);
+    return true;
+  }
+
+  /**
+   * Get the player owning a held order
+   * @param orderId - Order ID
+   * @returns Player ID or undefined if the order is not held
+   */
+  getOrderOwner(orderId: string): string | undefined {
+    return this.holds.get(orderId)?.playerId;
+  }
+
+  /**
+   * Get the item a held order trades
+   * @param orderId - Order ID
+   * @returns Item ID or undefined if the order is not held
+   */
+  getOrderItem(orderId: string): string | undefined {
+    return this.holds.get(orderId)?.itemId;
+  }
+
+  /**
+   * Get the quantity still held for an order
+   * @param orderId - Order ID
+   * @returns Remaining held quantity (0 if not held)
+   */
+  getHeldQuantity(orderId: string): number {
+    return this.holds.get(orderId)?.remainingQuantity ?? 0;
+  }
+
+  private consume(hold: OrderHold, quantity: number): void {
+    hold.remainingQuantity -= quantity;
+    if (hold.remainingQuantity <= 0) {
+      this.holds.delete(hold.orderId);
+    }
+  }
+}
+
+/**
+ * Factory function to create a settlement engine
+ */
+export function createSettlementEngine(resolveSession: SessionResolver): SettlementEngine {
+  return new SettlementEngine(resolveSession);
+}
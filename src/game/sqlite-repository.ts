@@ -0,0 +1,489 @@
+/**
+ * SQLite game state repository (bun:sqlite)
+ *
+ * One table per record kind. Order, round and backtest records keep their full JSON in
+ * `data` next to the columns they are looked up by, so new fields need no
+ * migration. Files open in WAL mode so reads do not block the periodic writes.
+ */
+
+import { Database } from 'bun:sqlite';
+import type { BacktestRecord } from './backtest';
+import type { Candle, CandleInterval } from './candle-aggregator';
+import type { CompetitionRound } from './competition';
+import type { OrderRecord } from './order-store';
+import type { PositionCost } from './portfolio-tracker';
+import type {
+  AccountRecord,
+  GameRepository,
+  MarketRecord,
+  PlayerRecord,
+  PortfolioRecord,
+  TradeQuery,
+} from './repository';
+import type { OrderSide, Trade } from './types';
+
+const DEFAULT_TRADE_LIMIT = 100;
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS accounts (
+    player_id TEXT PRIMARY KEY,
+    username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+    password_hash TEXT NOT NULL,
+    created_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS players (
+    player_id TEXT PRIMARY KEY,
+    balance REAL NOT NULL,
+    inventory TEXT NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS portfolios (
+    player_id TEXT PRIMARY KEY,
+    starting_value REAL NOT NULL,
+    realized_pnl REAL NOT NULL,
+    trade_count INTEGER NOT NULL,
+    positions TEXT NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS orders (
+    id TEXT PRIMARY KEY,
+    player_id TEXT NOT NULL,
+    item_id TEXT NOT NULL,
+    status TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    updated_at INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS orders_player ON orders (player_id, timestamp);
+  CREATE INDEX IF NOT EXISTS orders_status ON orders (status, updated_at);
+
+  CREATE TABLE IF NOT EXISTS trades (
+    id TEXT PRIMARY KEY,
+    item_id TEXT NOT NULL,
+    buy_order_id TEXT NOT NULL,
+    sell_order_id TEXT NOT NULL,
+    quantity INTEGER NOT NULL,
+    price REAL NOT NULL,
+    timestamp INTEGER NOT NULL,
+    aggressor_side TEXT
+  );
+  CREATE INDEX IF NOT EXISTS trades_item ON trades (item_id, timestamp);
+
+  CREATE TABLE IF NOT EXISTS markets (
+    item_id TEXT PRIMARY KEY,
+    price REAL NOT NULL,
+    updated_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS candles (
+    item_id TEXT NOT NULL,
+    interval TEXT NOT NULL,
+    open_time INTEGER NOT NULL,
+    close_time INTEGER NOT NULL,
+    open REAL NOT NULL,
+    high REAL NOT NULL,
+    low REAL NOT NULL,
+    close REAL NOT NULL,
+    volume INTEGER NOT NULL,
+    trade_count INTEGER NOT NULL,
+    PRIMARY KEY (item_id, interval, open_time)
+  );
+
+  CREATE TABLE IF NOT EXISTS rounds (
+    round_id TEXT PRIMARY KEY,
+    status TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS backtests (
+    backtest_id TEXT PRIMARY KEY,
+    player_id TEXT NOT NULL,
+    created_at INTEGER NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS backtests_player ON backtests (player_id, created_at);
+`;
+
+interface AccountRow {
+  player_id: string;
+  username: string;
+  password_hash: string;
+  created_at: number;
+}
+
+interface PlayerRow {
+  player_id: string;
+  balance: number;
+  inventory: string;
+  updated_at: number;
+}
+
+interface PortfolioRow {
+  player_id: string;
+  starting_value: number;
+  realized_pnl: number;
+  trade_count: number;
+  positions: string;
+  updated_at: number;
+}
+
+interface TradeRow {
+  id: string;
+  item_id: string;
+  buy_order_id: string;
+  sell_order_id: string;
+  quantity: number;
+  price: number;
+  timestamp: number;
+  aggressor_side: OrderSide | null;
+}
+
+interface MarketRow {
+  item_id: string;
+  price: number;
+  updated_at: number;
+}
+
+interface CandleRow {
+  item_id: string;
+  interval: CandleInterval;
+  open_time: number;
+  close_time: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  trade_count: number;
+}
+
+/**
+ * Game repository backed by a SQLite file (or memory)
+ */
+export class SqliteRepository implements GameRepository {
+  private db: Database;
+
+  /**
+   * Open (and create if needed) a database
+   * @param path - Database file, or ':memory:' for a throwaway store
+   */
+  constructor(path = ':memory:') {
+    this.db = new Database(path, { create: true, strict: true });
+    this.db.run('PRAGMA journal_mode = WAL');
+    this.db.run(SCHEMA);
+  }
+
+  loadAccounts(): AccountRecord[] {
+    return this.db
+      .query<AccountRow, []>('SELECT * FROM accounts ORDER BY created_at')
+      .all()
+      .map((row) => ({
+        playerId: row.player_id,
+        username: row.username,
+        passwordHash: row.password_hash,
+        createdAt: row.created_at,
+      }));
+  }
+
+  saveAccount(account: AccountRecord): void {
+    this.db
+      .query(
+        // Not OR REPLACE: a clash on username must fail, not delete the other account
+        `INSERT INTO accounts (player_id, username, password_hash, created_at)
+         VALUES ($playerId, $username, $passwordHash, $createdAt)
+         ON CONFLICT (player_id) DO UPDATE SET
+           username = excluded.username,
+           password_hash = excluded.password_hash`
+      )
+      .run({ ...account });
+  }
+
+  loadPlayers(): PlayerRecord[] {
+    return this.db
+      .query<PlayerRow, []>('SELECT * FROM players')
+      .all()
+      .map((row) => ({
+        playerId: row.player_id,
+        balance: row.balance,
+        inventory: JSON.parse(row.inventory) as Record<string, number>,
+        updatedAt: row.updated_at,
+      }));
+  }
+
+  savePlayers(players: PlayerRecord[]): void {
+    const statement = this.db.query(
+      `INSERT OR REPLACE INTO players (player_id, balance, inventory, updated_at)
+       VALUES ($playerId, $balance, $inventory, $updatedAt)`
+    );
+    for (const player of players) {
+      statement.run({ ...player, inventory: JSON.stringify(player.inventory) });
+    }
+  }
+
+  loadPortfolios(): PortfolioRecord[] {
+    return this.db
+      .query<PortfolioRow, []>('SELECT * FROM portfolios')
+      .all()
+      .map((row) => ({
+        playerId: row.player_id,
+        startingValue: row.starting_value,
+        realizedPnl: row.realized_pnl,
+        tradeCount: row.trade_count,
+        positions: JSON.parse(row.positions) as Record<string, PositionCost>,
+        updatedAt: row.updated_at,
+      }));
+  }
+
+  savePortfolios(portfolios: PortfolioRecord[]): void {
+    const statement = this.db.query(
+      `INSERT OR REPLACE INTO portfolios
+         (player_id, starting_value, realized_pnl, trade_count, positions, updated_at)
+       VALUES ($playerId, $startingValue, $realizedPnl, $tradeCount, $positions, $updatedAt)`
+    );
+    for (const portfolio of portfolios) {
+      statement.run({ ...portfolio, positions: JSON.stringify(portfolio.positions) });
+    }
+  }
+
+  /**
+   * Load every order record, oldest first
+   */
+  loadOrders(): OrderRecord[] {
+    return this.db
+      .query<{ data: string }, []>('SELECT data FROM orders ORDER BY timestamp, rowid')
+      .all()
+      .map((row) => JSON.parse(row.data) as OrderRecord);
+  }
+
+  /**
+   * Load pending and partially filled orders, oldest first
+   */
+  loadOpenOrders(): OrderRecord[] {
+    return this.db
+      .query<{ data: string }, []>(
+        "SELECT data FROM orders WHERE status IN ('pending', 'partial') ORDER BY timestamp, rowid"
+      )
+      .all()
+      .map((row) => JSON.parse(row.data) as OrderRecord);
+  }
+
+  saveOrders(orders: OrderRecord[]): void {
+    const statement = this.db.query(
+      `INSERT OR REPLACE INTO orders (id, player_id, item_id, status, timestamp, updated_at, data)
+       VALUES ($id, $playerId, $itemId, $status, $timestamp, $updatedAt, $data)`
+    );
+    for (const order of orders) {
+      statement.run({
+        id: order.id,
+        playerId: order.playerId,
+        itemId: order.itemId,
+        status: order.status,
+        timestamp: order.timestamp,
+        updatedAt: order.updatedAt,
+        data: JSON.stringify(order),
+      });
+    }
+  }
+
+  deleteOrders(orderIds: string[]): void {
+    const statement = this.db.query('DELETE FROM orders WHERE id = $id');
+    for (const id of orderIds) {
+      statement.run({ id });
+    }
+  }
+
+  deleteClosedOrders(before: number): number {
+    return this.db
+      .query(
+        "DELETE FROM orders WHERE status NOT IN ('pending', 'partial') AND updated_at < $before"
+      )
+      .run({ before }).changes;
+  }
+
+  /**
+   * Get executed trades, newest first
+   * @param query - Optional item filter and max count (default: 100)
+   */
+  getTrades(query: TradeQuery = {}): Trade[] {
+    const limit = query.limit ?? DEFAULT_TRADE_LIMIT;
+    const rows =
+      query.itemId !== undefined
+        ? this.db
+            .query<
+              TradeRow,
+              { itemId: string; limit: number }
+            >('SELECT * FROM trades WHERE item_id = $itemId ORDER BY timestamp DESC, rowid DESC LIMIT $limit')
+            .all({ itemId: query.itemId, limit })
+        : this.db
+            .query<
+              TradeRow,
+              { limit: number }
+            >('SELECT * FROM trades ORDER BY timestamp DESC, rowid DESC LIMIT $limit')
+            .all({ limit });
+
+    return rows.map((row) => ({
+      id: row.id,
+      buyOrderId: row.buy_order_id,
+      sellOrderId: row.sell_order_id,
+      itemId: row.item_id,
+      quantity: row.quantity,
+      price: row.price,
+      timestamp: row.timestamp,
+      ...(row.aggressor_side ? { aggressorSide: row.aggressor_side } : {}),
+    }));
+  }
+
+  saveTrades(trades: Trade[]): void {
+    const statement = this.db.query(
+      `INSERT INTO trades
+         (id, item_id, buy_order_id, sell_order_id, quantity, price, timestamp, aggressor_side)
+       VALUES ($id, $itemId, $buyOrderId, $sellOrderId, $quantity, $price, $timestamp, $aggressorSide)`
+    );
+    for (const trade of trades) {
+      statement.run({
+        id: trade.id,
+        itemId: trade.itemId,
+        buyOrderId: trade.buyOrderId,
+        sellOrderId: trade.sellOrderId,
+        quantity: trade.quantity,
+        price: trade.price,
+        timestamp: trade.timestamp,
+        aggressorSide: trade.aggressorSide ?? null,
+      });
+    }
+  }
+
+  loadMarkets(): MarketRecord[] {
+    return this.db
+      .query<MarketRow, []>('SELECT * FROM markets')
+      .all()
+      .map((row) => ({ itemId: row.item_id, price: row.price, updatedAt: row.updated_at }));
+  }
+
+  saveMarkets(markets: MarketRecord[]): void {
+    const statement = this.db.query(
+      `INSERT OR REPLACE INTO markets (item_id, price, updated_at)
+       VALUES ($itemId, $price, $updatedAt)`
+    );
+    for (const market of markets) {
+      statement.run({ ...market });
+    }
+  }
+
+  loadCandles(perSeries: number): Candle[] {
+    return this.db
+      .query<CandleRow, { perSeries: number }>(
+        `SELECT * FROM (
+           SELECT *, ROW_NUMBER() OVER (
+             PARTITION BY item_id, interval ORDER BY open_time DESC
+           ) AS age
+           FROM candles
+         )
+         WHERE age <= $perSeries
+         ORDER BY item_id, interval, open_time`
+      )
+      .all({ perSeries })
+      .map((row) => ({
+        itemId: row.item_id,
+        interval: row.interval,
+        openTime: row.open_time,
+        closeTime: row.close_time,
+        open: row.open,
+        high: row.high,
+        low: row.low,
+        close: row.close,
+        volume: row.volume,
+        tradeCount: row.trade_count,
+      }));
+  }
+
+  saveCandles(candles: Candle[]): void {
+    const statement = this.db.query(
+      `INSERT OR REPLACE INTO candles
+         (item_id, interval, open_time, close_time, open, high, low, close, volume, trade_count)
+       VALUES ($itemId, $interval, $openTime, $closeTime, $open, $high, $low, $close, $volume, $tradeCount)`
+    );
+    for (const candle of candles) {
+      statement.run({ ...candle });
+    }
+  }
+
+  /**
+   * Load every competition round, oldest first
+   */
+  loadRounds(): CompetitionRound[] {
+    return this.db
+      .query<{ data: string }, []>('SELECT data FROM rounds ORDER BY created_at, rowid')
+      .all()
+      .map((row) => JSON.parse(row.data) as CompetitionRound);
+  }
+
+  saveRounds(rounds: CompetitionRound[]): void {
+    const statement = this.db.query(
+      `INSERT OR REPLACE INTO rounds (round_id, status, created_at, data)
+       VALUES ($roundId, $status, $createdAt, $data)`
+    );
+    for (const round of rounds) {
+      statement.run({
+        roundId: round.roundId,
+        status: round.status,
+        createdAt: round.createdAt,
+        data: JSON.stringify(round),
+      });
+    }
+  }
+
+  /**
+   * Load a player's backtests, newest first
+   */
+  loadBacktests(playerId: string): BacktestRecord[] {
+    return this.db
+      .query<{ data: string }, [string]>(
+        'SELECT data FROM backtests WHERE player_id = ? ORDER BY created_at DESC, rowid DESC'
+      )
+      .all(playerId)
+      .map((row) => JSON.parse(row.data) as BacktestRecord);
+  }
+
+  getBacktest(backtestId: string): BacktestRecord | undefined {
+    const row = this.db
+      .query<{ data: string }, [string]>('SELECT data FROM backtests WHERE backtest_id = ?')
+      .get(backtestId);
+    return row ? (JSON.parse(row.data) as BacktestRecord) : undefined;
+  }
+
+  saveBacktests(backtests: BacktestRecord[]): void {
+    const statement = this.db.query(
+      `INSERT OR REPLACE INTO backtests (backtest_id, player_id, created_at, data)
+       VALUES ($backtestId, $playerId, $createdAt, $data)`
+    );
+    for (const backtest of backtests) {
+      statement.run({
+        backtestId: backtest.backtestId,
+        playerId: backtest.playerId,
+        createdAt: backtest.createdAt,
+        data: JSON.stringify(backtest),
+      });
+    }
+  }
+
+  transaction(fn: () => void): void {
+    this.db.transaction(fn)();
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+/**
+ * Factory function to create a SQLite repository
+ * @param path - Database file (default: in memory)
+ */
+export function createSqliteRepository(path = ':memory:'): SqliteRepository {
+  return new SqliteRepository(path);
+}
@@ -0,0 +1,209 @@
+/**
+ * Worker thread running one player strategy
+ *
+ * The strategy script runs in its own VM context, which starts with only
+ * the JavaScript builtins. Its hooks, the api object, the promises api
+ * calls return and everything passed to them are created inside that
+ * context, so the script never holds an object of this thread: from an
+ * object of this thread, constructor.constructor would reach its
+ * globalThis. Only strings cross the two bridge functions, which the
+ * script cannot reach directly and which never throw into the context.
+ * Bun, process, fetch and the other runtime globals
+ * of this thread are taken away before the script runs, as a second line
+ * of defence.
+ *
+ * Message protocol: see strategy-worker.ts
+ */
+
+import vm from 'node:vm';
+import type { StrategyHook, StrategyRequest, StrategyWorkerMessage } from './strategy-worker';
+
+declare const self: Worker;
+
+type IncomingMessage =
+  | { type: 'load'; source: string; hookTimeoutMs: number }
+  | { type: 'event'; eventId: number; hook: StrategyHook; payload: string }
+  | { type: 'response'; requestId: number; result: string };
+
+const HOOKS: StrategyHook[] = ['onTick', 'onTrade', 'onFill'];
+
+const RUNTIME_GLOBALS = [
+  'process',
+  'require',
+  'fetch',
+  'WebSocket',
+  'Worker',
+  'XMLHttpRequest',
+  'EventSource',
+  'navigator',
+];
+
+// Runs before the script: builds api and console from the bridge functions,
+// then removes the bridges from the context
+const PRELUDE = `
+const __strategyApi = ((request, log) => {
+  const call = (type, payload) =>
+    new Promise((resolve, reject) => {
+      request(type, JSON.stringify(payload), (result) => {
+        try {
+          resolve(JSON.parse(result));
+        } catch (error) {
+          reject(error);
+        }
+      });
+    });
+  const write = (...args) =>
+    log(args.map((arg) => (typeof arg === 'string' ? arg : JSON.stringify(arg))).join(' '));
+  return Object.freeze({
+    placeOrder: (itemId, order) => call('place-order', { itemId, order }),
+    cancelOrder: (orderId) => call('cancel-order', { orderId }),
+    log: write,
+  });
+})(__request, __log);
+delete globalThis.__request;
+delete globalThis.__log;
+globalThis.console = Object.freeze({
+  log: __strategyApi.log,
+  info: __strategyApi.log,
+  warn: __strategyApi.log,
+  error: __strategyApi.log,
+});
+`;
+
+// Runs after the script: pins the dispatcher and reports the hooks found
+const EPILOGUE = `
+(() => {
+  const hooks = {
+    onTick: typeof onTick === 'function' ? onTick : undefined,
+    onTrade: typeof onTrade === 'function' ? onTrade : undefined,
+    onFill: typeof onFill === 'function' ? onFill : undefined,
+  };
+  Object.defineProperty(globalThis, '__dispatch', {
+    value: (hook, payload) => hooks[hook](JSON.parse(payload), __strategyApi),
+  });
+  return Object.keys(hooks).filter((hook) => hooks[hook]).join(',');
+})()
+`;
+
+const DISPATCH = new vm.Script('__dispatch(__hook, __payload)');
+
+let context: vm.Context;
+let hookTimeoutMs = 100;
+let queue: Promise<void> = Promise.resolve();
+let nextRequestId = 0;
+const pendingRequests = new Map<number, (_result: string) => void>();
+
+type Respond = (_result: string) => void;
+
+function post(message: StrategyWorkerMessage): void {
+  self.postMessage(message);
+}
+
+/**
+ * Take the runtime's globals away from this thread
+ */
+function harden(): void {
+  for (const name of RUNTIME_GLOBALS) {
+    Object.defineProperty(globalThis, name, { value: undefined, configurable: false });
+  }
+
+  // Some Bun properties cannot be redefined; the environment is already empty
+  for (const key of Object.getOwnPropertyNames(Bun)) {
+    try {
+      Object.defineProperty(Bun, key, { value: undefined, configurable: false });
+    } catch {
+      // Not configurable
+    }
+  }
+}
+
+function load(source: string): void {
+  // Bridges return nothing and catch everything, so no object of this thread
+  // reaches the script; results come back as JSON strings
+  context = vm.createContext({
+    __request: (type: StrategyRequest['type'], payload: string, respond: Respond) => {
+      try {
+        const request = { type, ...JSON.parse(String(payload)) };
+        const requestId = nextRequestId++;
+        pendingRequests.set(requestId, respond);
+        post({ type: 'request', requestId, request });
+      } catch (error) {
+        answer(respond, JSON.stringify({ error: formatError(error) }));
+      }
+    },
+    __log: (message: string) => {
+      try {
+        post({ type: 'log', message: String(message) });
+      } catch {
+        // Not a loggable value
+      }
+    },
+  });
+
+  const options = { timeout: hookTimeoutMs };
+  vm.runInContext(PRELUDE, context);
+  vm.runInContext(source, context, { ...options, filename: 'strategy.js' });
+  const found = String(vm.runInContext(EPILOGUE, context, options));
+
+  post({
+    type: 'loaded',
+    hooks: HOOKS.filter((hook) => found.split(',').includes(hook)),
+  });
+}
+
+async function runHook(eventId: number, hook: StrategyHook, payload: string): Promise<void> {
+  try {
+    context.__hook = hook;
+    context.__payload = payload;
+    // Only the synchronous part is timed here; the main thread watches the rest
+    await DISPATCH.runInContext(context, { timeout: hookTimeoutMs });
+    post({ type: 'event-done', eventId });
+  } catch (error) {
+    const timedOut = (error as { code?: string }).code === 'ERR_SCRIPT_EXECUTION_TIMEOUT';
+    post({ type: 'event-done', eventId, error: formatError(error), timedOut });
+  }
+}
+
+/**
+ * Hand a result to the script; whatever its callback throws stays in the context
+ */
+function answer(respond: Respond, result: string): void {
+  try {
+    respond(result);
+  } catch {
+    // Errors of the script's own callback
+  }
+}
+
+function formatError(error: unknown): string {
+  if (error && typeof error === 'object' && 'message' in error) return String(error.message);
+  return String(error);
+}
+
+self.onmessage = (event: MessageEvent<IncomingMessage>) => {
+  const data = event.data;
+
+  switch (data.type) {
+    case 'load':
+      hookTimeoutMs = data.hookTimeoutMs;
+      try {
+        harden();
+        load(data.source);
+      } catch (error) {
+        post({ type: 'load-failed', message: formatError(error) });
+      }
+      break;
+
+    case 'event':
+      // One hook at a time, in arrival order
+      queue = queue.then(() => runHook(data.eventId, data.hook, data.payload));
+      break;
+
+    case 'response': {
+      const respond = pendingRequests.get(data.requestId);
+      pendingRequests.delete(data.requestId);
+      if (respond) answer(respond, data.result);
+      break;
+    }
+  }
+};
@@ -0,0 +1,419 @@
+/**
+ * Strategy Worker - runs a player's trading strategy in its own Bun Worker
+ *
+ * A strategy is a TypeScript or JavaScript script declaring any of these
+ * hooks as top-level functions:
+ * - onTick(market, api) → Latest price and top of book of a market
+ * - onTrade(trade, api) → A trade executed in any market
+ * - onFill(order, api) → One of the player's orders filled (partly)
+ *
+ * `api` has placeOrder(itemId, order), cancelOrder(orderId) and log(...args).
+ * Orders take the same fields as POST /api/markets/:itemId/orders and come
+ * back with the same result; they are placed on the main thread through
+ * whatever request handler the worker is given.
+ *
+ * Isolation:
+ * - The script runs in a fresh VM context inside its own worker thread, with
+ *   no imports, no Bun, process, fetch or timers, and an empty environment
+ * - A hook may use hookTimeoutMs of CPU before it is cut off; a worker that
+ *   stops answering for responseTimeoutMs is terminated. Either stops the
+ *   strategy
+ * - Orders and cancels share a token bucket of ordersPerSecond, up to
+ *   orderBurst at once; requests over it fail with an error
+ * - A busy strategy skips ticks of markets whose last tick it has not
+ *   handled yet, and drops other events once maxPendingEvents are waiting
+ *
+ * Worker message protocol (main thread → worker):
+ * - load → Run the script and report the hooks it declares
+ * - event → Call a hook
+ * - response → Result of a request the script made
+ *
+ * Worker → main thread:
+ * - loaded / load-failed → Outcome of load
+ * - event-done → Hook returned (or threw, or ran out of time)
+ * - request → Script placed or cancelled an order
+ * - log → Script logged a line
+ */
+
+import type { OrderRecord } from './order-store';
+import type { Trade } from './types';
+
+export type StrategyHook = 'onTick' | 'onTrade' | 'onFill';
+
+export type StrategyStatus = 'starting' | 'running' | 'stopped';
+
+/**
+ * Market as a strategy sees it on each tick
+ */
+export interface StrategyMarket {
+  itemId: string;
+  currentPrice: number;
+  volatility: number;
+  bestBid: number | null;
+  bestAsk: number | null;
+  timestamp: number;
+}
+
+export type StrategyEvent =
+  | { type: 'tick'; market: StrategyMarket }
+  | { type: 'trade'; trade: Trade }
+  | { type: 'fill'; order: OrderRecord };
+
+/**
+ * What a strategy asks the main thread to do; orders are checked there
+ */
+export type StrategyRequest =
+  | { type: 'place-order'; itemId: string; order: unknown }
+  | { type: 'cancel-order'; orderId: string };
+
+/**
+ * Carries out a strategy's request
+ * @returns Result handed back to the script (anything JSON-serializable)
+ */
+export type StrategyRequestHandler = (_request: StrategyRequest) => Promise<unknown>;
+
+export interface StrategyLimits {
+  hookTimeoutMs: number; // CPU time of one synchronous hook call
+  responseTimeoutMs: number; // Time the worker may go without progress while busy
+  ordersPerSecond: number; // Sustained order and cancel rate
+  orderBurst: number; // Orders and cancels allowed at once
+  maxPendingEvents: number; // Events waiting on a busy strategy before more are dropped
+}
+
+/**
+ * Running state of a strategy, for its owner
+ */
+export interface StrategyInfo {
+  status: StrategyStatus;
+  stopReason: string | null;
+  hooks: StrategyHook[];
+  eventsHandled: number;
+  eventsDropped: number;
+  ordersPlaced: number;
+  ordersRateLimited: number;
+}
+
+/**
+ * Messages from the worker thread
+ */
+export type StrategyWorkerMessage =
+  | { type: 'loaded'; hooks: StrategyHook[] }
+  | { type: 'load-failed'; message: string }
+  | { type: 'event-done'; eventId: number; error?: string; timedOut?: boolean }
+  | { type: 'request'; requestId: number; request: StrategyRequest }
+  | { type: 'log'; message: string };
+
+const DEFAULT_LIMITS: StrategyLimits = {
+  hookTimeoutMs: 100,
+  responseTimeoutMs: 2000,
+  ordersPerSecond: 5,
+  orderBurst: 10,
+  maxPendingEvents: 100,
+};
+
+const MAX_LOG_LINES = 100;
+const MAX_LOG_LENGTH = 500;
+
+const EVENT_HOOKS: Record<StrategyEvent['type'], StrategyHook> = {
+  tick: 'onTick',
+  trade: 'onTrade',
+  fill: 'onFill',
+};
+
+/**
+ * Turn strategy source into the script a worker runs
+ *
+ * Types are stripped and `export` keywords dropped, so a strategy may be
+ * written as a module; its hooks still have to be top-level functions.
+ * @param source - TypeScript or JavaScript source
+ * @returns JavaScript source
+ * @throws Error if the source does not parse or imports anything
+ */
+export function compileStrategy(source: string): string {
+  const transpiler = new Bun.Transpiler({ loader: 'ts' });
+
+  let imports: ReturnType<Bun.Transpiler['scanImports']>;
+  let code: string;
+  try {
+    imports = transpiler.scanImports(source);
+    code = transpiler.transformSync(source);
+  } catch (error) {
+    throw new Error(`Strategy does not compile: ${formatError(error)}`);
+  }
+
+  if (imports.length > 0 || /\bimport\s*\.\s*meta\b/.test(source)) {
+    throw new Error('Strategies cannot import modules');
+  }
+
+  return code.replace(/^export\s+(?!default\b)/gm, '');
+}
+
+/**
+ * StrategyWorker wraps the Bun.Worker running one strategy
+ */
+export class StrategyWorker {
+  private worker: Worker | null = null;
+  private status: StrategyStatus = 'starting';
+  private stopReason: string | null = null;
+  private hooks: StrategyHook[] = [];
+  private logs: string[] = [];
+  private pendingEvents = new Map<number, string | null>(); // eventId -> item of a tick
+  private waiters = new Map<number, () => void>(); // eventId -> deliver() awaiting it
+  private nextEventId = 0;
+  private lastProgress = 0;
+  private watchdog?: ReturnType<typeof setInterval>;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private stats = { eventsHandled: 0, eventsDropped: 0, ordersPlaced: 0, ordersRateLimited: 0 };
+  private readonly limits: StrategyLimits;
+
+  /**
+   * @param source - Compiled strategy (see compileStrategy)
+   * @param handleRequest - Places and cancels the strategy's orders
+   * @param limits - CPU, responsiveness and order rate limits
+   */
+  constructor(
+    private readonly source: string,
+    private readonly handleRequest: StrategyRequestHandler,
+    limits: Partial<StrategyLimits> = {}
+  ) {
+    this.limits = { ...DEFAULT_LIMITS, ...limits };
+    this.tokens = this.limits.orderBurst;
+  }
+
+  /**
+   * Spawn the worker and run the script
+   * @throws Error if the script fails to load or does not declare any hook
+   */
+  async start(): Promise<void> {
+    const workerPath = import.meta.url.replace('strategy-worker.ts', 'strategy-worker-thread.ts');
+
+    // No environment: secrets must not be readable from player code
+    this.worker = new Worker(workerPath, { type: 'module', env: {} });
+
+    const loaded = new Promise<void>((resolve, reject) => {
+      const fail = (message: string) => {
+        this.stop(message);
+        reject(new Error(message));
+      };
+      const timeout = setTimeout(
+        () => fail('Strategy took too long to load'),
+        this.limits.responseTimeoutMs
+      );
+
+      this.worker?.addEventListener('message', (event: MessageEvent<StrategyWorkerMessage>) => {
+        const message = event.data;
+        if (message.type !== 'loaded' && message.type !== 'load-failed') return;
+
+        clearTimeout(timeout);
+        if (message.type === 'load-failed') {
+          fail(message.message);
+        } else if (message.hooks.length === 0) {
+          fail('Strategy declares no onTick, onTrade or onFill hook');
+        } else {
+          this.hooks = message.hooks;
+          resolve();
+        }
+      });
+    });
+
+    this.worker.onmessage = (event: MessageEvent<StrategyWorkerMessage>) => {
+      this.handleMessage(event.data);
+    };
+    this.worker.onerror = (error) => {
+      this.stop(`Strategy worker crashed: ${error.message}`);
+    };
+
+    this.worker.postMessage({
+      type: 'load',
+      source: this.source,
+      hookTimeoutMs: this.limits.hookTimeoutMs,
+    });
+    await loaded;
+
+    this.status = 'running';
+    this.lastProgress = Date.now();
+    this.watchdog = setInterval(() => this.checkProgress(), this.limits.responseTimeoutMs / 4);
+  }
+
+  /**
+   * Stop the strategy and terminate its worker
+   * @param reason - Why it stopped, shown to its owner
+   */
+  stop(reason = 'Stopped'): void {
+    if (this.status === 'stopped') return;
+
+    this.status = 'stopped';
+    this.stopReason = reason;
+    if (this.watchdog) {
+      clearInterval(this.watchdog);
+      this.watchdog = undefined;
+    }
+    this.worker?.terminate();
+    this.worker = null;
+    this.pendingEvents.clear();
+
+    for (const resolve of this.waiters.values()) resolve();
+    this.waiters.clear();
+  }
+
+  /**
+   * Pass an event to the strategy's hook
+   * @returns Whether the event was sent (false if the strategy has no hook for
+   *   it, is stopped, or is too busy)
+   */
+  dispatch(event: StrategyEvent): boolean {
+    return this.send(event) !== null;
+  }
+
+  /**
+   * Pass an event to the strategy's hook and wait until the hook is done
+   *
+   * Lets a caller drive the strategy one event at a time, as fast as it
+   * handles them (e.g. a backtest). Resolves right away if the event is not
+   * sent, and when the strategy stops.
+   */
+  async deliver(event: StrategyEvent): Promise<void> {
+    const eventId = this.send(event);
+    if (eventId === null) return;
+    await new Promise<void>((resolve) => this.waiters.set(eventId, resolve));
+  }
+
+  getInfo(): StrategyInfo {
+    return {
+      status: this.status,
+      stopReason: this.stopReason,
+      hooks: [...this.hooks],
+      ...this.stats,
+    };
+  }
+
+  /**
+   * Lines the strategy logged and errors its hooks threw, oldest first
+   */
+  getLogs(): string[] {
+    return [...this.logs];
+  }
+
+  /**
+   * Post an event to the worker unless it would be skipped or dropped
+   * @returns ID of the sent event, or null if not sent
+   */
+  private send(event: StrategyEvent): number | null {
+    const hook = EVENT_HOOKS[event.type];
+    if (!this.worker || this.status !== 'running' || !this.hooks.includes(hook)) return null;
+
+    // Ticks only matter while current; other events queue up to a bound
+    const tickItem = event.type === 'tick' ? event.market.itemId : null;
+    const busy =
+      tickItem !== null
+        ? Array.from(this.pendingEvents.values()).includes(tickItem)
+        : this.pendingEvents.size >= this.limits.maxPendingEvents;
+    if (busy) {
+      this.stats.eventsDropped++;
+      return null;
+    }
+
+    const eventId = this.nextEventId++;
+    if (this.pendingEvents.size === 0) this.lastProgress = Date.now();
+    this.pendingEvents.set(eventId, tickItem);
+
+    const payload =
+      event.type === 'tick' ? event.market : event.type === 'trade' ? event.trade : event.order;
+    this.worker.postMessage({ type: 'event', eventId, hook, payload: JSON.stringify(payload) });
+    return eventId;
+  }
+
+  private handleMessage(message: StrategyWorkerMessage): void {
+    switch (message.type) {
+      case 'event-done':
+        if (!this.pendingEvents.delete(message.eventId)) return;
+        this.waiters.get(message.eventId)?.();
+        this.waiters.delete(message.eventId);
+        this.lastProgress = Date.now();
+        this.stats.eventsHandled++;
+        if (message.timedOut) {
+          this.stop(`A hook ran longer than ${this.limits.hookTimeoutMs}ms`);
+        } else if (message.error) {
+          this.log(`Error: ${message.error}`);
+        }
+        break;
+
+      case 'request':
+        this.handleStrategyRequest(message.requestId, message.request).catch((error) => {
+          console.error('Failed to handle strategy request:', error);
+        });
+        break;
+
+      case 'log':
+        this.log(message.message);
+        break;
+    }
+  }
+
+  private async handleStrategyRequest(requestId: number, request: StrategyRequest): Promise<void> {
+    let result: unknown;
+    if (!this.takeToken()) {
+      this.stats.ordersRateLimited++;
+      result = { error: 'Order rate limit exceeded' };
+    } else {
+      try {
+        result = await this.handleRequest(request);
+        const rejected = typeof result === 'object' && result !== null && 'error' in result;
+        if (request.type === 'place-order' && !rejected) this.stats.ordersPlaced++;
+      } catch (error) {
+        result = { error: formatError(error) };
+      }
+    }
+
+    this.lastProgress = Date.now();
+    this.worker?.postMessage({
+      type: 'response',
+      requestId,
+      result: JSON.stringify(result ?? null),
+    });
+  }
+
+  /**
+   * Take one order from the token bucket
+   */
+  private takeToken(now = Date.now()): boolean {
+    const elapsed = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(
+      this.tokens + elapsed * this.limits.ordersPerSecond,
+      this.limits.orderBurst
+    );
+    this.lastRefill = now;
+
+    if (this.tokens < 1) return false;
+    this.tokens--;
+    return true;
+  }
+
+  private checkProgress(): void {
+    if (this.pendingEvents.size === 0) return;
+    if (Date.now() - this.lastProgress > this.limits.responseTimeoutMs) {
+      this.stop(`Strategy stopped responding for ${this.limits.responseTimeoutMs}ms`);
+    }
+  }
+
+  private log(message: string): void {
+    this.logs.push(message.slice(0, MAX_LOG_LENGTH));
+    if (this.logs.length > MAX_LOG_LINES) this.logs.shift();
+  }
+}
+
+function formatError(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Factory function to create a strategy worker
+ */
+export function createStrategyWorker(
+  source: string,
+  handleRequest: StrategyRequestHandler,
+  limits?: Partial<StrategyLimits>
+): StrategyWorker {
+  return new StrategyWorker(source, handleRequest, limits);
+}
@@ -0,0 +1,361 @@
+/**
+ * Trader Bots - automated players that keep markets liquid and moving
+ *
+ * Strategies:
+ * - market-maker: two-sided quotes around the engine price, leaning against
+ *   its position so it drifts back to half cash, half items
+ * - momentum: buys when the short average price climbs above the long one,
+ *   sells when it drops below
+ * - mean-reversion: bids well below the average price, offers well above it
+ * - noise: random orders near the price
+ *
+ * Bots only decide. On each turn a bot looks at its market and account and
+ * returns the orders to cancel and place; the caller sends them through the
+ * same order path players use, so bot fills settle like anyone else's.
+ * Aggressiveness (0-1) scales how often a bot trades, how large its orders
+ * are and how tight it quotes.
+ */
+
+import { createSeededRandom, deriveSeed, randomSeed, type RandomSource } from './random';
+import type { OrderSide } from './types';
+
+export type BotStrategyType = 'market-maker' | 'momentum' | 'mean-reversion' | 'noise';
+
+/**
+ * Bots of one strategy to run on an item's market
+ */
+export interface BotConfig {
+  strategy: BotStrategyType;
+  count: number; // Bots of this strategy per item
+  capital: number; // Starting value of each bot, half cash and half items
+  aggressiveness: number; // 0 (passive) to 1 (aggressive)
+}
+
+/**
+ * Bots run on items that do not configure their own
+ */
+export const DEFAULT_BOTS: BotConfig[] = [
+  { strategy: 'market-maker', count: 2, capital: 1_000_000, aggressiveness: 0.5 },
+  { strategy: 'momentum', count: 1, capital: 250_000, aggressiveness: 0.3 },
+  { strategy: 'mean-reversion', count: 1, capital: 250_000, aggressiveness: 0.3 },
+  { strategy: 'noise', count: 2, capital: 100_000, aggressiveness: 0.5 },
+];
+
+/**
+ * A resting order of the bot
+ */
+export interface BotQuote {
+  orderId: string;
+  side: OrderSide;
+  price: number;
+  quantity: number; // Open quantity
+}
+
+/**
+ * What a bot sees on its turn
+ */
+export interface BotView {
+  price: number; // Current engine price
+  cash: number; // Available balance
+  inventory: number; // Available items
+  openOrders: BotQuote[]; // Oldest first
+}
+
+export interface BotOrder {
+  side: OrderSide;
+  type: 'limit' | 'market';
+  quantity: number;
+  price?: number; // Limit orders only
+}
+
+export interface BotDecision {
+  cancel: string[]; // Order IDs
+  place: BotOrder[];
+}
+
+/**
+ * What a strategy knows besides the view
+ */
+export interface BotContext {
+  history: number[]; // Prices seen on earlier turns, oldest first
+  aggressiveness: number;
+  orderValue: number; // Cash value of a full-size order
+  random: RandomSource;
+}
+
+export interface BotStrategy {
+  readonly type: BotStrategyType;
+  decide(view: BotView, context: BotContext): BotDecision;
+}
+
+const BOT_PREFIX = 'bot-';
+const HISTORY_LENGTH = 50;
+const MAX_ORDER_FRACTION = 0.1; // Of capital, at full aggressiveness
+const MIN_SPREAD = 0.002;
+const MAX_SPREAD = 0.02;
+const SHORT_WINDOW = 5;
+const LONG_WINDOW = 20;
+const MOMENTUM_THRESHOLD = 0.002; // Relative gap between the averages
+const MIN_ENTRY_DEVIATION = 1; // Standard deviations from the mean
+const MAX_ENTRY_DEVIATION = 2.5;
+const NOISE_RANGE = 0.01; // Relative distance of noise limit prices
+const MAX_NOISE_ORDERS = 3;
+
+const NO_ACTION: BotDecision = { cancel: [], place: [] };
+
+/**
+ * Player ID of a bot
+ */
+export function botPlayerId(itemId: string, strategy: BotStrategyType, index: number): string {
+  return `${BOT_PREFIX}${itemId}-${strategy}-${index + 1}`;
+}
+
+export function isBotPlayerId(playerId: string): boolean {
+  return playerId.startsWith(BOT_PREFIX);
+}
+
+/**
+ * Quotes both sides and requotes once the price has moved away from its quotes
+ */
+export class MarketMakerStrategy implements BotStrategy {
+  readonly type = 'market-maker';
+
+  decide(view: BotView, context: BotContext): BotDecision {
+    const halfSpread = (MAX_SPREAD - (MAX_SPREAD - MIN_SPREAD) * context.aggressiveness) / 2;
+    const bids = view.openOrders.filter((order) => order.side === 'buy');
+    const asks = view.openOrders.filter((order) => order.side === 'sell');
+
+    // Requoting cancels everything first, which frees what the quotes hold
+    let cash = view.cash;
+    let items = view.inventory;
+    for (const order of bids) cash += order.price * order.quantity;
+    for (const order of asks) items += order.quantity;
+
+    // Long items: shift both quotes down to sell more than it buys (and up when short)
+    const itemsValue = items * view.price;
+    const skew = cash + itemsValue > 0 ? (itemsValue - cash) / (cash + itemsValue) : 0;
+    const mid = view.price * (1 - skew * halfSpread);
+    const bid = mid * (1 - halfSpread);
+    const ask = mid * (1 + halfSpread);
+
+    const tolerance = (view.price * halfSpread) / 2;
+    if (
+      bids.length === 1 &&
+      asks.length === 1 &&
+      Math.abs(bids[0].price - bid) <= tolerance &&
+      Math.abs(asks[0].price - ask) <= tolerance
+    ) {
+      return NO_ACTION;
+    }
+
+    const place: BotOrder[] = [];
+    const bidQuantity = orderQuantity(context.orderValue, bid, cash / bid);
+    if (bidQuantity > 0)
+      place.push({ side: 'buy', type: 'limit', quantity: bidQuantity, price: bid });
+    const askQuantity = orderQuantity(context.orderValue, ask, items);
+    if (askQuantity > 0)
+      place.push({ side: 'sell', type: 'limit', quantity: askQuantity, price: ask });
+
+    return { cancel: view.openOrders.map((order) => order.orderId), place };
+  }
+}
+
+/**
+ * Follows the trend with market orders
+ */
+export class MomentumStrategy implements BotStrategy {
+  readonly type = 'momentum';
+
+  decide(view: BotView, context: BotContext): BotDecision {
+    const prices = [...context.history, view.price];
+    if (prices.length < LONG_WINDOW) return NO_ACTION;
+    if (context.random.next() >= context.aggressiveness) return NO_ACTION;
+
+    const trend = average(prices.slice(-SHORT_WINDOW)) / average(prices.slice(-LONG_WINDOW)) - 1;
+    const threshold = MOMENTUM_THRESHOLD * (1 - context.aggressiveness / 2);
+
+    if (trend > threshold) {
+      const quantity = orderQuantity(context.orderValue, view.price, view.cash / view.price);
+      if (quantity > 0) return { cancel: [], place: [{ side: 'buy', type: 'market', quantity }] };
+    } else if (trend < -threshold) {
+      const quantity = orderQuantity(context.orderValue, view.price, view.inventory);
+      if (quantity > 0) return { cancel: [], place: [{ side: 'sell', type: 'market', quantity }] };
+    }
+
+    return NO_ACTION;
+  }
+}
+
+/**
+ * Bets on prices returning to their recent average with limit orders that
+ * last one turn
+ */
+export class MeanReversionStrategy implements BotStrategy {
+  readonly type = 'mean-reversion';
+
+  decide(view: BotView, context: BotContext): BotDecision {
+    const cancel = view.openOrders.map((order) => order.orderId);
+    const prices = [...context.history, view.price].slice(-LONG_WINDOW);
+    if (prices.length < LONG_WINDOW) return { cancel, place: [] };
+    if (context.random.next() >= context.aggressiveness) return { cancel, place: [] };
+
+    const mean = average(prices);
+    const stdDev = Math.sqrt(average(prices.map((price) => (price - mean) ** 2)));
+    if (stdDev === 0) return { cancel, place: [] };
+
+    const deviation = (view.price - mean) / stdDev;
+    const entry =
+      MAX_ENTRY_DEVIATION - (MAX_ENTRY_DEVIATION - MIN_ENTRY_DEVIATION) * context.aggressiveness;
+
+    // Orders cancelled this turn free their reservations before new ones go in
+    let cash = view.cash;
+    let items = view.inventory;
+    for (const order of view.openOrders) {
+      if (order.side === 'buy') cash += order.price * order.quantity;
+      else items += order.quantity;
+    }
+
+    if (deviation <= -entry) {
+      const quantity = orderQuantity(context.orderValue, view.price, cash / view.price);
+      if (quantity > 0) {
+        return { cancel, place: [{ side: 'buy', type: 'limit', quantity, price: view.price }] };
+      }
+    } else if (deviation >= entry) {
+      const quantity = orderQuantity(context.orderValue, view.price, items);
+      if (quantity > 0) {
+        return { cancel, place: [{ side: 'sell', type: 'limit', quantity, price: view.price }] };
+      }
+    }
+
+    return { cancel, place: [] };
+  }
+}
+
+/**
+ * Trades at random: market orders, or limit orders close to the price
+ */
+export class NoiseStrategy implements BotStrategy {
+  readonly type = 'noise';
+
+  decide(view: BotView, context: BotContext): BotDecision {
+    // Drop the oldest orders so a few at most stay in the book
+    const excess = view.openOrders.length - MAX_NOISE_ORDERS + 1;
+    const cancel = view.openOrders.slice(0, Math.max(excess, 0)).map((order) => order.orderId);
+    if (context.random.next() >= context.aggressiveness) return { cancel, place: [] };
+
+    const side: OrderSide = context.random.next() < 0.5 ? 'buy' : 'sell';
+    const type = context.random.next() < 0.5 ? 'market' : 'limit';
+    const price = view.price * (1 + (context.random.next() * 2 - 1) * NOISE_RANGE);
+    const value = context.orderValue * context.random.next();
+
+    const quantity =
+      side === 'buy'
+        ? orderQuantity(value, price, view.cash / price)
+        : orderQuantity(value, price, view.inventory);
+    if (quantity === 0) return { cancel, place: [] };
+
+    const order: BotOrder =
+      type === 'market' ? { side, type, quantity } : { side, type, quantity, price };
+    return { cancel, place: [order] };
+  }
+}
+
+/**
+ * A bot trading one item with one strategy
+ */
+export class TraderBot {
+  private history: number[] = [];
+  private readonly strategy: BotStrategy;
+
+  constructor(
+    readonly botId: string,
+    readonly itemId: string,
+    readonly config: BotConfig,
+    private readonly random: RandomSource = createSeededRandom()
+  ) {
+    validateConfig(config);
+    this.strategy = createBotStrategy(config.strategy);
+  }
+
+  /**
+   * Take a turn
+   * @param view - Market and account as they are now
+   * @returns Orders to cancel, then orders to place
+   */
+  decide(view: BotView): BotDecision {
+    const decision = this.strategy.decide(view, {
+      history: this.history,
+      aggressiveness: this.config.aggressiveness,
+      orderValue: this.config.capital * MAX_ORDER_FRACTION * this.config.aggressiveness,
+      random: this.random,
+    });
+
+    this.history.push(view.price);
+    if (this.history.length > HISTORY_LENGTH) this.history.shift();
+    return decision;
+  }
+}
+
+/**
+ * Order size for a cash value, at least one item and at most what the bot
+ * can cover
+ * @returns Whole quantity, 0 if the bot cannot cover one item
+ */
+function orderQuantity(value: number, price: number, available: number): number {
+  return Math.min(Math.max(Math.floor(value / price), 1), Math.floor(available));
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+function validateConfig(config: BotConfig): void {
+  if (!Number.isInteger(config.count) || config.count < 0) {
+    throw new Error(`Invalid ${config.strategy} bot count`);
+  }
+  if (!(config.capital > 0)) {
+    throw new Error(`Invalid ${config.strategy} bot capital`);
+  }
+  if (!(config.aggressiveness >= 0 && config.aggressiveness <= 1)) {
+    throw new Error(`${config.strategy} bot aggressiveness must be between 0 and 1`);
+  }
+}
+
+/**
+ * Factory function to create a bot strategy
+ */
+export function createBotStrategy(type: BotStrategyType): BotStrategy {
+  switch (type) {
+    case 'market-maker':
+      return new MarketMakerStrategy();
+    case 'momentum':
+      return new MomentumStrategy();
+    case 'mean-reversion':
+      return new MeanReversionStrategy();
+    case 'noise':
+      return new NoiseStrategy();
+  }
+}
+
+/**
+ * Create the bots of an item
+ * @param itemId - Item the bots trade
+ * @param configs - Strategies with their count, capital and aggressiveness
+ * @param seed - Base seed; each bot derives its own from it and its ID
+ * @throws Error if a config is invalid
+ */
+export function createTraderBots(
+  itemId: string,
+  configs: BotConfig[] = DEFAULT_BOTS,
+  seed: number = randomSeed()
+): TraderBot[] {
+  const bots: TraderBot[] = [];
+  for (const config of configs) {
+    validateConfig(config);
+    for (let i = 0; i < config.count; i++) {
+      const botId = botPlayerId(itemId, config.strategy, i);
+      bots.push(new TraderBot(botId, itemId, config, createSeededRandom(deriveSeed(seed, botId))));
+    }
+  }
+  return bots;
+}
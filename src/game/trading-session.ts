@@ -0,0 +1,62 @@
+/**
+ * Trading Session - fixed-length game sessions that day orders expire with
+ *
+ * Sessions are back-to-back windows of the configured length, aligned to the
+ * offset (UTC epoch by default), so every market agrees on when the current
+ * session closes without any shared state.
+ */
+
+export interface TradingSessionConfig {
+  length: number; // Session length in ms
+  offset: number; // Start of any one session, in ms since epoch
+}
+
+/**
+ * Computes session boundaries
+ */
+export class TradingSession {
+  private config: TradingSessionConfig;
+
+  /**
+   * @param config - Session length and alignment (default: 1 hour from epoch)
+   */
+  constructor(config?: Partial<TradingSessionConfig>) {
+    this.config = {
+      length: 60 * 60 * 1000,
+      offset: 0,
+      ...config,
+    };
+
+    if (!(this.config.length > 0)) {
+      throw new Error('Session length must be positive');
+    }
+  }
+
+  /**
+   * Get when the session containing a time started
+   * @param now - Time in ms (default: now)
+   */
+  getSessionStart(now = Date.now()): number {
+    const { length, offset } = this.config;
+    return Math.floor((now - offset) / length) * length + offset;
+  }
+
+  /**
+   * Get when the session containing a time ends (exclusive)
+   * @param now - Time in ms (default: now)
+   */
+  getSessionEnd(now = Date.now()): number {
+    return this.getSessionStart(now) + this.config.length;
+  }
+
+  getLength(): number {
+    return this.config.length;
+  }
+}
+
+/**
+ * Factory function to create a trading session clock
+ */
+export function createTradingSession(config?: Partial<TradingSessionConfig>): TradingSession {
+  return new TradingSession(config);
+}
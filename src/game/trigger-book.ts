@@ -0,0 +1,172 @@
+/**
+ * Trigger Book - stop, stop-limit and trailing-stop orders waiting to fire
+ *
+ * Stop orders do not rest in the bid/ask heaps. They wait here until the
+ * reference price (last trade or simulated market price) reaches their stop
+ * price, then convert into a normal order for the OrderBook:
+ * - stop → market
+ * - stop-limit → limit at the order's price
+ * - trailing-stop → market, with a stop that ratchets behind the best price
+ *
+ * Sell stops fire when price <= stopPrice; buy stops fire when price >= stopPrice.
+ */
+
+import type { Order, OrderSide, OrderType } from './types';
+
+export const STOP_ORDER_TYPES: OrderType[] = ['stop', 'stop-limit', 'trailing-stop'];
+
+/**
+ * Check whether an order waits in the trigger book rather than the order book
+ */
+export function isStopOrder(order: Pick<Order, 'type'>): boolean {
+  return STOP_ORDER_TYPES.includes(order.type);
+}
+
+/**
+ * Record of a stop order converting into a live order
+ */
+export interface TriggerEvent {
+  orderId: string;
+  playerId: string;
+  itemId: string;
+  side: OrderSide;
+  quantity: number;
+  type: OrderType; // Type the order converted into
+  stopPrice: number;
+  triggerPrice: number; // Reference price that tripped the stop
+  triggeredAt: number;
+}
+
+/**
+ * Holds untriggered stop orders for one market
+ */
+export class TriggerBook {
+  private orders = new Map<string, Order>();
+
+  /**
+   * Add a stop order
+   * @param order - Stop, stop-limit or trailing-stop order
+   * @param referencePrice - Current price, required to place a trailing stop
+   * @throws Error if the order is missing the fields its type needs
+   */
+  add(order: Order, referencePrice?: number): void {
+    switch (order.type) {
+      case 'stop':
+        if (order.stopPrice === undefined) throw new Error('Stop orders require a stop price');
+        break;
+      case 'stop-limit':
+        if (order.stopPrice === undefined || order.price === undefined) {
+          throw new Error('Stop-limit orders require a stop price and a limit price');
+        }
+        break;
+      case 'trailing-stop':
+        if (order.trailingOffset === undefined || order.trailingOffset <= 0) {
+          throw new Error('Trailing-stop orders require a positive trailing offset');
+        }
+        if (referencePrice === undefined) {
+          throw new Error('No reference price to place trailing stop');
+        }
+        order.stopPrice =
+          order.side === 'sell'
+            ? referencePrice - order.trailingOffset
+            : referencePrice + order.trailingOffset;
+        break;
+      default:
+        throw new Error(`Not a stop order: ${order.type}`);
+    }
+
+    this.orders.set(order.id, order);
+  }
+
+  /**
+   * Put back a waiting stop order exactly as it was, trailing stop included
+   * (e.g. from a snapshot)
+   */
+  restore(order: Order): void {
+    this.orders.set(order.id, order);
+  }
+
+  /**
+   * Remove a stop order (cancel)
+   * @returns true if the order was waiting here
+   */
+  remove(orderId: string): boolean {
+    return this.orders.delete(orderId);
+  }
+
+  /**
+   * Get a waiting stop order by ID
+   */
+  get(orderId: string): Order | undefined {
+    return this.orders.get(orderId);
+  }
+
+  /**
+   * Get all waiting stop orders, oldest first
+   */
+  getOrders(): Order[] {
+    return Array.from(this.orders.values());
+  }
+
+  size(): number {
+    return this.orders.size;
+  }
+
+  /**
+   * Ratchet trailing stops and fire every stop the price has reached
+   * @param price - Reference price (last trade or market price)
+   * @returns Triggered orders, converted to market/limit and removed from this book
+   */
+  check(price: number): { order: Order; event: TriggerEvent }[] {
+    const fired: { order: Order; event: TriggerEvent }[] = [];
+    const now = Date.now();
+
+    for (const order of this.orders.values()) {
+      if (order.type === 'trailing-stop' && order.trailingOffset !== undefined) {
+        const trailed =
+          order.side === 'sell' ? price - order.trailingOffset : price + order.trailingOffset;
+        order.stopPrice =
+          order.side === 'sell'
+            ? Math.max(order.stopPrice ?? trailed, trailed)
+            : Math.min(order.stopPrice ?? trailed, trailed);
+      }
+
+      const stopPrice = order.stopPrice;
+      if (stopPrice === undefined) continue;
+
+      const reached = order.side === 'sell' ? price <= stopPrice : price >= stopPrice;
+      if (!reached) continue;
+
+      order.type = order.type === 'stop-limit' ? 'limit' : 'market';
+      order.triggeredAt = now;
+
+      fired.push({
+        order,
+        event: {
+          orderId: order.id,
+          playerId: order.playerId,
+          itemId: order.itemId,
+          side: order.side,
+          quantity: order.quantity,
+          type: order.type,
+          stopPrice,
+          triggerPrice: price,
+          triggeredAt: now,
+        },
+      });
+    }
+
+    for (const { order } of fired) {
+      this.orders.delete(order.id);
+    }
+
+    return fired;
+  }
+}
+
+/**
+ * Factory function to create a trigger book
+ */
+export function createTriggerBook(): TriggerBook {
+  return new TriggerBook();
+}
@@ -3,8 +3,10 @@
  */
 
 export type OrderSide = 'buy' | 'sell';
-export type OrderType = 'limit' | 'market';
-export type OrderStatus = 'pending' | 'filled' | 'cancelled' | 'partial';
+export type OrderType = 'limit' | 'market' | 'stop' | 'stop-limit' | 'trailing-stop';
+export type OrderStatus = 'pending' | 'filled' | 'cancelled' | 'partial' | 'expired';
+export type TimeInForce = 'gtc' | 'ioc' | 'fok' | 'gtd' | 'day'; // Defaults: ioc for market orders, gtc otherwise
+export type SelfTradePrevention = 'cancel-newest' | 'cancel-oldest' | 'cancel-both' | 'decrement';
 
 export interface Order {
   id: string;
@@ -14,6 +16,16 @@ export interface Order {
   side: OrderSide;
   quantity: number;
   price?: number;
+  stopPrice?: number; // Trigger price for stop orders (trails the market for trailing-stop)
+  trailingOffset?: number; // Distance a trailing stop keeps from the best price seen
+  triggeredAt?: number; // When a stop order converted into a live order
+  timeInForce?: TimeInForce;
+  expiresAt?: number; // Expiry time for gtd and day orders
+  displayQuantity?: number; // Iceberg: quantity shown at a time, refilled from the rest
+  hidden?: boolean; // Matches without ever appearing in public depth
+  selfTradePrevention?: SelfTradePrevention; // Applied when this order takes; default cancel-newest
+  postOnly?: boolean; // Rejected instead of taking liquidity on entry
+  reduceOnly?: boolean; // May only shrink the player's position in the item
   timestamp: number;
   status: OrderStatus;
 }
@@ -26,6 +38,7 @@ export interface Trade {
   quantity: number;
   price: number;
   timestamp: number;
+  aggressorSide?: OrderSide; // Side of the incoming (taker) order
 }
 
 export interface Player {
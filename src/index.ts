@@ -1,6 +1,45 @@
 import { Elysia, t } from 'elysia';
 import { staticPlugin } from '@elysiajs/static';
-import { apiRoutes, marketEngine, orderBook } from './api/controllers';
+import {
+  apiRoutes,
+  bots,
+  competitions,
+  handleExpired,
+  handleSelfTrades,
+  handleTrades,
+  handleTriggers,
+  marketAdmin,
+  news,
+  persistence,
+  refreshLeaderboard,
+  strategies,
+} from './api/controllers';
+import { SESSION_COOKIE, authService } from './api/auth';
+import { DEFAULT_ITEMS, marketRegistry } from './api/markets';
+import { sessionManager } from './api/sessions';
+import { MARKET_TOPIC, marketStream, playerTopic } from './api/stream';
+
+// Set MARKET_SEED to replay the exact same price paths across runs
+const seed = process.env.MARKET_SEED ? Number(process.env.MARKET_SEED) : undefined;
+if (seed !== undefined && Number.isNaN(seed)) {
+  throw new Error(`Invalid MARKET_SEED: ${process.env.MARKET_SEED}`);
+}
+
+// Markets resume from their last saved prices (running competition rounds
+// included), then open orders go back in the books
+const prices = persistence.load();
+competitions.restore(persistence.loadRounds());
+await marketRegistry.start(DEFAULT_ITEMS, { seed, prices });
+if (seed !== undefined) console.log(`Markets seeded with ${seed}`);
+await competitions.resume();
+const restored = await persistence.restoreOpenOrders();
+if (restored > 0) console.log(`Restored ${restored} open orders`);
+
+// Set TRADER_BOTS=off to leave the books to players
+if (process.env.TRADER_BOTS !== 'off') bots.start(DEFAULT_ITEMS, seed);
+
+// Set NEWS_EVENTS=off to keep to scheduled news only
+news.start({ seed, randomEvents: process.env.NEWS_EVENTS !== 'off' });
 
 const app = new Elysia()
   .use(
@@ -14,38 +53,105 @@ const app = new Elysia()
   )
   .use(apiRoutes)
   .ws('/api/market/stream', {
+    query: t.Object({
+      token: t.Optional(t.String()),
+    }),
     open(ws) {
-      const market = marketEngine.getMarketState();
-      ws.send(
-        JSON.stringify({
-          type: 'init',
-          data: {
-            ...market,
-            bestBid: orderBook.getBestBid(),
-            bestAsk: orderBook.getBestAsk(),
-          },
-        })
-      );
+      ws.subscribe(MARKET_TOPIC);
+
+      // Authenticated sockets also receive their player's private order events
+      // (browsers cannot set headers on WebSockets, so the token may come in the query)
+      const playerId = ws.data.query.token
+        ? authService.verifyToken(ws.data.query.token)
+        : authService.resolve(undefined, ws.data.cookie[SESSION_COOKIE]?.value);
+      if (playerId && sessionManager.getSession(playerId)) {
+        ws.subscribe(playerTopic(playerId));
+      }
+
+      for (const item of marketRegistry.listItems()) {
+        const market = marketRegistry.getSnapshot(item.itemId);
+        if (!market) continue;
+        ws.send(JSON.stringify({ type: 'init', data: { ...market, timestamp: Date.now() } }));
+      }
+      for (const halt of marketRegistry.getHalts().listHalts()) {
+        ws.send(
+          JSON.stringify({ type: 'halt', data: { ...halt, halted: true, timestamp: Date.now() } })
+        );
+      }
     },
   })
   .listen(3000);
 
-setInterval(() => {
-  marketEngine.updatePrice();
-  orderBook.matchOrders();
-
-  const market = marketEngine.getMarketState();
-  const update = {
-    type: 'price',
-    data: {
-      ...market,
-      bestBid: orderBook.getBestBid(),
-      bestAsk: orderBook.getBestAsk(),
-      timestamp: Date.now(),
-    },
-  };
+marketStream.setPublisher((topic, message) => {
+  app.server?.publish(topic, message);
+});
+
+let ticking = false;
+
+setInterval(async () => {
+  if (ticking) return;
+  ticking = true;
+
+  try {
+    marketAdmin.resumeExpired();
 
-  app.server?.publish('/api/market/stream', JSON.stringify(update));
+    for (const tick of await marketRegistry.tickAll()) {
+      const { trades, triggered, expired, selfTrades, market, depthDiff, candles, halt } = tick;
+      handleTriggers(triggered);
+      handleTrades(trades);
+      handleSelfTrades(selfTrades);
+      handleExpired(expired);
+      persistence.recordCandles(candles);
+      marketStream.publishMarket('price', market);
+      if (depthDiff) marketStream.publishDepth(depthDiff);
+      for (const update of candles) marketStream.publishCandle(update);
+      if (halt) marketStream.publishHalt(halt, true);
+    }
+  } catch (error) {
+    console.error('Failed to tick markets:', error);
+  } finally {
+    ticking = false;
+  }
 }, 50);
 
+setInterval(refreshLeaderboard, 1000);
+
+// Strategies see each market a few times a second rather than on every tick
+setInterval(() => strategies.publishTicks(), 250);
+
+// Start and end competition rounds on time
+setInterval(() => {
+  competitions.update().catch((error) => {
+    console.error('Failed to update competitions:', error);
+  });
+}, 1000);
+
+setInterval(() => {
+  news.update().catch((error) => {
+    console.error('Failed to update market news:', error);
+  });
+}, 1000);
+
+setInterval(() => {
+  bots.run().catch((error) => {
+    console.error('Failed to run trader bots:', error);
+  });
+}, 1000);
+
+// Save what changed every second, and everything once more on shutdown
+setInterval(() => {
+  try {
+    persistence.flush();
+  } catch (error) {
+    console.error('Failed to save game state:', error);
+  }
+}, 1000);
+
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, () => {
+    persistence.close();
+    process.exit(0);
+  });
+}
+
 console.log(`🦊 Elysia is running at ${app.server?.hostname}:${app.server?.port}`);
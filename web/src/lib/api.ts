@@ -6,52 +6,127 @@ export const api = treaty(baseUrl);
 
 export type OrderInput = {
   side: 'buy' | 'sell';
-  type: 'limit' | 'market';
+  type: 'limit' | 'market' | 'stop' | 'stop-limit' | 'trailing-stop';
   price?: number;
+  stopPrice?: number;
+  trailingOffset?: number;
+  timeInForce?: 'gtc' | 'ioc' | 'fok' | 'gtd' | 'day';
+  expiresAt?: number;
+  displayQuantity?: number;
+  hidden?: boolean;
+  selfTradePrevention?: 'cancel-newest' | 'cancel-oldest' | 'cancel-both' | 'decrement';
+  postOnly?: boolean;
+  reduceOnly?: boolean;
   quantity: number;
 };
 
-export async function createSession(): Promise<{ playerId: string }> {
+export interface AuthSession {
+  playerId: string;
+  token: string;
+}
+
+// Session token saved by the layout; sent as a bearer token on player requests
+function authHeaders(): Record<string, string> {
+  const token = globalThis.localStorage?.getItem('token');
+  return token ? { authorization: `Bearer ${token}` } : {};
+}
+
+export async function createSession(): Promise<AuthSession> {
   const result = await api['/api/session'].post(undefined);
   if (result.error || !result.data) throw new Error('Failed to create session');
-  return result.data as { playerId: string };
+  return result.data as AuthSession;
+}
+
+export async function register(username: string, password: string): Promise<AuthSession> {
+  const result = await api['/api/auth/register'].post({ username, password });
+  if (result.error || !result.data || 'error' in result.data) {
+    throw new Error('Registration failed');
+  }
+  return result.data as AuthSession;
+}
+
+export async function login(username: string, password: string): Promise<AuthSession> {
+  const result = await api['/api/auth/login'].post({ username, password });
+  if (result.error || !result.data || 'error' in result.data) {
+    throw new Error('Invalid username or password');
+  }
+  return result.data as AuthSession;
 }
 
 export async function getPlayerState(playerId: string) {
-  const result = await api['/api/player'][{ playerId }].get();
+  const result = await api['/api/player'][{ playerId }].get({ headers: authHeaders() });
   if (result.error) throw new Error((result.error as any).message);
   return result.data;
 }
 
-export async function getMarket() {
-  const result = await api['/api/market'].get();
+export async function getMarkets() {
+  const result = await api['/api/markets'].get();
   if (result.error) throw new Error((result.error as any).message);
   return result.data;
 }
 
-export async function submitOrder(
-  playerId: string,
-  order: { side: 'buy' | 'sell'; type: 'limit' | 'market'; price?: number; quantity: number }
+export async function getMarket(itemId = 'BTC') {
+  const result = await api['/api/markets'][{ itemId }].get();
+  if (result.error) throw new Error((result.error as any).message);
+  return result.data;
+}
+
+export async function getDepth(itemId = 'BTC', levels = 20) {
+  const result = await api['/api/markets'][{ itemId }]['depth'].get({ query: { levels } });
+  if (result.error) throw new Error((result.error as any).message);
+  return result.data;
+}
+
+export async function getCandles(
+  itemId = 'BTC',
+  query: { interval?: '1s' | '1m' | '5m' | '1h'; from?: number; to?: number; limit?: number } = {}
 ) {
-  const result = await api['/api/orders'].post(order, {
-    headers: { 'x-player-id': playerId },
+  const result = await api['/api/markets'][{ itemId }]['candles'].get({ query });
+  if (result.error) throw new Error((result.error as any).message);
+  return result.data;
+}
+
+export async function submitOrder(order: OrderInput, itemId = 'BTC') {
+  const result = await api['/api/markets'][{ itemId }]['orders'].post(order, {
+    headers: authHeaders(),
   });
   if (result.error) throw new Error((result.error as any).message);
   return result.data;
 }
 
-export async function getPlayerOrders(playerId: string) {
-  const result = await api['/api/orders'][{ playerId }].get();
-  return result.data ?? [];
+export async function getPlayerOrders(playerId: string, status = 'open') {
+  const result = await api['/api/player'][{ playerId }]['orders'].get({
+    query: { status },
+    headers: authHeaders(),
+  });
+  return result.data?.orders ?? [];
+}
+
+export async function getOrder(orderId: string) {
+  const result = await api['/api/orders'][{ orderId }].get({ headers: authHeaders() });
+  if (result.error) throw new Error((result.error as any).message);
+  return result.data;
 }
 
 export async function cancelOrder(orderId: string) {
-  const result = await api['/api/orders'][{ orderId }].delete();
+  const result = await api['/api/orders'][{ orderId }].delete(undefined, {
+    headers: authHeaders(),
+  });
+  return result.data;
+}
+
+export async function amendOrder(
+  orderId: string,
+  amendment: { price?: number; quantity?: number }
+) {
+  const result = await api['/api/orders'][{ orderId }].patch(amendment, {
+    headers: authHeaders(),
+  });
   return result.data;
 }
 
 export type MarketUpdate = {
-  type: 'init' | 'price' | 'trade';
+  type: 'init' | 'price';
   data: {
     itemId: string;
     currentPrice: number;
@@ -61,8 +136,87 @@ export type MarketUpdate = {
   };
 };
 
-export function subscribeToMarketStream(onUpdate: (update: MarketUpdate) => void) {
-  const ws = new WebSocket('ws://localhost:3000/api/market/stream');
+export interface TradeUpdate {
+  type: 'trade';
+  data: {
+    id: string;
+    itemId: string;
+    price: number;
+    quantity: number;
+    aggressorSide: 'buy' | 'sell' | null;
+    timestamp: number;
+  };
+}
+
+export interface OrderUpdate {
+  type: 'order';
+  data: {
+    event:
+      | 'accepted'
+      | 'triggered'
+      | 'amended'
+      | 'partially-filled'
+      | 'filled'
+      | 'reduced'
+      | 'cancelled'
+      | 'expired'
+      | 'rejected';
+    orderId: string;
+    itemId: string;
+    side: 'buy' | 'sell';
+    quantity: number;
+    filledQuantity: number;
+    remainingQuantity: number;
+    avgFillPrice: number | null;
+    stopPrice?: number;
+    tradeId?: string;
+    triggerPrice?: number;
+    reason?: string;
+    timestamp: number;
+  };
+}
+
+export interface PriceLevel {
+  price: number;
+  quantity: number;
+  orderCount: number;
+}
+
+export interface DepthUpdate {
+  type: 'depth';
+  data: {
+    itemId: string;
+    sequence: number;
+    previousSequence: number;
+    bids: PriceLevel[];
+    asks: PriceLevel[];
+    timestamp: number;
+  };
+}
+
+export interface Candle {
+  itemId: string;
+  interval: '1s' | '1m' | '5m' | '1h';
+  openTime: number;
+  closeTime: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+  tradeCount: number;
+}
+
+export interface CandleUpdate {
+  type: 'candle';
+  data: Candle & { closed: boolean };
+}
+
+export type StreamMessage = MarketUpdate | TradeUpdate | OrderUpdate | DepthUpdate | CandleUpdate;
+
+export function subscribeToMarketStream(onUpdate: (update: StreamMessage) => void, token?: string) {
+  const query = token ? `?token=${encodeURIComponent(token)}` : '';
+  const ws = new WebSocket(`ws://localhost:3000/api/market/stream${query}`);
 
   ws.onopen = () => {
     console.log('WebSocket connected');